@@ -0,0 +1,87 @@
+/**
+ * Executes repository calls against the server's local repositories.
+ */
+
+import {
+  subscribeToChanges,
+  waitForCapturedTransactions,
+  type ChangeSet,
+} from '../src/lib/changes';
+import {
+  decodeRpcValue,
+  encodeRpcValue,
+  isRemoteRepositoryMethod,
+  type RpcRequest,
+  type RpcResponse,
+} from '../src/lib/remote';
+import { createLocalDataSource } from '../src/lib/repositories';
+
+/** Repositories the server calls into. */
+const dataSource = createLocalDataSource();
+
+/** Tail of the call queue; calls run one at a time. */
+let queue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Runs one repository call and collects the change sets it committed.
+ *
+ * @param request - Parsed request body.
+ * @returns The response body.
+ */
+async function execute(request: RpcRequest): Promise<RpcResponse> {
+  if (
+    typeof request?.repository !== 'string' ||
+    typeof request.method !== 'string' ||
+    !Array.isArray(request.args) ||
+    !isRemoteRepositoryMethod(request.repository, request.method)
+  ) {
+    return { ok: false, error: 'Unknown repository method.' };
+  }
+
+  const repository = dataSource[request.repository] as unknown as Record<
+    string,
+    (...args: unknown[]) => Promise<unknown>
+  >;
+  const changeSets: ChangeSet[] = [];
+  const unsubscribe = subscribeToChanges((changeSet) => {
+    changeSets.push(changeSet);
+  });
+  try {
+    const args = decodeRpcValue(request.args) as unknown[];
+    const result = await repository[request.method](...args);
+    // Dexie resolves a write before its transaction's complete event fires.
+    await waitForCapturedTransactions();
+    return {
+      ok: true,
+      result: await encodeRpcValue(result),
+      changeSets: (await encodeRpcValue(changeSets)) as ChangeSet[],
+    };
+  } catch (err) {
+    return {
+      ok: false,
+      error: err instanceof Error ? err.message : 'Request failed.',
+    };
+  } finally {
+    unsubscribe();
+  }
+}
+
+/**
+ * Queues a repository call behind any call in progress and runs it.
+ *
+ * @param request - Parsed request body.
+ * @returns The response body and whether the call changed data.
+ */
+export function handleRpc(
+  request: RpcRequest
+): Promise<{ response: RpcResponse; changed: boolean }> {
+  const run = queue.then(async () => {
+    const response = await execute(request);
+    return {
+      response,
+      changed: response.ok && response.changeSets.length > 0,
+    };
+  });
+  queue = run.catch(() => undefined);
+  return run;
+}
@@ -0,0 +1,71 @@
+/**
+ * Serves sync requests against the reference sync store.
+ */
+
+import type { SyncRequest, SyncResponse } from '../src/lib/sync';
+import { applyPush, getRows, getRowsSince } from './syncStore';
+
+/** Largest number of changed rows returned by one pull. */
+export const SYNC_PAGE_SIZE = 500;
+
+/**
+ * Returns whether a parsed body is a well-formed sync request.
+ *
+ * @param request - Parsed request body.
+ * @returns True when the request can be applied.
+ */
+function isSyncRequest(request: SyncRequest): boolean {
+  return (
+    typeof request?.since === 'number' &&
+    Array.isArray(request.changes) &&
+    request.changes.every(
+      (change) =>
+        typeof change?.table === 'string' &&
+        typeof change.key === 'string' &&
+        typeof change.modifiedAt === 'string' &&
+        typeof change.values === 'object' &&
+        typeof change.fieldModifiedAt === 'object' &&
+        Array.isArray(change.changedFields)
+    )
+  );
+}
+
+/**
+ * Merges a client's pushed changes and returns the rows it needs: rows changed
+ * after its cursor and the merged state of every row it pushed.
+ *
+ * @param request - Parsed request body.
+ * @returns The response body and whether the request changed data.
+ */
+export function handleSync(request: SyncRequest): {
+  response: SyncResponse;
+  changed: boolean;
+} {
+  if (!isSyncRequest(request)) {
+    return {
+      response: { ok: false, error: 'Invalid sync request.' },
+      changed: false,
+    };
+  }
+
+  const { collisions, changed } = applyPush(request.changes);
+  const page = getRowsSince(request.since, SYNC_PAGE_SIZE);
+  const pageKeys = new Set(
+    page.rows.map((row) => JSON.stringify([row.table, row.key]))
+  );
+  const pushed = getRows(
+    request.changes.filter(
+      (change) => !pageKeys.has(JSON.stringify([change.table, change.key]))
+    )
+  );
+  return {
+    response: {
+      ok: true,
+      cursor: page.cursor,
+      hasMore: page.hasMore,
+      rows: [...page.rows, ...pushed],
+      collisions,
+    },
+    changed,
+  };
+}
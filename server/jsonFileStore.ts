@@ -0,0 +1,85 @@
+/**
+ * Persists the server's database as one JSON file. The whole file is loaded at
+ * startup and rewritten (via a temporary file and rename) after each change.
+ */
+
+import { readFile, rename, writeFile } from 'node:fs/promises';
+import { setCurrentTransactionOrigin } from '../src/lib/changes';
+import { db } from '../src/lib/db';
+import { decodeRpcValue, encodeRpcValue } from '../src/lib/remote';
+
+/** Format identifier written into the data file. */
+export const DATA_FILE_FORMAT = 'questloom-server-data';
+
+/**
+ * Contents of the data file. Rows are encoded like RPC values, so map image
+ * blobs are stored as base64.
+ */
+interface DataFile {
+  format: typeof DATA_FILE_FORMAT;
+  schemaVersion: number;
+  tables: Record<string, unknown[]>;
+}
+
+/**
+ * Loads the data file into the database. A missing file starts an empty store.
+ *
+ * @param path - Path of the JSON data file.
+ * @returns Number of rows loaded.
+ * @throws Error when the file is not a QuestLoom data file or was written by a newer schema.
+ */
+export async function loadDataFile(path: string): Promise<number> {
+  let text: string;
+  try {
+    text = await readFile(path, 'utf8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return 0;
+    throw err;
+  }
+
+  const data = JSON.parse(text) as Partial<DataFile>;
+  if (data.format !== DATA_FILE_FORMAT || !data.tables) {
+    throw new Error(`${path} is not a QuestLoom server data file.`);
+  }
+  if ((data.schemaVersion ?? 0) > db.verno) {
+    throw new Error(
+      `${path} was written by a newer QuestLoom version (schema ${data.schemaVersion}).`
+    );
+  }
+
+  const tables = data.tables;
+  let rowCount = 0;
+  await db.transaction('rw', db.tables, async () => {
+    setCurrentTransactionOrigin('system');
+    for (const table of db.tables) {
+      const rows = tables[table.name];
+      if (!rows || rows.length === 0) continue;
+      await table.bulkPut(rows.map((row) => decodeRpcValue(row)));
+      rowCount += rows.length;
+    }
+  });
+  return rowCount;
+}
+
+/**
+ * Writes every table to the data file.
+ *
+ * @param path - Path of the JSON data file.
+ */
+export async function saveDataFile(path: string): Promise<void> {
+  const tables: Record<string, unknown[]> = {};
+  await db.transaction('r', db.tables, async () => {
+    for (const table of db.tables) {
+      tables[table.name] = await table.toArray();
+    }
+  });
+
+  const data: DataFile = {
+    format: DATA_FILE_FORMAT,
+    schemaVersion: db.verno,
+    tables: (await encodeRpcValue(tables)) as Record<string, unknown[]>,
+  };
+  const tempPath = `${path}.tmp`;
+  await writeFile(tempPath, JSON.stringify(data), 'utf8');
+  await rename(tempPath, path);
+}
@@ -0,0 +1,149 @@
+/**
+ * QuestLoom reference server: serves the repository RPC protocol used by
+ * createRemoteDataSource and stores everything in one JSON file. Also serves
+ * the sync protocol used by syncWithServer, with its own JSON file.
+ *
+ * Environment:
+ * - PORT: port to listen on (default 8787).
+ * - QUESTLOOM_DATA_FILE: data file path (default ./questloom-data.json).
+ * - QUESTLOOM_SYNC_FILE: sync file path (default ./questloom-sync.json).
+ * - QUESTLOOM_CORS_ORIGIN: allowed browser origin (default *).
+ */
+
+// Provides IndexedDB to the app's Dexie repositories; must load before them.
+import 'fake-indexeddb/auto';
+import { createServer, type IncomingMessage } from 'node:http';
+import { resolve } from 'node:path';
+import { RPC_PATH, type RpcRequest } from '../src/lib/remote';
+import { SYNC_PATH, type SyncRequest } from '../src/lib/sync';
+import { handleRpc } from './handleRpc';
+import { handleSync } from './handleSync';
+import { loadDataFile, saveDataFile } from './jsonFileStore';
+import { loadSyncFile, saveSyncFile } from './syncStore';
+
+/** Largest accepted request body (uploaded map images travel as base64). */
+const MAX_BODY_BYTES = 64 * 1024 * 1024;
+
+const port = Number(process.env.PORT ?? 8787);
+const dataFile = resolve(
+  process.env.QUESTLOOM_DATA_FILE ?? 'questloom-data.json'
+);
+const syncFile = resolve(
+  process.env.QUESTLOOM_SYNC_FILE ?? 'questloom-sync.json'
+);
+const corsOrigin = process.env.QUESTLOOM_CORS_ORIGIN ?? '*';
+
+/**
+ * Reads a request body as text, rejecting bodies over MAX_BODY_BYTES.
+ *
+ * @param req - Incoming request.
+ * @returns The body text.
+ */
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolveBody, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Request body is too large.'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolveBody(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Loads the data and sync files and starts listening.
+ */
+async function main(): Promise<void> {
+  const rowCount = await loadDataFile(dataFile);
+  const syncRowCount = await loadSyncFile(syncFile);
+
+  const server = createServer(async (req, res) => {
+    res.setHeader('Access-Control-Allow-Origin', corsOrigin);
+    res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+      return;
+    }
+    if (
+      req.method !== 'POST' ||
+      (req.url !== RPC_PATH && req.url !== SYNC_PATH)
+    ) {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ ok: false, error: 'Not found.' }));
+      return;
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(await readBody(req)) as unknown;
+    } catch (err) {
+      // A malformed or oversized request is the client's fault, not a crash.
+      res.writeHead(err instanceof SyntaxError ? 400 : 413, {
+        'Content-Type': 'application/json',
+      });
+      res.end(
+        JSON.stringify({
+          ok: false,
+          error:
+            err instanceof SyntaxError
+              ? 'Request body is not valid JSON.'
+              : err instanceof Error
+                ? err.message
+                : 'Request body could not be read.',
+        })
+      );
+      return;
+    }
+
+    try {
+      if (req.url === SYNC_PATH) {
+        const { response, changed } = handleSync(body as SyncRequest);
+        if (changed) {
+          await saveSyncFile(syncFile);
+        }
+        res.writeHead(response.ok ? 200 : 400, {
+          'Content-Type': 'application/json',
+        });
+        res.end(JSON.stringify(response));
+        return;
+      }
+
+      const { response, changed } = await handleRpc(body as RpcRequest);
+      if (changed) {
+        await saveDataFile(dataFile);
+      }
+      res.writeHead(response.ok ? 200 : 400, {
+        'Content-Type': 'application/json',
+      });
+      res.end(JSON.stringify(response));
+    } catch (err) {
+      res.writeHead(500, { 'Content-Type': 'application/json' });
+      res.end(
+        JSON.stringify({
+          ok: false,
+          error: err instanceof Error ? err.message : 'Request failed.',
+        })
+      );
+    }
+  });
+
+  server.listen(port, () => {
+    console.log(
+      `QuestLoom server listening on http://localhost:${port} (${rowCount} rows from ${dataFile}, ${syncRowCount} synced rows from ${syncFile})`
+    );
+  });
+}
+
+main().catch((err: unknown) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
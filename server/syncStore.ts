@@ -0,0 +1,361 @@
+/**
+ * Reference sync store: the latest state of every synced row, merged from
+ * client pushes with last-writer-wins per field, and persisted as one JSON
+ * file. Each applied change gets the next server revision, which clients use
+ * as their pull cursor.
+ */
+
+import { readFile, rename, writeFile } from 'node:fs/promises';
+import type {
+  SyncCollision,
+  SyncPushChange,
+  SyncRowState,
+} from '../src/lib/sync';
+import { isSameValue } from '../src/utils/isSameValue';
+
+/** Format identifier written into the sync file. */
+export const SYNC_FILE_FORMAT = 'questloom-sync-data';
+
+/**
+ * A row as stored by the server.
+ */
+interface StoredRow extends SyncRowState {
+  /** Server revision at which each field last changed. */
+  fieldRevision: Record<string, number>;
+}
+
+/**
+ * Contents of the sync file.
+ */
+interface SyncFile {
+  format: typeof SYNC_FILE_FORMAT;
+  revision: number;
+  rows: StoredRow[];
+}
+
+/**
+ * Fields every edit touches (e.g. `updatedAt`); their collisions are merged
+ * like any other field but not reported.
+ */
+const UNREPORTED_FIELDS: ReadonlySet<string> = new Set(['updatedAt']);
+
+/** Latest revision handed out. */
+let revision = 0;
+
+/** Stored rows by table and key. */
+const rows = new Map<string, StoredRow>();
+
+/** Tail of the save queue; saves run one at a time. */
+let saveQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Returns the map key of a row.
+ *
+ * @param table - Table name.
+ * @param key - Row primary key.
+ * @returns The map key.
+ */
+function rowId(table: string, key: string): string {
+  return JSON.stringify([table, key]);
+}
+
+/**
+ * Returns the latest modification time among some fields.
+ *
+ * @param fieldModifiedAt - Modification times by field.
+ * @param fields - Fields to consider.
+ * @param fallback - Time used for fields without one.
+ * @returns The latest time (ISO 8601).
+ */
+function latestModifiedAt(
+  fieldModifiedAt: Record<string, string>,
+  fields: string[],
+  fallback: string
+): string {
+  return fields.reduce(
+    (latest, field) => {
+      const time = fieldModifiedAt[field] ?? fallback;
+      return time > latest ? time : latest;
+    },
+    fields.length > 0 ? '' : fallback
+  );
+}
+
+/**
+ * Stores a pushed row as a whole (new or resurrected row).
+ *
+ * @param change - The pushed row.
+ * @param nextRevision - Revision to assign.
+ */
+function storeWholeRow(change: SyncPushChange, nextRevision: number): void {
+  rows.set(rowId(change.table, change.key), {
+    table: change.table,
+    key: change.key,
+    revision: nextRevision,
+    deleted: false,
+    modifiedAt: change.modifiedAt,
+    values: { ...change.values },
+    fieldModifiedAt: { ...change.fieldModifiedAt },
+    fieldRevision: Object.fromEntries(
+      Object.keys(change.values).map((field) => [field, nextRevision])
+    ),
+  });
+  revision = nextRevision;
+}
+
+/**
+ * Merges one pushed change into the store. Fields the client changed are taken
+ * unless the server's field also changed after the client's base revision; such
+ * collisions keep the later change (the server's on a tie) and are reported
+ * (except for UNREPORTED_FIELDS). A deletion colliding with an edit is resolved
+ * the same way for the row.
+ *
+ * @param change - The pushed change.
+ * @returns Collisions found, from the client's point of view.
+ */
+function mergeChange(change: SyncPushChange): SyncCollision[] {
+  const current = rows.get(rowId(change.table, change.key));
+  const base = change.baseRevision ?? 0;
+  const nextRevision = revision + 1;
+  const collisions: SyncCollision[] = [];
+  const collide = (
+    collision: Omit<SyncCollision, 'table' | 'key' | 'winner'>
+  ): boolean => {
+    const winner =
+      collision.localModifiedAt > collision.remoteModifiedAt
+        ? 'local'
+        : 'remote';
+    if (collision.field === null || !UNREPORTED_FIELDS.has(collision.field)) {
+      collisions.push({
+        table: change.table,
+        key: change.key,
+        ...collision,
+        winner,
+      });
+    }
+    return winner === 'local';
+  };
+
+  if (change.deleted) {
+    if (!current || current.deleted) return collisions;
+    const serverFields = Object.keys(current.fieldRevision).filter(
+      (field) => current.fieldRevision[field] > base
+    );
+    if (
+      serverFields.length > 0 &&
+      !collide({
+        field: null,
+        localValue: undefined,
+        remoteValue: current.values,
+        localModifiedAt: change.modifiedAt,
+        remoteModifiedAt: latestModifiedAt(
+          current.fieldModifiedAt,
+          serverFields,
+          current.modifiedAt
+        ),
+      })
+    ) {
+      return collisions;
+    }
+    rows.set(rowId(change.table, change.key), {
+      ...current,
+      revision: nextRevision,
+      deleted: true,
+      modifiedAt: change.modifiedAt,
+      values: {},
+    });
+    revision = nextRevision;
+    return collisions;
+  }
+
+  if (!current) {
+    storeWholeRow(change, nextRevision);
+    return collisions;
+  }
+
+  if (current.deleted) {
+    if (
+      current.revision > base &&
+      !collide({
+        field: null,
+        localValue: change.values,
+        remoteValue: undefined,
+        localModifiedAt: latestModifiedAt(
+          change.fieldModifiedAt,
+          change.changedFields,
+          change.modifiedAt
+        ),
+        remoteModifiedAt: current.modifiedAt,
+      })
+    ) {
+      return collisions;
+    }
+    storeWholeRow(change, nextRevision);
+    return collisions;
+  }
+
+  const merged: StoredRow = {
+    ...current,
+    values: { ...current.values },
+    fieldModifiedAt: { ...current.fieldModifiedAt },
+    fieldRevision: { ...current.fieldRevision },
+  };
+  let isChanged = false;
+  for (const field of change.changedFields) {
+    const localValue = change.values[field];
+    const remoteValue = current.values[field];
+    if (isSameValue(localValue, remoteValue)) continue;
+    const localModifiedAt = change.fieldModifiedAt[field] ?? change.modifiedAt;
+    if (
+      (current.fieldRevision[field] ?? 0) > base &&
+      !collide({
+        field,
+        localValue,
+        remoteValue,
+        localModifiedAt,
+        remoteModifiedAt: current.fieldModifiedAt[field] ?? current.modifiedAt,
+      })
+    ) {
+      continue;
+    }
+    if (localValue === undefined) {
+      delete merged.values[field];
+    } else {
+      merged.values[field] = localValue;
+    }
+    merged.fieldModifiedAt[field] = localModifiedAt;
+    merged.fieldRevision[field] = nextRevision;
+    if (localModifiedAt > merged.modifiedAt) {
+      merged.modifiedAt = localModifiedAt;
+    }
+    isChanged = true;
+  }
+  if (isChanged) {
+    rows.set(rowId(change.table, change.key), {
+      ...merged,
+      revision: nextRevision,
+    });
+    revision = nextRevision;
+  }
+  return collisions;
+}
+
+/**
+ * Strips server bookkeeping from a stored row.
+ *
+ * @param row - Stored row.
+ * @returns The row state sent to clients.
+ */
+function toRowState(row: StoredRow): SyncRowState {
+  return {
+    table: row.table,
+    key: row.key,
+    revision: row.revision,
+    deleted: row.deleted,
+    modifiedAt: row.modifiedAt,
+    values: row.values,
+    fieldModifiedAt: row.fieldModifiedAt,
+  };
+}
+
+/**
+ * Merges pushed changes, in order.
+ *
+ * @param changes - Changes pushed by a client.
+ * @returns Collisions found, and whether anything changed.
+ */
+export function applyPush(changes: SyncPushChange[]): {
+  collisions: SyncCollision[];
+  changed: boolean;
+} {
+  const revisionBefore = revision;
+  const collisions = changes.flatMap(mergeChange);
+  return { collisions, changed: revision !== revisionBefore };
+}
+
+/**
+ * Returns the current state of the given rows (skipping unknown ones).
+ *
+ * @param keys - Table and key of each row.
+ * @returns Row states.
+ */
+export function getRows(
+  keys: { table: string; key: string }[]
+): SyncRowState[] {
+  return keys.flatMap(({ table, key }) => {
+    const row = rows.get(rowId(table, key));
+    return row ? [toRowState(row)] : [];
+  });
+}
+
+/**
+ * Returns rows changed after a revision, oldest first, up to a limit.
+ *
+ * @param since - Revision the client has pulled up to.
+ * @param limit - Maximum number of rows.
+ * @returns The rows, the cursor to pull from next, and whether more remain.
+ */
+export function getRowsSince(
+  since: number,
+  limit: number
+): { rows: SyncRowState[]; cursor: number; hasMore: boolean } {
+  const changed = [...rows.values()]
+    .filter((row) => row.revision > since)
+    .sort((a, b) => a.revision - b.revision);
+  const page = changed.slice(0, limit);
+  const hasMore = changed.length > limit;
+  return {
+    rows: page.map(toRowState),
+    cursor: hasMore ? page[page.length - 1].revision : revision,
+    hasMore,
+  };
+}
+
+/**
+ * Loads the sync file. A missing file starts an empty store.
+ *
+ * @param path - Path of the JSON sync file.
+ * @returns Number of rows loaded.
+ * @throws Error when the file is not a QuestLoom sync file.
+ */
+export async function loadSyncFile(path: string): Promise<number> {
+  let text: string;
+  try {
+    text = await readFile(path, 'utf8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return 0;
+    throw err;
+  }
+
+  const data = JSON.parse(text) as Partial<SyncFile>;
+  if (data.format !== SYNC_FILE_FORMAT || !Array.isArray(data.rows)) {
+    throw new Error(`${path} is not a QuestLoom sync file.`);
+  }
+  revision = data.revision ?? 0;
+  rows.clear();
+  for (const row of data.rows) {
+    rows.set(rowId(row.table, row.key), row);
+  }
+  return rows.size;
+}
+
+/**
+ * Writes the store to the sync file (via a temporary file and rename). Saves
+ * are queued so concurrent requests never write the file at the same time.
+ *
+ * @param path - Path of the JSON sync file.
+ */
+export function saveSyncFile(path: string): Promise<void> {
+  const save = saveQueue.then(async () => {
+    const data: SyncFile = {
+      format: SYNC_FILE_FORMAT,
+      revision,
+      rows: [...rows.values()],
+    };
+    const tempPath = `${path}.tmp`;
+    await writeFile(tempPath, JSON.stringify(data), 'utf8');
+    await rename(tempPath, path);
+  });
+  saveQueue = save.catch(() => undefined);
+  return save;
+}
@@ -1,30 +1,68 @@
-import { useCallback } from 'react';
+import { useCallback, useState } from 'react';
+import { UndoRedoToolbar } from './components/UndoRedoToolbar';
+import { BackupsScreen } from './features/backups/BackupsScreen';
 import { GameListScreen } from './features/games/GameListScreen';
 import { GameView } from './features/games/GameView';
+import { SharedGameOffer } from './features/games/SharedGameOffer';
+import { SettingsScreen } from './features/settings/SettingsScreen';
+import { useBackupService } from './hooks/useBackupService';
+import { useHistoryRecording } from './hooks/useHistoryRecording';
+import { useSyncService } from './hooks/useSyncService';
+import { useTabSync } from './hooks/useTabSync';
+import { useUndoRedoShortcuts } from './hooks/useUndoRedoShortcuts';
+import { getDataSourceKind } from './lib/configureDataSource';
 import { useAppStore } from './stores/appStore';
+import type { GameId } from './types/ids';
+
+/** App-wide screens that replace the main content when open. */
+type AppScreen = 'settings' | 'backups';
 
 /**
  * Root app component: shell layout and main content.
  * Shows game list when no game is selected; shows game view when a game is current.
  * Logo click clears selection and returns to the game list.
+ * The Settings and Backups buttons replace the main content with their screen.
+ * Records repository changes for undo/redo (toolbar and keyboard shortcuts)
+ * and runs the automatic backup and sync services. Shows a banner in demo
+ * (in-memory) mode, where nothing is saved, and offers to import the game
+ * carried by a share link. Undo, backups, sync, and share-link import work on
+ * the browser database directly, so they only run when data is stored there.
  */
 function App() {
+  const dataSourceKind = getDataSourceKind();
+  const isDemo = dataSourceKind === 'memory';
+  const isLocalData = dataSourceKind === 'local';
   const currentGameId = useAppStore((s) => s.currentGameId);
   const setCurrentGameAndPlaythrough = useAppStore(
     (s) => s.setCurrentGameAndPlaythrough
   );
+  const [openScreen, setOpenScreen] = useState<AppScreen | null>(null);
+  useHistoryRecording(isLocalData);
+  useUndoRedoShortcuts(isLocalData);
+  useBackupService(isLocalData);
+  useTabSync(!isDemo);
+  useSyncService(isLocalData);
 
   const handleLogoClick = useCallback(
     (e: React.MouseEvent<HTMLButtonElement>) => {
+      setOpenScreen(null);
       setCurrentGameAndPlaythrough(null, null);
       e.currentTarget.blur();
     },
     [setCurrentGameAndPlaythrough]
   );
 
+  const handleSharedGameImported = useCallback(
+    (gameId: GameId) => {
+      setOpenScreen(null);
+      setCurrentGameAndPlaythrough(gameId, null);
+    },
+    [setCurrentGameAndPlaythrough]
+  );
+
   return (
     <div className="flex min-h-screen flex-col bg-slate-50 text-slate-900">
-      <header className="shrink-0 border-b border-slate-200 bg-white px-4 py-3 shadow-sm">
+      <header className="flex shrink-0 items-center justify-between border-b border-slate-200 bg-white px-4 py-3 shadow-sm">
         <button
           type="button"
           onClick={handleLogoClick}
@@ -33,9 +71,58 @@ function App() {
         >
           QuestLoom
         </button>
+        <div className="flex items-center gap-3">
+          {isLocalData ? (
+            <>
+              <UndoRedoToolbar />
+              <button
+                type="button"
+                onClick={() =>
+                  setOpenScreen((open) =>
+                    open === 'backups' ? null : 'backups'
+                  )
+                }
+                className="rounded border border-slate-300 bg-white px-3 py-1.5 text-sm text-slate-700 hover:bg-slate-50"
+                aria-pressed={openScreen === 'backups'}
+              >
+                Backups
+              </button>
+            </>
+          ) : null}
+          <button
+            type="button"
+            onClick={() =>
+              setOpenScreen((open) => (open === 'settings' ? null : 'settings'))
+            }
+            className="rounded border border-slate-300 bg-white px-3 py-1.5 text-sm text-slate-700 hover:bg-slate-50"
+            aria-pressed={openScreen === 'settings'}
+          >
+            Settings
+          </button>
+        </div>
       </header>
+      {isDemo ? (
+        <p
+          className="border-b border-amber-200 bg-amber-50 px-4 py-2 text-sm text-amber-800"
+          role="status"
+        >
+          Demo mode: everything you create lives in this tab only and is gone
+          when you close or reload it.
+        </p>
+      ) : null}
+      {isLocalData ? (
+        <SharedGameOffer onImported={handleSharedGameImported} />
+      ) : null}
       <main className="flex min-h-0 flex-1 flex-col p-4">
-        {currentGameId !== null ? <GameView /> : <GameListScreen />}
+        {openScreen === 'settings' ? (
+          <SettingsScreen onClose={() => setOpenScreen(null)} />
+        ) : openScreen === 'backups' ? (
+          <BackupsScreen onClose={() => setOpenScreen(null)} />
+        ) : currentGameId !== null ? (
+          <GameView />
+        ) : (
+          <GameListScreen />
+        )}
       </main>
     </div>
   );
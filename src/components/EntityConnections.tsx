@@ -1,4 +1,5 @@
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useState } from 'react';
+import { useLiveRefresh } from '../hooks/useLiveRefresh';
 import { threadRepository } from '../lib/repositories';
 import type { GameId, PlaythroughId } from '../types/ids';
 import type { Thread } from '../types/Thread';
@@ -44,7 +45,6 @@ export function EntityConnections({
    * Loads the threads for the given entity.
    */
   const load = useCallback(async () => {
-    setIsLoading(true);
     try {
       const list = await threadRepository.getThreadsFromEntity(
         gameId,
@@ -65,9 +65,7 @@ export function EntityConnections({
     }
   }, [gameId, entityId, playthroughId]);
 
-  useEffect(() => {
-    load();
-  }, [load]);
+  useLiveRefresh(load);
 
   if (isLoading) {
     return <p className="text-sm text-slate-500">Loading connections…</p>;
@@ -0,0 +1,166 @@
+import type {
+  EntityLockExplanation,
+  LocationExplanation,
+  RequirementExplanationNode,
+} from '../lib/lockExplanation';
+import { PathStatus } from '../types/PathStatus';
+import { RequirementGroupOperator } from '../types/RequirementGroupOperator';
+import { getRequirementGroupLabel } from '../utils/requirementGroupOperators';
+import { getStatusLabel } from '../utils/requirementStatusOptions';
+
+/**
+ * Props for the LockExplanationTree component.
+ */
+export interface LockExplanationTreeProps {
+  /** The explanation to render (from explainEntityLock). */
+  explanation: EntityLockExplanation;
+}
+
+/** Classes of a nested level of the tree. */
+const NESTED_LIST_CLASSES = 'ml-3 space-y-1 border-l border-slate-200 pl-2';
+
+/**
+ * Renders a requirement group or requirement of an explanation.
+ *
+ * @param node - The node.
+ * @param key - React key.
+ */
+function renderRequirement(
+  node: RequirementExplanationNode,
+  key: string
+): JSX.Element {
+  if (node.kind === 'group') {
+    const progress =
+      node.operator === RequirementGroupOperator.AT_LEAST
+        ? ` (${node.satisfiedCount}/${node.minSatisfied ?? 1} satisfied)`
+        : '';
+    return (
+      <li key={key}>
+        <details open>
+          <summary className="cursor-pointer">
+            {getRequirementGroupLabel(node)}
+            {progress}
+            {node.forbidden ? ' — must not be met' : ''}
+          </summary>
+          <ul className={NESTED_LIST_CLASSES}>
+            {node.children.map((child, i) =>
+              renderRequirement(child, `${key}-${i}`)
+            )}
+          </ul>
+        </details>
+      </li>
+    );
+  }
+
+  const current =
+    node.currentStatus === null
+      ? 'no status yet'
+      : getStatusLabel(node.targetType, node.currentStatus);
+  const text = node.forbidden
+    ? `${node.targetName} must not be ${current}`
+    : `Needs ${node.targetName}: ${node.allowedStatuses
+        .map((s) => getStatusLabel(node.targetType, s))
+        .join(' or ')} (now ${current})`;
+  return (
+    <li key={key}>
+      {node.target ? (
+        <details>
+          <summary className="cursor-pointer">{text}</summary>
+          <div className={NESTED_LIST_CLASSES}>{renderEntity(node.target)}</div>
+        </details>
+      ) : (
+        text
+      )}
+    </li>
+  );
+}
+
+/**
+ * Renders why an entity's location cannot be reached.
+ *
+ * @param location - The location explanation.
+ */
+function renderLocation(location: LocationExplanation): JSX.Element {
+  const placeNames = location.places.map((p) => p.name).join(', ');
+  if (location.noCurrentPosition) {
+    return (
+      <p>
+        At {placeNames}; no current position is set, so no place can be reached.
+      </p>
+    );
+  }
+  return (
+    <details open>
+      <summary className="cursor-pointer">
+        At {placeNames}, which cannot be reached
+      </summary>
+      <ul className={NESTED_LIST_CLASSES}>
+        {location.blockedPaths.length === 0 ? (
+          <li>No path connects it to the places you can reach.</li>
+        ) : (
+          location.blockedPaths.map((blocked) => {
+            const text = `Path ${blocked.name} is ${
+              blocked.status === PathStatus.BLOCKED ? 'blocked' : 'restricted'
+            }`;
+            return (
+              <li key={blocked.pathId}>
+                {blocked.path ? (
+                  <details>
+                    <summary className="cursor-pointer">{text}</summary>
+                    <div className={NESTED_LIST_CLASSES}>
+                      {renderEntity(blocked.path)}
+                    </div>
+                  </details>
+                ) : (
+                  text
+                )}
+              </li>
+            );
+          })
+        )}
+      </ul>
+    </details>
+  );
+}
+
+/**
+ * Renders the reasons an entity is locked.
+ *
+ * @param entity - The entity explanation.
+ */
+function renderEntity(entity: EntityLockExplanation): JSX.Element {
+  if (entity.repeated) {
+    return <p className="text-slate-500">{entity.name}: see above.</p>;
+  }
+  if (!entity.locked) {
+    return <p className="text-slate-500">{entity.name} is not locked.</p>;
+  }
+  return (
+    <div className="space-y-1">
+      {entity.requirements ? (
+        <ul className="space-y-1">
+          {entity.requirements.children.map((child, i) =>
+            renderRequirement(child, `${entity.entityId}-${i}`)
+          )}
+        </ul>
+      ) : null}
+      {entity.location ? renderLocation(entity.location) : null}
+    </div>
+  );
+}
+
+/**
+ * Renders a "why locked?" explanation as a collapsible tree: unmet
+ * requirements (expandable into why their targets are locked), unreachable
+ * locations, and the paths that block them.
+ *
+ * @param props.explanation - The explanation to render.
+ * @returns A JSX element representing the tree.
+ */
+export function LockExplanationTree({
+  explanation,
+}: LockExplanationTreeProps): JSX.Element {
+  return (
+    <div className="text-sm text-slate-700">{renderEntity(explanation)}</div>
+  );
+}
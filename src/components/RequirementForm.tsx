@@ -1,15 +1,24 @@
-import { useCallback, useState } from 'react';
+import { useCallback, useMemo, useState } from 'react';
 import { EntityPicker } from './EntityPicker';
+import type { RequirementGroupOption } from '../lib/requirements';
 import { threadRepository } from '../lib/repositories';
+import {
+  checkRequirementDraft,
+  type RequirementIssue,
+} from '../lib/validation';
 import {
   EntityType,
   REQUIREMENT_TARGET_ENTITY_TYPES,
 } from '../types/EntityType';
 import type { GameId } from '../types/ids';
+import type { RequirementGroupRef } from '../types/RequirementGroup';
+import { RequirementGroupOperator } from '../types/RequirementGroupOperator';
 import type { Thread } from '../types/Thread';
 import { ThreadSubtype } from '../types/ThreadSubtype';
 import { getEntityTypeFromId } from '../utils/parseEntityId';
 import { ENTITY_TYPE_LABELS } from '../utils/entityTypeLabels';
+import { generateId } from '../utils/generateId';
+import { REQUIREMENT_GROUP_OPERATOR_LABELS } from '../utils/requirementGroupOperators';
 import { STATUS_OPTIONS } from '../utils/requirementStatusOptions';
 
 /**
@@ -25,6 +34,12 @@ export interface RequirementFormCreateProps {
   /** Entity ID that has the requirement (source of the thread). */
   sourceId: string;
 
+  /** Optional. Existing requirement groups of the source entity. */
+  groups?: RequirementGroupOption[];
+
+  /** Optional. ID of the group the new requirement starts in (default top level). */
+  initialGroupId?: string;
+
   /** Called after successful create. */
   onSaved: () => void;
 
@@ -42,6 +57,9 @@ export interface RequirementFormEditProps {
   /** The requirement thread to edit (subtype Requires). */
   thread: Thread;
 
+  /** Optional. Existing requirement groups of the source entity. */
+  groups?: RequirementGroupOption[];
+
   /** Called after successful update. */
   onSaved: () => void;
 
@@ -49,6 +67,9 @@ export interface RequirementFormEditProps {
   onCancel: () => void;
 }
 
+/** Group choice value for adding the requirement to a new group. */
+const NEW_GROUP = 'new';
+
 /** Union of RequirementForm props. */
 export type RequirementFormProps =
   | RequirementFormCreateProps
@@ -57,7 +78,10 @@ export type RequirementFormProps =
 /**
  * Form to create or edit a single entity-level requirement (thread subtype Requires).
  * Source is fixed (the entity that has the requirement); user picks target entity
- * and optional allowed statuses. Game-level only.
+ * and optional allowed statuses, and may place the requirement in an existing or
+ * new requirement group (all of / any of / none of). Game-level only. Before
+ * saving, warns when the requirement would refer to its own entity or close a
+ * loop of requirements; submitting again saves anyway.
  *
  * @param props - Create or edit props; onSaved and onCancel are called on success or cancel.
  * @returns A JSX element representing the RequirementForm component.
@@ -78,8 +102,21 @@ export function RequirementForm(props: RequirementFormProps): JSX.Element {
   const [requirementAllowedStatuses, setRequirementAllowedStatuses] = useState<
     number[]
   >(() => (isCreate ? [] : (props.thread.requirementAllowedStatuses ?? [])));
+  const groups = useMemo(() => props.groups ?? [], [props.groups]);
+  const [groupChoice, setGroupChoice] = useState<string>(() =>
+    isCreate
+      ? (props.initialGroupId ?? '')
+      : (props.thread.requirementGroups?.[
+          props.thread.requirementGroups.length - 1
+        ]?.id ?? '')
+  );
+  const [newGroupOperator, setNewGroupOperator] =
+    useState<RequirementGroupOperator>(RequirementGroupOperator.ANY_OF);
+  const [newGroupMinSatisfied, setNewGroupMinSatisfied] = useState(2);
+  const [newGroupParentId, setNewGroupParentId] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [warnings, setWarnings] = useState<RequirementIssue[] | null>(null);
 
   const statusOptions = STATUS_OPTIONS[targetType];
 
@@ -116,10 +153,55 @@ export function RequirementForm(props: RequirementFormProps): JSX.Element {
         return;
       }
 
+      // Resolve the chain of groups the requirement belongs to.
+      const pathOf = (groupId: string): RequirementGroupRef[] =>
+        groups.find((g) => g.id === groupId)?.path ?? [];
+      const isNewThreshold =
+        groupChoice === NEW_GROUP &&
+        newGroupOperator === RequirementGroupOperator.AT_LEAST;
+      if (isNewThreshold && !(newGroupMinSatisfied >= 1)) {
+        setError('At least one requirement must be satisfied.');
+        return;
+      }
+      const requirementGroups =
+        groupChoice === NEW_GROUP
+          ? [
+              ...pathOf(newGroupParentId),
+              {
+                id: generateId(),
+                operator: newGroupOperator,
+                ...(isNewThreshold && { minSatisfied: newGroupMinSatisfied }),
+              },
+            ]
+          : pathOf(groupChoice);
+
       setError(null);
       setIsSubmitting(true);
 
       try {
+        // Warn once about self-references and loops before saving.
+        if (warnings === null) {
+          const issues = await checkRequirementDraft(gameId, {
+            ...(isCreate
+              ? {
+                  id: generateId(),
+                  gameId,
+                  playthroughId: null,
+                  label: '',
+                  createdAt: '',
+                }
+              : props.thread),
+            sourceId,
+            targetId: targetId.trim(),
+            subtype: ThreadSubtype.REQUIRES,
+            requirementGroups,
+          });
+          if (issues.length > 0) {
+            setWarnings(issues);
+            return;
+          }
+        }
+
         // Create a new requirement thread if the form is in create mode.
         if (isCreate) {
           await threadRepository.create({
@@ -132,6 +214,7 @@ export function RequirementForm(props: RequirementFormProps): JSX.Element {
               requirementAllowedStatuses.length > 0
                 ? requirementAllowedStatuses
                 : undefined,
+            requirementGroups,
           });
         } else {
           // Update an existing requirement thread if the form is in edit mode.
@@ -142,6 +225,8 @@ export function RequirementForm(props: RequirementFormProps): JSX.Element {
               requirementAllowedStatuses.length > 0
                 ? requirementAllowedStatuses
                 : undefined,
+            requirementGroups:
+              requirementGroups.length > 0 ? requirementGroups : undefined,
           });
         }
 
@@ -155,7 +240,20 @@ export function RequirementForm(props: RequirementFormProps): JSX.Element {
         setIsSubmitting(false);
       }
     },
-    [targetId, sourceId, requirementAllowedStatuses, isCreate, gameId, props]
+    [
+      targetId,
+      sourceId,
+      groups,
+      groupChoice,
+      newGroupParentId,
+      newGroupOperator,
+      newGroupMinSatisfied,
+      requirementAllowedStatuses,
+      warnings,
+      isCreate,
+      gameId,
+      props,
+    ]
   );
 
   return (
@@ -178,6 +276,7 @@ export function RequirementForm(props: RequirementFormProps): JSX.Element {
           onChange={(e) => {
             setTargetType(Number(e.target.value) as EntityType);
             setTargetId('');
+            setWarnings(null);
           }}
           disabled={isSubmitting}
           className="mt-1 w-full rounded border border-slate-300 bg-white px-3 py-2 text-slate-900 focus:border-slate-500 focus:outline-none focus:ring-1 focus:ring-slate-500 disabled:bg-slate-100"
@@ -206,7 +305,10 @@ export function RequirementForm(props: RequirementFormProps): JSX.Element {
           gameId={gameId}
           entityType={targetType}
           value={targetId}
-          onChange={setTargetId}
+          onChange={(id) => {
+            setTargetId(id);
+            setWarnings(null);
+          }}
           disabled={isSubmitting}
           aria-label="Target entity"
         />
@@ -243,6 +345,88 @@ export function RequirementForm(props: RequirementFormProps): JSX.Element {
         </div>
       ) : null}
 
+      {/* Group section. */}
+      <div>
+        {/* Group label. */}
+        <label
+          htmlFor="requirement-group"
+          className="block text-sm font-medium text-slate-700"
+        >
+          Group
+        </label>
+
+        {/* Group select. */}
+        <select
+          id="requirement-group"
+          value={groupChoice}
+          onChange={(e) => setGroupChoice(e.target.value)}
+          disabled={isSubmitting}
+          className="mt-1 w-full rounded border border-slate-300 bg-white px-3 py-2 text-slate-900 focus:border-slate-500 focus:outline-none focus:ring-1 focus:ring-slate-500 disabled:bg-slate-100"
+        >
+          <option value="">None (all requirements must be met)</option>
+          {groups.map((g) => (
+            <option key={g.id} value={g.id}>
+              {g.label}
+            </option>
+          ))}
+          <option value={NEW_GROUP}>New group…</option>
+        </select>
+
+        {/* New group operator and parent. */}
+        {groupChoice === NEW_GROUP ? (
+          <div className="mt-2 flex flex-wrap gap-2">
+            <select
+              value={newGroupOperator}
+              onChange={(e) =>
+                setNewGroupOperator(
+                  Number(e.target.value) as RequirementGroupOperator
+                )
+              }
+              disabled={isSubmitting}
+              aria-label="New group operator"
+              className="rounded border border-slate-300 bg-white px-2 py-1 text-sm text-slate-900 disabled:bg-slate-100"
+            >
+              {Object.entries(REQUIREMENT_GROUP_OPERATOR_LABELS).map(
+                ([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                )
+              )}
+            </select>
+            {newGroupOperator === RequirementGroupOperator.AT_LEAST ? (
+              <input
+                type="number"
+                min={1}
+                value={newGroupMinSatisfied}
+                onChange={(e) =>
+                  setNewGroupMinSatisfied(Math.floor(Number(e.target.value)))
+                }
+                disabled={isSubmitting}
+                aria-label="Requirements that must be satisfied"
+                className="w-16 rounded border border-slate-300 bg-white px-2 py-1 text-sm text-slate-900 disabled:bg-slate-100"
+              />
+            ) : null}
+            {groups.length > 0 ? (
+              <select
+                value={newGroupParentId}
+                onChange={(e) => setNewGroupParentId(e.target.value)}
+                disabled={isSubmitting}
+                aria-label="New group inside"
+                className="rounded border border-slate-300 bg-white px-2 py-1 text-sm text-slate-900 disabled:bg-slate-100"
+              >
+                <option value="">At top level</option>
+                {groups.map((g) => (
+                  <option key={g.id} value={g.id}>
+                    Inside {g.label}
+                  </option>
+                ))}
+              </select>
+            ) : null}
+          </div>
+        ) : null}
+      </div>
+
       {/* Error message. */}
       {error ? (
         <p id="requirement-form-error" className="text-sm text-red-600">
@@ -250,6 +434,20 @@ export function RequirementForm(props: RequirementFormProps): JSX.Element {
         </p>
       ) : null}
 
+      {/* Validation warnings. */}
+      {warnings ? (
+        <div
+          className="rounded border border-amber-300 bg-amber-50 p-2 text-sm text-amber-800"
+          role="alert"
+        >
+          <ul className="list-inside list-disc">
+            {warnings.map((w, i) => (
+              <li key={i}>{w.message}</li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+
       {/* Submit and cancel buttons. */}
       <div className="flex gap-2">
         {/* Submit button. */}
@@ -258,7 +456,7 @@ export function RequirementForm(props: RequirementFormProps): JSX.Element {
           disabled={isSubmitting}
           className="rounded bg-slate-800 px-3 py-1.5 text-sm font-medium text-white hover:bg-slate-700 disabled:bg-slate-400"
         >
-          {isCreate ? 'Add requirement' : 'Save'}
+          {warnings ? 'Save anyway' : isCreate ? 'Add requirement' : 'Save'}
         </button>
 
         {/* Cancel button. */}
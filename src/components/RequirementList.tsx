@@ -1,10 +1,22 @@
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useMemo, useState } from 'react';
+import { useLiveRefresh } from '../hooks/useLiveRefresh';
 import { RequirementForm } from './RequirementForm';
+import type { PlaythroughEvaluation } from '../lib/evaluation';
+import {
+  buildRequirementTree,
+  listRequirementGroups,
+  setRequirementGroupOperator,
+  ungroupRequirementGroup,
+  type RequirementGroupNode,
+  type RequirementTreeNode,
+} from '../lib/requirements';
 import { threadRepository } from '../lib/repositories';
-import type { GameId, PlaythroughId } from '../types/ids';
+import type { GameId } from '../types/ids';
+import { RequirementGroupOperator } from '../types/RequirementGroupOperator';
 import type { Thread } from '../types/Thread';
 import { getEntityTypeFromId } from '../utils/parseEntityId';
 import { getEntityDisplayName } from '../utils/getEntityDisplayName';
+import { REQUIREMENT_GROUP_OPERATOR_LABELS } from '../utils/requirementGroupOperators';
 import { STATUS_OPTIONS } from '../utils/requirementStatusOptions';
 
 /**
@@ -17,8 +29,8 @@ export interface RequirementListProps {
   /** Entity ID that has the requirements (source of requirement threads). */
   entityId: string;
 
-  /** Optional. Passed for context; requirements are game-level only. */
-  playthroughId?: PlaythroughId | null;
+  /** Optional playthrough evaluation; when set, "N of M" groups show their progress. */
+  evaluation?: PlaythroughEvaluation | null;
 
   /** Optional heading (e.g. entity name) for the requirements block. */
   entityDisplayName?: string;
@@ -27,32 +39,40 @@ export interface RequirementListProps {
 /**
  * Renders entity-level requirement threads (subtype Requires) where the given
  * entity is the source. Shows target display name, optional allowed-status labels,
- * and Add / Edit / Delete. Used in list screens in the expanded row alongside
+ * and Add / Edit / Delete, with requirement groups as nested boxes whose operator
+ * can be changed or which can be ungrouped. "N of M" groups show how many members
+ * are satisfied in the current playthrough. Used in list screens in the expanded row alongside
  * EntityConnections.
  *
  * @param props.gameId - Game to scope requirements.
  * @param props.entityId - Entity whose requirements to show (source).
- * @param props.playthroughId - Optional playthrough context.
+ * @param props.evaluation - Optional playthrough evaluation; when set, "N of M" groups show their progress.
  * @param props.entityDisplayName - Optional heading.
  * @returns A JSX element listing requirements or empty state with Add requirement.
  */
 export function RequirementList({
   gameId,
   entityId,
+  evaluation,
   entityDisplayName,
 }: RequirementListProps): JSX.Element {
   const [threads, setThreads] = useState<Thread[]>([]);
   const [targetLabels, setTargetLabels] = useState<Record<string, string>>({});
   const [isLoading, setIsLoading] = useState(true);
   const [formState, setFormState] = useState<
-    { type: 'create' } | { type: 'edit'; thread: Thread } | null
+    | { type: 'create'; groupId?: string }
+    | { type: 'edit'; thread: Thread }
+    | null
   >(null);
+  const [groupError, setGroupError] = useState<string | null>(null);
+
+  const tree = useMemo(() => buildRequirementTree(threads), [threads]);
+  const groups = useMemo(() => listRequirementGroups(tree), [tree]);
 
   /**
    * Loads the requirements for the entity.
    */
   const load = useCallback(async () => {
-    setIsLoading(true);
     try {
       const list = await threadRepository.getRequirementThreadsFromEntity(
         gameId,
@@ -73,9 +93,7 @@ export function RequirementList({
     }
   }, [gameId, entityId]);
 
-  useEffect(() => {
-    load();
-  }, [load]);
+  useLiveRefresh(load);
 
   /**
    * Handles the deletion of a requirement.
@@ -90,6 +108,215 @@ export function RequirementList({
     [load]
   );
 
+  /**
+   * Runs a change to a requirement group, then reloads.
+   *
+   * @param change - The change to run.
+   */
+  const runGroupChange = useCallback(
+    async (change: () => Promise<void>) => {
+      setGroupError(null);
+      try {
+        await change();
+      } catch (err) {
+        setGroupError(
+          err instanceof Error ? err.message : 'Failed to update group.'
+        );
+      }
+      load();
+    },
+    [load]
+  );
+
+  /**
+   * Renders a single requirement.
+   *
+   * @param thread - The requirement thread.
+   */
+  const renderRequirement = (thread: Thread) => {
+    // Get the target label for the thread.
+    const targetLabel = targetLabels[thread.id] ?? thread.targetId;
+
+    // Get the target type for the thread.
+    const targetType = getEntityTypeFromId(thread.targetId);
+
+    // Get the status options for the target type.
+    const statusOpts = targetType !== null ? STATUS_OPTIONS[targetType] : {};
+
+    // Get the status labels for the thread.
+    const statusLabels =
+      thread.requirementAllowedStatuses?.length &&
+      thread.requirementAllowedStatuses.length > 0
+        ? thread.requirementAllowedStatuses
+            .map((v) => statusOpts[v])
+            .filter(Boolean)
+            .join(', ')
+        : null;
+
+    // Render the requirement item.
+    return (
+      <li
+        key={thread.id}
+        className="flex flex-wrap items-center justify-between gap-1 rounded border border-slate-100 bg-white px-2 py-1"
+      >
+        <span>
+          {/* Display the target label. */}→ {targetLabel}
+          {statusLabels ? (
+            <span className="text-slate-500">
+              {/* Display the status labels. */}
+              (when: {statusLabels})
+            </span>
+          ) : null}
+        </span>
+        <span className="flex gap-1">
+          {/* Edit button. */}
+          <button
+            type="button"
+            onClick={() => setFormState({ type: 'edit', thread })}
+            className="text-xs text-slate-600 underline hover:text-slate-800"
+          >
+            Edit
+          </button>
+
+          {/* Delete button. */}
+          <button
+            type="button"
+            onClick={() => handleDelete(thread)}
+            className="text-xs text-red-600 underline hover:text-red-800"
+          >
+            Delete
+          </button>
+        </span>
+      </li>
+    );
+  };
+
+  /**
+   * Renders a requirement group as a box with its operator and members.
+   *
+   * @param group - The group (not the root).
+   * @param groupId - The group ID.
+   */
+  const renderGroup = (group: RequirementGroupNode, groupId: string) => {
+    const isThreshold = group.operator === RequirementGroupOperator.AT_LEAST;
+    const minSatisfied = group.minSatisfied ?? 1;
+    const satisfiedCount = evaluation?.thresholdSatisfiedCounts.get(groupId);
+    return (
+      <li
+        key={groupId}
+        className="rounded border border-slate-300 bg-slate-100 px-2 py-1.5"
+      >
+        <div className="mb-1 flex flex-wrap items-center gap-2 text-xs text-slate-600">
+          {/* Group name and operator select. */}
+          <span className="font-medium">
+            Group {groups.findIndex((g) => g.id === groupId) + 1}
+          </span>
+          <select
+            value={group.operator}
+            onChange={(e) =>
+              void runGroupChange(() =>
+                setRequirementGroupOperator(
+                  gameId,
+                  entityId,
+                  groupId,
+                  Number(e.target.value) as RequirementGroupOperator,
+                  minSatisfied
+                )
+              )
+            }
+            aria-label="Group operator"
+            className="rounded border border-slate-300 bg-white px-1 py-0.5 text-xs text-slate-800"
+          >
+            {Object.entries(REQUIREMENT_GROUP_OPERATOR_LABELS).map(
+              ([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              )
+            )}
+          </select>
+
+          {/* Threshold of an "N of M" group and its progress. */}
+          {isThreshold ? (
+            <>
+              <input
+                type="number"
+                min={1}
+                value={minSatisfied}
+                onChange={(e) => {
+                  const value = Math.floor(Number(e.target.value));
+                  if (value >= 1) {
+                    void runGroupChange(() =>
+                      setRequirementGroupOperator(
+                        gameId,
+                        entityId,
+                        groupId,
+                        RequirementGroupOperator.AT_LEAST,
+                        value
+                      )
+                    );
+                  }
+                }}
+                aria-label="Requirements that must be satisfied"
+                className="w-14 rounded border border-slate-300 bg-white px-1 py-0.5 text-xs text-slate-800"
+              />
+              {satisfiedCount !== undefined ? (
+                <span
+                  className={
+                    satisfiedCount >= minSatisfied
+                      ? 'text-slate-600'
+                      : 'text-amber-700'
+                  }
+                >
+                  {Math.min(satisfiedCount, minSatisfied)}/{minSatisfied}{' '}
+                  satisfied
+                </span>
+              ) : null}
+            </>
+          ) : null}
+
+          {/* Add requirement to group button. */}
+          <button
+            type="button"
+            onClick={() => setFormState({ type: 'create', groupId })}
+            className="underline hover:text-slate-800"
+          >
+            Add here
+          </button>
+
+          {/* Ungroup button. */}
+          <button
+            type="button"
+            onClick={() =>
+              void runGroupChange(() =>
+                ungroupRequirementGroup(gameId, entityId, groupId)
+              )
+            }
+            className="underline hover:text-slate-800"
+          >
+            Ungroup
+          </button>
+        </div>
+        {renderChildren(group)}
+      </li>
+    );
+  };
+
+  /**
+   * Renders the members of a group (or of the root).
+   *
+   * @param group - The group.
+   */
+  const renderChildren = (group: RequirementGroupNode): JSX.Element => (
+    <ul className="space-y-1.5 text-sm text-slate-800">
+      {group.children.map((child: RequirementTreeNode) =>
+        child.kind === 'requirement'
+          ? renderRequirement(child.thread)
+          : renderGroup(child, child.id ?? '')
+      )}
+    </ul>
+  );
+
   /**
    * Renders the loading state.
    */
@@ -116,6 +343,8 @@ export function RequirementList({
             mode="create"
             gameId={gameId}
             sourceId={entityId}
+            groups={groups}
+            initialGroupId={formState.groupId}
             onSaved={() => {
               setFormState(null);
               load();
@@ -127,6 +356,7 @@ export function RequirementList({
           <RequirementForm
             mode="edit"
             thread={formState.thread}
+            groups={groups}
             onSaved={() => {
               setFormState(null);
               load();
@@ -154,69 +384,17 @@ export function RequirementList({
       {threads.length === 0 ? (
         <p className="text-sm text-slate-500">No requirements.</p>
       ) : (
-        // Render the requirement list if there are requirements.
-        <ul className="space-y-1.5 text-sm text-slate-800">
-          {threads.map((thread) => {
-            // Get the target label for the thread.
-            const targetLabel = targetLabels[thread.id] ?? thread.targetId;
-
-            // Get the target type for the thread.
-            const targetType = getEntityTypeFromId(thread.targetId);
-
-            // Get the status options for the target type.
-            const statusOpts =
-              targetType !== null ? STATUS_OPTIONS[targetType] : {};
-
-            // Get the status labels for the thread.
-            const statusLabels =
-              thread.requirementAllowedStatuses?.length &&
-              thread.requirementAllowedStatuses.length > 0
-                ? thread.requirementAllowedStatuses
-                    .map((v) => statusOpts[v])
-                    .filter(Boolean)
-                    .join(', ')
-                : null;
-
-            // Render the requirement item.
-            return (
-              <li
-                key={thread.id}
-                className="flex flex-wrap items-center justify-between gap-1 rounded border border-slate-100 bg-white px-2 py-1"
-              >
-                <span>
-                  {/* Display the target label. */}→ {targetLabel}
-                  {statusLabels ? (
-                    <span className="text-slate-500">
-                      {/* Display the status labels. */}
-                      (when: {statusLabels})
-                    </span>
-                  ) : null}
-                </span>
-                <span className="flex gap-1">
-                  {/* Edit button. */}
-                  <button
-                    type="button"
-                    onClick={() => setFormState({ type: 'edit', thread })}
-                    className="text-xs text-slate-600 underline hover:text-slate-800"
-                  >
-                    Edit
-                  </button>
-
-                  {/* Delete button. */}
-                  <button
-                    type="button"
-                    onClick={() => handleDelete(thread)}
-                    className="text-xs text-red-600 underline hover:text-red-800"
-                  >
-                    Delete
-                  </button>
-                </span>
-              </li>
-            );
-          })}
-        </ul>
+        // Render the requirement tree if there are requirements.
+        renderChildren(tree)
       )}
 
+      {/* Group change error. */}
+      {groupError ? (
+        <p className="mt-1 text-sm text-red-600" role="alert">
+          {groupError}
+        </p>
+      ) : null}
+
       {/* Add requirement button. */}
       <button
         type="button"
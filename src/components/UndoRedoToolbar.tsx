@@ -0,0 +1,45 @@
+import { useHistoryStore } from '../stores/historyStore';
+
+/**
+ * Undo/redo buttons for the app header. Disabled when there is nothing to
+ * undo or redo, or while a step is being applied. Shows why the latest undo
+ * or redo failed, if it did (also for the keyboard shortcuts).
+ */
+export function UndoRedoToolbar(): JSX.Element {
+  const canUndo = useHistoryStore((s) => s.past.length > 0);
+  const canRedo = useHistoryStore((s) => s.future.length > 0);
+  const isApplying = useHistoryStore((s) => s.isApplying);
+  const undo = useHistoryStore((s) => s.undo);
+  const redo = useHistoryStore((s) => s.redo);
+  const lastError = useHistoryStore((s) => s.lastError);
+
+  return (
+    <div className="flex items-center gap-2">
+      <div className="flex gap-1" role="toolbar" aria-label="History">
+        <button
+          type="button"
+          onClick={() => void undo()}
+          disabled={!canUndo || isApplying}
+          className="rounded border border-slate-300 bg-white px-2 py-1 text-sm text-slate-700 hover:bg-slate-50 disabled:opacity-50"
+          title="Undo (Ctrl+Z)"
+        >
+          Undo
+        </button>
+        <button
+          type="button"
+          onClick={() => void redo()}
+          disabled={!canRedo || isApplying}
+          className="rounded border border-slate-300 bg-white px-2 py-1 text-sm text-slate-700 hover:bg-slate-50 disabled:opacity-50"
+          title="Redo (Ctrl+Shift+Z)"
+        >
+          Redo
+        </button>
+      </div>
+      {lastError ? (
+        <p className="max-w-xs text-sm text-red-600" role="alert">
+          {lastError}
+        </p>
+      ) : null}
+    </div>
+  );
+}
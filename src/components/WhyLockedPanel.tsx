@@ -0,0 +1,68 @@
+import { useMemo, useState } from 'react';
+import { LockExplanationTree } from './LockExplanationTree';
+import type { PlaythroughEvaluation } from '../lib/evaluation';
+import { explainEntityLock } from '../lib/lockExplanation';
+import type { PlaythroughId } from '../types/ids';
+
+/**
+ * Props for the WhyLockedPanel component.
+ */
+export interface WhyLockedPanelProps {
+  /** Entity to explain. */
+  entityId: string;
+
+  /** Current playthrough; the panel is hidden without one. */
+  playthroughId: PlaythroughId | null;
+
+  /** Shared evaluation of the playthrough, or null until it is available. */
+  evaluation: PlaythroughEvaluation | null;
+}
+
+/**
+ * Collapsible "Why locked?" panel for an entity's detail view. When opened,
+ * explains why the entity is locked in the current playthrough (unmet
+ * requirements, unreachable locations, blocked paths, recursively) from the
+ * shared evaluation, so the explanation stays current as progress changes.
+ *
+ * @param props.entityId - Entity to explain.
+ * @param props.playthroughId - Current playthrough.
+ * @param props.evaluation - Shared evaluation of the playthrough.
+ * @returns A JSX element, or null without a playthrough.
+ */
+export function WhyLockedPanel({
+  entityId,
+  playthroughId,
+  evaluation,
+}: WhyLockedPanelProps): JSX.Element | null {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const data = useMemo(
+    () =>
+      isOpen && evaluation ? explainEntityLock(evaluation, entityId) : null,
+    [isOpen, evaluation, entityId]
+  );
+
+  if (!playthroughId) return null;
+
+  return (
+    <details
+      className="rounded border border-slate-200 bg-slate-50 p-2"
+      onToggle={(e) => setIsOpen(e.currentTarget.open)}
+    >
+      <summary className="cursor-pointer text-xs font-medium text-slate-600">
+        Why locked?
+      </summary>
+      <div className="mt-1.5">
+        {data === null ? (
+          <p className="text-sm text-slate-500">Checking…</p>
+        ) : data.locked ? (
+          <LockExplanationTree explanation={data} />
+        ) : (
+          <p className="text-sm text-slate-500">
+            Not locked: its requirements are met and it can be reached.
+          </p>
+        )}
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,217 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useLiveRefresh } from '../../hooks/useLiveRefresh';
+import { activityLogRepository } from '../../lib/repositories';
+import { ActivityKind } from '../../types/ActivityKind';
+import type {
+  ActivityLogEntry,
+  ActivityValue,
+} from '../../types/ActivityLogEntry';
+import type { GameId, PlaythroughId } from '../../types/ids';
+import { getEntityDisplayName } from '../../utils/getEntityDisplayName';
+import { getStatusLabel } from '../../utils/requirementStatusOptions';
+
+/**
+ * Props for the ActivityLogScreen component.
+ */
+export interface ActivityLogScreenProps {
+  /** Current game ID. */
+  gameId: GameId;
+
+  /** Current playthrough ID (may be null). */
+  playthroughId: PlaythroughId | null;
+}
+
+/** Display label for each activity kind. */
+const ACTIVITY_KIND_LABELS: Record<ActivityKind, string> = {
+  [ActivityKind.STATUS_CHANGE]: 'Status',
+  [ActivityKind.OBJECTIVE_CHANGE]: 'Objective',
+  [ActivityKind.POSITION_CHANGE]: 'Moved',
+  [ActivityKind.DISCOVERY_CHANGE]: 'Discovery',
+  [ActivityKind.THREAD_CREATED]: 'Thread created',
+};
+
+/**
+ * Formats a logged previous/new value for display.
+ *
+ * @param entry - The log entry the value belongs to.
+ * @param value - The value to format.
+ * @param names - Resolved display names by entity ID.
+ * @returns Human-readable value.
+ */
+function formatValue(
+  entry: ActivityLogEntry,
+  value: ActivityValue,
+  names: Record<string, string>
+): string {
+  if (value === null) return '—';
+  switch (entry.kind) {
+    case ActivityKind.STATUS_CHANGE: {
+      return entry.entityType != null
+        ? getStatusLabel(entry.entityType, value as number)
+        : String(value);
+    }
+    case ActivityKind.OBJECTIVE_CHANGE:
+      return value ? 'Complete' : 'Incomplete';
+    case ActivityKind.DISCOVERY_CHANGE:
+      return value ? 'Discovered' : 'Undiscovered';
+    case ActivityKind.POSITION_CHANGE:
+      return names[value as string] ?? String(value);
+    default:
+      return String(value);
+  }
+}
+
+/**
+ * Activity log for the current playthrough: every status change, objective
+ * completion, position change, discovery toggle, and thread creation, newest
+ * first, optionally filtered to a single entity.
+ *
+ * @param props - ActivityLogScreen props (gameId, playthroughId).
+ * @returns A JSX element representing the ActivityLogScreen component.
+ */
+export function ActivityLogScreen({
+  gameId,
+  playthroughId,
+}: ActivityLogScreenProps): JSX.Element {
+  const [entries, setEntries] = useState<ActivityLogEntry[]>([]);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [entityFilter, setEntityFilter] = useState<string>('');
+  const [isLoading, setIsLoading] = useState(true);
+
+  /**
+   * Loads the log for the current playthrough and resolves entity names.
+   */
+  const loadEntries = useCallback(async () => {
+    if (playthroughId == null) {
+      setEntries([]);
+      setIsLoading(false);
+      return;
+    }
+    try {
+      const list =
+        await activityLogRepository.getByPlaythroughId(playthroughId);
+      setEntries(list);
+      const ids = new Set<string>();
+      for (const entry of list) {
+        if (entry.entityId) ids.add(entry.entityId);
+        if (
+          entry.kind === ActivityKind.POSITION_CHANGE &&
+          typeof entry.previousValue === 'string'
+        ) {
+          ids.add(entry.previousValue);
+        }
+      }
+      const nextNames: Record<string, string> = {};
+      await Promise.all(
+        [...ids].map(async (id) => {
+          nextNames[id] = await getEntityDisplayName(id);
+        })
+      );
+      setNames(nextNames);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [playthroughId]);
+
+  useEffect(() => {
+    setEntityFilter('');
+  }, [gameId]);
+
+  useLiveRefresh(loadEntries);
+
+  /** Entities that appear in the log, sorted by name, for the filter. */
+  const filterOptions = useMemo(() => {
+    const ids = new Set<string>();
+    for (const entry of entries) {
+      if (entry.entityId) ids.add(entry.entityId);
+    }
+    return [...ids]
+      .map((id) => ({ id, name: names[id] ?? id }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [entries, names]);
+
+  const visibleEntries = useMemo(
+    () =>
+      entityFilter === ''
+        ? entries
+        : entries.filter((entry) => entry.entityId === entityFilter),
+    [entries, entityFilter]
+  );
+
+  if (playthroughId == null) {
+    return (
+      <p className="text-slate-500">
+        Select a playthrough to see its activity log.
+      </p>
+    );
+  }
+
+  if (isLoading) {
+    return <p className="text-slate-500">Loading activity…</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <h3 className="text-base font-medium text-slate-800">Activity</h3>
+        <label className="flex items-center gap-2 text-sm text-slate-600">
+          Entity
+          <select
+            value={entityFilter}
+            onChange={(e) => setEntityFilter(e.target.value)}
+            className="rounded border border-slate-300 bg-white px-2 py-1 text-sm text-slate-900 focus:border-slate-500 focus:outline-none focus:ring-1 focus:ring-slate-500"
+          >
+            <option value="">All entities</option>
+            {filterOptions.map((option) => (
+              <option key={option.id} value={option.id}>
+                {option.name}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {visibleEntries.length === 0 ? (
+        <p className="text-slate-500">
+          No activity yet. Status changes, moves, and discoveries will appear
+          here.
+        </p>
+      ) : (
+        <ul className="space-y-2" aria-label="Activity log">
+          {visibleEntries.map((entry) => (
+            <li
+              key={entry.id}
+              className="flex items-start justify-between gap-4 rounded border border-slate-200 bg-white px-3 py-2"
+            >
+              <div className="min-w-0 flex-1">
+                <p className="text-xs font-medium uppercase tracking-wide text-slate-500">
+                  {ACTIVITY_KIND_LABELS[entry.kind]}
+                </p>
+                <p className="text-sm text-slate-900">
+                  {entry.entityId
+                    ? (names[entry.entityId] ?? entry.entityId)
+                    : ''}
+                  {entry.objectiveIndex != null
+                    ? ` — objective ${entry.objectiveIndex + 1}`
+                    : ''}
+                </p>
+                {entry.kind !== ActivityKind.THREAD_CREATED ? (
+                  <p className="text-sm text-slate-600">
+                    {formatValue(entry, entry.previousValue, names)} →{' '}
+                    {formatValue(entry, entry.newValue, names)}
+                  </p>
+                ) : null}
+              </div>
+              <time
+                dateTime={entry.timestamp}
+                className="shrink-0 text-xs text-slate-500"
+              >
+                {new Date(entry.timestamp).toLocaleString()}
+              </time>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
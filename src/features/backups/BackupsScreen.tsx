@@ -0,0 +1,250 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ConfirmDialog } from '../../components/ConfirmDialog';
+import {
+  BACKUP_FILE_EXTENSION,
+  BACKUP_RETENTION,
+  createBackup,
+  getStorageStatus,
+  listBackups,
+  requestPersistentStorage,
+  restoreBackup,
+  serializeBackup,
+  type DatabaseBackup,
+  type StorageStatus,
+} from '../../lib/backups';
+import { useAppStore } from '../../stores/appStore';
+import { useHistoryStore } from '../../stores/historyStore';
+import { downloadBlob } from '../../utils/downloadBlob';
+import { formatBytes } from '../../utils/formatBytes';
+import type { BackupsScreenProps } from './BackupsScreen.types';
+
+/**
+ * App-wide backups screen: lists the automatic local backups with their size
+ * and date, restores or downloads one, takes a backup on demand, and shows
+ * storage persistence and quota usage.
+ *
+ * @param props.onClose - Called when the user leaves the backups screen
+ */
+export function BackupsScreen({ onClose }: BackupsScreenProps): JSX.Element {
+  const [backups, setBackups] = useState<DatabaseBackup[]>([]);
+  const [storage, setStorage] = useState<StorageStatus | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [restoreTarget, setRestoreTarget] = useState<DatabaseBackup | null>(
+    null
+  );
+  const clearHistory = useHistoryStore((s) => s.clear);
+  const setCurrentGameAndPlaythrough = useAppStore(
+    (s) => s.setCurrentGameAndPlaythrough
+  );
+
+  /**
+   * Loads the backup list and storage status.
+   */
+  const load = useCallback(async () => {
+    const [list, status] = await Promise.all([
+      listBackups(),
+      getStorageStatus(),
+    ]);
+    setBackups(list);
+    setStorage(status);
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  /**
+   * Runs a backup action with shared busy and error handling.
+   *
+   * @param action - Work to run; returns the message to show.
+   */
+  const runAction = useCallback(
+    async (action: () => Promise<string>) => {
+      setIsBusy(true);
+      setError(null);
+      setMessage(null);
+      try {
+        setMessage(await action());
+        await load();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Backup action failed.');
+      } finally {
+        setIsBusy(false);
+      }
+    },
+    [load]
+  );
+
+  const handleBackUpNow = useCallback(
+    () =>
+      runAction(async () => {
+        await createBackup();
+        return 'Backup created.';
+      }),
+    [runAction]
+  );
+
+  const handlePersist = useCallback(
+    () =>
+      runAction(async () => {
+        const granted = await requestPersistentStorage();
+        return granted
+          ? 'Storage is persistent.'
+          : 'The browser did not grant persistent storage.';
+      }),
+    [runAction]
+  );
+
+  const handleDownload = useCallback(
+    (backup: DatabaseBackup) =>
+      runAction(async () => {
+        const blob = await serializeBackup(backup.id);
+        const stamp = backup.createdAt.replace(/[:.]/g, '-');
+        downloadBlob(blob, `questloom-${stamp}${BACKUP_FILE_EXTENSION}`);
+        return 'Backup downloaded.';
+      }),
+    [runAction]
+  );
+
+  const handleConfirmRestore = useCallback(() => {
+    const backup = restoreTarget;
+    setRestoreTarget(null);
+    if (!backup) return;
+    void runAction(async () => {
+      await restoreBackup(backup.id);
+      clearHistory();
+      setCurrentGameAndPlaythrough(null, null);
+      return `Restored the backup from ${new Date(backup.createdAt).toLocaleString()}. Your previous data was backed up first.`;
+    });
+  }, [restoreTarget, runAction, clearHistory, setCurrentGameAndPlaythrough]);
+
+  return (
+    <div className="mx-auto w-full max-w-3xl space-y-6">
+      {restoreTarget ? (
+        <ConfirmDialog
+          isOpen
+          title="Restore backup"
+          message="Replace all current data with this backup? Your current data is backed up first."
+          confirmLabel="Restore"
+          cancelLabel="Cancel"
+          onConfirm={handleConfirmRestore}
+          onCancel={() => setRestoreTarget(null)}
+          variant="danger"
+        />
+      ) : null}
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-medium text-slate-800">Backups</h2>
+        <button
+          type="button"
+          onClick={onClose}
+          className="rounded border border-slate-300 bg-white px-3 py-1.5 text-sm text-slate-700 hover:bg-slate-50"
+        >
+          Back
+        </button>
+      </div>
+
+      <section className="space-y-2 rounded border border-slate-200 bg-white p-4">
+        <h3 className="text-base font-medium text-slate-800">Storage</h3>
+        {storage === null ? (
+          <p className="text-sm text-slate-500">Loading…</p>
+        ) : (
+          <div className="space-y-2 text-sm text-slate-700">
+            <p>
+              {storage.usage !== null && storage.quota !== null
+                ? `Using ${formatBytes(storage.usage)} of ${formatBytes(storage.quota)}.`
+                : 'This browser does not report storage usage.'}
+            </p>
+            <div className="flex flex-wrap items-center gap-2">
+              <span>
+                {storage.persisted === null
+                  ? 'This browser does not support persistent storage.'
+                  : storage.persisted
+                    ? 'Storage is persistent and will not be evicted automatically.'
+                    : 'Storage may be evicted by the browser under storage pressure.'}
+              </span>
+              {storage.persisted === false ? (
+                <button
+                  type="button"
+                  onClick={() => void handlePersist()}
+                  disabled={isBusy}
+                  className="rounded border border-slate-300 bg-white px-2 py-1 text-xs text-slate-700 hover:bg-slate-50 disabled:opacity-60"
+                >
+                  Request persistent storage
+                </button>
+              ) : null}
+            </div>
+          </div>
+        )}
+      </section>
+
+      <section className="space-y-3 rounded border border-slate-200 bg-white p-4">
+        <div className="flex items-center justify-between gap-2">
+          <h3 className="text-base font-medium text-slate-800">
+            Local backups
+          </h3>
+          <button
+            type="button"
+            onClick={() => void handleBackUpNow()}
+            disabled={isBusy}
+            className="rounded bg-slate-800 px-3 py-1.5 text-sm font-medium text-white hover:bg-slate-700 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            Back up now
+          </button>
+        </div>
+        <p className="text-sm text-slate-500">
+          A snapshot of all data is taken automatically while you make changes.
+          The last {BACKUP_RETENTION} are kept in a separate browser store.
+        </p>
+        {message ? (
+          <p className="text-sm text-slate-600" role="status">
+            {message}
+          </p>
+        ) : null}
+        {error ? (
+          <p className="text-sm text-red-600" role="alert">
+            {error}
+          </p>
+        ) : null}
+        {backups.length === 0 ? (
+          <p className="text-sm text-slate-500">No backups yet.</p>
+        ) : (
+          <ul className="divide-y divide-slate-200" role="list">
+            {backups.map((backup) => (
+              <li
+                key={backup.id}
+                className="flex flex-wrap items-center justify-between gap-2 py-2 text-sm"
+              >
+                <div className="text-slate-800">
+                  {new Date(backup.createdAt).toLocaleString()}
+                  <span className="ml-2 text-xs text-slate-500">
+                    {formatBytes(backup.sizeBytes)} · {backup.rowCount} rows
+                  </span>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => void handleDownload(backup)}
+                    disabled={isBusy}
+                    className="rounded border border-slate-300 px-2 py-1 text-slate-600 hover:bg-slate-100 disabled:opacity-60"
+                  >
+                    Download
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setRestoreTarget(backup)}
+                    disabled={isBusy}
+                    className="rounded border border-slate-300 px-2 py-1 text-slate-600 hover:bg-slate-100 disabled:opacity-60"
+                  >
+                    Restore
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
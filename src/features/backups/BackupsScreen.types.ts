@@ -0,0 +1,7 @@
+/**
+ * Props for BackupsScreen.
+ */
+export interface BackupsScreenProps {
+  /** Called when the user leaves the backups screen. */
+  onClose: () => void;
+}
@@ -0,0 +1,354 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useLiveRefresh } from '../../hooks/useLiveRefresh';
+import { usePlaythroughEvaluation } from '../../hooks/usePlaythroughEvaluation';
+import {
+  comparePlaythroughs,
+  type PlaythroughComparison,
+} from '../../lib/comparison';
+import type { PlaythroughEvaluation } from '../../lib/evaluation';
+import { playthroughRepository } from '../../lib/repositories';
+import type { EntityType } from '../../types/EntityType';
+import type { GameId, PlaythroughId } from '../../types/ids';
+import type { Playthrough } from '../../types/Playthrough';
+import { ENTITY_TYPE_LABELS } from '../../utils/entityTypeLabels';
+import { getEntityDisplayName } from '../../utils/getEntityDisplayName';
+import { getStatusLabel } from '../../utils/requirementStatusOptions';
+import { LoomView } from '../loom/LoomView';
+
+/**
+ * Props for the PlaythroughComparisonScreen component.
+ */
+export interface PlaythroughComparisonScreenProps {
+  /** Current game ID. */
+  gameId: GameId;
+
+  /** Current playthrough ID (preselected on the left; may be null). */
+  playthroughId: PlaythroughId | null;
+
+  /** Shared evaluation of the current playthrough, or null. */
+  evaluation: PlaythroughEvaluation | null;
+}
+
+/** Stable empty set for Loom props that do not apply in comparison mode. */
+const EMPTY_IDS = new Set<string>();
+
+/**
+ * Returns the display label of a status value for an entity type.
+ *
+ * @param entityType - Entity type the status belongs to.
+ * @param status - Status value, or null when unset.
+ * @returns Human-readable status.
+ */
+function formatStatus(entityType: EntityType, status: number | null): string {
+  return status === null ? '—' : getStatusLabel(entityType, status);
+}
+
+/**
+ * Returns the display label of a discovery flag.
+ *
+ * @param discovered - Discovered flag, or null when unset.
+ * @returns Human-readable discovery state.
+ */
+function formatDiscovery(discovered: boolean | null): string {
+  if (discovered === null) return '—';
+  return discovered ? 'Discovered' : 'Undiscovered';
+}
+
+/**
+ * Side-by-side comparison of two playthroughs of the current game: status,
+ * discovery, and objective differences, plus an optional Loom overlay that
+ * rings nodes by which run has them resolved.
+ *
+ * @param props - PlaythroughComparisonScreen props (gameId, playthroughId, evaluation).
+ * @returns A JSX element representing the PlaythroughComparisonScreen component.
+ */
+export function PlaythroughComparisonScreen({
+  gameId,
+  playthroughId,
+  evaluation,
+}: PlaythroughComparisonScreenProps): JSX.Element {
+  const [playthroughs, setPlaythroughs] = useState<Playthrough[]>([]);
+  const [leftId, setLeftId] = useState<PlaythroughId | ''>('');
+  const [rightId, setRightId] = useState<PlaythroughId | ''>('');
+  const [comparison, setComparison] = useState<PlaythroughComparison | null>(
+    null
+  );
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showLoom, setShowLoom] = useState(false);
+
+  const left = playthroughs.find((p) => p.id === leftId) ?? null;
+
+  // The Loom overlay needs both runs evaluated; the current playthrough's
+  // evaluation is shared, so only other runs are evaluated here.
+  const loomLeftId = showLoom && left ? left.id : null;
+  const loomRightId = showLoom && rightId ? rightId : null;
+  const { evaluation: otherLeftEvaluation } = usePlaythroughEvaluation(
+    gameId,
+    loomLeftId !== playthroughId ? loomLeftId : null
+  );
+  const { evaluation: otherRightEvaluation } = usePlaythroughEvaluation(
+    gameId,
+    loomRightId !== playthroughId ? loomRightId : null
+  );
+  const leftEvaluation =
+    loomLeftId !== null && loomLeftId === playthroughId
+      ? evaluation
+      : otherLeftEvaluation;
+  const rightEvaluation =
+    loomRightId !== null && loomRightId === playthroughId
+      ? evaluation
+      : otherRightEvaluation;
+  // Actionable emphasis does not apply in comparison mode.
+  const loomEvaluation = useMemo(
+    () =>
+      leftEvaluation && {
+        ...leftEvaluation,
+        actionableEntityIds: EMPTY_IDS,
+        actionableRouteEdgeIds: EMPTY_IDS,
+      },
+    [leftEvaluation]
+  );
+
+  // Load the game's playthroughs and preselect the current one and another.
+  useEffect(() => {
+    let cancelled = false;
+    playthroughRepository.getByGameId(gameId).then((list) => {
+      if (cancelled) return;
+      setPlaythroughs(list);
+      const first =
+        list.find((p) => p.id === playthroughId)?.id ?? list[0]?.id ?? '';
+      setLeftId(first);
+      setRightId(list.find((p) => p.id !== first)?.id ?? '');
+      setIsLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [gameId, playthroughId]);
+
+  /**
+   * Compares the selected playthroughs and resolves entity names.
+   */
+  const loadComparison = useCallback(async () => {
+    if (!leftId || !rightId || leftId === rightId) {
+      setComparison(null);
+      return;
+    }
+    setError(null);
+    try {
+      const result = await comparePlaythroughs(leftId, rightId);
+      const ids = new Set<string>([
+        ...result.statusDifferences.map((d) => d.entityId),
+        ...result.discoveryDifferences.map((d) => d.entityId),
+        ...result.objectiveDifferences.map((d) => d.questId),
+      ]);
+      const nextNames: Record<string, string> = {};
+      await Promise.all(
+        [...ids].map(async (id) => {
+          nextNames[id] = await getEntityDisplayName(id);
+        })
+      );
+      setNames(nextNames);
+      setComparison(result);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to compare playthroughs.'
+      );
+    }
+  }, [leftId, rightId]);
+
+  useLiveRefresh(loadComparison);
+
+  const leftName = left?.name || 'Left';
+  const rightName = playthroughs.find((p) => p.id === rightId)?.name || 'Right';
+
+  const hasDifferences = useMemo(
+    () =>
+      comparison !== null &&
+      (comparison.statusDifferences.length > 0 ||
+        comparison.discoveryDifferences.length > 0 ||
+        comparison.objectiveDifferences.length > 0),
+    [comparison]
+  );
+
+  if (isLoading) {
+    return <p className="text-slate-500">Loading playthroughs…</p>;
+  }
+
+  if (playthroughs.length < 2) {
+    return (
+      <p className="text-slate-500">
+        Create or fork a second playthrough to compare runs.
+      </p>
+    );
+  }
+
+  const selectClassName =
+    'rounded border border-slate-300 bg-white px-2 py-1 text-sm text-slate-900 focus:border-slate-500 focus:outline-none focus:ring-1 focus:ring-slate-500';
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h3 className="text-base font-medium text-slate-800">Compare</h3>
+        <div className="flex flex-wrap items-center gap-2 text-sm text-slate-600">
+          <select
+            value={leftId}
+            onChange={(e) => setLeftId(e.target.value as PlaythroughId)}
+            className={selectClassName}
+            aria-label="Left playthrough"
+          >
+            {playthroughs.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.name || 'Unnamed playthrough'}
+              </option>
+            ))}
+          </select>
+          <span>vs</span>
+          <select
+            value={rightId}
+            onChange={(e) => setRightId(e.target.value as PlaythroughId)}
+            className={selectClassName}
+            aria-label="Right playthrough"
+          >
+            {playthroughs.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.name || 'Unnamed playthrough'}
+              </option>
+            ))}
+          </select>
+          <label className="ml-2 flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={showLoom}
+              onChange={(e) => setShowLoom(e.target.checked)}
+            />
+            Loom overlay
+          </label>
+        </div>
+      </div>
+
+      {leftId === rightId ? (
+        <p className="text-slate-500">Select two different playthroughs.</p>
+      ) : error ? (
+        <p className="text-sm text-red-600" role="alert">
+          {error}
+        </p>
+      ) : comparison === null ? (
+        <p className="text-slate-500">Comparing…</p>
+      ) : showLoom ? (
+        <div className="space-y-2">
+          <p className="flex flex-wrap gap-4 text-xs text-slate-600">
+            <span>
+              <span className="mr-1 inline-block h-3 w-3 rounded-sm ring-4 ring-sky-500" />
+              Resolved in {leftName} only
+            </span>
+            <span>
+              <span className="mr-1 inline-block h-3 w-3 rounded-sm ring-4 ring-amber-500" />
+              Resolved in {rightName} only
+            </span>
+            <span>
+              <span className="mr-1 inline-block h-3 w-3 rounded-sm ring-4 ring-slate-500" />
+              Resolved in both
+            </span>
+          </p>
+          <div className="h-[500px]">
+            <LoomView
+              gameId={gameId}
+              playthroughId={leftId || null}
+              evaluation={loomEvaluation}
+              compareWithEvaluation={rightEvaluation}
+            />
+          </div>
+        </div>
+      ) : !hasDifferences ? (
+        <p className="text-slate-500">
+          These playthroughs have the same progress.
+        </p>
+      ) : (
+        <div className="space-y-6">
+          {comparison.statusDifferences.length > 0 ? (
+            <section className="space-y-2">
+              <h4 className="text-sm font-medium text-slate-700">Status</h4>
+              <table className="w-full text-left text-sm">
+                <thead className="text-xs uppercase tracking-wide text-slate-500">
+                  <tr>
+                    <th className="py-1 pr-2 font-medium">Entity</th>
+                    <th className="py-1 pr-2 font-medium">{leftName}</th>
+                    <th className="py-1 font-medium">{rightName}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {comparison.statusDifferences.map((d) => (
+                    <tr
+                      key={d.entityId}
+                      className="border-t border-slate-200 text-slate-800"
+                    >
+                      <td className="py-1 pr-2">
+                        <span className="mr-2 text-xs text-slate-500">
+                          {ENTITY_TYPE_LABELS[d.entityType]}
+                        </span>
+                        {names[d.entityId] ?? d.entityId}
+                      </td>
+                      <td className="py-1 pr-2">
+                        {formatStatus(d.entityType, d.left)}
+                      </td>
+                      <td className="py-1">
+                        {formatStatus(d.entityType, d.right)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+          ) : null}
+
+          {comparison.objectiveDifferences.length > 0 ? (
+            <section className="space-y-2">
+              <h4 className="text-sm font-medium text-slate-700">Objectives</h4>
+              <ul className="space-y-1 text-sm text-slate-800">
+                {comparison.objectiveDifferences.map((d) => (
+                  <li key={`${d.questId}-${d.objectiveIndex}`}>
+                    {names[d.questId] ?? d.questId} — objective{' '}
+                    {d.objectiveIndex + 1}: completed in{' '}
+                    {d.completedIn === 'left' ? leftName : rightName} only
+                  </li>
+                ))}
+              </ul>
+            </section>
+          ) : null}
+
+          {comparison.discoveryDifferences.length > 0 ? (
+            <section className="space-y-2">
+              <h4 className="text-sm font-medium text-slate-700">Discovery</h4>
+              <table className="w-full text-left text-sm">
+                <thead className="text-xs uppercase tracking-wide text-slate-500">
+                  <tr>
+                    <th className="py-1 pr-2 font-medium">Entity</th>
+                    <th className="py-1 pr-2 font-medium">{leftName}</th>
+                    <th className="py-1 font-medium">{rightName}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {comparison.discoveryDifferences.map((d) => (
+                    <tr
+                      key={d.entityId}
+                      className="border-t border-slate-200 text-slate-800"
+                    >
+                      <td className="py-1 pr-2">
+                        {names[d.entityId] ?? d.entityId}
+                      </td>
+                      <td className="py-1 pr-2">{formatDiscovery(d.left)}</td>
+                      <td className="py-1">{formatDiscovery(d.right)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+          ) : null}
+        </div>
+      )}
+    </div>
+  );
+}
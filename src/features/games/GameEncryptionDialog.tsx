@@ -0,0 +1,169 @@
+import { useCallback, useState } from 'react';
+import { useEncryptionStore } from '../../stores/encryptionStore';
+import type { GameEncryptionDialogProps } from './GameEncryptionDialog.types';
+
+/** Shortest passphrase accepted when turning encryption on. */
+const MIN_PASSPHRASE_LENGTH = 8;
+
+/**
+ * Side panel to turn passphrase encryption of a game's insight content,
+ * notes, and progress notes on or off.
+ *
+ * @param props.game - Game whose encryption is managed
+ * @param props.onClose - Called when the user closes the dialog
+ */
+export function GameEncryptionDialog({
+  game,
+  onClose,
+}: GameEncryptionDialogProps): JSX.Element {
+  const enable = useEncryptionStore((s) => s.enable);
+  const disable = useEncryptionStore((s) => s.disable);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const isEncrypted = game.encryption !== undefined;
+
+  /**
+   * Runs an encryption change, then closes.
+   *
+   * @param action - Change to run.
+   * @param fallbackMessage - Error shown when the change fails without a message.
+   */
+  const runChange = useCallback(
+    async (action: () => Promise<void>, fallbackMessage: string) => {
+      setError(null);
+      setIsWorking(true);
+      try {
+        await action();
+        onClose();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : fallbackMessage);
+        setIsWorking(false);
+      }
+    },
+    [onClose]
+  );
+
+  /**
+   * Handles the passphrase form submission.
+   *
+   * @param e - The form event
+   */
+  const handleEnableSubmit = useCallback(
+    async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        setError(
+          `Use a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters.`
+        );
+        return;
+      }
+      if (passphrase !== confirmation) {
+        setError('The passphrases do not match.');
+        return;
+      }
+      await runChange(
+        () => enable(game.id, passphrase),
+        'Failed to encrypt game.'
+      );
+    },
+    [confirmation, enable, game.id, passphrase, runChange]
+  );
+
+  return (
+    <>
+      <div
+        className="fixed inset-0 z-40 bg-black/30"
+        role="presentation"
+        aria-hidden="true"
+        onClick={onClose}
+      />
+      <div
+        className="fixed right-0 top-0 z-50 flex h-full w-full max-w-sm flex-col border-l border-slate-200 bg-white shadow-lg"
+        role="dialog"
+        aria-modal="true"
+        aria-label="Encryption"
+      >
+        <div className="flex items-center justify-between border-b border-slate-200 px-4 py-3">
+          <h3 className="text-lg font-medium text-slate-800">Encryption</h3>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded p-1 text-slate-500 hover:bg-slate-100 hover:text-slate-700"
+            aria-label="Close"
+          >
+            Close
+          </button>
+        </div>
+        <div className="flex flex-1 flex-col gap-4 overflow-auto p-4 text-sm text-slate-700">
+          {isEncrypted ? (
+            <>
+              <p>
+                Insight content, person and place notes, and progress notes of
+                this game are encrypted with its passphrase. Exports, backups,
+                and sync keep them encrypted.
+              </p>
+              <button
+                type="button"
+                onClick={() =>
+                  void runChange(
+                    () => disable(game.id),
+                    'Failed to turn off encryption.'
+                  )
+                }
+                disabled={isWorking}
+                className="self-start rounded border border-slate-300 bg-white px-3 py-1.5 text-slate-700 hover:bg-slate-50 disabled:opacity-50"
+              >
+                {isWorking ? 'Decrypting…' : 'Turn off encryption'}
+              </button>
+            </>
+          ) : (
+            <form onSubmit={handleEnableSubmit} className="space-y-3">
+              <p>
+                Encrypt insight content, person and place notes, and progress
+                notes with a passphrase. You will be asked for it once per
+                session. The passphrase cannot be recovered: without it, the
+                encrypted text is lost.
+              </p>
+              <label className="flex flex-col gap-1">
+                Passphrase
+                <input
+                  type="password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  autoComplete="new-password"
+                  disabled={isWorking}
+                  className="rounded border border-slate-300 px-2 py-1.5 text-sm disabled:bg-slate-100"
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                Confirm passphrase
+                <input
+                  type="password"
+                  value={confirmation}
+                  onChange={(e) => setConfirmation(e.target.value)}
+                  autoComplete="new-password"
+                  disabled={isWorking}
+                  className="rounded border border-slate-300 px-2 py-1.5 text-sm disabled:bg-slate-100"
+                />
+              </label>
+              <button
+                type="submit"
+                disabled={isWorking}
+                className="rounded bg-slate-800 px-3 py-1.5 font-medium text-white hover:bg-slate-700 disabled:opacity-50"
+              >
+                {isWorking ? 'Encrypting…' : 'Encrypt game'}
+              </button>
+            </form>
+          )}
+          {error ? (
+            <p className="text-red-600" role="alert">
+              {error}
+            </p>
+          ) : null}
+        </div>
+      </div>
+    </>
+  );
+}
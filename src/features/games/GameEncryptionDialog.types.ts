@@ -0,0 +1,11 @@
+import type { Game } from '../../types/Game';
+
+/**
+ * Props for the GameEncryptionDialog component.
+ */
+export interface GameEncryptionDialogProps {
+  /** Game whose encryption is managed. */
+  game: Game;
+  /** Called when the user closes the dialog. */
+  onClose: () => void;
+}
@@ -1,10 +1,24 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useCallback } from 'react';
 import { ConfirmDialog } from '../../components/ConfirmDialog';
+import { useLiveRefresh } from '../../hooks/useLiveRefresh';
+import {
+  createGameShareLink,
+  duplicateGame,
+  exportGameArchive,
+  serializeArchive,
+} from '../../lib/archive';
+import { getDataSourceKind } from '../../lib/configureDataSource';
 import { purgeDatabase, purgeLocalStorageSelection } from '../../lib/debug';
+import { isGameLocked } from '../../lib/encryption';
 import { gameRepository, playthroughRepository } from '../../lib/repositories';
 import { useAppStore } from '../../stores/appStore';
+import { useEncryptionStore } from '../../stores/encryptionStore';
+import { useHistoryStore } from '../../stores/historyStore';
 import type { Game } from '../../types/Game';
+import { GAME_ARCHIVE_FILE_EXTENSION } from '../../types/GameArchive';
+import { downloadBlob } from '../../utils/downloadBlob';
 import { CreateGameForm } from './CreateGameForm';
+import { ImportGameButton } from './ImportGameButton';
 
 type ConfirmKind = 'delete-game' | 'purge-db' | 'purge-storage';
 interface ConfirmState {
@@ -16,21 +30,35 @@ interface ConfirmState {
  * Single screen: list of games and "New game" form.
  * Loads games from the repository on mount and after create.
  * Clicking a game sets it (and its first playthrough) as current and navigates to the game view.
+ * Encrypted games are marked as locked or unlocked; only their names are listed.
+ * Import, export, share links, duplication, and the database purge read and
+ * write the browser database directly, so they are only offered when data is
+ * stored there.
  */
 export function GameListScreen(): JSX.Element {
+  const isLocalData = getDataSourceKind() === 'local';
   const [games, setGames] = useState<Game[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [confirm, setConfirm] = useState<ConfirmState | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [duplicateError, setDuplicateError] = useState<string | null>(null);
+  const [duplicatingId, setDuplicatingId] = useState<Game['id'] | null>(null);
+  const [shareError, setShareError] = useState<string | null>(null);
+  const [sharedLinkGameId, setSharedLinkGameId] = useState<Game['id'] | null>(
+    null
+  );
   const currentGameId = useAppStore((s) => s.currentGameId);
   const setCurrentGameAndPlaythrough = useAppStore(
     (s) => s.setCurrentGameAndPlaythrough
   );
+  const clearHistory = useHistoryStore((s) => s.clear);
+  // Re-render when a game is unlocked or locked (isGameLocked reads the keys).
+  useEncryptionStore((s) => s.unlockedGameIds);
 
   /**
    * Loads the games from the repository.
    */
   const loadGames = useCallback(async () => {
-    setIsLoading(true);
     try {
       const list = await gameRepository.getAll();
       setGames(list);
@@ -39,9 +67,7 @@ export function GameListScreen(): JSX.Element {
     }
   }, []);
 
-  useEffect(() => {
-    loadGames();
-  }, [loadGames]);
+  useLiveRefresh(loadGames);
 
   /**
    * Selects a game and sets it as the current game.
@@ -72,6 +98,80 @@ export function GameListScreen(): JSX.Element {
     []
   );
 
+  /**
+   * Exports a game as an archive file and downloads it.
+   *
+   * @param e - The mouse event
+   * @param game - The game to export
+   */
+  const handleExportGameClick = useCallback(
+    async (e: React.MouseEvent, game: Game) => {
+      e.stopPropagation();
+      setExportError(null);
+      try {
+        const archive = await exportGameArchive(game.id);
+        downloadBlob(
+          serializeArchive(archive),
+          `${game.name}${GAME_ARCHIVE_FILE_EXTENSION}`
+        );
+      } catch (err) {
+        setExportError(
+          err instanceof Error ? err.message : 'Failed to export game.'
+        );
+      }
+    },
+    []
+  );
+
+  /**
+   * Copies a link carrying the game (no uploaded images) to the clipboard.
+   *
+   * @param e - The mouse event
+   * @param game - The game to share
+   */
+  const handleShareLinkClick = useCallback(
+    async (e: React.MouseEvent, game: Game) => {
+      e.stopPropagation();
+      setShareError(null);
+      setSharedLinkGameId(null);
+      try {
+        const link = await createGameShareLink(game.id, window.location.href);
+        await navigator.clipboard.writeText(link);
+        setSharedLinkGameId(game.id);
+      } catch (err) {
+        setShareError(
+          err instanceof Error ? err.message : 'Failed to create a link.'
+        );
+      }
+    },
+    []
+  );
+
+  /**
+   * Duplicates a game (entities, game-level threads, maps, images, shared
+   * markers; no progress) and refreshes the list.
+   *
+   * @param e - The mouse event
+   * @param game - The game to duplicate
+   */
+  const handleDuplicateGameClick = useCallback(
+    async (e: React.MouseEvent, game: Game) => {
+      e.stopPropagation();
+      setDuplicateError(null);
+      setDuplicatingId(game.id);
+      try {
+        await duplicateGame(game.id);
+      } catch (err) {
+        setDuplicateError(
+          err instanceof Error ? err.message : 'Failed to duplicate game.'
+        );
+      } finally {
+        setDuplicatingId(null);
+      }
+    },
+    []
+  );
+
   /**
    * Opens the confirmation dialog to purge the database.
    *
@@ -103,19 +203,17 @@ export function GameListScreen(): JSX.Element {
         if (confirm.game.id === currentGameId) {
           setCurrentGameAndPlaythrough(null, null);
         }
-        loadGames();
       } else if (confirm.kind === 'purge-db') {
         await purgeDatabase();
+        clearHistory();
         setCurrentGameAndPlaythrough(null, null);
-        loadGames();
       } else if (confirm.kind === 'purge-storage') {
         purgeLocalStorageSelection();
-        loadGames();
       }
     } finally {
       setConfirm(null);
     }
-  }, [confirm, currentGameId, setCurrentGameAndPlaythrough, loadGames]);
+  }, [confirm, currentGameId, setCurrentGameAndPlaythrough, clearHistory]);
 
   const handleConfirmationDialogCancel = useCallback(() => {
     setConfirm(null);
@@ -160,10 +258,28 @@ export function GameListScreen(): JSX.Element {
       ) : null}
       <section>
         <h2 className="mb-2 text-lg font-medium text-slate-800">Games</h2>
-        <CreateGameForm onCreated={loadGames} />
+        <div className="flex flex-wrap items-start gap-2">
+          <CreateGameForm onCreated={loadGames} />
+          {isLocalData ? <ImportGameButton onImported={loadGames} /> : null}
+        </div>
       </section>
 
       <section>
+        {exportError && (
+          <p className="mb-2 text-sm text-red-600" role="alert">
+            {exportError}
+          </p>
+        )}
+        {shareError && (
+          <p className="mb-2 text-sm text-red-600" role="alert">
+            {shareError}
+          </p>
+        )}
+        {duplicateError && (
+          <p className="mb-2 text-sm text-red-600" role="alert">
+            {duplicateError}
+          </p>
+        )}
         {isLoading ? (
           <p className="text-slate-500">Loading games…</p>
         ) : games.length === 0 ? (
@@ -180,7 +296,43 @@ export function GameListScreen(): JSX.Element {
                   className="flex flex-1 items-center justify-between rounded border border-slate-200 bg-white px-4 py-3 text-left text-slate-700 transition-colors hover:border-slate-300 hover:bg-slate-50"
                 >
                   <span>{game.name}</span>
+                  {game.encryption ? (
+                    <span className="text-xs font-medium text-slate-500">
+                      {isGameLocked(game) ? 'Locked' : 'Unlocked'}
+                    </span>
+                  ) : null}
                 </button>
+                {isLocalData ? (
+                  <>
+                    <button
+                      type="button"
+                      onClick={(e) => handleExportGameClick(e, game)}
+                      className="rounded border border-slate-200 bg-white px-3 py-2 text-sm text-slate-600 hover:border-slate-300 hover:bg-slate-50"
+                      aria-label={`Export game ${game.name}`}
+                    >
+                      Export
+                    </button>
+                    <button
+                      type="button"
+                      onClick={(e) => handleShareLinkClick(e, game)}
+                      className="rounded border border-slate-200 bg-white px-3 py-2 text-sm text-slate-600 hover:border-slate-300 hover:bg-slate-50"
+                      aria-label={`Copy share link for game ${game.name}`}
+                    >
+                      {sharedLinkGameId === game.id
+                        ? 'Link copied'
+                        : 'Share link'}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={(e) => handleDuplicateGameClick(e, game)}
+                      disabled={duplicatingId !== null}
+                      className="rounded border border-slate-200 bg-white px-3 py-2 text-sm text-slate-600 hover:border-slate-300 hover:bg-slate-50 disabled:opacity-50"
+                      aria-label={`Duplicate game ${game.name}`}
+                    >
+                      {duplicatingId === game.id ? 'Duplicating…' : 'Duplicate'}
+                    </button>
+                  </>
+                ) : null}
                 <button
                   type="button"
                   onClick={(e) => handleDeleteGameClick(e, game)}
@@ -198,13 +350,15 @@ export function GameListScreen(): JSX.Element {
       <section className="border-t border-slate-200 pt-6">
         <h3 className="mb-2 text-sm font-medium text-slate-500">Debug</h3>
         <div className="flex flex-wrap gap-2">
-          <button
-            type="button"
-            onClick={handlePurgeDatabaseClick}
-            className="rounded border border-slate-200 bg-slate-100 px-3 py-1.5 text-xs text-slate-600 hover:bg-slate-200"
-          >
-            Purge database
-          </button>
+          {isLocalData ? (
+            <button
+              type="button"
+              onClick={handlePurgeDatabaseClick}
+              className="rounded border border-slate-200 bg-slate-100 px-3 py-1.5 text-xs text-slate-600 hover:bg-slate-200"
+            >
+              Purge database
+            </button>
+          ) : null}
           <button
             type="button"
             onClick={handlePurgeLocalStorageClick}
@@ -1,22 +1,43 @@
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { getDataSourceKind } from '../../lib/configureDataSource';
+import { isGameLocked } from '../../lib/encryption';
 import {
   gameRepository,
   placeRepository,
   playthroughRepository,
 } from '../../lib/repositories';
 import { useAppStore } from '../../stores/appStore';
+import { useEncryptionStore } from '../../stores/encryptionStore';
 import type { Game } from '../../types/Game';
 import type { Playthrough } from '../../types/Playthrough';
 import type { PlaceId } from '../../types/ids';
-import { useReachablePlaces } from '../../hooks/useReachablePlaces';
-import { useActionableNextSteps } from '../../hooks/useActionableNextSteps';
+import { useLiveQuery } from '../../hooks/useLiveQuery';
+import { usePlaythroughEvaluation } from '../../hooks/usePlaythroughEvaluation';
 import { MainViewType } from '../../types/MainViewType';
 import { SECTIONS } from './gameViewSections';
 import { useGameViewStore } from '../../stores/gameViewStore';
 import { PlacePicker } from '../../components/PlacePicker';
+import { GameEncryptionDialog } from './GameEncryptionDialog';
 import { GameViewContent } from './GameViewContent';
 import { GameViewSidebar } from './GameViewSidebar';
+import { ImportEntitiesDialog } from './ImportEntitiesDialog';
 import { PlaythroughPanel } from './PlaythroughPanel';
+import { UnlockGameForm } from './UnlockGameForm';
+
+/** Tables read by the game view header (game, playthroughs, position names). */
+const GAME_VIEW_TABLES = ['games', 'playthroughs', 'places'] as const;
+
+/** Game, playthroughs, and place names shown in the game view header. */
+interface GameViewData {
+  /** ID of the game the data was loaded for. */
+  gameId: string;
+  /** The game, or undefined when it no longer exists. */
+  game: Game | undefined;
+  /** Playthroughs of the game. */
+  playthroughs: Playthrough[];
+  /** Place names by place ID (for the current position label). */
+  placeNamesById: Record<string, string>;
+}
 
 /**
  * Game view screen shown when a game is set as current.
@@ -24,25 +45,22 @@ import { PlaythroughPanel } from './PlaythroughPanel';
  * If the game no longer exists (e.g. deleted elsewhere), clears selection
  * so the app returns to the game list. If the game exists but the current
  * playthrough is missing, shows the game name and "No playthrough."
+ * An encrypted game shows a passphrase prompt until it is unlocked. The game,
+ * playthroughs, and position are live, so changes from undo, other tabs, and
+ * sync show without a reload. Entity import reads the browser database
+ * directly, so it is only offered when data is stored there.
  */
 export function GameView(): JSX.Element {
+  const isLocalData = getDataSourceKind() === 'local';
   const currentGameId = useAppStore((s) => s.currentGameId);
   const currentPlaythroughId = useAppStore((s) => s.currentPlaythroughId);
   const setCurrentGameAndPlaythrough = useAppStore(
     (s) => s.setCurrentGameAndPlaythrough
   );
 
-  const [game, setGame] = useState<Game | null>(null);
-  const [playthroughs, setPlaythroughs] = useState<Playthrough[]>([]);
-  const [playthrough, setPlaythrough] = useState<
-    Playthrough | null | undefined
-  >(undefined);
-  const [placeNamesById, setPlaceNamesById] = useState<Record<string, string>>(
-    {}
-  );
-  const [isLoading, setIsLoading] = useState(true);
   const [isPlaythroughPanelOpen, setIsPlaythroughPanelOpen] = useState(false);
-  const [refreshKey, setRefreshKey] = useState(0);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+  const [isEncryptionDialogOpen, setIsEncryptionDialogOpen] = useState(false);
   const [activeSection, setActiveSection] = useState<MainViewType>(SECTIONS[0]);
   const [isPositionSelectorOpen, setIsPositionSelectorOpen] = useState(false);
   const [positionDraftPlaceId, setPositionDraftPlaceId] = useState<
@@ -52,28 +70,42 @@ export function GameView(): JSX.Element {
   const lastViewedMapId = useGameViewStore((s) => s.lastViewedMapId);
   const openMapSelection = useGameViewStore((s) => s.openMapSelection);
   const openMapView = useGameViewStore((s) => s.openMapView);
+  // Re-render when a game is unlocked or locked (isGameLocked reads the keys).
+  useEncryptionStore((s) => s.unlockedGameIds);
+  const lock = useEncryptionStore((s) => s.lock);
 
-  const hasPlaythroughForReachability =
-    playthrough !== undefined && playthrough !== null;
-  const currentPositionPlaceIdForReachability = hasPlaythroughForReachability
-    ? (playthrough?.currentPositionPlaceId as PlaceId | null)
-    : null;
-  const { reachablePlaceIds } = useReachablePlaces(
+  const { evaluation, error: evaluationError } = usePlaythroughEvaluation(
     currentGameId,
-    currentPlaythroughId,
-    currentPositionPlaceIdForReachability ?? null
+    currentPlaythroughId
   );
-  const { actionableEntityIds, actionableRouteEdgeIds } =
-    useActionableNextSteps(
-      currentGameId,
-      currentPlaythroughId,
-      reachablePlaceIds,
-      currentPositionPlaceIdForReachability ?? null
-    );
 
-  const refetchPlaythroughs = useCallback(() => {
-    setRefreshKey((k) => k + 1);
-  }, []);
+  const loadGameView = useCallback(async (): Promise<GameViewData> => {
+    const [game, playthroughs, places] = await Promise.all([
+      gameRepository.getById(currentGameId!),
+      playthroughRepository.getByGameId(currentGameId!),
+      placeRepository.getByGameId(currentGameId!),
+    ]);
+    return {
+      gameId: currentGameId!,
+      game,
+      playthroughs,
+      placeNamesById: Object.fromEntries(places.map((p) => [p.id, p.name])),
+    };
+  }, [currentGameId]);
+  const { data } = useLiveQuery<GameViewData | null>(
+    currentGameId ? loadGameView : null,
+    null,
+    GAME_VIEW_TABLES
+  );
+  // Ignore the previous game's data until the new game's arrives.
+  const view = data?.gameId === currentGameId ? data : null;
+  const game = view?.game ?? null;
+  const playthroughs = useMemo(() => view?.playthroughs ?? [], [view]);
+  const placeNamesById = view?.placeNamesById ?? {};
+  const playthrough =
+    view === null
+      ? undefined
+      : (playthroughs.find((p) => p.id === currentPlaythroughId) ?? null);
 
   /**
    * Handles sidebar section selection, including custom behavior
@@ -109,64 +141,22 @@ export function GameView(): JSX.Element {
     [activeSection, lastViewedMapId, mapUiMode, openMapSelection, openMapView]
   );
 
+  // A game deleted elsewhere returns the app to the game list.
   useEffect(() => {
-    if (currentGameId === null) return;
-
-    setGame(null);
-    setPlaythrough(undefined);
-    setPlaceNamesById({});
-    setIsPositionSelectorOpen(false);
-    let cancelled = false;
-
-    async function load() {
-      setIsLoading(true);
-      try {
-        const [fetchedGame, playthroughs, places] = await Promise.all([
-          gameRepository.getById(currentGameId!),
-          playthroughRepository.getByGameId(currentGameId!),
-          placeRepository.getByGameId(currentGameId!),
-        ]);
-
-        if (cancelled) return;
-
-        if (fetchedGame === undefined) {
-          setCurrentGameAndPlaythrough(null, null);
-          return;
-        }
-
-        setGame(fetchedGame);
-        setPlaythroughs(playthroughs);
-        const placeNameEntries = places.map((p) => [p.id, p.name] as const);
-        setPlaceNamesById(Object.fromEntries(placeNameEntries));
-        const current = currentPlaythroughId
-          ? playthroughs.find((p) => p.id === currentPlaythroughId)
-          : null;
-        const resolvedPlaythrough = current ?? null;
-        setPlaythrough(resolvedPlaythrough);
-        setPositionDraftPlaceId(
-          (resolvedPlaythrough?.currentPositionPlaceId as PlaceId | null) ?? ''
-        );
-      } finally {
-        if (!cancelled) setIsLoading(false);
-      }
+    if (view !== null && view.game === undefined) {
+      setCurrentGameAndPlaythrough(null, null);
     }
+  }, [view, setCurrentGameAndPlaythrough]);
 
-    load();
-    return () => {
-      cancelled = true;
-    };
-  }, [
-    currentGameId,
-    currentPlaythroughId,
-    setCurrentGameAndPlaythrough,
-    refreshKey,
-  ]);
+  useEffect(() => {
+    setIsPositionSelectorOpen(false);
+  }, [currentGameId, currentPlaythroughId]);
 
   if (currentGameId === null) {
     return <></>;
   }
 
-  if (isLoading) {
+  if (view === null) {
     return <p className="text-slate-500">Loading…</p>;
   }
 
@@ -174,6 +164,15 @@ export function GameView(): JSX.Element {
     return <></>;
   }
 
+  if (isGameLocked(game)) {
+    return (
+      <div className="flex flex-col gap-4">
+        <h2 className="text-lg font-medium text-slate-800">{game.name}</h2>
+        <UnlockGameForm gameId={game.id} />
+      </div>
+    );
+  }
+
   const hasPlaythrough = playthrough !== undefined && playthrough !== null;
   const currentPositionPlaceId = hasPlaythrough
     ? (playthrough.currentPositionPlaceId as PlaceId | null)
@@ -186,9 +185,8 @@ export function GameView(): JSX.Element {
         : 'Not set';
 
   /**
-   * Handles the saving of the current position.
-   * Updates local playthrough state immediately so reachability (and the Loom)
-   * recomputes without waiting for a refetch or a navigation away/back.
+   * Handles the saving of the current position. The live playthrough list and
+   * evaluation pick up the change.
    */
   const handleSaveCurrentPosition = async () => {
     if (!hasPlaythrough || !currentPlaythroughId || !playthrough) return;
@@ -197,8 +195,6 @@ export function GameView(): JSX.Element {
       currentPositionPlaceId: positionDraftPlaceId || null,
     };
     await playthroughRepository.update(updated);
-    setPlaythrough(updated);
-    setPositionDraftPlaceId(updated.currentPositionPlaceId ?? '');
     setIsPositionSelectorOpen(false);
   };
 
@@ -207,6 +203,35 @@ export function GameView(): JSX.Element {
       <div className="shrink-0 flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
         <h2 className="text-lg font-medium text-slate-800">{game.name}</h2>
         <div className="flex flex-col items-start gap-1 sm:flex-row sm:items-center sm:gap-3">
+          {/* Encryption buttons */}
+          <button
+            type="button"
+            onClick={() => setIsEncryptionDialogOpen(true)}
+            className="rounded border border-slate-200 bg-white px-3 py-1.5 text-left text-slate-600 transition-colors hover:border-slate-300 hover:bg-slate-50"
+          >
+            {game.encryption ? 'Encrypted' : 'Encrypt'}
+          </button>
+          {game.encryption ? (
+            <button
+              type="button"
+              onClick={() => lock(game.id)}
+              className="rounded border border-slate-200 bg-white px-3 py-1.5 text-left text-slate-600 transition-colors hover:border-slate-300 hover:bg-slate-50"
+            >
+              Lock
+            </button>
+          ) : null}
+
+          {/* Import entities button */}
+          {isLocalData ? (
+            <button
+              type="button"
+              onClick={() => setIsImportDialogOpen(true)}
+              className="rounded border border-slate-200 bg-white px-3 py-1.5 text-left text-slate-600 transition-colors hover:border-slate-300 hover:bg-slate-50"
+            >
+              Import entities
+            </button>
+          ) : null}
+
           {/* Manage playthroughs button */}
           <button
             type="button"
@@ -224,6 +249,9 @@ export function GameView(): JSX.Element {
             type="button"
             onClick={() => {
               if (!hasPlaythrough || currentPlaythroughId === null) return;
+              if (!isPositionSelectorOpen) {
+                setPositionDraftPlaceId(currentPositionPlaceId ?? '');
+              }
               setIsPositionSelectorOpen((open) => !open);
             }}
             disabled={!hasPlaythrough || currentPlaythroughId === null}
@@ -271,13 +299,7 @@ export function GameView(): JSX.Element {
                 </button>
                 <button
                   type="button"
-                  onClick={() => {
-                    setIsPositionSelectorOpen(false);
-                    setPositionDraftPlaceId(
-                      (playthrough.currentPositionPlaceId as PlaceId | null) ??
-                        ''
-                    );
-                  }}
+                  onClick={() => setIsPositionSelectorOpen(false)}
                   className="rounded border border-slate-300 bg-white px-3 py-1.5 text-xs font-medium text-slate-700 hover:bg-slate-50"
                 >
                   Cancel
@@ -297,10 +319,8 @@ export function GameView(): JSX.Element {
             gameId={currentGameId}
             playthroughId={currentPlaythroughId}
             section={activeSection}
-            reachablePlaceIds={reachablePlaceIds}
-            currentPositionPlaceId={currentPositionPlaceId}
-            actionableEntityIds={actionableEntityIds}
-            actionableRouteEdgeIds={actionableRouteEdgeIds}
+            evaluation={evaluation}
+            evaluationError={evaluationError}
           />
         </div>
       </div>
@@ -310,7 +330,18 @@ export function GameView(): JSX.Element {
           currentPlaythroughId={currentPlaythroughId}
           playthroughs={playthroughs}
           onClose={() => setIsPlaythroughPanelOpen(false)}
-          onPlaythroughsChange={refetchPlaythroughs}
+        />
+      ) : null}
+      {isImportDialogOpen ? (
+        <ImportEntitiesDialog
+          gameId={currentGameId}
+          onClose={() => setIsImportDialogOpen(false)}
+        />
+      ) : null}
+      {isEncryptionDialogOpen ? (
+        <GameEncryptionDialog
+          game={game}
+          onClose={() => setIsEncryptionDialogOpen(false)}
         />
       ) : null}
     </div>
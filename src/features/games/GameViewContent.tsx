@@ -1,5 +1,8 @@
 import { MainViewType } from '../../types/MainViewType';
-import type { GameId, PlaceId, PlaythroughId } from '../../types/ids';
+import type { PlaythroughEvaluation } from '../../lib/evaluation';
+import type { GameId, PlaythroughId } from '../../types/ids';
+import { ActivityLogScreen } from '../activity/ActivityLogScreen';
+import { PlaythroughComparisonScreen } from '../compare/PlaythroughComparisonScreen';
 import { OracleScreen } from '../oracle/OracleScreen';
 import { InsightListScreen } from '../insights/InsightListScreen';
 import { ItemListScreen } from '../items/ItemListScreen';
@@ -10,6 +13,7 @@ import { PersonListScreen } from '../people/PersonListScreen';
 import { PlaceListScreen } from '../places/PlaceListScreen';
 import { QuestListScreen } from '../quests/QuestListScreen';
 import { ThreadListScreen } from '../threads/ThreadListScreen';
+import { ValidationScreen } from '../validation/ValidationScreen';
 
 /**
  * Props for the GameViewContent component.
@@ -24,17 +28,11 @@ export interface GameViewContentProps {
   /** The section to render (main view type). */
   section: MainViewType;
 
-  /** Reachable place IDs from current position (for Loom/Map availability). */
-  reachablePlaceIds: Set<PlaceId>;
+  /** Evaluation of the current playthrough, shared by all sections (null while loading or without a playthrough). */
+  evaluation: PlaythroughEvaluation | null;
 
-  /** Current position place ID (for Oracle and Loom routes). */
-  currentPositionPlaceId: PlaceId | null;
-
-  /** Set of actionable entity IDs (for Loom/map emphasis). */
-  actionableEntityIds: Set<string>;
-
-  /** Set of thread IDs on actionable routes (for Loom edge styling). */
-  actionableRouteEdgeIds: Set<string>;
+  /** Error message when evaluation failed, or null. */
+  evaluationError: string | null;
 }
 
 /**
@@ -48,25 +46,21 @@ export function GameViewContent({
   gameId,
   playthroughId,
   section,
-  reachablePlaceIds,
-  currentPositionPlaceId,
-  actionableEntityIds,
-  actionableRouteEdgeIds,
+  evaluation,
+  evaluationError,
 }: GameViewContentProps): JSX.Element {
-  const commonProps = { gameId, playthroughId, reachablePlaceIds };
+  const commonProps = { gameId, playthroughId };
 
   const content = (() => {
     switch (section) {
       case MainViewType.QUESTS:
-        return <QuestListScreen {...commonProps} />;
+        return <QuestListScreen {...commonProps} evaluation={evaluation} />;
       case MainViewType.LOOM:
         return (
           <LoomView
             gameId={gameId}
             playthroughId={playthroughId}
-            reachablePlaceIds={reachablePlaceIds}
-            actionableEntityIds={actionableEntityIds}
-            actionableRouteEdgeIds={actionableRouteEdgeIds}
+            evaluation={evaluation}
           />
         );
       case MainViewType.MAPS:
@@ -74,31 +68,43 @@ export function GameViewContent({
           <MapsSection
             gameId={gameId}
             playthroughId={playthroughId}
-            reachablePlaceIds={reachablePlaceIds}
-            actionableEntityIds={actionableEntityIds}
+            evaluation={evaluation}
           />
         );
       case MainViewType.ORACLE:
         return (
           <OracleScreen
-            gameId={gameId}
             playthroughId={playthroughId}
-            reachablePlaceIds={reachablePlaceIds}
-            currentPositionPlaceId={currentPositionPlaceId}
+            evaluation={evaluation}
+            error={evaluationError}
           />
         );
       case MainViewType.PLACES:
-        return <PlaceListScreen {...commonProps} />;
+        return <PlaceListScreen {...commonProps} evaluation={evaluation} />;
       case MainViewType.PATHS:
-        return <PathListScreen {...commonProps} />;
+        return <PathListScreen {...commonProps} evaluation={evaluation} />;
       case MainViewType.ITEMS:
-        return <ItemListScreen {...commonProps} />;
+        return <ItemListScreen {...commonProps} evaluation={evaluation} />;
       case MainViewType.PEOPLE:
-        return <PersonListScreen {...commonProps} />;
+        return <PersonListScreen {...commonProps} evaluation={evaluation} />;
       case MainViewType.INSIGHTS:
-        return <InsightListScreen {...commonProps} />;
+        return <InsightListScreen {...commonProps} evaluation={evaluation} />;
       case MainViewType.THREADS:
         return <ThreadListScreen {...commonProps} />;
+      case MainViewType.COMPARE:
+        return (
+          <PlaythroughComparisonScreen
+            gameId={gameId}
+            playthroughId={playthroughId}
+            evaluation={evaluation}
+          />
+        );
+      case MainViewType.VALIDATION:
+        return <ValidationScreen gameId={gameId} />;
+      case MainViewType.ACTIVITY:
+        return (
+          <ActivityLogScreen gameId={gameId} playthroughId={playthroughId} />
+        );
       default: {
         const label = MainViewType[section] ?? 'Unknown';
         return (
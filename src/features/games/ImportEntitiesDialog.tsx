@@ -0,0 +1,330 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  findEntityNameCollisions,
+  importEntitiesFromGame,
+  listGameEntities,
+  type EntityCollisionResolution,
+  type EntityNameCollision,
+  type GameEntitySummary,
+  type ImportEntitiesResult,
+} from '../../lib/entityImport';
+import { gameRepository } from '../../lib/repositories';
+import type { EntityType } from '../../types/EntityType';
+import type { Game } from '../../types/Game';
+import type { GameId } from '../../types/ids';
+import {
+  ENTITY_TYPE_LABELS,
+  ENTITY_TYPE_PLURAL_LABELS,
+} from '../../utils/entityTypeLabels';
+import type { ImportEntitiesDialogProps } from './ImportEntitiesDialog.types';
+
+/**
+ * Dialog for importing a selection of entities from another game into the
+ * current one. The user picks a source game, checks entities grouped by type,
+ * optionally includes their connecting threads, and decides per name
+ * collision whether to merge into the existing entity or import a copy.
+ *
+ * @param props - ImportEntitiesDialog props (gameId, onClose).
+ * @returns A JSX element representing the ImportEntitiesDialog component.
+ */
+export function ImportEntitiesDialog({
+  gameId,
+  onClose,
+}: ImportEntitiesDialogProps): JSX.Element {
+  const [games, setGames] = useState<Game[]>([]);
+  const [sourceGameId, setSourceGameId] = useState<GameId | ''>('');
+  const [entities, setEntities] = useState<GameEntitySummary[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [includeThreads, setIncludeThreads] = useState(true);
+  const [collisions, setCollisions] = useState<EntityNameCollision[]>([]);
+  const [resolutions, setResolutions] = useState<
+    Record<string, EntityCollisionResolution>
+  >({});
+  const [isImporting, setIsImporting] = useState(false);
+  const [result, setResult] = useState<ImportEntitiesResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the other games as import sources.
+  useEffect(() => {
+    let cancelled = false;
+    gameRepository.getAll().then((list) => {
+      if (cancelled) return;
+      const others = list.filter((g) => g.id !== gameId);
+      setGames(others);
+      setSourceGameId(others[0]?.id ?? '');
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [gameId]);
+
+  // Load the source game's entities and reset the selection.
+  useEffect(() => {
+    setEntities([]);
+    setSelectedIds(new Set());
+    setResult(null);
+    if (!sourceGameId) return;
+    let cancelled = false;
+    listGameEntities(sourceGameId).then((list) => {
+      if (!cancelled) setEntities(list);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [sourceGameId]);
+
+  // Re-check name collisions whenever the selection changes.
+  useEffect(() => {
+    if (!sourceGameId || selectedIds.size === 0) {
+      setCollisions([]);
+      return;
+    }
+    let cancelled = false;
+    findEntityNameCollisions(sourceGameId, gameId, [...selectedIds]).then(
+      (list) => {
+        if (!cancelled) setCollisions(list);
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [sourceGameId, gameId, selectedIds]);
+
+  const groups = useMemo(() => {
+    const byType = new Map<EntityType, GameEntitySummary[]>();
+    for (const entity of entities) {
+      const list = byType.get(entity.entityType) ?? [];
+      list.push(entity);
+      byType.set(entity.entityType, list);
+    }
+    return [...byType.entries()];
+  }, [entities]);
+
+  /**
+   * Toggles one entity in the selection.
+   *
+   * @param id - Source entity ID.
+   */
+  const toggleEntity = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  /**
+   * Selects or clears every entity of one type.
+   *
+   * @param list - Entities of the type.
+   * @param selected - Whether to select (true) or clear (false) them.
+   */
+  const setGroupSelected = (list: GameEntitySummary[], selected: boolean) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      for (const entity of list) {
+        if (selected) next.add(entity.id);
+        else next.delete(entity.id);
+      }
+      return next;
+    });
+  };
+
+  /**
+   * Imports the selection into the current game.
+   */
+  const handleImport = async () => {
+    if (!sourceGameId || selectedIds.size === 0) return;
+    setIsImporting(true);
+    setError(null);
+    try {
+      const collisionResolutions: Record<string, EntityCollisionResolution> =
+        {};
+      for (const c of collisions) {
+        collisionResolutions[c.sourceId] = resolutions[c.sourceId] ?? 'merge';
+      }
+      const imported = await importEntitiesFromGame(sourceGameId, gameId, {
+        entityIds: [...selectedIds],
+        includeThreads,
+        collisionResolutions,
+      });
+      setResult(imported);
+      setSelectedIds(new Set());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const namesById = useMemo(
+    () => Object.fromEntries(entities.map((e) => [e.id, e.name])),
+    [entities]
+  );
+
+  return (
+    <>
+      <div
+        className="fixed inset-0 z-40 bg-black/30"
+        role="presentation"
+        aria-hidden="true"
+        onClick={onClose}
+      />
+      <div
+        className="fixed right-0 top-0 z-50 flex h-full w-full max-w-md flex-col border-l border-slate-200 bg-white shadow-lg"
+        role="dialog"
+        aria-modal="true"
+        aria-label="Import entities"
+      >
+        <div className="flex items-center justify-between border-b border-slate-200 px-4 py-3">
+          <h3 className="text-lg font-medium text-slate-800">
+            Import entities
+          </h3>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded p-1 text-slate-500 hover:bg-slate-100 hover:text-slate-700"
+            aria-label="Close"
+          >
+            Close
+          </button>
+        </div>
+        <div className="flex flex-1 flex-col gap-4 overflow-auto p-4">
+          {games.length === 0 ? (
+            <p className="text-sm text-slate-500">
+              There are no other games to import from.
+            </p>
+          ) : (
+            <>
+              <label className="flex flex-col gap-1 text-sm text-slate-700">
+                From game
+                <select
+                  value={sourceGameId}
+                  onChange={(e) => setSourceGameId(e.target.value)}
+                  className="rounded border border-slate-300 bg-white px-2 py-1 text-slate-900 focus:border-slate-500 focus:outline-none focus:ring-1 focus:ring-slate-500"
+                >
+                  {games.map((g) => (
+                    <option key={g.id} value={g.id}>
+                      {g.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+
+              {groups.length === 0 ? (
+                <p className="text-sm text-slate-500">
+                  This game has no entities.
+                </p>
+              ) : (
+                groups.map(([entityType, list]) => {
+                  const allSelected = list.every((e) => selectedIds.has(e.id));
+                  return (
+                    <fieldset key={entityType} className="space-y-1">
+                      <legend className="flex w-full items-center justify-between text-sm font-medium text-slate-700">
+                        {ENTITY_TYPE_PLURAL_LABELS[entityType]}
+                        <button
+                          type="button"
+                          onClick={() => setGroupSelected(list, !allSelected)}
+                          className="text-xs font-normal text-slate-500 hover:text-slate-700"
+                        >
+                          {allSelected ? 'Clear' : 'Select all'}
+                        </button>
+                      </legend>
+                      {list.map((entity) => (
+                        <label
+                          key={entity.id}
+                          className="flex items-center gap-2 text-sm text-slate-800"
+                        >
+                          <input
+                            type="checkbox"
+                            checked={selectedIds.has(entity.id)}
+                            onChange={() => toggleEntity(entity.id)}
+                          />
+                          {entity.name || 'Untitled'}
+                        </label>
+                      ))}
+                    </fieldset>
+                  );
+                })
+              )}
+
+              <label className="flex items-center gap-2 text-sm text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={includeThreads}
+                  onChange={(e) => setIncludeThreads(e.target.checked)}
+                />
+                Include threads between selected entities
+              </label>
+
+              {collisions.length > 0 ? (
+                <section className="space-y-2">
+                  <h4 className="text-sm font-medium text-slate-700">
+                    Name collisions
+                  </h4>
+                  <ul className="space-y-1">
+                    {collisions.map((c) => (
+                      <li
+                        key={c.sourceId}
+                        className="flex items-center justify-between gap-2 text-sm text-slate-800"
+                      >
+                        <span className="min-w-0 truncate">
+                          <span className="mr-2 text-xs text-slate-500">
+                            {ENTITY_TYPE_LABELS[c.entityType]}
+                          </span>
+                          {namesById[c.sourceId] ?? c.name}
+                        </span>
+                        <select
+                          value={resolutions[c.sourceId] ?? 'merge'}
+                          onChange={(e) =>
+                            setResolutions((prev) => ({
+                              ...prev,
+                              [c.sourceId]: e.target
+                                .value as EntityCollisionResolution,
+                            }))
+                          }
+                          className="rounded border border-slate-300 bg-white px-2 py-1 text-sm text-slate-900"
+                          aria-label={`Resolve ${c.name}`}
+                        >
+                          <option value="merge">Merge into existing</option>
+                          <option value="copy">Create a copy</option>
+                        </select>
+                      </li>
+                    ))}
+                  </ul>
+                </section>
+              ) : null}
+
+              {error ? (
+                <p className="text-sm text-red-600" role="alert">
+                  {error}
+                </p>
+              ) : null}
+
+              {result ? (
+                <p className="text-sm text-slate-600" role="status">
+                  Imported {result.importedCount}, merged {result.mergedCount},
+                  copied {result.threadCount} threads and {result.markerCount}{' '}
+                  markers; dropped {result.droppedReferenceCount} references
+                  outside the selection.
+                </p>
+              ) : null}
+
+              <button
+                type="button"
+                onClick={() => void handleImport()}
+                disabled={isImporting || selectedIds.size === 0}
+                className="self-start rounded bg-slate-800 px-3 py-1.5 text-sm font-medium text-white hover:bg-slate-700 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                {isImporting
+                  ? 'Importing…'
+                  : `Import ${selectedIds.size} selected`}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
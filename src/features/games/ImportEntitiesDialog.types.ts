@@ -0,0 +1,11 @@
+import type { GameId } from '../../types/ids';
+
+/**
+ * Props for the ImportEntitiesDialog component.
+ */
+export interface ImportEntitiesDialogProps {
+  /** ID of the game entities are imported into. */
+  gameId: GameId;
+  /** Called when the user closes the dialog. */
+  onClose: () => void;
+}
@@ -0,0 +1,98 @@
+import { useState, useCallback, useRef } from 'react';
+import {
+  importGameArchive,
+  parseArchive,
+  type ArchiveValidationIssue,
+} from '../../lib/archive';
+import {
+  GAME_ARCHIVE_FILE_EXTENSION,
+  type GameArchive,
+} from '../../types/GameArchive';
+import type { ImportGameButtonProps } from './ImportGameButton.types';
+
+/** Maximum number of validation issues listed before truncating. */
+const MAX_LISTED_ISSUES = 10;
+
+/**
+ * Button that imports a game archive file as a new game.
+ * Shows validation issues (e.g. missing references) when the archive is rejected;
+ * nothing is written in that case.
+ *
+ * @param props.onImported - Callback invoked after a game archive has been imported
+ */
+export function ImportGameButton({
+  onImported,
+}: ImportGameButtonProps): JSX.Element {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [issues, setIssues] = useState<ArchiveValidationIssue[]>([]);
+
+  /**
+   * Reads the chosen file, validates and imports it.
+   *
+   * @param e - The input change event
+   */
+  const handleFileChange = useCallback(
+    async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      setError(null);
+      setIssues([]);
+      setIsImporting(true);
+      try {
+        const archive = parseArchive<GameArchive>(await file.text());
+        const result = await importGameArchive(archive);
+        if (result.game) {
+          onImported?.();
+        } else {
+          setError('The game file could not be imported.');
+          setIssues(result.issues);
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to import game.');
+      } finally {
+        setIsImporting(false);
+      }
+    },
+    [onImported]
+  );
+
+  return (
+    <div className="space-y-2">
+      <input
+        ref={inputRef}
+        type="file"
+        accept={`${GAME_ARCHIVE_FILE_EXTENSION},application/json`}
+        onChange={handleFileChange}
+        className="hidden"
+        aria-hidden
+        tabIndex={-1}
+      />
+      <button
+        type="button"
+        onClick={() => inputRef.current?.click()}
+        disabled={isImporting}
+        className="rounded border border-slate-300 bg-white px-4 py-2 text-slate-700 shadow-sm hover:bg-slate-50 disabled:opacity-50"
+      >
+        {isImporting ? 'Importing…' : 'Import game'}
+      </button>
+      {error && (
+        <div className="text-sm text-red-600" role="alert">
+          <p>{error}</p>
+          {issues.length > 0 && (
+            <ul className="mt-1 list-inside list-disc">
+              {issues.slice(0, MAX_LISTED_ISSUES).map((issue, i) => (
+                <li key={`${issue.rowId ?? ''}-${i}`}>{issue.message}</li>
+              ))}
+              {issues.length > MAX_LISTED_ISSUES && (
+                <li>…and {issues.length - MAX_LISTED_ISSUES} more</li>
+              )}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
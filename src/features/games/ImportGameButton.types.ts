@@ -0,0 +1,7 @@
+/**
+ * Props for ImportGameButton.
+ */
+export interface ImportGameButtonProps {
+  /** Callback invoked after a game archive has been imported. */
+  onImported?: () => void;
+}
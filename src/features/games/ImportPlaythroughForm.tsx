@@ -0,0 +1,201 @@
+import { useCallback, useRef, useState } from 'react';
+import { ConfirmDialog } from '../../components/ConfirmDialog';
+import {
+  importPlaythroughArchive,
+  parseArchive,
+  type ArchiveValidationIssue,
+  type ImportPlaythroughArchiveTarget,
+} from '../../lib/archive';
+import type { PlaythroughId } from '../../types/ids';
+import {
+  PLAYTHROUGH_ARCHIVE_FILE_EXTENSION,
+  type PlaythroughArchive,
+} from '../../types/PlaythroughArchive';
+import type { ImportPlaythroughFormProps } from './ImportPlaythroughForm.types';
+
+/** Maximum number of issues listed before truncating. */
+const MAX_LISTED_ISSUES = 10;
+
+/**
+ * Form to import a playthrough file into the current game, either as a new
+ * playthrough or over an existing one (with confirmation). After import, lists
+ * any progress rows that were skipped because their entity no longer exists.
+ *
+ * @param props.gameId - ID of the game the playthrough is imported into
+ * @param props.playthroughs - Existing playthroughs of the game (overwrite targets)
+ * @param props.onImported - Called with the written playthrough after a successful import
+ */
+export function ImportPlaythroughForm({
+  gameId,
+  playthroughs,
+  onImported,
+}: ImportPlaythroughFormProps): JSX.Element {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [mode, setMode] = useState<'create' | 'overwrite'>('create');
+  const [overwriteId, setOverwriteId] = useState<PlaythroughId | ''>('');
+  const [pendingArchive, setPendingArchive] =
+    useState<PlaythroughArchive | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [issues, setIssues] = useState<ArchiveValidationIssue[]>([]);
+
+  /**
+   * Imports an archive into the selected target and reports the outcome.
+   *
+   * @param archive - The parsed playthrough archive
+   */
+  const runImport = useCallback(
+    async (archive: PlaythroughArchive) => {
+      const target: ImportPlaythroughArchiveTarget =
+        mode === 'overwrite' && overwriteId
+          ? { mode: 'overwrite', playthroughId: overwriteId }
+          : { mode: 'create' };
+      setIsImporting(true);
+      try {
+        const result = await importPlaythroughArchive(archive, gameId, target);
+        setIssues(result.issues);
+        if (result.playthrough) {
+          onImported(result.playthrough);
+        } else {
+          setError('The playthrough file could not be imported.');
+        }
+      } catch (err) {
+        setError(
+          err instanceof Error ? err.message : 'Failed to import playthrough.'
+        );
+      } finally {
+        setIsImporting(false);
+      }
+    },
+    [gameId, mode, overwriteId, onImported]
+  );
+
+  /**
+   * Reads the chosen file; imports it directly or asks for overwrite confirmation.
+   *
+   * @param e - The input change event
+   */
+  const handleFileChange = useCallback(
+    async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      setError(null);
+      setIssues([]);
+      try {
+        const archive = parseArchive<PlaythroughArchive>(await file.text());
+        if (mode === 'overwrite') {
+          setPendingArchive(archive);
+        } else {
+          await runImport(archive);
+        }
+      } catch (err) {
+        setError(
+          err instanceof Error ? err.message : 'Failed to read playthrough.'
+        );
+      }
+    },
+    [mode, runImport]
+  );
+
+  /**
+   * Handles the confirmation event for overwriting a playthrough.
+   */
+  const handleOverwriteConfirm = useCallback(async () => {
+    const archive = pendingArchive;
+    setPendingArchive(null);
+    if (archive) await runImport(archive);
+  }, [pendingArchive, runImport]);
+
+  const canChooseFile = mode === 'create' || overwriteId !== '';
+
+  return (
+    <div className="flex flex-col gap-2 border-t border-slate-200 pt-4">
+      <span className="text-sm text-slate-600">Import playthrough</span>
+      <div className="flex flex-wrap items-center gap-3 text-sm text-slate-700">
+        <label className="flex items-center gap-1">
+          <input
+            type="radio"
+            name="import-playthrough-mode"
+            checked={mode === 'create'}
+            onChange={() => setMode('create')}
+          />
+          As new playthrough
+        </label>
+        <label className="flex items-center gap-1">
+          <input
+            type="radio"
+            name="import-playthrough-mode"
+            checked={mode === 'overwrite'}
+            onChange={() => setMode('overwrite')}
+          />
+          Overwrite
+        </label>
+      </div>
+      {mode === 'overwrite' ? (
+        <select
+          value={overwriteId}
+          onChange={(e) => setOverwriteId(e.target.value as PlaythroughId)}
+          className="rounded border border-slate-300 bg-white px-2 py-1.5 text-sm text-slate-900"
+          aria-label="Playthrough to overwrite"
+        >
+          <option value="">Choose playthrough…</option>
+          {playthroughs.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.name || 'Unnamed playthrough'}
+            </option>
+          ))}
+        </select>
+      ) : null}
+      <input
+        ref={inputRef}
+        type="file"
+        accept={`${PLAYTHROUGH_ARCHIVE_FILE_EXTENSION},application/json`}
+        onChange={handleFileChange}
+        className="hidden"
+        aria-hidden
+        tabIndex={-1}
+      />
+      <div>
+        <button
+          type="button"
+          onClick={() => inputRef.current?.click()}
+          disabled={isImporting || !canChooseFile}
+          className="rounded border border-slate-300 bg-white px-3 py-1.5 text-sm text-slate-700 hover:bg-slate-50 disabled:opacity-50"
+        >
+          {isImporting ? 'Importing…' : 'Choose file…'}
+        </button>
+      </div>
+      {error ? (
+        <p className="text-sm text-red-600" role="alert">
+          {error}
+        </p>
+      ) : null}
+      {issues.length > 0 ? (
+        <ul
+          className={`list-inside list-disc text-xs ${error ? 'text-red-600' : 'text-amber-700'}`}
+        >
+          {issues.slice(0, MAX_LISTED_ISSUES).map((issue, i) => (
+            <li key={`${issue.rowId ?? ''}-${i}`}>{issue.message}</li>
+          ))}
+          {issues.length > MAX_LISTED_ISSUES ? (
+            <li>…and {issues.length - MAX_LISTED_ISSUES} more</li>
+          ) : null}
+        </ul>
+      ) : null}
+
+      {pendingArchive ? (
+        <ConfirmDialog
+          isOpen
+          title="Overwrite playthrough"
+          message="Replace all progress of the chosen playthrough with the imported file? This cannot be undone."
+          confirmLabel="Overwrite"
+          cancelLabel="Cancel"
+          variant="danger"
+          onConfirm={handleOverwriteConfirm}
+          onCancel={() => setPendingArchive(null)}
+        />
+      ) : null}
+    </div>
+  );
+}
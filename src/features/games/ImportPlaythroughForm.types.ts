@@ -0,0 +1,14 @@
+import type { GameId } from '../../types/ids';
+import type { Playthrough } from '../../types/Playthrough';
+
+/**
+ * Props for ImportPlaythroughForm.
+ */
+export interface ImportPlaythroughFormProps {
+  /** ID of the game the playthrough is imported into. */
+  gameId: GameId;
+  /** Existing playthroughs of the game (overwrite targets). */
+  playthroughs: Playthrough[];
+  /** Called with the written playthrough after a successful import. */
+  onImported: (playthrough: Playthrough) => void;
+}
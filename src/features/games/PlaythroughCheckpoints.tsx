@@ -0,0 +1,203 @@
+import { useCallback, useState } from 'react';
+import { useLiveRefresh } from '../../hooks/useLiveRefresh';
+import { ConfirmDialog } from '../../components/ConfirmDialog';
+import { restoreCheckpoint, saveCheckpoint } from '../../lib/checkpoints';
+import { playthroughCheckpointRepository } from '../../lib/repositories';
+import type { PlaythroughCheckpoint } from '../../types/PlaythroughCheckpoint';
+import type { PlaythroughCheckpointsProps } from './PlaythroughCheckpoints.types';
+
+/**
+ * Save slots of one playthrough: save the current state as a named checkpoint,
+ * list checkpoints (newest first), restore one over the current state (with
+ * confirmation), or delete one.
+ *
+ * @param props.playthrough - Playthrough whose checkpoints are listed
+ * @param props.onRestored - Called with the restored playthrough after a restore
+ */
+export function PlaythroughCheckpoints({
+  playthrough,
+  onRestored,
+}: PlaythroughCheckpointsProps): JSX.Element {
+  const [checkpoints, setCheckpoints] = useState<PlaythroughCheckpoint[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [newName, setNewName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [restoreTarget, setRestoreTarget] =
+    useState<PlaythroughCheckpoint | null>(null);
+  const [deleteTarget, setDeleteTarget] =
+    useState<PlaythroughCheckpoint | null>(null);
+
+  /**
+   * Loads the checkpoints of the playthrough.
+   */
+  const loadCheckpoints = useCallback(async () => {
+    try {
+      setCheckpoints(
+        await playthroughCheckpointRepository.getByPlaythroughId(playthrough.id)
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, [playthrough.id]);
+
+  useLiveRefresh(loadCheckpoints);
+
+  /**
+   * Saves the current state of the playthrough as a new checkpoint.
+   *
+   * @param e - The form event
+   */
+  const handleSaveSubmit = useCallback(
+    async (e: React.FormEvent) => {
+      e.preventDefault();
+      setError(null);
+      setNotice(null);
+      setIsSaving(true);
+      try {
+        await saveCheckpoint(playthrough.id, newName);
+        setNewName('');
+        await loadCheckpoints();
+      } catch (err) {
+        setError(
+          err instanceof Error ? err.message : 'Failed to save checkpoint.'
+        );
+      } finally {
+        setIsSaving(false);
+      }
+    },
+    [playthrough.id, newName, loadCheckpoints]
+  );
+
+  /**
+   * Restores the confirmed checkpoint over the playthrough's current state.
+   */
+  const handleRestoreConfirm = useCallback(async () => {
+    if (!restoreTarget) return;
+    const checkpoint = restoreTarget;
+    setRestoreTarget(null);
+    setError(null);
+    setNotice(null);
+    try {
+      const result = await restoreCheckpoint(checkpoint.id);
+      setNotice(
+        result.skipped.length > 0
+          ? `Restored "${checkpoint.name}". ${result.skipped.length} row(s) skipped because their entity no longer exists.`
+          : `Restored "${checkpoint.name}".`
+      );
+      onRestored(result.playthrough);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to restore checkpoint.'
+      );
+    }
+  }, [restoreTarget, onRestored]);
+
+  /**
+   * Deletes the confirmed checkpoint.
+   */
+  const handleDeleteConfirm = useCallback(async () => {
+    if (!deleteTarget) return;
+    await playthroughCheckpointRepository.delete(deleteTarget.id);
+    setDeleteTarget(null);
+    loadCheckpoints();
+  }, [deleteTarget, loadCheckpoints]);
+
+  return (
+    <div className="flex flex-col gap-2 border-t border-slate-200 pt-2">
+      <form onSubmit={handleSaveSubmit} className="flex items-center gap-2">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="Checkpoint name"
+          disabled={isSaving}
+          className="min-w-0 flex-1 rounded border border-slate-300 bg-white px-2 py-1 text-sm text-slate-900"
+          aria-label="Checkpoint name"
+        />
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="rounded bg-slate-700 px-2 py-1 text-sm text-white hover:bg-slate-800 disabled:opacity-50"
+        >
+          {isSaving ? 'Saving…' : 'Save checkpoint'}
+        </button>
+      </form>
+      {error ? (
+        <p className="text-sm text-red-600" role="alert">
+          {error}
+        </p>
+      ) : null}
+      {notice ? (
+        <p className="text-sm text-slate-600" aria-live="polite">
+          {notice}
+        </p>
+      ) : null}
+      {isLoading ? (
+        <p className="text-sm text-slate-500">Loading checkpoints…</p>
+      ) : checkpoints.length === 0 ? (
+        <p className="text-sm text-slate-500">No checkpoints yet.</p>
+      ) : (
+        <ul className="space-y-1" aria-label="Checkpoints">
+          {checkpoints.map((checkpoint) => (
+            <li
+              key={checkpoint.id}
+              className="flex items-center gap-2 rounded bg-white px-2 py-1"
+            >
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-sm text-slate-800">
+                  {checkpoint.name}
+                </p>
+                <p className="text-xs text-slate-500">
+                  {new Date(checkpoint.createdAt).toLocaleString()}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => setRestoreTarget(checkpoint)}
+                className="rounded px-2 py-1 text-xs text-slate-500 hover:bg-slate-200 hover:text-slate-700"
+                aria-label={`Restore ${checkpoint.name}`}
+              >
+                Restore
+              </button>
+              <button
+                type="button"
+                onClick={() => setDeleteTarget(checkpoint)}
+                className="rounded px-2 py-1 text-xs text-red-600 hover:bg-red-50 hover:text-red-700"
+                aria-label={`Delete ${checkpoint.name}`}
+              >
+                Delete
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {restoreTarget ? (
+        <ConfirmDialog
+          isOpen
+          title="Restore checkpoint"
+          message={`Restore "${restoreTarget.name}"? The current progress of this playthrough will be replaced.`}
+          confirmLabel="Restore"
+          cancelLabel="Cancel"
+          variant="danger"
+          onConfirm={handleRestoreConfirm}
+          onCancel={() => setRestoreTarget(null)}
+        />
+      ) : null}
+      {deleteTarget ? (
+        <ConfirmDialog
+          isOpen
+          title="Delete checkpoint"
+          message={`Delete "${deleteTarget.name}"? The playthrough's current progress is not affected.`}
+          confirmLabel="Delete"
+          cancelLabel="Cancel"
+          variant="danger"
+          onConfirm={handleDeleteConfirm}
+          onCancel={() => setDeleteTarget(null)}
+        />
+      ) : null}
+    </div>
+  );
+}
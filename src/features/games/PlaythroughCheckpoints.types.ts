@@ -0,0 +1,11 @@
+import type { Playthrough } from '../../types/Playthrough';
+
+/**
+ * Props for PlaythroughCheckpoints.
+ */
+export interface PlaythroughCheckpointsProps {
+  /** Playthrough whose checkpoints are listed. */
+  playthrough: Playthrough;
+  /** Called with the restored playthrough after a checkpoint is restored. */
+  onRestored: (playthrough: Playthrough) => void;
+}
@@ -1,22 +1,33 @@
 import { useCallback, useState } from 'react';
 import { ConfirmDialog } from '../../components/ConfirmDialog';
+import { exportPlaythroughArchive, serializeArchive } from '../../lib/archive';
+import { getDataSourceKind } from '../../lib/configureDataSource';
+import { forkPlaythrough } from '../../lib/playthroughState';
 import { playthroughRepository } from '../../lib/repositories';
 import { useAppStore } from '../../stores/appStore';
 import type { Playthrough } from '../../types/Playthrough';
+import { PLAYTHROUGH_ARCHIVE_FILE_EXTENSION } from '../../types/PlaythroughArchive';
+import { downloadBlob } from '../../utils/downloadBlob';
+import { ImportPlaythroughForm } from './ImportPlaythroughForm';
+import { PlaythroughCheckpoints } from './PlaythroughCheckpoints';
 import type { PlaythroughPanelProps } from './PlaythroughPanel.types';
 
 /**
- * Panel to manage playthroughs for the current game: list, select, rename, create, delete.
- * Renders as a slide-out or overlay; call onClose to dismiss. Calls onPlaythroughsChange
- * after any mutation so the parent can refetch.
+ * Panel to manage playthroughs for the current game: list, select, rename, create, delete,
+ * fork, export to a file, import from a file, and save or restore checkpoints.
+ * Forks show the playthrough they were forked from.
+ * Renders as a slide-out or overlay; call onClose to dismiss. The parent's
+ * playthrough list is a live query, so mutations need no refetch. Checkpoints,
+ * fork, export, and import read and write the browser database directly, so
+ * they are only offered when data is stored there.
  */
 export function PlaythroughPanel({
   gameId,
   currentPlaythroughId,
   playthroughs,
   onClose,
-  onPlaythroughsChange,
 }: PlaythroughPanelProps): JSX.Element {
+  const isLocalData = getDataSourceKind() === 'local';
   const setCurrentPlaythrough = useAppStore((s) => s.setCurrentPlaythrough);
   const setCurrentGameAndPlaythrough = useAppStore(
     (s) => s.setCurrentGameAndPlaythrough
@@ -29,6 +40,11 @@ export function PlaythroughPanel({
   const [newName, setNewName] = useState('');
   const [isCreating, setIsCreating] = useState(false);
   const [createError, setCreateError] = useState<string | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [forkError, setForkError] = useState<string | null>(null);
+  const [checkpointsOpenId, setCheckpointsOpenId] = useState<string | null>(
+    null
+  );
 
   /**
    * Selects a playthrough and sets it as the current playthrough.
@@ -79,9 +95,73 @@ export function PlaythroughPanel({
       await playthroughRepository.update({ ...p, name: trimmed });
       setEditingId(null);
       setEditingName('');
-      onPlaythroughsChange();
     },
-    [editingName, cancelRename, onPlaythroughsChange]
+    [editingName, cancelRename]
+  );
+
+  /**
+   * Exports a playthrough's progress as a file and downloads it.
+   *
+   * @param p - The playthrough to export
+   */
+  const handleExportClick = useCallback(async (p: Playthrough) => {
+    setExportError(null);
+    try {
+      const archive = await exportPlaythroughArchive(p.id);
+      downloadBlob(
+        serializeArchive(archive),
+        `${p.name || 'playthrough'}${PLAYTHROUGH_ARCHIVE_FILE_EXTENSION}`
+      );
+    } catch (err) {
+      setExportError(
+        err instanceof Error ? err.message : 'Failed to export playthrough.'
+      );
+    }
+  }, []);
+
+  /**
+   * Forks a playthrough into a new one, selects the fork, and refreshes the list.
+   *
+   * @param p - The playthrough to fork
+   */
+  const handleForkClick = useCallback(
+    async (p: Playthrough) => {
+      setForkError(null);
+      try {
+        const fork = await forkPlaythrough(p.id);
+        setCurrentPlaythrough(fork.id);
+      } catch (err) {
+        setForkError(
+          err instanceof Error ? err.message : 'Failed to fork playthrough.'
+        );
+      }
+    },
+    [setCurrentPlaythrough]
+  );
+
+  /**
+   * Selects an imported playthrough and refreshes the list.
+   *
+   * @param p - The playthrough written by the import
+   */
+  const handleImported = useCallback(
+    (p: Playthrough) => {
+      setCurrentPlaythrough(p.id);
+    },
+    [setCurrentPlaythrough]
+  );
+
+  /**
+   * Selects a playthrough after one of its checkpoints was restored and
+   * refreshes the game view.
+   *
+   * @param p - The restored playthrough
+   */
+  const handleRestored = useCallback(
+    (p: Playthrough) => {
+      setCurrentPlaythrough(p.id);
+    },
+    [setCurrentPlaythrough]
   );
 
   /**
@@ -114,7 +194,6 @@ export function PlaythroughPanel({
       }
     }
     setDeleteConfirmPlaythrough(null);
-    onPlaythroughsChange();
   }, [
     deleteConfirmPlaythrough,
     currentPlaythroughId,
@@ -122,7 +201,6 @@ export function PlaythroughPanel({
     gameId,
     setCurrentPlaythrough,
     setCurrentGameAndPlaythrough,
-    onPlaythroughsChange,
   ]);
 
   /**
@@ -147,7 +225,6 @@ export function PlaythroughPanel({
         });
         setCurrentPlaythrough(created.id);
         setNewName('');
-        onPlaythroughsChange();
       } catch (err) {
         setCreateError(
           err instanceof Error ? err.message : 'Failed to create playthrough.'
@@ -156,7 +233,7 @@ export function PlaythroughPanel({
         setIsCreating(false);
       }
     },
-    [gameId, newName, setCurrentPlaythrough, onPlaythroughsChange]
+    [gameId, newName, setCurrentPlaythrough]
   );
 
   return (
@@ -235,6 +312,14 @@ export function PlaythroughPanel({
                           </span>
                         ) : null}
                       </span>
+                      {p.parentPlaythroughId ? (
+                        <span className="block text-xs text-slate-500">
+                          Forked from{' '}
+                          {playthroughs.find(
+                            (parent) => parent.id === p.parentPlaythroughId
+                          )?.name || 'a deleted playthrough'}
+                        </span>
+                      ) : null}
                     </button>
                     <button
                       type="button"
@@ -244,6 +329,39 @@ export function PlaythroughPanel({
                     >
                       Rename
                     </button>
+                    {isLocalData ? (
+                      <>
+                        <button
+                          type="button"
+                          onClick={() =>
+                            setCheckpointsOpenId((id) =>
+                              id === p.id ? null : p.id
+                            )
+                          }
+                          className="rounded px-2 py-1 text-xs text-slate-500 hover:bg-slate-200 hover:text-slate-700"
+                          aria-expanded={checkpointsOpenId === p.id}
+                          aria-label={`Checkpoints of ${p.name || 'playthrough'}`}
+                        >
+                          Checkpoints
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => void handleForkClick(p)}
+                          className="rounded px-2 py-1 text-xs text-slate-500 hover:bg-slate-200 hover:text-slate-700"
+                          aria-label={`Fork ${p.name || 'playthrough'}`}
+                        >
+                          Fork
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => void handleExportClick(p)}
+                          className="rounded px-2 py-1 text-xs text-slate-500 hover:bg-slate-200 hover:text-slate-700"
+                          aria-label={`Export ${p.name || 'playthrough'}`}
+                        >
+                          Export
+                        </button>
+                      </>
+                    ) : null}
                     <button
                       type="button"
                       onClick={() => handleDeleteClick(p)}
@@ -254,9 +372,25 @@ export function PlaythroughPanel({
                     </button>
                   </div>
                 )}
+                {checkpointsOpenId === p.id ? (
+                  <PlaythroughCheckpoints
+                    playthrough={p}
+                    onRestored={handleRestored}
+                  />
+                ) : null}
               </li>
             ))}
           </ul>
+          {exportError ? (
+            <p className="text-sm text-red-600" role="alert">
+              {exportError}
+            </p>
+          ) : null}
+          {forkError ? (
+            <p className="text-sm text-red-600" role="alert">
+              {forkError}
+            </p>
+          ) : null}
           <form
             onSubmit={handleCreateSubmit}
             className="flex flex-col gap-2 border-t border-slate-200 pt-4"
@@ -299,6 +433,13 @@ export function PlaythroughPanel({
               </p>
             ) : null}
           </form>
+          {isLocalData ? (
+            <ImportPlaythroughForm
+              gameId={gameId}
+              playthroughs={playthroughs}
+              onImported={handleImported}
+            />
+          ) : null}
         </div>
       </div>
 
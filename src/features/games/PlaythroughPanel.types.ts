@@ -13,6 +13,4 @@ export interface PlaythroughPanelProps {
   playthroughs: Playthrough[];
   /** Called when the user closes the panel. */
   onClose: () => void;
-  /** Called after create/update/delete so the parent can refetch and sync. */
-  onPlaythroughsChange: () => void;
 }
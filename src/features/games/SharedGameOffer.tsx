@@ -0,0 +1,142 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  decodeGameArchiveFromLink,
+  importGameArchive,
+  readGameShareLinkPayload,
+} from '../../lib/archive';
+import type { GameArchive } from '../../types/GameArchive';
+import type { SharedGameOfferProps } from './SharedGameOffer.types';
+
+/**
+ * Removes the shared game from the address bar, keeping the page.
+ */
+function clearShareLinkFragment(): void {
+  window.history.replaceState(
+    window.history.state,
+    '',
+    window.location.pathname + window.location.search
+  );
+}
+
+/**
+ * Banner offering to import the game carried by a share link (in the URL
+ * fragment). Nothing is written until the user chooses Import; the link is
+ * removed from the address bar once handled.
+ *
+ * @param props.onImported - Called with the new game's ID after the import
+ */
+export function SharedGameOffer({
+  onImported,
+}: SharedGameOfferProps): JSX.Element | null {
+  const [archive, setArchive] = useState<GameArchive | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    /**
+     * Decodes the shared game of the current fragment, if any.
+     */
+    async function readFragment() {
+      const payload = readGameShareLinkPayload(window.location.hash);
+      if (payload === null) return;
+      setError(null);
+      try {
+        const decoded = await decodeGameArchiveFromLink(payload);
+        if (!cancelled) setArchive(decoded);
+      } catch (err) {
+        if (cancelled) return;
+        setArchive(null);
+        setError(
+          err instanceof Error ? err.message : 'Failed to read the link.'
+        );
+      }
+    }
+
+    void readFragment();
+    const handleHashChange = () => void readFragment();
+    window.addEventListener('hashchange', handleHashChange);
+    return () => {
+      cancelled = true;
+      window.removeEventListener('hashchange', handleHashChange);
+    };
+  }, []);
+
+  /**
+   * Imports the shared game as a new game.
+   */
+  const handleImport = useCallback(async () => {
+    if (!archive) return;
+    setError(null);
+    setIsImporting(true);
+    try {
+      const result = await importGameArchive(archive);
+      if (result.game) {
+        clearShareLinkFragment();
+        setArchive(null);
+        onImported(result.game.id);
+      } else {
+        setError(
+          `The shared game could not be imported: ${result.issues[0].message}`
+        );
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import game.');
+    } finally {
+      setIsImporting(false);
+    }
+  }, [archive, onImported]);
+
+  /**
+   * Dismisses the offer and clears the link.
+   */
+  const handleDismiss = useCallback(() => {
+    clearShareLinkFragment();
+    setArchive(null);
+    setError(null);
+  }, []);
+
+  if (!archive && !error) return null;
+
+  return (
+    <div
+      className="flex flex-wrap items-center gap-3 border-b border-slate-200 bg-white px-4 py-2 text-sm text-slate-700"
+      role="status"
+    >
+      {archive ? (
+        <p>
+          This link contains the game{' '}
+          <span className="font-medium">
+            {archive.game?.name || 'Unnamed game'}
+          </span>
+          . Import it as a new game?
+        </p>
+      ) : null}
+      {error ? (
+        <p className="text-red-600" role="alert">
+          {error}
+        </p>
+      ) : null}
+      <div className="flex gap-2">
+        {archive ? (
+          <button
+            type="button"
+            onClick={() => void handleImport()}
+            disabled={isImporting}
+            className="rounded bg-slate-800 px-3 py-1 text-sm font-medium text-white hover:bg-slate-700 disabled:opacity-50"
+          >
+            {isImporting ? 'Importing…' : 'Import'}
+          </button>
+        ) : null}
+        <button
+          type="button"
+          onClick={handleDismiss}
+          className="rounded border border-slate-300 bg-white px-3 py-1 text-sm text-slate-700 hover:bg-slate-50"
+        >
+          Dismiss
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+import type { GameId } from '../../types/ids';
+
+/**
+ * Props for the SharedGameOffer component.
+ */
+export interface SharedGameOfferProps {
+  /** Called with the new game's ID after the shared game is imported. */
+  onImported: (gameId: GameId) => void;
+}
@@ -0,0 +1,82 @@
+import { useCallback, useState } from 'react';
+import { useEncryptionStore } from '../../stores/encryptionStore';
+import type { UnlockGameFormProps } from './UnlockGameForm.types';
+
+/**
+ * Passphrase prompt shown instead of an encrypted game's content until the
+ * game is unlocked for the session.
+ *
+ * @param props.gameId - ID of the encrypted game to unlock
+ */
+export function UnlockGameForm({ gameId }: UnlockGameFormProps): JSX.Element {
+  const unlock = useEncryptionStore((s) => s.unlock);
+  const [passphrase, setPassphrase] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Handles the form submission.
+   *
+   * @param e - The form event
+   */
+  const handleSubmit = useCallback(
+    async (e: React.FormEvent) => {
+      e.preventDefault();
+      setError(null);
+      setIsUnlocking(true);
+      try {
+        await unlock(gameId, passphrase);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to unlock game.');
+        setIsUnlocking(false);
+      }
+    },
+    [gameId, passphrase, unlock]
+  );
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="max-w-sm space-y-2 rounded border border-slate-200 bg-white p-4"
+    >
+      <p className="text-sm text-slate-600">
+        This game&apos;s notes are encrypted. Enter its passphrase to open it
+        for this session.
+      </p>
+      <div className="flex flex-wrap items-end gap-2">
+        <label htmlFor="unlock-passphrase" className="sr-only">
+          Passphrase
+        </label>
+        <input
+          id="unlock-passphrase"
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder="Passphrase"
+          autoComplete="current-password"
+          autoFocus
+          disabled={isUnlocking}
+          className="min-w-0 flex-1 rounded border border-slate-300 bg-white px-3 py-2 text-slate-900 shadow-sm focus:border-slate-500 focus:outline-none focus:ring-1 focus:ring-slate-500 disabled:bg-slate-100"
+          aria-invalid={error !== null}
+          aria-describedby={error ? 'unlock-passphrase-error' : undefined}
+        />
+        <button
+          type="submit"
+          disabled={isUnlocking || passphrase === ''}
+          className="rounded bg-slate-800 px-4 py-2 font-medium text-white shadow-sm hover:bg-slate-700 disabled:opacity-50"
+        >
+          {isUnlocking ? 'Unlocking…' : 'Unlock'}
+        </button>
+      </div>
+      {error && (
+        <p
+          id="unlock-passphrase-error"
+          className="text-sm text-red-600"
+          role="alert"
+        >
+          {error}
+        </p>
+      )}
+    </form>
+  );
+}
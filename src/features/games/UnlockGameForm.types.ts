@@ -0,0 +1,9 @@
+import type { GameId } from '../../types/ids';
+
+/**
+ * Props for the UnlockGameForm component.
+ */
+export interface UnlockGameFormProps {
+  /** ID of the encrypted game to unlock. */
+  gameId: GameId;
+}
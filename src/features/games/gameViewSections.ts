@@ -15,4 +15,7 @@ export const SECTIONS: MainViewType[] = [
   MainViewType.PEOPLE,
   MainViewType.INSIGHTS,
   MainViewType.THREADS,
+  MainViewType.ACTIVITY,
+  MainViewType.COMPARE,
+  MainViewType.VALIDATION,
 ];
@@ -1,7 +1,10 @@
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useState } from 'react';
 import { ConfirmDialog } from '../../components/ConfirmDialog';
 import { EntityConnections } from '../../components/EntityConnections';
 import { RequirementList } from '../../components/RequirementList';
+import { WhyLockedPanel } from '../../components/WhyLockedPanel';
+import { useLiveRefresh } from '../../hooks/useLiveRefresh';
+import type { PlaythroughEvaluation } from '../../lib/evaluation';
 import { insightRepository } from '../../lib/repositories';
 import type { GameId, InsightId, PlaythroughId } from '../../types/ids';
 import type { Insight } from '../../types/Insight';
@@ -17,6 +20,8 @@ export interface InsightListScreenProps {
   gameId: GameId;
   /** Current playthrough ID (for progress; may be null). */
   playthroughId: PlaythroughId | null;
+  /** Evaluation of the playthrough (requirement group progress and lock explanations), or null. */
+  evaluation: PlaythroughEvaluation | null;
 }
 
 const INSIGHT_STATUS_LABELS: Record<InsightStatus, string> = {
@@ -31,11 +36,13 @@ const INSIGHT_STATUS_LABELS: Record<InsightStatus, string> = {
  *
  * @param props.gameId - Game to scope the list.
  * @param props.playthroughId - Playthrough for progress (status/notes).
+ * @param props.evaluation - Playthrough evaluation for requirement group progress and lock explanations.
  * @returns A JSX element representing the InsightListScreen component.
  */
 export function InsightListScreen({
   gameId,
   playthroughId,
+  evaluation,
 }: InsightListScreenProps): JSX.Element {
   const [insights, setInsights] = useState<Insight[]>([]);
   const [progressByInsight, setProgressByInsight] = useState<
@@ -52,7 +59,6 @@ export function InsightListScreen({
    * Loads the insights for the current game.
    */
   const loadInsights = useCallback(async () => {
-    setIsLoading(true);
     try {
       const [list, progressList] = await Promise.all([
         insightRepository.getByGameId(gameId),
@@ -71,9 +77,7 @@ export function InsightListScreen({
     }
   }, [gameId, playthroughId]);
 
-  useEffect(() => {
-    loadInsights();
-  }, [loadInsights]);
+  useLiveRefresh(loadInsights);
 
   /**
    * Handles the confirmation of deleting an insight.
@@ -82,8 +86,7 @@ export function InsightListScreen({
     if (deleteTarget === null) return;
     await insightRepository.delete(deleteTarget);
     setDeleteTarget(null);
-    loadInsights();
-  }, [deleteTarget, loadInsights]);
+  }, [deleteTarget]);
 
   /**
    * Handles the change of status for an insight.
@@ -98,9 +101,8 @@ export function InsightListScreen({
         status: newStatus,
         notes: existing?.notes ?? '',
       });
-      loadInsights();
     },
-    [playthroughId, progressByInsight, loadInsights]
+    [playthroughId, progressByInsight]
   );
 
   if (isLoading) {
@@ -126,20 +128,14 @@ export function InsightListScreen({
             <InsightForm
               mode="create"
               gameId={gameId}
-              onSaved={() => {
-                setFormState(null);
-                loadInsights();
-              }}
+              onSaved={() => setFormState(null)}
               onCancel={() => setFormState(null)}
             />
           ) : (
             <InsightForm
               mode="edit"
               insight={formState.insight}
-              onSaved={() => {
-                setFormState(null);
-                loadInsights();
-              }}
+              onSaved={() => setFormState(null)}
               onCancel={() => setFormState(null)}
             />
           )}
@@ -231,9 +227,14 @@ export function InsightListScreen({
                     <RequirementList
                       gameId={gameId}
                       entityId={insight.id}
-                      playthroughId={playthroughId}
+                      evaluation={evaluation}
                       entityDisplayName={insight.title}
                     />
+                    <WhyLockedPanel
+                      entityId={insight.id}
+                      playthroughId={playthroughId}
+                      evaluation={evaluation}
+                    />
                   </div>
                 ) : null}
               </li>
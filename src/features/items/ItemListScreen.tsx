@@ -1,15 +1,23 @@
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useState } from 'react';
 import { ConfirmDialog } from '../../components/ConfirmDialog';
 import { EntityConnections } from '../../components/EntityConnections';
 import { RequirementList } from '../../components/RequirementList';
-import { getEntityLocationPlaceIds } from '../../lib/location';
-import { checkEntityAvailability } from '../../lib/requirements';
-import { itemRepository, placeRepository } from '../../lib/repositories';
+import { WhyLockedPanel } from '../../components/WhyLockedPanel';
+import { useLiveRefresh } from '../../hooks/useLiveRefresh';
+import {
+  getSnapshotEntityName,
+  type PlaythroughEvaluation,
+} from '../../lib/evaluation';
+import { getLocationPlaceIdsByEntity } from '../../lib/location';
+import {
+  itemRepository,
+  placeRepository,
+  threadRepository,
+} from '../../lib/repositories';
 import type { GameId, ItemId, PlaceId, PlaythroughId } from '../../types/ids';
 import type { Item } from '../../types/Item';
 import type { ItemState } from '../../types/ItemState';
 import { ItemStatus } from '../../types/ItemStatus';
-import { getEntityDisplayName } from '../../utils/getEntityDisplayName';
 import { ItemForm } from './ItemForm';
 
 /**
@@ -20,6 +28,8 @@ export interface ItemListScreenProps {
   gameId: GameId;
   /** Current playthrough ID (for state; may be null). */
   playthroughId: PlaythroughId | null;
+  /** Evaluation of the playthrough (availability), or null. */
+  evaluation: PlaythroughEvaluation | null;
 }
 
 const ITEM_STATUS_LABELS: Record<ItemStatus, string> = {
@@ -35,11 +45,13 @@ const ITEM_STATUS_LABELS: Record<ItemStatus, string> = {
  *
  * @param props.gameId - Game to scope the list.
  * @param props.playthroughId - Playthrough for state (status/notes).
+ * @param props.evaluation - Playthrough evaluation for availability.
  * @returns A JSX element representing the ItemListScreen component.
  */
 export function ItemListScreen({
   gameId,
   playthroughId,
+  evaluation,
 }: ItemListScreenProps): JSX.Element {
   const [items, setItems] = useState<Item[]>([]);
   const [placeNames, setPlaceNames] = useState<Record<string, string>>({});
@@ -47,12 +59,6 @@ export function ItemListScreen({
     Record<string, PlaceId[]>
   >({});
   const [stateByItem, setStateByItem] = useState<Record<string, ItemState>>({});
-  const [availabilityByItem, setAvailabilityByItem] = useState<
-    Record<string, { available: boolean; unmetRequirementTargetIds: string[] }>
-  >({});
-  const [unmetRequirementNames, setUnmetRequirementNames] = useState<
-    Record<string, string>
-  >({});
   const [isLoading, setIsLoading] = useState(true);
   const [formState, setFormState] = useState<
     { type: 'create' } | { type: 'edit'; item: Item } | null
@@ -64,11 +70,11 @@ export function ItemListScreen({
    * Loads the items for the current game.
    */
   const loadItems = useCallback(async () => {
-    setIsLoading(true);
     try {
-      const [list, places, stateList] = await Promise.all([
+      const [list, places, threads, stateList] = await Promise.all([
         itemRepository.getByGameId(gameId),
         placeRepository.getByGameId(gameId),
+        threadRepository.getByGameId(gameId, null),
         playthroughId
           ? itemRepository.getAllStateForPlaythrough(playthroughId)
           : Promise.resolve([]),
@@ -85,69 +91,21 @@ export function ItemListScreen({
       });
       setStateByItem(byItem);
 
-      const locationByItem: Record<string, PlaceId[]> = {};
-      await Promise.all(
-        list.map(async (item) => {
-          const ids = await getEntityLocationPlaceIds(gameId, item.id);
-          locationByItem[item.id] = ids;
-        })
+      const locationByEntity = getLocationPlaceIdsByEntity(threads);
+      setLocationPlaceIdsByItem(
+        Object.fromEntries(
+          list.map((item) => [item.id, locationByEntity.get(item.id) ?? []])
+        )
       );
-      setLocationPlaceIdsByItem(locationByItem);
-
-      // Check availability of items based on current playthrough.
-      if (playthroughId && list.length > 0) {
-        const results = await Promise.all(
-          list.map(async (item) => {
-            const result = await checkEntityAvailability(
-              gameId,
-              playthroughId,
-              item.id
-            );
-            return { itemId: item.id, ...result };
-          })
-        );
-
-        const byItemId: Record<
-          string,
-          { available: boolean; unmetRequirementTargetIds: string[] }
-        > = {};
-        const allUnmetIds = new Set<string>();
-
-        // Group results by item ID.
-        results.forEach((r) => {
-          byItemId[r.itemId] = {
-            available: r.available,
-            unmetRequirementTargetIds: r.unmetRequirementTargetIds,
-          };
-          r.unmetRequirementTargetIds.forEach((id) => allUnmetIds.add(id));
-        });
-
-        // Set availability by item ID.
-        setAvailabilityByItem(byItemId);
-
-        // Get names of unmet requirement targets.
-        const nameEntries = await Promise.all(
-          Array.from(allUnmetIds).map(async (id) => {
-            const name = await getEntityDisplayName(id);
-            return [id, name] as const;
-          })
-        );
-
-        // Set names of unmet requirement targets.
-        setUnmetRequirementNames(Object.fromEntries(nameEntries));
-      } else {
-        // No playthrough selected, so no availability to check.
-        setAvailabilityByItem({});
-        setUnmetRequirementNames({});
-      }
     } finally {
       setIsLoading(false);
     }
   }, [gameId, playthroughId]);
 
-  useEffect(() => {
-    loadItems();
-  }, [loadItems]);
+  useLiveRefresh(loadItems);
+
+  const nameOf = (id: string) =>
+    evaluation ? getSnapshotEntityName(evaluation.snapshot, id) : id;
 
   /**
    * Handles the confirmation of deleting an item.
@@ -156,8 +114,7 @@ export function ItemListScreen({
     if (deleteTarget === null) return;
     await itemRepository.delete(deleteTarget);
     setDeleteTarget(null);
-    loadItems();
-  }, [deleteTarget, loadItems]);
+  }, [deleteTarget]);
 
   /**
    * Handles the change of status for an item.
@@ -172,9 +129,8 @@ export function ItemListScreen({
         status: newStatus,
         notes: existing?.notes ?? '',
       });
-      loadItems();
     },
-    [playthroughId, stateByItem, loadItems]
+    [playthroughId, stateByItem]
   );
 
   if (isLoading) {
@@ -200,20 +156,14 @@ export function ItemListScreen({
             <ItemForm
               mode="create"
               gameId={gameId}
-              onSaved={() => {
-                setFormState(null);
-                loadItems();
-              }}
+              onSaved={() => setFormState(null)}
               onCancel={() => setFormState(null)}
             />
           ) : (
             <ItemForm
               mode="edit"
               item={formState.item}
-              onSaved={() => {
-                setFormState(null);
-                loadItems();
-              }}
+              onSaved={() => setFormState(null)}
               onCancel={() => setFormState(null)}
             />
           )}
@@ -228,6 +178,7 @@ export function ItemListScreen({
             const state = stateByItem[item.id];
             const status = state?.status ?? ItemStatus.NOT_ACQUIRED;
             const isExpanded = expandedId === item.id;
+            const availability = evaluation?.availabilityById.get(item.id);
             return (
               <li
                 key={item.id}
@@ -239,7 +190,7 @@ export function ItemListScreen({
                     <div className="flex flex-wrap items-center gap-2">
                       <p className="font-medium text-slate-900">{item.name}</p>
                       {playthroughId !== null &&
-                        availabilityByItem[item.id]?.available === false && (
+                        availability?.available === false && (
                           <span className="rounded bg-amber-100 px-1.5 py-0.5 text-xs font-medium text-amber-800">
                             Unavailable
                           </span>
@@ -248,13 +199,12 @@ export function ItemListScreen({
 
                     {/* Show unmet requirements if the item is unavailable. */}
                     {playthroughId !== null &&
-                      availabilityByItem[item.id]?.available === false &&
-                      availabilityByItem[item.id].unmetRequirementTargetIds
-                        .length > 0 && (
+                      availability?.available === false &&
+                      availability.unmetRequirementTargetIds.length > 0 && (
                         <p className="text-sm text-slate-600">
                           Requires:{' '}
-                          {availabilityByItem[item.id].unmetRequirementTargetIds
-                            .map((id) => unmetRequirementNames[id] ?? id)
+                          {availability.unmetRequirementTargetIds
+                            .map(nameOf)
                             .join(', ')}
                         </p>
                       )}
@@ -332,9 +282,14 @@ export function ItemListScreen({
                     <RequirementList
                       gameId={gameId}
                       entityId={item.id}
-                      playthroughId={playthroughId}
+                      evaluation={evaluation}
                       entityDisplayName={item.name}
                     />
+                    <WhyLockedPanel
+                      entityId={item.id}
+                      playthroughId={playthroughId}
+                      evaluation={evaluation}
+                    />
                   </div>
                 ) : null}
               </li>
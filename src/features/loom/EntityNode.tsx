@@ -13,7 +13,15 @@ import {
   getUnavailableEntityTypeColorClasses,
   getSpoilerHiddenColorClasses,
 } from '../../utils/entityTypeColors';
-import type { EntityNodeData } from './useLoomGraph';
+import type { EntityNodeData, LoomComparisonResolution } from './useLoomGraph';
+
+/** Ring classes for the comparison overlay, by which run has the entity resolved. */
+const RESOLVED_IN_RING_CLASSES: Record<LoomComparisonResolution, string> = {
+  both: 'ring-4 ring-slate-500',
+  this: 'ring-4 ring-sky-500',
+  other: 'ring-4 ring-amber-500',
+  neither: '',
+};
 
 /** Entity node type for Loom (custom data). */
 type EntityNodeType = Node<EntityNodeData>;
@@ -51,6 +59,8 @@ function EntityNodeComponent({
     actionable = false,
     completed = false,
     spoilerHidden = false,
+    resolvedIn,
+    inLockExplanation,
   } = data;
 
   const typeLabel = spoilerHidden
@@ -68,6 +78,14 @@ function EntityNodeComponent({
   const isEmphasized = actionable && available && !spoilerHidden && !completed;
   const borderClasses = isEmphasized ? 'border-4 border-teal-500' : 'border-0';
   const selectionClasses = selected ? 'scale-110' : '';
+  const comparisonClasses =
+    resolvedIn && !spoilerHidden ? RESOLVED_IN_RING_CLASSES[resolvedIn] : '';
+  const lockExplanationClasses =
+    inLockExplanation === true
+      ? 'ring-4 ring-rose-500'
+      : inLockExplanation === false
+        ? 'opacity-30'
+        : '';
 
   // Opacity is lowered for completed entities so they visually recede. Unavailable
   // entities use desaturated type colors instead of opacity changes. Spoiler-hidden
@@ -82,7 +100,7 @@ function EntityNodeComponent({
 
   return (
     <div
-      className={`relative rounded px-3 py-2 shadow-sm ${baseColorClasses} ${opacityClass} ${borderClasses} ${selectionClasses}`}
+      className={`relative rounded px-3 py-2 shadow-sm ${baseColorClasses} ${opacityClass} ${borderClasses} ${selectionClasses} ${comparisonClasses} ${lockExplanationClasses}`}
     >
       <Handle
         type="target"
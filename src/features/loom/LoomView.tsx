@@ -1,6 +1,7 @@
 /**
  * Loom (graph) view: React Flow canvas showing entities as nodes and threads as edges.
- * Replaces the Threads tab content. Uses d3-force for layout; supports node/edge selection and focus.
+ * Replaces the Threads tab content. Uses d3-force for layout; supports node/edge selection and focus,
+ * and highlights the "why locked?" subgraph of a selected unavailable entity.
  */
 
 import {
@@ -14,8 +15,15 @@ import {
   type Edge,
 } from '@xyflow/react';
 import '@xyflow/react/dist/style.css';
-import { useCallback, useEffect, useRef } from 'react';
-import type { GameId, PlaceId, PlaythroughId } from '../../types/ids';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { LockExplanationTree } from '../../components/LockExplanationTree';
+import {
+  explainEntityLock,
+  getLockExplanationSubgraph,
+  type EntityLockExplanation,
+} from '../../lib/lockExplanation';
+import type { PlaythroughEvaluation } from '../../lib/evaluation';
+import type { GameId, PlaythroughId } from '../../types/ids';
 import { EntityNode } from './EntityNode';
 import { useLoomGraph } from './useLoomGraph';
 
@@ -32,14 +40,11 @@ export interface LoomViewProps {
   /** Current playthrough ID (threads include game-level and this playthrough). */
   playthroughId: PlaythroughId | null;
 
-  /** Reachable place IDs from current position (for node availability styling). */
-  reachablePlaceIds: Set<PlaceId>;
-
-  /** Set of actionable entity IDs (for node emphasis styling). */
-  actionableEntityIds: Set<string>;
+  /** Evaluation of the playthrough (availability, actionable, and route styling), or null. */
+  evaluation: PlaythroughEvaluation | null;
 
-  /** Set of thread IDs on actionable routes (for edge emphasis styling). */
-  actionableRouteEdgeIds: Set<string>;
+  /** Optional evaluation of a playthrough to compare against; nodes are ringed by which run has them resolved. */
+  compareWithEvaluation?: PlaythroughEvaluation | null;
 }
 
 /**
@@ -48,33 +53,55 @@ export interface LoomViewProps {
 function LoomContent({
   gameId,
   playthroughId,
-  reachablePlaceIds,
-  actionableEntityIds,
-  actionableRouteEdgeIds,
+  evaluation,
+  compareWithEvaluation = null,
 }: LoomViewProps): JSX.Element {
   const {
     nodes: initialNodes,
     edges: initialEdges,
     isLoading,
     error,
-  } = useLoomGraph(
-    gameId,
-    playthroughId,
-    reachablePlaceIds,
-    actionableEntityIds,
-    actionableRouteEdgeIds
-  );
+  } = useLoomGraph(gameId, playthroughId, evaluation, compareWithEvaluation);
 
   const [nodes, setNodes, onNodesChange] = useNodesState(initialNodes);
   const [edges, setEdges, onEdgesChange] = useEdgesState(initialEdges);
   const { fitView } = useReactFlow();
   const prevLoading = useRef(true);
+  const [explainedEntityId, setExplainedEntityId] = useState<string | null>(
+    null
+  );
+
+  // The explanation belongs to one game and playthrough.
+  useEffect(() => {
+    setExplainedEntityId(null);
+  }, [gameId, playthroughId]);
+
+  // Derived from the shared evaluation, so it follows progress changes.
+  const lockExplanation = useMemo<EntityLockExplanation | null>(
+    () =>
+      explainedEntityId !== null && evaluation
+        ? explainEntityLock(evaluation, explainedEntityId)
+        : null,
+    [explainedEntityId, evaluation]
+  );
 
-  // Sync when graph data finishes loading (e.g. game/playthrough change)
+  // Sync when graph data finishes loading (e.g. game/playthrough change), and
+  // merge later live refreshes so dragged positions and selection survive.
   useEffect(() => {
     if (prevLoading.current && !isLoading) {
       setNodes(initialNodes);
       setEdges(initialEdges);
+    } else if (!isLoading) {
+      setNodes((current) => {
+        const currentById = new Map(current.map((n) => [n.id, n]));
+        return initialNodes.map((n) => {
+          const existing = currentById.get(n.id);
+          return existing
+            ? { ...n, position: existing.position, selected: existing.selected }
+            : n;
+        });
+      });
+      setEdges(initialEdges);
     }
     prevLoading.current = isLoading;
   }, [isLoading, initialNodes, initialEdges, setNodes, setEdges]);
@@ -115,6 +142,46 @@ function LoomContent({
     [setNodes, setEdges]
   );
 
+  const selectedNodes = nodes.filter((n) => n.selected);
+  const lockedSelection =
+    selectedNodes.length === 1 && selectedNodes[0].data.available === false
+      ? selectedNodes[0]
+      : null;
+
+  // Entities and threads of the shown explanation are highlighted; the rest is dimmed.
+  const lockSubgraph = useMemo(
+    () =>
+      lockExplanation ? getLockExplanationSubgraph(lockExplanation) : null,
+    [lockExplanation]
+  );
+  const displayedNodes = useMemo(
+    () =>
+      lockSubgraph
+        ? nodes.map((n) => ({
+            ...n,
+            data: {
+              ...n.data,
+              inLockExplanation: lockSubgraph.entityIds.has(n.id),
+            },
+          }))
+        : nodes,
+    [nodes, lockSubgraph]
+  );
+  const displayedEdges = useMemo(
+    () =>
+      lockSubgraph
+        ? edges.map(
+            (e): Edge => ({
+              ...e,
+              style: lockSubgraph.threadIds.has(e.id)
+                ? { ...e.style, stroke: '#e11d48', strokeWidth: 3, opacity: 1 }
+                : { ...e.style, opacity: 0.2 },
+            })
+          )
+        : edges,
+    [edges, lockSubgraph]
+  );
+
   /**
    * Fits the view to the nodes.
    */
@@ -153,8 +220,8 @@ function LoomContent({
     <div className="loom-flow h-full min-h-[400px] w-full">
       <ReactFlow
         className="loom-flow__canvas"
-        nodes={nodes}
-        edges={edges}
+        nodes={displayedNodes}
+        edges={displayedEdges}
         onNodesChange={onNodesChange}
         onEdgesChange={onEdgesChange}
         onEdgeClick={onEdgeClick}
@@ -175,6 +242,39 @@ function LoomContent({
           Fit view
         </button>
       </Panel>
+      {lockExplanation ? (
+        <Panel position="top-left">
+          <div className="max-h-[60vh] w-80 overflow-auto rounded border border-slate-200 bg-white p-3 shadow">
+            <div className="mb-2 flex items-center justify-between gap-2">
+              <p className="text-sm font-medium text-slate-800">
+                Why {lockExplanation.name} is locked
+              </p>
+              <button
+                type="button"
+                onClick={() => setExplainedEntityId(null)}
+                className="rounded border border-slate-300 bg-white px-2 py-0.5 text-xs text-slate-600 hover:bg-slate-50"
+              >
+                Clear
+              </button>
+            </div>
+            {lockExplanation.locked ? (
+              <LockExplanationTree explanation={lockExplanation} />
+            ) : (
+              <p className="text-sm text-slate-500">Not locked any more.</p>
+            )}
+          </div>
+        </Panel>
+      ) : lockedSelection && evaluation ? (
+        <Panel position="top-left">
+          <button
+            type="button"
+            onClick={() => setExplainedEntityId(lockedSelection.id)}
+            className="rounded border border-slate-200 bg-white px-2 py-1 text-sm text-slate-600 shadow hover:bg-slate-50"
+          >
+            Why locked?
+          </button>
+        </Panel>
+      ) : null}
     </div>
   );
 }
@@ -185,26 +285,23 @@ function LoomContent({
  *
  * @param props.gameId - Current game ID.
  * @param props.playthroughId - Current playthrough ID.
- * @param props.reachablePlaceIds - Reachable place IDs from current position.
- * @param props.actionableEntityIds - Set of actionable entity IDs for node emphasis.
- * @param props.actionableRouteEdgeIds - Set of thread IDs on actionable routes for edge emphasis.
+ * @param props.evaluation - Playthrough evaluation for node and edge styling.
+ * @param props.compareWithEvaluation - Optional evaluation of a playthrough for the comparison overlay.
  * @returns A JSX element representing the LoomView component.
  */
 export function LoomView({
   gameId,
   playthroughId,
-  reachablePlaceIds,
-  actionableEntityIds,
-  actionableRouteEdgeIds,
+  evaluation,
+  compareWithEvaluation = null,
 }: LoomViewProps): JSX.Element {
   return (
     <ReactFlowProvider>
       <LoomContent
         gameId={gameId}
         playthroughId={playthroughId}
-        reachablePlaceIds={reachablePlaceIds}
-        actionableEntityIds={actionableEntityIds}
-        actionableRouteEdgeIds={actionableRouteEdgeIds}
+        evaluation={evaluation}
+        compareWithEvaluation={compareWithEvaluation}
       />
     </ReactFlowProvider>
   );
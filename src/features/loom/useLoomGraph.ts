@@ -3,14 +3,14 @@
  * and runs d3-force layout. Used by LoomView.
  */
 
-import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import type { Edge, Node } from '@xyflow/react';
 import { EntityType } from '../../types/EntityType';
 import { ThreadSubtype } from '../../types/ThreadSubtype';
-import { PathStatus } from '../../types/PathStatus';
-import type { GameId, PlaceId, PlaythroughId } from '../../types/ids';
+import { RequirementGroupOperator } from '../../types/RequirementGroupOperator';
+import type { GameId, PathId, PlaythroughId } from '../../types/ids';
+import type { Thread } from '../../types/Thread';
 import {
-  entityDiscoveryRepository,
   insightRepository,
   itemRepository,
   pathRepository,
@@ -24,13 +24,23 @@ import {
   getThreadSubtype,
 } from '../../utils/threadSubtype';
 import { getEntityTypeFromId } from '../../utils/parseEntityId';
-import {
-  checkEntityAvailability,
-  checkEntityAvailabilityWithReachability,
-} from '../../lib/requirements';
-import { getCompletedEntityIdsForPlaythrough } from '../../lib/completion';
+import { getRequirementGroupLabel } from '../../utils/requirementGroupOperators';
+import type { PlaythroughEvaluation } from '../../lib/evaluation';
+import { observeTables } from '../../lib/live';
 import { runForceLayout } from './loomLayout';
 
+/**
+ * Edge color of requirements in any-of, none-of, and "N of M" groups; all-of
+ * requirements keep the default color.
+ */
+const REQUIREMENT_GROUP_EDGE_COLORS: Partial<
+  Record<RequirementGroupOperator, string>
+> = {
+  [RequirementGroupOperator.ANY_OF]: '#d97706',
+  [RequirementGroupOperator.NONE_OF]: '#dc2626',
+  [RequirementGroupOperator.AT_LEAST]: '#7c3aed',
+};
+
 /** Data passed to the custom entity node. */
 export interface EntityNodeData extends Record<string, unknown> {
   /** Entity type for badge/label. */
@@ -59,101 +69,90 @@ export interface EntityNodeData extends Record<string, unknown> {
    * entity type is not revealed; callers may also choose to mask labels.
    */
   spoilerHidden?: boolean;
+
+  /**
+   * Set only when comparing against another playthrough: which run has this
+   * entity resolved (see getCompletedEntityIdsForPlaythrough). 'this' is the
+   * Loom's playthrough, 'other' the compared one.
+   */
+  resolvedIn?: LoomComparisonResolution;
+
+  /**
+   * Set while a "Why locked?" explanation is shown: true for entities in the
+   * explanation (highlighted), false for the rest (dimmed).
+   */
+  inLockExplanation?: boolean;
 }
 
+/** Which of two compared runs has an entity resolved. */
+export type LoomComparisonResolution = 'both' | 'this' | 'other' | 'neither';
+
 /** The width of the layout. */
 const LAYOUT_WIDTH = 800;
 
 /** The height of the layout. */
 const LAYOUT_HEIGHT = 600;
 
+/** Laid-out graph data, before playthrough state is applied. */
+interface LoomGraphData {
+  /** Entities with their layout positions. */
+  entities: {
+    id: string;
+    entityType: EntityType;
+    label: string;
+    position: { x: number; y: number };
+  }[];
+
+  /** Threads between loaded entities. */
+  threads: Thread[];
+}
+
 /**
  * Loads entities and threads for the current game (and playthrough), builds
- * nodes and edges for React Flow, and runs force-directed layout.
+ * nodes and edges for React Flow, and runs force-directed layout. Playthrough
+ * state (availability, completion, discovery, traversability, actionable
+ * emphasis) is applied from the shared evaluation without reloading or
+ * re-running layout.
  *
  * @param gameId - Current game ID.
  * @param playthroughId - Current playthrough ID (threads include game-level and this playthrough).
- * @param reachablePlaceIds - Reachable place IDs from current position; when null, all nodes are treated as available.
- * @param actionableEntityIds - Set of actionable entity IDs; those nodes get emphasis styling.
- * @param actionableRouteEdgeIds - Set of thread IDs on shortest routes to actionable nodes; those edges get emphasis styling.
+ * @param evaluation - Evaluation of the playthrough; when null, all nodes are treated as available.
+ * @param compareWithEvaluation - Optional evaluation of a second playthrough; when set, nodes carry which run has them resolved.
  * @returns Nodes, edges, loading state, and optional error.
  */
 export function useLoomGraph(
   gameId: GameId,
   playthroughId: PlaythroughId | null,
-  reachablePlaceIds: Set<PlaceId>,
-  actionableEntityIds: Set<string>,
-  actionableRouteEdgeIds: Set<string>
+  evaluation: PlaythroughEvaluation | null,
+  compareWithEvaluation: PlaythroughEvaluation | null = null
 ): {
   nodes: Node<EntityNodeData>[];
   edges: Edge[];
   isLoading: boolean;
   error: string | null;
 } {
-  const [nodes, setNodes] = useState<Node<EntityNodeData>[]>([]);
-  const [edges, setEdges] = useState<Edge[]>([]);
+  const [graph, setGraph] = useState<LoomGraphData | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  const reachablePlaceIdsRef = useRef(reachablePlaceIds);
-  reachablePlaceIdsRef.current = reachablePlaceIds;
-  const reachablePlaceIdsKey = useMemo(
-    () => Array.from(reachablePlaceIds).sort().join(','),
-    [reachablePlaceIds]
-  );
-  const actionableEntityIdsRef = useRef(actionableEntityIds);
-  actionableEntityIdsRef.current = actionableEntityIds;
-  const actionableEntityIdsKey = useMemo(
-    () => Array.from(actionableEntityIds).sort().join(','),
-    [actionableEntityIds]
-  );
-  const actionableRouteEdgeIdsRef = useRef(actionableRouteEdgeIds);
-  actionableRouteEdgeIdsRef.current = actionableRouteEdgeIds;
-  const actionableRouteEdgeIdsKey = useMemo(
-    () => Array.from(actionableRouteEdgeIds).sort().join(','),
-    [actionableRouteEdgeIds]
-  );
-
   /**
-   * Loads the graph data for the current game and playthrough.
-   * Reads reachablePlaceIds from a ref so the callback is stable when the Set
-   * reference changes but its contents do not; the effect re-runs via
-   * reachablePlaceIdsKey when contents change.
+   * Loads the entities and threads for the current game and playthrough and
+   * lays them out.
    */
   const load = useCallback(async () => {
     if (!gameId) return;
-    setIsLoading(true);
     setError(null);
     try {
-      const [
-        quests,
-        insights,
-        items,
-        people,
-        places,
-        paths,
-        threads,
-        pathProgress,
-        discoveryRows,
-        completedIds,
-      ] = await Promise.all([
-        questRepository.getByGameId(gameId),
-        insightRepository.getByGameId(gameId),
-        itemRepository.getByGameId(gameId),
-        personRepository.getByGameId(gameId),
-        placeRepository.getByGameId(gameId),
-        pathRepository.getByGameId(gameId),
-        threadRepository.getByGameId(gameId, playthroughId),
-        playthroughId
-          ? pathRepository.getAllProgressForPlaythrough(playthroughId)
-          : Promise.resolve([]),
-        playthroughId
-          ? entityDiscoveryRepository.getAllForPlaythrough(playthroughId)
-          : Promise.resolve([]),
-        playthroughId
-          ? getCompletedEntityIdsForPlaythrough(playthroughId)
-          : Promise.resolve(new Set<string>()),
-      ]);
+      const [quests, insights, items, people, places, paths, threads] =
+        await Promise.all([
+          questRepository.getByGameId(gameId),
+          insightRepository.getByGameId(gameId),
+          itemRepository.getByGameId(gameId),
+          personRepository.getByGameId(gameId),
+          placeRepository.getByGameId(gameId),
+          pathRepository.getByGameId(gameId),
+          threadRepository.getByGameId(gameId, playthroughId),
+        ]);
 
       const entityList: {
         id: string;
@@ -204,187 +203,29 @@ export function useLoomGraph(
         })
       );
 
-      const pathStatusById = new Map<string, PathStatus>();
-      for (const row of pathProgress as {
-        pathId: string;
-        status: PathStatus;
-      }[]) {
-        pathStatusById.set(row.pathId, row.status);
-      }
-
-      const pathAvailabilityById = new Map<string, boolean>();
-      if (playthroughId) {
-        const results = await Promise.all(
-          paths.map(async (p) => {
-            const availability = await checkEntityAvailability(
-              gameId,
-              playthroughId,
-              p.id
-            );
-            return { id: p.id, available: availability.available };
-          })
-        );
-        for (const r of results) {
-          pathAvailabilityById.set(r.id, r.available);
-        }
-      }
-
-      const entityAvailabilityById = new Map<string, boolean>();
-      const currentReachable = reachablePlaceIdsRef.current;
-      if (playthroughId && currentReachable) {
-        const results = await Promise.all(
-          entityList.map(async (e) => {
-            const available = await checkEntityAvailabilityWithReachability(
-              gameId,
-              playthroughId,
-              e.id,
-              currentReachable
-            );
-            return { id: e.id, available };
-          })
-        );
-        for (const r of results) {
-          entityAvailabilityById.set(r.id, r.available);
-        }
-      }
-
-      /**
-       * Checks if a path is traversable.
-       *
-       * @param pathId - The ID of the path to check.
-       * @returns True if the path is traversable, false otherwise.
-       */
-      const getPathTraversable = (pathId: string): boolean => {
-        const status = pathStatusById.get(pathId) ?? PathStatus.RESTRICTED;
-        if (status === PathStatus.BLOCKED) {
-          return false;
-        }
-        if (status === PathStatus.OPENED) {
-          return true;
-        }
-        // RESTRICTED: requires requirements to be satisfied; without a playthrough
-        // context we cannot evaluate, so treat as not traversable.
-        if (!playthroughId) {
-          return false;
-        }
-        return pathAvailabilityById.get(pathId) ?? false;
-      };
-
       const nodeIds = entityList.map((e) => e.id);
-      const idToEntity = new Map(entityList.map((e) => [e.id, e]));
-
-      // Map entity IDs to spoiler-hidden state based on discovery records.
-      // Only explicit discovered: false rows are treated as hidden; absence of
-      // a record defaults to "visible" so existing content is unaffected until
-      // discovery rules are wired in.
-      const spoilerHiddenById = new Map<string, boolean>();
-      for (const row of discoveryRows as {
-        entityId: string;
-        discovered: boolean;
-      }[]) {
-        if (!row.discovered) {
-          spoilerHiddenById.set(row.entityId, true);
-        }
-      }
-
-      const links = threads
-        .filter((t) => idToEntity.has(t.sourceId) && idToEntity.has(t.targetId))
-        .map((t) => ({ source: t.sourceId, target: t.targetId }));
+      const entityIds = new Set(nodeIds);
+      const graphThreads = threads.filter(
+        (t) => entityIds.has(t.sourceId) && entityIds.has(t.targetId)
+      );
 
       const positions = runForceLayout(
         nodeIds,
-        links,
+        graphThreads.map((t) => ({ source: t.sourceId, target: t.targetId })),
         LAYOUT_WIDTH,
         LAYOUT_HEIGHT
       );
 
-      const flowNodes: Node<EntityNodeData>[] = entityList.map((e) => {
-        const pos = positions.get(e.id) ?? { x: 0, y: 0 };
-        const available = entityAvailabilityById.has(e.id)
-          ? entityAvailabilityById.get(e.id)
-          : true;
-        const completed = completedIds.has(e.id);
-        const spoilerHidden = spoilerHiddenById.get(e.id) ?? false;
-        return {
-          id: e.id,
-          type: 'entityNode',
-          position: { x: pos.x, y: pos.y },
-          data: {
-            entityType: e.entityType,
-            label: e.label || 'Unnamed',
-            available,
-            actionable: actionableEntityIdsRef.current.has(e.id),
-            completed,
-            spoilerHidden,
-          },
-        };
+      setGraph({
+        entities: entityList.map((e) => ({
+          ...e,
+          position: positions.get(e.id) ?? { x: 0, y: 0 },
+        })),
+        threads: graphThreads,
       });
-
-      const flowEdges: Edge[] = threads
-        .filter((t) => idToEntity.has(t.sourceId) && idToEntity.has(t.targetId))
-        .map((t) => {
-          const subtype = getThreadSubtype(t);
-          const isRequires = subtype === ThreadSubtype.REQUIRES;
-          const isObjectiveReq = subtype === ThreadSubtype.OBJECTIVE_REQUIRES;
-          const isDirectPlaceLink = subtype === ThreadSubtype.DIRECT_PLACE_LINK;
-          const isConnectsPath = subtype === ThreadSubtype.CONNECTS_PATH;
-          const displayLabel = getThreadDisplayLabel(t) || undefined;
-
-          const sourceType = getEntityTypeFromId(t.sourceId);
-          const targetType = getEntityTypeFromId(t.targetId);
-
-          let traversable = false;
-          if (isDirectPlaceLink) {
-            traversable =
-              sourceType === EntityType.PLACE &&
-              targetType === EntityType.PLACE;
-          } else if (isConnectsPath) {
-            const pathEndpoint =
-              sourceType === EntityType.PATH
-                ? t.sourceId
-                : targetType === EntityType.PATH
-                  ? t.targetId
-                  : null;
-            if (pathEndpoint) {
-              traversable = getPathTraversable(pathEndpoint);
-            }
-          }
-
-          const style: React.CSSProperties = {};
-
-          if (isRequires || isObjectiveReq) {
-            style.strokeDasharray = isRequires ? '8,4' : '2,3';
-          }
-
-          if (isDirectPlaceLink || isConnectsPath) {
-            style.stroke = traversable ? '#0f766e' : '#cbd5f5';
-            style.opacity = traversable ? 0.95 : 0.5;
-          }
-
-          const isActionableRoute = actionableRouteEdgeIdsRef.current.has(t.id);
-          if (isActionableRoute) {
-            style.stroke = '#14b8a6';
-            style.strokeWidth = 3;
-            style.opacity = 1;
-          }
-
-          return {
-            id: t.id,
-            source: t.sourceId,
-            target: t.targetId,
-            label: displayLabel,
-            type: 'default',
-            pathOptions: { curvature: 0.1 },
-            ...(Object.keys(style).length > 0 && { style }),
-          };
-        });
-
-      setNodes(flowNodes);
-      setEdges(flowEdges);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load loom');
-      setNodes([]);
-      setEdges([]);
+      setGraph(null);
     } finally {
       setIsLoading(false);
     }
@@ -392,12 +233,124 @@ export function useLoomGraph(
 
   useEffect(() => {
     load();
-  }, [
-    load,
-    reachablePlaceIdsKey,
-    actionableEntityIdsKey,
-    actionableRouteEdgeIdsKey,
-  ]);
+  }, [load]);
+
+  // Rebuild the graph whenever committed changes touch the data it reads.
+  useEffect(() => {
+    const observation = observeTables(null, load);
+    return () => observation.stop();
+  }, [load]);
+
+  const nodes = useMemo<Node<EntityNodeData>[]>(() => {
+    if (!graph) return [];
+    const otherCompletedIds = compareWithEvaluation?.completedEntityIds ?? null;
+    return graph.entities.map((e) => {
+      const completed = evaluation?.completedEntityIds.has(e.id) ?? false;
+      const otherCompleted = otherCompletedIds?.has(e.id) ?? false;
+      const resolvedIn: LoomComparisonResolution | undefined =
+        otherCompletedIds === null
+          ? undefined
+          : completed && otherCompleted
+            ? 'both'
+            : completed
+              ? 'this'
+              : otherCompleted
+                ? 'other'
+                : 'neither';
+      return {
+        id: e.id,
+        type: 'entityNode',
+        position: e.position,
+        data: {
+          entityType: e.entityType,
+          label: e.label || 'Unnamed',
+          available: !evaluation?.unavailableEntityIds.has(e.id),
+          actionable: evaluation?.actionableEntityIds.has(e.id) ?? false,
+          completed,
+          // Only explicit discovered: false rows hide an entity.
+          spoilerHidden:
+            evaluation?.snapshot.undiscoveredIds.has(e.id) ?? false,
+          resolvedIn,
+        },
+      };
+    });
+  }, [graph, evaluation, compareWithEvaluation]);
+
+  const edges = useMemo<Edge[]>(() => {
+    if (!graph) return [];
+    return graph.threads.map((t) => {
+      const subtype = getThreadSubtype(t);
+      const isRequires = subtype === ThreadSubtype.REQUIRES;
+      const isObjectiveReq = subtype === ThreadSubtype.OBJECTIVE_REQUIRES;
+      const isDirectPlaceLink = subtype === ThreadSubtype.DIRECT_PLACE_LINK;
+      const isConnectsPath = subtype === ThreadSubtype.CONNECTS_PATH;
+      // Requirements are drawn by their innermost group's operator.
+      const group = isRequires
+        ? t.requirementGroups?.[t.requirementGroups.length - 1]
+        : undefined;
+      const groupColor = group
+        ? REQUIREMENT_GROUP_EDGE_COLORS[group.operator]
+        : undefined;
+      const threadLabel = getThreadDisplayLabel(t);
+      const displayLabel =
+        (group && groupColor !== undefined
+          ? `${threadLabel} (${getRequirementGroupLabel(group).toLowerCase()})`
+          : threadLabel) || undefined;
+
+      const sourceType = getEntityTypeFromId(t.sourceId);
+      const targetType = getEntityTypeFromId(t.targetId);
+
+      let traversable = false;
+      if (isDirectPlaceLink) {
+        traversable =
+          sourceType === EntityType.PLACE && targetType === EntityType.PLACE;
+      } else if (isConnectsPath) {
+        const pathEndpoint =
+          sourceType === EntityType.PATH
+            ? t.sourceId
+            : targetType === EntityType.PATH
+              ? t.targetId
+              : null;
+        // Without a playthrough, restricted paths cannot be evaluated.
+        if (pathEndpoint) {
+          traversable =
+            evaluation?.traversableByPathId.get(pathEndpoint as PathId) ??
+            false;
+        }
+      }
+
+      const style: React.CSSProperties = {};
+
+      if (isRequires || isObjectiveReq) {
+        style.strokeDasharray = isRequires ? '8,4' : '2,3';
+      }
+
+      if (groupColor !== undefined) {
+        style.stroke = groupColor;
+      }
+
+      if (isDirectPlaceLink || isConnectsPath) {
+        style.stroke = traversable ? '#0f766e' : '#cbd5f5';
+        style.opacity = traversable ? 0.95 : 0.5;
+      }
+
+      if (evaluation?.actionableRouteEdgeIds.has(t.id)) {
+        style.stroke = '#14b8a6';
+        style.strokeWidth = 3;
+        style.opacity = 1;
+      }
+
+      return {
+        id: t.id,
+        source: t.sourceId,
+        target: t.targetId,
+        label: displayLabel,
+        type: 'default',
+        pathOptions: { curvature: 0.1 },
+        ...(Object.keys(style).length > 0 && { style }),
+      };
+    });
+  }, [graph, evaluation]);
 
   return { nodes, edges, isLoading, error };
 }
@@ -0,0 +1,103 @@
+import type {
+  CompressedImageFormat,
+  ImageCompressionOptions,
+} from '../../lib/images';
+
+/** Choices for the maximum image dimension (null keeps the original size). */
+const MAX_DIMENSION_CHOICES: (number | null)[] = [1024, 2048, 4096, 8192, null];
+
+/**
+ * Props for the ImageCompressionFields component.
+ */
+export interface ImageCompressionFieldsProps {
+  /** Current options. */
+  options: ImageCompressionOptions;
+  /** Called with changed options. */
+  onChange: (changes: Partial<ImageCompressionOptions>) => void;
+  /** Whether to show the on/off toggle (hidden for the bulk tool). */
+  showToggle?: boolean;
+  /** Disables all fields. */
+  disabled?: boolean;
+}
+
+/**
+ * Compact controls for image compression: on/off, maximum dimension, format,
+ * and quality.
+ *
+ * @param props - ImageCompressionFields props.
+ * @returns A JSX element representing the ImageCompressionFields component.
+ */
+export function ImageCompressionFields({
+  options,
+  onChange,
+  showToggle = true,
+  disabled = false,
+}: ImageCompressionFieldsProps): JSX.Element {
+  const fieldsDisabled = disabled || (showToggle && !options.enabled);
+  const selectClassName =
+    'rounded border border-slate-300 bg-white px-2 py-1 text-xs text-slate-900 disabled:bg-slate-100';
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-3 gap-y-2 text-xs text-slate-600">
+      {showToggle ? (
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={options.enabled}
+            onChange={(e) => onChange({ enabled: e.target.checked })}
+            disabled={disabled}
+          />
+          Compress
+        </label>
+      ) : null}
+      <label className="flex items-center gap-1">
+        Max size
+        <select
+          value={options.maxDimension ?? ''}
+          onChange={(e) =>
+            onChange({
+              maxDimension: e.target.value ? Number(e.target.value) : null,
+            })
+          }
+          disabled={fieldsDisabled}
+          className={selectClassName}
+        >
+          {MAX_DIMENSION_CHOICES.map((choice) => (
+            <option key={choice ?? 'original'} value={choice ?? ''}>
+              {choice === null ? 'Original' : `${choice} px`}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="flex items-center gap-1">
+        Format
+        <select
+          value={options.format}
+          onChange={(e) =>
+            onChange({ format: e.target.value as CompressedImageFormat })
+          }
+          disabled={fieldsDisabled}
+          className={selectClassName}
+        >
+          <option value="image/webp">WebP</option>
+          <option value="image/jpeg">JPEG</option>
+        </select>
+      </label>
+      <label className="flex items-center gap-1">
+        Quality
+        <input
+          type="range"
+          min={0.4}
+          max={1}
+          step={0.05}
+          value={options.quality}
+          onChange={(e) => onChange({ quality: Number(e.target.value) })}
+          disabled={fieldsDisabled}
+        />
+        <span className="w-8 tabular-nums">
+          {Math.round(options.quality * 100)}%
+        </span>
+      </label>
+    </div>
+  );
+}
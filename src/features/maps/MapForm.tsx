@@ -1,11 +1,14 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
+import { compressImage } from '../../lib/images';
 import { mapRepository, placeRepository } from '../../lib/repositories';
+import { useImageCompressionStore } from '../../stores/imageCompressionStore';
 import type { GameId } from '../../types/ids';
 import type { Map } from '../../types/Map';
 import {
   formatTopLevelPlaceName,
   deriveMapNameFromTopLevelPlaceName,
 } from '../../utils/mapNames';
+import { ImageCompressionFields } from './ImageCompressionFields';
 
 /** UI-only image source; 'none' means no image. */
 type ImageSourceUi = 'none' | 'url' | 'upload';
@@ -78,7 +81,8 @@ function validateUrl(url: string): string | null {
 
 /**
  * Form to create or edit a map. Supports image from URL, file upload, or
- * drag-and-drop. Uses repositories so that creating a map also creates a
+ * drag-and-drop. Uploaded images are downscaled and re-encoded with the shared
+ * compression options before they are stored. Uses repositories so that creating a map also creates a
  * top-level place representing it for threads and the loom, while blob storage
  * remains encapsulated in the map repository.
  *
@@ -106,6 +110,8 @@ export function MapForm(props: MapFormProps): JSX.Element {
   const [error, setError] = useState<string | null>(null);
   const [isDragging, setIsDragging] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const compressionOptions = useImageCompressionStore((s) => s.options);
+  const setCompressionOptions = useImageCompressionStore((s) => s.setOptions);
 
   // Revoke object URL when it changes or on unmount
   useEffect(() => {
@@ -270,7 +276,10 @@ export function MapForm(props: MapFormProps): JSX.Element {
           await mapRepository.update(created);
 
           if (imageSourceUi === 'upload' && selectedFile) {
-            await mapRepository.setImageFromUpload(created.id, selectedFile);
+            await mapRepository.setImageFromUpload(
+              created.id,
+              await compressImage(selectedFile, compressionOptions)
+            );
           }
         } else {
           const mapId = props.map.id;
@@ -296,7 +305,10 @@ export function MapForm(props: MapFormProps): JSX.Element {
           } else if (imageSourceUi === 'url') {
             await mapRepository.setImageFromUrl(mapId, imageUrlInput.trim());
           } else if (selectedFile) {
-            await mapRepository.setImageFromUpload(mapId, selectedFile);
+            await mapRepository.setImageFromUpload(
+              mapId,
+              await compressImage(selectedFile, compressionOptions)
+            );
           }
         }
         props.onSaved();
@@ -306,7 +318,14 @@ export function MapForm(props: MapFormProps): JSX.Element {
         setIsSubmitting(false);
       }
     },
-    [name, imageSourceUi, imageUrlInput, selectedFile, props]
+    [
+      name,
+      imageSourceUi,
+      imageUrlInput,
+      selectedFile,
+      compressionOptions,
+      props,
+    ]
   );
 
   const hasExistingUpload =
@@ -490,6 +509,13 @@ export function MapForm(props: MapFormProps): JSX.Element {
               </div>
             )}
           </div>
+          <div className="mt-2">
+            <ImageCompressionFields
+              options={compressionOptions}
+              onChange={setCompressionOptions}
+              disabled={isSubmitting}
+            />
+          </div>
           {uploadError && (
             <p className="mt-1 text-sm text-red-600" role="alert">
               {uploadError}
@@ -0,0 +1,120 @@
+import { useCallback, useState } from 'react';
+import { useLiveRefresh } from '../../hooks/useLiveRefresh';
+import {
+  recompressMapImages,
+  type RecompressMapImagesResult,
+} from '../../lib/images';
+import {
+  mapRepository,
+  type MapImageStorageUsage,
+} from '../../lib/repositories';
+import { useImageCompressionStore } from '../../stores/imageCompressionStore';
+import type { GameId } from '../../types/ids';
+import { formatBytes } from '../../utils/formatBytes';
+import { ImageCompressionFields } from './ImageCompressionFields';
+
+/**
+ * Props for the MapImageStoragePanel component.
+ */
+export interface MapImageStoragePanelProps {
+  /** Current game ID. */
+  gameId: GameId;
+}
+
+/**
+ * Shows the storage used by the game's uploaded map images and offers a bulk
+ * re-compress tool using the shared compression options.
+ *
+ * @param props - MapImageStoragePanel props.
+ * @returns A JSX element representing the MapImageStoragePanel component.
+ */
+export function MapImageStoragePanel({
+  gameId,
+}: MapImageStoragePanelProps): JSX.Element | null {
+  const options = useImageCompressionStore((s) => s.options);
+  const setOptions = useImageCompressionStore((s) => s.setOptions);
+  const [usage, setUsage] = useState<MapImageStorageUsage | null>(null);
+  const [isToolOpen, setIsToolOpen] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [result, setResult] = useState<RecompressMapImagesResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Loads the image storage usage for the game.
+   */
+  const loadUsage = useCallback(async () => {
+    setUsage(await mapRepository.getImageStorageUsage(gameId));
+  }, [gameId]);
+
+  useLiveRefresh(loadUsage);
+
+  /**
+   * Re-compresses every uploaded map image of the game.
+   */
+  const handleRecompress = useCallback(async () => {
+    setIsBusy(true);
+    setError(null);
+    setResult(null);
+    try {
+      const recompressed = await recompressMapImages(gameId, options);
+      setResult(recompressed);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to re-compress images.'
+      );
+    } finally {
+      setIsBusy(false);
+    }
+  }, [gameId, options]);
+
+  if (usage === null || usage.imageCount === 0) return null;
+
+  return (
+    <div className="space-y-2 rounded border border-slate-200 bg-slate-50 p-3 text-sm text-slate-700">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span>
+          Map images use {formatBytes(usage.totalBytes)} ({usage.imageCount}{' '}
+          {usage.imageCount === 1 ? 'image' : 'images'}).
+        </span>
+        <button
+          type="button"
+          onClick={() => setIsToolOpen((open) => !open)}
+          className="rounded border border-slate-300 bg-white px-2 py-1 text-xs text-slate-700 hover:bg-slate-50"
+          aria-expanded={isToolOpen}
+        >
+          Re-compress all
+        </button>
+      </div>
+      {isToolOpen ? (
+        <div className="flex flex-wrap items-center gap-3">
+          <ImageCompressionFields
+            options={options}
+            onChange={setOptions}
+            showToggle={false}
+            disabled={isBusy}
+          />
+          <button
+            type="button"
+            onClick={() => void handleRecompress()}
+            disabled={isBusy}
+            className="rounded bg-slate-800 px-3 py-1 text-xs font-medium text-white hover:bg-slate-700 disabled:opacity-60"
+          >
+            {isBusy ? 'Re-compressing…' : 'Re-compress'}
+          </button>
+        </div>
+      ) : null}
+      {result ? (
+        <p className="text-xs text-slate-600" role="status">
+          {result.recompressedCount === 0
+            ? 'All images are already as small as these settings allow.'
+            : `Re-compressed ${result.recompressedCount} of ${result.imageCount} images, saving ${formatBytes(result.bytesBefore - result.bytesAfter)}.`}
+        </p>
+      ) : null}
+      {error ? (
+        <p className="text-xs text-red-600" role="alert">
+          {error}
+        </p>
+      ) : null}
+    </div>
+  );
+}
@@ -1,10 +1,12 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
 import { ConfirmDialog } from '../../components/ConfirmDialog';
+import { useLiveRefresh } from '../../hooks/useLiveRefresh';
 import { mapRepository } from '../../lib/repositories';
 import type { GameId, MapId } from '../../types/ids';
 import type { Map } from '../../types/Map';
 import { useGameViewStore } from '../../stores/gameViewStore';
 import { MapForm } from './MapForm';
+import { MapImageStoragePanel } from './MapImageStoragePanel';
 
 /**
  * Resolves and displays a map image for a grid tile (URL or uploaded blob).
@@ -94,7 +96,6 @@ export function MapListScreen({ gameId }: MapListScreenProps): JSX.Element {
    * Loads the maps for the current game.
    */
   const loadMaps = useCallback(async () => {
-    setIsLoading(true);
     try {
       const list = await mapRepository.getByGameId(gameId);
       setMaps(list);
@@ -103,9 +104,7 @@ export function MapListScreen({ gameId }: MapListScreenProps): JSX.Element {
     }
   }, [gameId]);
 
-  useEffect(() => {
-    loadMaps();
-  }, [loadMaps]);
+  useLiveRefresh(loadMaps);
 
   /**
    * Handles the confirmation of deleting a map.
@@ -114,8 +113,7 @@ export function MapListScreen({ gameId }: MapListScreenProps): JSX.Element {
     if (deleteTarget === null) return;
     await mapRepository.delete(deleteTarget);
     setDeleteTarget(null);
-    loadMaps();
-  }, [deleteTarget, loadMaps]);
+  }, [deleteTarget]);
 
   if (isLoading) {
     return <p className="text-slate-500">Loading maps…</p>;
@@ -134,26 +132,22 @@ export function MapListScreen({ gameId }: MapListScreenProps): JSX.Element {
         </button>
       </div>
 
+      <MapImageStoragePanel gameId={gameId} />
+
       {formState !== null ? (
         <div className="rounded-lg border border-slate-200 bg-slate-50 p-4">
           {formState.type === 'create' ? (
             <MapForm
               mode="create"
               gameId={gameId}
-              onSaved={() => {
-                setFormState(null);
-                loadMaps();
-              }}
+              onSaved={() => setFormState(null)}
               onCancel={() => setFormState(null)}
             />
           ) : (
             <MapForm
               mode="edit"
               map={formState.map}
-              onSaved={() => {
-                setFormState(null);
-                loadMaps();
-              }}
+              onSaved={() => setFormState(null)}
               onCancel={() => setFormState(null)}
             />
           )}
@@ -2,9 +2,8 @@ import { useCallback, useEffect, useRef, useState } from 'react';
 import { ConfirmDialog } from '../../components/ConfirmDialog';
 import { ContextMenu } from '../../components/ContextMenu';
 import { EntityPicker } from '../../components/EntityPicker';
-import { checkEntityAvailabilityWithReachability } from '../../lib/requirements';
+import type { PlaythroughEvaluation } from '../../lib/evaluation';
 import {
-  entityDiscoveryRepository,
   insightRepository,
   itemRepository,
   mapMarkerRepository,
@@ -17,6 +16,7 @@ import {
 } from '../../lib/repositories';
 import { useAppStore } from '../../stores/appStore';
 import { useGameViewStore } from '../../stores/gameViewStore';
+import { useLiveRefresh } from '../../hooks/useLiveRefresh';
 import type { Map } from '../../types/Map';
 import type { MapMarker } from '../../types/MapMarker';
 import type {
@@ -34,7 +34,6 @@ import { ThreadSubtype } from '../../types/ThreadSubtype';
 import { getEntityDisplayName } from '../../utils/getEntityDisplayName';
 import { ENTITY_TYPE_LABELS } from '../../utils/entityTypeLabels';
 import { MapMarkerBadge } from './MapMarkerBadge';
-import { getCompletedEntityIdsForPlaythrough } from '../../lib/completion';
 
 /** Zoom-out limit as a multiple of fit-to-view scale (similar periphery across maps). */
 const MIN_SCALE_MULTIPLIER = 0.5;
@@ -84,11 +83,8 @@ export interface MapViewProps {
   /** ID of the map to display. */
   mapId: MapId;
 
-  /** Reachable place IDs from current position (for marker availability styling). */
-  reachablePlaceIds?: Set<PlaceId>;
-
-  /** Set of actionable entity IDs (for marker emphasis styling). */
-  actionableEntityIds?: Set<string>;
+  /** Evaluation of the current playthrough (marker availability, completion, discovery, and emphasis), or null. */
+  evaluation?: PlaythroughEvaluation | null;
 }
 
 /**
@@ -177,25 +173,18 @@ function clientToLogical(
  *
  * @param props.gameId - Current game ID for validation.
  * @param props.mapId - Map ID to load and display.
+ * @param props.evaluation - Playthrough evaluation for marker styling.
  * @returns A JSX element representing the MapView component.
  */
 export function MapView({
   gameId,
   mapId,
-  reachablePlaceIds = new Set(),
-  actionableEntityIds = new Set(),
+  evaluation = null,
 }: MapViewProps): JSX.Element {
   const [map, setMap] = useState<Map | null | undefined>(undefined);
   const [isLoading, setIsLoading] = useState(true);
   const [imageDisplayUrl, setImageDisplayUrl] = useState<string | null>(null);
   const [imageLoadError, setImageLoadError] = useState(false);
-  const [markerAvailabilityByEntityId, setMarkerAvailabilityByEntityId] =
-    useState<Record<string, boolean>>({});
-  const [markerCompletedByEntityId, setMarkerCompletedByEntityId] = useState<
-    Record<string, boolean>
-  >({});
-  const [markerSpoilerHiddenByEntityId, setMarkerSpoilerHiddenByEntityId] =
-    useState<Record<string, boolean>>({});
   const imageRevokeRef = useRef<(() => void) | undefined>(undefined);
 
   const [markers, setMarkers] = useState<MapMarker[]>([]);
@@ -286,109 +275,6 @@ export function MapView({
     }
   }, [gameId, mapId, currentPlaythroughId]);
 
-  /** Compute availability per marker entity when playthrough is set. */
-  useEffect(() => {
-    if (!currentPlaythroughId || markers.length === 0) {
-      setMarkerAvailabilityByEntityId({});
-      return;
-    }
-    let cancelled = false;
-    const entityIds = [...new Set(markers.map((m) => m.entityId))];
-    Promise.all(
-      entityIds.map(async (entityId) => {
-        const available = await checkEntityAvailabilityWithReachability(
-          gameId,
-          currentPlaythroughId!,
-          entityId,
-          reachablePlaceIds
-        );
-        return [entityId, available] as const;
-      })
-    ).then((entries) => {
-      if (!cancelled) {
-        setMarkerAvailabilityByEntityId(Object.fromEntries(entries));
-      }
-    });
-    return () => {
-      cancelled = true;
-    };
-  }, [gameId, currentPlaythroughId, markers, reachablePlaceIds]);
-
-  /**
-   * Compute "completed-like" visual state per marker entity when a playthrough
-   * is set. This mirrors the Loom's notion of completion: quests that are
-   * completed or abandoned, items that are acquired, used, or lost, insights that are
-   * known or irrelevant, and people who are dead are all treated as visually
-   * completed so their markers can be de-emphasized.
-   */
-  useEffect(() => {
-    if (!currentPlaythroughId || markers.length === 0) {
-      setMarkerCompletedByEntityId({});
-      return;
-    }
-    let cancelled = false;
-
-    async function loadCompletion(): Promise<void> {
-      const completedIds = await getCompletedEntityIdsForPlaythrough(
-        currentPlaythroughId!
-      );
-
-      if (cancelled) return;
-
-      const markerIds = new Set(markers.map((m) => m.entityId));
-      const byEntity: Record<string, boolean> = {};
-      markerIds.forEach((id) => {
-        if (completedIds.has(id)) {
-          byEntity[id] = true;
-        }
-      });
-      setMarkerCompletedByEntityId(byEntity);
-    }
-
-    loadCompletion();
-
-    return () => {
-      cancelled = true;
-    };
-  }, [currentPlaythroughId, markers]);
-
-  /**
-   * Compute spoiler-hidden state per marker entity when discovery rules mark
-   * an entity as undiscovered. Only explicit discovered: false records hide
-   * markers; absence of a record leaves current behaviour unchanged.
-   */
-  useEffect(() => {
-    if (!currentPlaythroughId || markers.length === 0) {
-      setMarkerSpoilerHiddenByEntityId({});
-      return;
-    }
-    let cancelled = false;
-
-    async function loadDiscovery(): Promise<void> {
-      const rows = await entityDiscoveryRepository.getAllForPlaythrough(
-        currentPlaythroughId!
-      );
-      if (cancelled) return;
-
-      const hiddenIds = new Set(
-        rows.filter((r) => !r.discovered).map((r) => r.entityId)
-      );
-      const byEntity: Record<string, boolean> = {};
-      markers.forEach((m) => {
-        if (hiddenIds.has(m.entityId)) {
-          byEntity[m.entityId] = true;
-        }
-      });
-      setMarkerSpoilerHiddenByEntityId(byEntity);
-    }
-
-    loadDiscovery();
-
-    return () => {
-      cancelled = true;
-    };
-  }, [currentPlaythroughId, markers]);
-
   /** Apply a transform and persist it to the store. */
   const applyTransform = useCallback(
     (s: number, x: number, y: number) => {
@@ -530,32 +416,8 @@ export function MapView({
     };
   }, [gameId, mapId]);
 
-  // Load markers for the current map.
-  useEffect(() => {
-    let cancelled = false;
-
-    async function loadMarkers() {
-      try {
-        const list = await mapMarkerRepository.getByMapId(
-          gameId,
-          mapId,
-          currentPlaythroughId
-        );
-        if (cancelled) return;
-        setMarkers(list);
-      } catch {
-        if (!cancelled) {
-          setMarkers([]);
-        }
-      }
-    }
-
-    loadMarkers();
-
-    return () => {
-      cancelled = true;
-    };
-  }, [gameId, mapId, currentPlaythroughId]);
+  // Load markers for the current map and reload them when data changes.
+  useLiveRefresh(loadMarkers);
 
   // Resolve display names for markers to use as tooltip text and initials.
   useEffect(() => {
@@ -1033,14 +895,20 @@ export function MapView({
                     initial={initialSource}
                     title={tooltip}
                     available={
-                      markerAvailabilityByEntityId[marker.entityId] ?? true
+                      !evaluation?.unavailableEntityIds.has(marker.entityId)
+                    }
+                    actionable={
+                      evaluation?.actionableEntityIds.has(marker.entityId) ??
+                      false
                     }
-                    actionable={actionableEntityIds.has(marker.entityId)}
                     completed={
-                      markerCompletedByEntityId[marker.entityId] ?? false
+                      evaluation?.completedEntityIds.has(marker.entityId) ??
+                      false
                     }
                     spoilerHidden={
-                      markerSpoilerHiddenByEntityId[marker.entityId] ?? false
+                      evaluation?.snapshot.undiscoveredIds.has(
+                        marker.entityId
+                      ) ?? false
                     }
                   />
                 </div>
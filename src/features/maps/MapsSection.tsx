@@ -1,5 +1,6 @@
 import { useGameViewStore } from '../../stores/gameViewStore';
-import type { GameId, PlaceId, PlaythroughId } from '../../types/ids';
+import type { PlaythroughEvaluation } from '../../lib/evaluation';
+import type { GameId, PlaythroughId } from '../../types/ids';
 import { MapListScreen } from './MapListScreen';
 import { MapView } from './MapView';
 
@@ -13,11 +14,8 @@ export interface MapsSectionProps {
   /** Current playthrough ID, or null. */
   playthroughId: PlaythroughId | null;
 
-  /** Reachable place IDs from current position (for marker availability). */
-  reachablePlaceIds: Set<PlaceId>;
-
-  /** Set of actionable entity IDs (for marker emphasis styling). */
-  actionableEntityIds: Set<string>;
+  /** Evaluation of the current playthrough (for marker styling), or null. */
+  evaluation: PlaythroughEvaluation | null;
 }
 
 /**
@@ -27,13 +25,13 @@ export interface MapsSectionProps {
  *
  * @param props.gameId - Current game ID.
  * @param props.playthroughId - Current playthrough ID (unused for maps).
+ * @param props.evaluation - Playthrough evaluation for marker styling.
  * @returns A JSX element representing the MapsSection component.
  */
 export function MapsSection({
   gameId,
   playthroughId,
-  reachablePlaceIds,
-  actionableEntityIds,
+  evaluation,
 }: MapsSectionProps): JSX.Element {
   const mapUiMode = useGameViewStore((s) => s.mapUiMode);
   const lastViewedMapId = useGameViewStore((s) => s.lastViewedMapId);
@@ -44,8 +42,7 @@ export function MapsSection({
         <MapView
           gameId={gameId}
           mapId={lastViewedMapId}
-          reachablePlaceIds={reachablePlaceIds}
-          actionableEntityIds={actionableEntityIds}
+          evaluation={evaluation}
         />
       </div>
     );
@@ -1,21 +1,18 @@
-import type { GameId, PlaceId, PlaythroughId } from '../../types/ids';
-import { useActionableNextSteps } from '../../hooks/useActionableNextSteps';
+import type { PlaythroughEvaluation } from '../../lib/evaluation';
+import type { PlaythroughId } from '../../types/ids';
 
 /**
  * Props for the OracleScreen component.
  */
 export interface OracleScreenProps {
-  /** Current game ID. */
-  gameId: GameId;
-
   /** Current playthrough ID (may be null). */
   playthroughId: PlaythroughId | null;
 
-  /** Reachable place IDs from current position. */
-  reachablePlaceIds: Set<PlaceId>;
+  /** Evaluation of the playthrough (actionable entities), or null while loading. */
+  evaluation: PlaythroughEvaluation | null;
 
-  /** Current position place ID (for route computation). */
-  currentPositionPlaceId: PlaceId | null;
+  /** Error message when evaluation failed, or null. */
+  error: string | null;
 }
 
 /**
@@ -23,21 +20,18 @@ export interface OracleScreenProps {
  * availability, and reachability. Rendered in the main panel when the Oracle
  * sidebar tab is selected.
  *
- * @param props - OracleScreen props (gameId, playthroughId, reachablePlaceIds, currentPositionPlaceId).
+ * @param props - OracleScreen props (playthroughId, evaluation, error).
  * @returns A JSX element representing the OracleScreen component.
  */
 export function OracleScreen({
-  gameId,
   playthroughId,
-  reachablePlaceIds,
-  currentPositionPlaceId,
+  evaluation,
+  error,
 }: OracleScreenProps): JSX.Element {
-  const { actionableEntities, isLoading, error } = useActionableNextSteps(
-    gameId,
-    playthroughId,
-    reachablePlaceIds,
-    currentPositionPlaceId
-  );
+  const isLoading = playthroughId !== null && evaluation === null && !error;
+  const actionableEntities = evaluation?.actionableEntities ?? [];
+  const currentPositionPlaceId =
+    evaluation?.snapshot.currentPositionPlaceId ?? null;
 
   // Loading state.
   if (isLoading) {
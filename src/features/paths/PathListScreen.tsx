@@ -1,7 +1,10 @@
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useState } from 'react';
 import { ConfirmDialog } from '../../components/ConfirmDialog';
 import { EntityConnections } from '../../components/EntityConnections';
 import { RequirementList } from '../../components/RequirementList';
+import { WhyLockedPanel } from '../../components/WhyLockedPanel';
+import { useLiveRefresh } from '../../hooks/useLiveRefresh';
+import type { PlaythroughEvaluation } from '../../lib/evaluation';
 import { pathRepository } from '../../lib/repositories';
 import type { Path } from '../../types/Path';
 import type { GameId, PathId, PlaythroughId } from '../../types/ids';
@@ -16,6 +19,8 @@ export interface PathListScreenProps {
 
   /** Current playthrough ID (used for status and requirements). */
   playthroughId: PlaythroughId | null;
+  /** Evaluation of the playthrough (requirement group progress and lock explanations), or null. */
+  evaluation: PlaythroughEvaluation | null;
 }
 
 /**
@@ -24,11 +29,13 @@ export interface PathListScreenProps {
  *
  * @param props.gameId - Game to scope the list.
  * @param props.playthroughId - Current playthrough ID.
+ * @param props.evaluation - Playthrough evaluation for requirement group progress and lock explanations.
  * @returns A JSX element representing the PathListScreen component.
  */
 export function PathListScreen({
   gameId,
   playthroughId,
+  evaluation,
 }: PathListScreenProps): JSX.Element {
   const [paths, setPaths] = useState<Path[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -42,7 +49,6 @@ export function PathListScreen({
    * Loads the paths for the current game.
    */
   const loadPaths = useCallback(async () => {
-    setIsLoading(true);
     try {
       const list = await pathRepository.getByGameId(gameId);
       setPaths(list);
@@ -51,9 +57,7 @@ export function PathListScreen({
     }
   }, [gameId]);
 
-  useEffect(() => {
-    loadPaths();
-  }, [loadPaths]);
+  useLiveRefresh(loadPaths);
 
   /**
    * Handles the confirmation of deleting a path.
@@ -62,8 +66,7 @@ export function PathListScreen({
     if (deleteTarget === null) return;
     await pathRepository.delete(deleteTarget);
     setDeleteTarget(null);
-    loadPaths();
-  }, [deleteTarget, loadPaths]);
+  }, [deleteTarget]);
 
   // Render the loading state if the paths are still loading.
   if (isLoading) {
@@ -99,10 +102,7 @@ export function PathListScreen({
               mode="create"
               gameId={gameId}
               playthroughId={playthroughId}
-              onSaved={() => {
-                setFormState(null);
-                loadPaths();
-              }}
+              onSaved={() => setFormState(null)}
               onCancel={() => setFormState(null)}
             />
           ) : (
@@ -111,10 +111,7 @@ export function PathListScreen({
               mode="edit"
               path={formState.path}
               playthroughId={playthroughId}
-              onSaved={() => {
-                setFormState(null);
-                loadPaths();
-              }}
+              onSaved={() => setFormState(null)}
               onCancel={() => setFormState(null)}
             />
           )}
@@ -190,9 +187,14 @@ export function PathListScreen({
                     <RequirementList
                       gameId={gameId}
                       entityId={path.id}
-                      playthroughId={playthroughId}
+                      evaluation={evaluation}
                       entityDisplayName={path.name}
                     />
+                    <WhyLockedPanel
+                      entityId={path.id}
+                      playthroughId={playthroughId}
+                      evaluation={evaluation}
+                    />
                   </div>
                 ) : null}
               </li>
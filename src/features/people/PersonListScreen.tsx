@@ -1,7 +1,10 @@
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useState } from 'react';
 import { ConfirmDialog } from '../../components/ConfirmDialog';
 import { EntityConnections } from '../../components/EntityConnections';
 import { RequirementList } from '../../components/RequirementList';
+import { WhyLockedPanel } from '../../components/WhyLockedPanel';
+import { useLiveRefresh } from '../../hooks/useLiveRefresh';
+import type { PlaythroughEvaluation } from '../../lib/evaluation';
 import { personRepository } from '../../lib/repositories';
 import type { GameId, PersonId, PlaythroughId } from '../../types/ids';
 import type { Person } from '../../types/Person';
@@ -17,6 +20,8 @@ export interface PersonListScreenProps {
   gameId: GameId;
   /** Current playthrough ID (for progress/status; may be null). */
   playthroughId: PlaythroughId | null;
+  /** Evaluation of the playthrough (requirement group progress and lock explanations), or null. */
+  evaluation: PlaythroughEvaluation | null;
 }
 
 const PERSON_STATUS_LABELS: Record<PersonStatus, string> = {
@@ -31,11 +36,13 @@ const PERSON_STATUS_LABELS: Record<PersonStatus, string> = {
  *
  * @param props.gameId - Game to scope the list
  * @param props.playthroughId - Playthrough for progress (status/notes)
+ * @param props.evaluation - Playthrough evaluation for requirement group progress and lock explanations.
  * @returns A JSX element representing the PersonListScreen component.
  */
 export function PersonListScreen({
   gameId,
   playthroughId,
+  evaluation,
 }: PersonListScreenProps): JSX.Element {
   const [persons, setPersons] = useState<Person[]>([]);
   const [progressByPerson, setProgressByPerson] = useState<
@@ -52,7 +59,6 @@ export function PersonListScreen({
    * Loads the people and (when playthrough is selected) progress for the current game.
    */
   const loadPersons = useCallback(async () => {
-    setIsLoading(true);
     try {
       const [list, progressList] = await Promise.all([
         personRepository.getByGameId(gameId),
@@ -71,9 +77,7 @@ export function PersonListScreen({
     }
   }, [gameId, playthroughId]);
 
-  useEffect(() => {
-    loadPersons();
-  }, [loadPersons]);
+  useLiveRefresh(loadPersons);
 
   /**
    * Handles the confirmation of deleting a person.
@@ -82,8 +86,7 @@ export function PersonListScreen({
     if (deleteTarget === null) return;
     await personRepository.delete(deleteTarget);
     setDeleteTarget(null);
-    loadPersons();
-  }, [deleteTarget, loadPersons]);
+  }, [deleteTarget]);
 
   /**
    * Handles the change of status for a person.
@@ -99,9 +102,8 @@ export function PersonListScreen({
         status: newStatus,
         notes: existing?.notes ?? '',
       });
-      loadPersons();
     },
-    [playthroughId, progressByPerson, loadPersons]
+    [playthroughId, progressByPerson]
   );
 
   if (isLoading) {
@@ -127,20 +129,14 @@ export function PersonListScreen({
             <PersonForm
               mode="create"
               gameId={gameId}
-              onSaved={() => {
-                setFormState(null);
-                loadPersons();
-              }}
+              onSaved={() => setFormState(null)}
               onCancel={() => setFormState(null)}
             />
           ) : (
             <PersonForm
               mode="edit"
               person={formState.person}
-              onSaved={() => {
-                setFormState(null);
-                loadPersons();
-              }}
+              onSaved={() => setFormState(null)}
               onCancel={() => setFormState(null)}
             />
           )}
@@ -230,9 +226,14 @@ export function PersonListScreen({
                     <RequirementList
                       gameId={gameId}
                       entityId={person.id}
-                      playthroughId={playthroughId}
+                      evaluation={evaluation}
                       entityDisplayName={person.name}
                     />
+                    <WhyLockedPanel
+                      entityId={person.id}
+                      playthroughId={playthroughId}
+                      evaluation={evaluation}
+                    />
                   </div>
                 ) : null}
               </li>
@@ -1,7 +1,10 @@
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useState } from 'react';
 import { ConfirmDialog } from '../../components/ConfirmDialog';
 import { EntityConnections } from '../../components/EntityConnections';
 import { RequirementList } from '../../components/RequirementList';
+import { WhyLockedPanel } from '../../components/WhyLockedPanel';
+import { useLiveRefresh } from '../../hooks/useLiveRefresh';
+import type { PlaythroughEvaluation } from '../../lib/evaluation';
 import { placeRepository } from '../../lib/repositories';
 import type { GameId, PlaceId } from '../../types/ids';
 import type { Place } from '../../types/Place';
@@ -15,6 +18,8 @@ export interface PlaceListScreenProps {
   gameId: GameId;
   /** Current playthrough ID (unused for places; kept for consistent GameViewContent interface). */
   playthroughId: string | null;
+  /** Evaluation of the playthrough (requirement group progress and lock explanations), or null. */
+  evaluation: PlaythroughEvaluation | null;
 }
 
 /**
@@ -23,11 +28,13 @@ export interface PlaceListScreenProps {
  *
  * @param props.gameId - Game to scope the list
  * @param props.playthroughId - Unused; places are game-scoped
+ * @param props.evaluation - Playthrough evaluation for requirement group progress and lock explanations.
  * @returns A JSX element representing the PlaceListScreen component.
  */
 export function PlaceListScreen({
   gameId,
   playthroughId,
+  evaluation,
 }: PlaceListScreenProps): JSX.Element {
   const [places, setPlaces] = useState<Place[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -41,7 +48,6 @@ export function PlaceListScreen({
    * Loads the places for the current game.
    */
   const loadPlaces = useCallback(async () => {
-    setIsLoading(true);
     try {
       const list = await placeRepository.getByGameId(gameId);
       setPlaces(list);
@@ -50,9 +56,7 @@ export function PlaceListScreen({
     }
   }, [gameId]);
 
-  useEffect(() => {
-    loadPlaces();
-  }, [loadPlaces]);
+  useLiveRefresh(loadPlaces);
 
   /**
    * Handles the confirmation of deleting a place.
@@ -61,8 +65,7 @@ export function PlaceListScreen({
     if (deleteTarget === null) return;
     await placeRepository.delete(deleteTarget);
     setDeleteTarget(null);
-    loadPlaces();
-  }, [deleteTarget, loadPlaces]);
+  }, [deleteTarget]);
 
   if (isLoading) {
     return <p className="text-slate-500">Loading places…</p>;
@@ -87,20 +90,14 @@ export function PlaceListScreen({
             <PlaceForm
               mode="create"
               gameId={gameId}
-              onSaved={() => {
-                setFormState(null);
-                loadPlaces();
-              }}
+              onSaved={() => setFormState(null)}
               onCancel={() => setFormState(null)}
             />
           ) : (
             <PlaceForm
               mode="edit"
               place={formState.place}
-              onSaved={() => {
-                setFormState(null);
-                loadPlaces();
-              }}
+              onSaved={() => setFormState(null)}
               onCancel={() => setFormState(null)}
             />
           )}
@@ -165,9 +162,14 @@ export function PlaceListScreen({
                     <RequirementList
                       gameId={gameId}
                       entityId={place.id}
-                      playthroughId={playthroughId}
+                      evaluation={evaluation}
                       entityDisplayName={place.name}
                     />
+                    <WhyLockedPanel
+                      entityId={place.id}
+                      playthroughId={playthroughId}
+                      evaluation={evaluation}
+                    />
                   </div>
                 ) : null}
               </li>
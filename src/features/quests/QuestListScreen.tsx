@@ -1,11 +1,14 @@
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useState } from 'react';
 import { ConfirmDialog } from '../../components/ConfirmDialog';
 import { EntityConnections } from '../../components/EntityConnections';
 import { RequirementList } from '../../components/RequirementList';
+import { WhyLockedPanel } from '../../components/WhyLockedPanel';
+import { useLiveRefresh } from '../../hooks/useLiveRefresh';
 import {
-  checkEntityAvailability,
-  getObjectiveCompletability,
-} from '../../lib/requirements';
+  getSnapshotEntityName,
+  type PlaythroughEvaluation,
+} from '../../lib/evaluation';
+import type { AvailabilityResult } from '../../lib/requirements';
 import { questRepository } from '../../lib/repositories';
 import type { GameId, PlaythroughId, QuestId } from '../../types/ids';
 import type { Quest } from '../../types/Quest';
@@ -22,6 +25,8 @@ export interface QuestListScreenProps {
   gameId: GameId;
   /** Current playthrough ID (for progress; may be null). */
   playthroughId: PlaythroughId | null;
+  /** Evaluation of the playthrough (availability, objectives), or null. */
+  evaluation: PlaythroughEvaluation | null;
 }
 
 const QUEST_STATUS_LABELS: Record<QuestStatus, string> = {
@@ -31,6 +36,32 @@ const QUEST_STATUS_LABELS: Record<QuestStatus, string> = {
   [QuestStatus.ABANDONED]: 'Abandoned',
 };
 
+/**
+ * Formats a quest's unmet requirements for display: single requirements by
+ * name, then "N of M" groups with their progress (e.g. "2/3 of: A, B, C").
+ *
+ * @param availability - The quest's availability result.
+ * @param nameOf - Returns the display name of a typed entity ID.
+ * @returns The formatted requirements.
+ */
+function formatUnmetRequirements(
+  availability: AvailabilityResult,
+  nameOf: (id: string) => string
+): string {
+  const inThreshold = new Set(
+    availability.unmetThresholds.flatMap((t) => t.unmetRequirementTargetIds)
+  );
+  return [
+    ...availability.unmetRequirementTargetIds
+      .filter((id) => !inThreshold.has(id))
+      .map(nameOf),
+    ...availability.unmetThresholds.map(
+      (t) =>
+        `${t.satisfiedCount}/${t.minSatisfied} of: ${t.unmetRequirementTargetIds.map(nameOf).join(', ')}`
+    ),
+  ].join('; ');
+}
+
 /**
  * List and CRUD screen for quests in the current game.
  * Shows a list of quests with create, edit, and delete. When a playthrough is selected,
@@ -38,25 +69,18 @@ const QUEST_STATUS_LABELS: Record<QuestStatus, string> = {
  *
  * @param props.gameId - Game to scope the list
  * @param props.playthroughId - Playthrough for progress (status/notes)
+ * @param props.evaluation - Playthrough evaluation for availability and ready objectives
  */
 export function QuestListScreen({
   gameId,
   playthroughId,
+  evaluation,
 }: QuestListScreenProps): JSX.Element {
   const [quests, setQuests] = useState<Quest[]>([]);
   const [giverNames, setGiverNames] = useState<Record<string, string>>({});
   const [progressByQuest, setProgressByQuest] = useState<
     Record<string, QuestProgress>
   >({});
-  const [availabilityByQuest, setAvailabilityByQuest] = useState<
-    Record<string, { available: boolean; unmetRequirementTargetIds: string[] }>
-  >({});
-  const [unmetRequirementNames, setUnmetRequirementNames] = useState<
-    Record<string, string>
-  >({});
-  const [objectiveCompletability, setObjectiveCompletability] = useState<
-    Record<string, boolean>
-  >({});
   const [isLoading, setIsLoading] = useState(true);
   const [formState, setFormState] = useState<
     { type: 'create' } | { type: 'edit'; quest: Quest } | null
@@ -68,7 +92,6 @@ export function QuestListScreen({
    * Loads the quests for the current game.
    */
   const loadQuests = useCallback(async () => {
-    setIsLoading(true);
     try {
       const [list, progressList] = await Promise.all([
         questRepository.getByGameId(gameId),
@@ -91,71 +114,16 @@ export function QuestListScreen({
       setGiverNames(
         Object.fromEntries(names.map(({ id, name }) => [id, name]))
       );
-
-      // Check availability of quests based on current playthrough.
-      if (playthroughId && list.length > 0) {
-        const results = await Promise.all(
-          list.map(async (q) => {
-            const result = await checkEntityAvailability(
-              gameId,
-              playthroughId,
-              q.id
-            );
-            return { questId: q.id, ...result };
-          })
-        );
-
-        // Group results by quest ID.
-        const byQuest: Record<
-          string,
-          { available: boolean; unmetRequirementTargetIds: string[] }
-        > = {};
-
-        // Get all unmet requirement target IDs.
-        const allUnmetIds = new Set<string>();
-        results.forEach((r) => {
-          byQuest[r.questId] = {
-            available: r.available,
-            unmetRequirementTargetIds: r.unmetRequirementTargetIds,
-          };
-          r.unmetRequirementTargetIds.forEach((id) => allUnmetIds.add(id));
-        });
-        setAvailabilityByQuest(byQuest);
-
-        // Get names of unmet requirement targets.
-        const nameEntries = await Promise.all(
-          Array.from(allUnmetIds).map(async (id) => {
-            const name = await getEntityDisplayName(id);
-            return [id, name] as const;
-          })
-        );
-        setUnmetRequirementNames(Object.fromEntries(nameEntries));
-
-        // Check completability of objectives based on current playthrough.
-        const completabilityEntries: [string, boolean][] = [];
-        for (const q of list) {
-          for (let i = 0; i < (q.objectives?.length ?? 0); i++) {
-            if (q.objectives[i].entityId && playthroughId) {
-              const ok = await getObjectiveCompletability(playthroughId, q, i);
-              completabilityEntries.push([`${q.id}-${i}`, ok]);
-            }
-          }
-        }
-        setObjectiveCompletability(Object.fromEntries(completabilityEntries));
-      } else {
-        // No playthrough selected, so no availability to check.
-        setAvailabilityByQuest({});
-        setUnmetRequirementNames({});
-        setObjectiveCompletability({});
-      }
     } finally {
       setIsLoading(false);
     }
   }, [gameId, playthroughId]);
 
-  useEffect(() => {
-    loadQuests();
-  }, [loadQuests]);
+  useLiveRefresh(loadQuests);
+
+  const availabilityByQuest = evaluation?.availabilityById;
+  const nameOf = (id: string) =>
+    evaluation ? getSnapshotEntityName(evaluation.snapshot, id) : id;
 
   /**
    * Handles the confirmation of deleting a quest.
@@ -164,8 +132,7 @@ export function QuestListScreen({
     if (deleteTarget === null) return;
     await questRepository.delete(deleteTarget);
     setDeleteTarget(null);
-    loadQuests();
-  }, [deleteTarget, loadQuests]);
+  }, [deleteTarget]);
 
   /**
    * Toggles objective completion for a quest within the current playthrough.
@@ -203,11 +170,8 @@ export function QuestListScreen({
         ),
         notes: existing?.notes ?? '',
       });
-
-      // Reload the quests.
-      loadQuests();
     },
-    [playthroughId, progressByQuest, loadQuests]
+    [playthroughId, progressByQuest]
   );
 
   /**
@@ -224,9 +188,8 @@ export function QuestListScreen({
         completedObjectiveIndexes: existing?.completedObjectiveIndexes ?? [],
         notes: existing?.notes ?? '',
       });
-      loadQuests();
     },
-    [playthroughId, progressByQuest, loadQuests]
+    [playthroughId, progressByQuest]
   );
 
   if (isLoading) {
@@ -252,20 +215,14 @@ export function QuestListScreen({
             <QuestForm
               mode="create"
               gameId={gameId}
-              onSaved={() => {
-                setFormState(null);
-                loadQuests();
-              }}
+              onSaved={() => setFormState(null)}
               onCancel={() => setFormState(null)}
             />
           ) : (
             <QuestForm
               mode="edit"
               quest={formState.quest}
-              onSaved={() => {
-                setFormState(null);
-                loadQuests();
-              }}
+              onSaved={() => setFormState(null)}
               onCancel={() => setFormState(null)}
             />
           )}
@@ -282,6 +239,9 @@ export function QuestListScreen({
             const isExpanded = expandedId === quest.id;
             const completedObjectiveIndexes =
               progress?.completedObjectiveIndexes ?? [];
+            const availability = availabilityByQuest?.get(quest.id);
+            const completableObjectiveIndexes =
+              evaluation?.completableObjectiveIndexes.get(quest.id);
             return (
               <li
                 key={quest.id}
@@ -295,14 +255,12 @@ export function QuestListScreen({
                       </p>
                       {/* Show unavailable badge if the quest is not available. */}
                       {playthroughId !== null &&
-                        availabilityByQuest[quest.id]?.available === false && (
+                        availability?.available === false && (
                           <span
                             className="rounded bg-amber-100 px-1.5 py-0.5 text-xs font-medium text-amber-800"
                             title={
-                              availabilityByQuest[
-                                quest.id
-                              ].unmetRequirementTargetIds
-                                .map((id) => unmetRequirementNames[id] ?? id)
+                              availability.unmetRequirementTargetIds
+                                .map(nameOf)
                                 .join(', ') || 'Unmet requirements'
                             }
                           >
@@ -313,16 +271,11 @@ export function QuestListScreen({
                     {/* Show unmet requirement names if the quest is not
                     available. */}
                     {playthroughId !== null &&
-                      availabilityByQuest[quest.id]?.available === false &&
-                      availabilityByQuest[quest.id].unmetRequirementTargetIds
-                        .length > 0 && (
+                      availability?.available === false &&
+                      availability.unmetRequirementTargetIds.length > 0 && (
                         <p className="text-sm text-slate-600">
                           Requires:{' '}
-                          {availabilityByQuest[
-                            quest.id
-                          ].unmetRequirementTargetIds
-                            .map((id) => unmetRequirementNames[id] ?? id)
-                            .join(', ')}
+                          {formatUnmetRequirements(availability, nameOf)}
                         </p>
                       )}
                     <p className="text-sm text-slate-600">
@@ -423,8 +376,7 @@ export function QuestListScreen({
                           {/* Show ready badge if the objective is completable. */}
                           {obj.entityId &&
                             playthroughId !== null &&
-                            objectiveCompletability[`${quest.id}-${oi}`] ===
-                              true && (
+                            completableObjectiveIndexes?.has(oi) && (
                               <span className="rounded bg-green-100 px-1 text-xs text-green-800">
                                 Ready
                               </span>
@@ -445,9 +397,14 @@ export function QuestListScreen({
                     <RequirementList
                       gameId={gameId}
                       entityId={quest.id}
-                      playthroughId={playthroughId}
+                      evaluation={evaluation}
                       entityDisplayName={quest.title}
                     />
+                    <WhyLockedPanel
+                      entityId={quest.id}
+                      playthroughId={playthroughId}
+                      evaluation={evaluation}
+                    />
                   </div>
                 ) : null}
               </li>
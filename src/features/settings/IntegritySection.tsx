@@ -0,0 +1,160 @@
+import { useCallback, useState } from 'react';
+import {
+  auditIntegrity,
+  repairIntegrity,
+  type IntegrityIssue,
+  type IntegrityIssueKind,
+} from '../../lib/integrity';
+
+/** Maximum number of issues listed before truncating. */
+const MAX_LISTED_ISSUES = 50;
+
+/** Display labels for integrity issue kinds. */
+const ISSUE_KIND_LABELS: Record<IntegrityIssueKind, string> = {
+  orphanedGameRow: 'Rows of deleted games',
+  orphanedPlaythroughRow: 'Rows of deleted playthroughs',
+  orphanedProgress: 'Progress for deleted entities',
+  orphanedThread: 'Threads to deleted entities',
+  orphanedMarker: 'Markers for deleted maps or entities',
+  orphanedMapImage: 'Unused map images',
+  danglingTopLevelPlace: 'Missing map top-level places',
+  danglingCurrentPosition: 'Missing playthrough positions',
+};
+
+/**
+ * Props for IntegritySection.
+ */
+export interface IntegritySectionProps {
+  /** False when the app does not store data in this browser (nothing to scan). */
+  isAvailable: boolean;
+}
+
+/**
+ * Settings section that scans the local database for orphaned rows and
+ * dangling references, shows a report grouped by kind, and repairs all issues
+ * with one click (orphans are deleted, dangling references cleared).
+ *
+ * @param props.isAvailable - False when the check is unavailable for the current data source
+ */
+export function IntegritySection({
+  isAvailable,
+}: IntegritySectionProps): JSX.Element {
+  const [issues, setIssues] = useState<IntegrityIssue[] | null>(null);
+  const [repairedCount, setRepairedCount] = useState<number | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Runs a read-only scan and shows the report.
+   */
+  const handleScan = useCallback(async () => {
+    setIsBusy(true);
+    setError(null);
+    setRepairedCount(null);
+    try {
+      setIssues(await auditIntegrity());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to scan data.');
+    } finally {
+      setIsBusy(false);
+    }
+  }, []);
+
+  /**
+   * Repairs all issues and re-scans to confirm.
+   */
+  const handleRepair = useCallback(async () => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const repaired = await repairIntegrity();
+      setRepairedCount(repaired.length);
+      setIssues(await auditIntegrity());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to repair data.');
+    } finally {
+      setIsBusy(false);
+    }
+  }, []);
+
+  const countsByKind = new Map<IntegrityIssueKind, number>();
+  for (const issue of issues ?? []) {
+    countsByKind.set(issue.kind, (countsByKind.get(issue.kind) ?? 0) + 1);
+  }
+
+  if (!isAvailable) {
+    return (
+      <section className="space-y-1">
+        <h3 className="text-base font-medium text-slate-800">Data integrity</h3>
+        <p className="text-sm text-slate-600">
+          The integrity check is available when data is stored in this browser.
+        </p>
+      </section>
+    );
+  }
+
+  return (
+    <section className="space-y-3">
+      <div>
+        <h3 className="text-base font-medium text-slate-800">Data integrity</h3>
+        <p className="text-sm text-slate-600">
+          Find rows left behind by deleted games, playthroughs, and entities.
+        </p>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        <button
+          type="button"
+          onClick={handleScan}
+          disabled={isBusy}
+          className="rounded border border-slate-300 bg-white px-3 py-1.5 text-sm text-slate-700 hover:bg-slate-50 disabled:opacity-50"
+        >
+          {isBusy ? 'Working…' : 'Scan'}
+        </button>
+        {issues && issues.length > 0 ? (
+          <button
+            type="button"
+            onClick={handleRepair}
+            disabled={isBusy}
+            className="rounded bg-slate-800 px-3 py-1.5 text-sm font-medium text-white hover:bg-slate-700 disabled:opacity-50"
+          >
+            Repair all
+          </button>
+        ) : null}
+      </div>
+      {error ? (
+        <p className="text-sm text-red-600" role="alert">
+          {error}
+        </p>
+      ) : null}
+      {repairedCount !== null ? (
+        <p className="text-sm text-slate-600" role="status">
+          Repaired {repairedCount} {repairedCount === 1 ? 'issue' : 'issues'}.
+        </p>
+      ) : null}
+      {issues === null ? null : issues.length === 0 ? (
+        <p className="text-sm text-slate-600">No problems found.</p>
+      ) : (
+        <div className="space-y-2">
+          <ul className="text-sm text-slate-700" role="list">
+            {[...countsByKind].map(([kind, count]) => (
+              <li key={kind}>
+                {ISSUE_KIND_LABELS[kind]}: {count}
+              </li>
+            ))}
+          </ul>
+          <ul
+            className="max-h-64 list-inside list-disc overflow-auto rounded border border-slate-200 bg-white p-2 text-xs text-slate-600"
+            role="list"
+          >
+            {issues.slice(0, MAX_LISTED_ISSUES).map((issue) => (
+              <li key={`${issue.table}:${issue.rowId}`}>{issue.message}</li>
+            ))}
+            {issues.length > MAX_LISTED_ISSUES ? (
+              <li>…and {issues.length - MAX_LISTED_ISSUES} more</li>
+            ) : null}
+          </ul>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,30 @@
+import { getDataSourceKind } from '../../lib/configureDataSource';
+import { IntegritySection } from './IntegritySection';
+import type { SettingsScreenProps } from './SettingsScreen.types';
+import { SyncSection } from './SyncSection';
+
+/**
+ * App-wide settings screen (not tied to a game). Hosts sync with a server and
+ * maintenance tools such as the data integrity report.
+ *
+ * @param props.onClose - Called when the user leaves the settings screen
+ */
+export function SettingsScreen({ onClose }: SettingsScreenProps): JSX.Element {
+  const isLocalData = getDataSourceKind() === 'local';
+  return (
+    <div className="mx-auto w-full max-w-3xl space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-medium text-slate-800">Settings</h2>
+        <button
+          type="button"
+          onClick={onClose}
+          className="rounded border border-slate-300 bg-white px-3 py-1.5 text-sm text-slate-700 hover:bg-slate-50"
+        >
+          Back
+        </button>
+      </div>
+      <SyncSection isAvailable={isLocalData} />
+      <IntegritySection isAvailable={isLocalData} />
+    </div>
+  );
+}
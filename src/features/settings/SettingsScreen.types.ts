@@ -0,0 +1,7 @@
+/**
+ * Props for SettingsScreen.
+ */
+export interface SettingsScreenProps {
+  /** Called when the user leaves the settings screen. */
+  onClose: () => void;
+}
@@ -0,0 +1,253 @@
+import { useCallback, useState } from 'react';
+import { useLiveQuery } from '../../hooks/useLiveQuery';
+import {
+  dismissSyncConflict,
+  getSyncConflicts,
+  getSyncSummary,
+  overrideSyncConflict,
+  type SyncSummary,
+} from '../../lib/sync';
+import { useSyncStore } from '../../stores/syncStore';
+import type { SyncConflict } from '../../types/SyncConflict';
+
+/** Longest value preview shown for a conflict. */
+const MAX_VALUE_PREVIEW_LENGTH = 120;
+
+/**
+ * Sync status and conflicts shown by the section.
+ */
+interface SyncOverview {
+  summary: SyncSummary | null;
+  conflicts: SyncConflict[];
+}
+
+/** Overview before the first load. */
+const EMPTY_OVERVIEW: SyncOverview = { summary: null, conflicts: [] };
+
+/**
+ * Formats a conflicting value for display.
+ *
+ * @param value - Field value, row values, or undefined for a deletion.
+ * @returns A short preview.
+ */
+function formatConflictValue(value: unknown): string {
+  if (value === undefined) return '(deleted)';
+  if (value instanceof Blob) return `(file, ${value.size} bytes)`;
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > MAX_VALUE_PREVIEW_LENGTH
+    ? `${text.slice(0, MAX_VALUE_PREVIEW_LENGTH)}…`
+    : text;
+}
+
+/**
+ * Props for SyncSection.
+ */
+export interface SyncSectionProps {
+  /** False when the app does not store data in this browser (sync unavailable). */
+  isAvailable: boolean;
+}
+
+/**
+ * Settings section for syncing with a sync server: server URL, automatic sync,
+ * a "Sync now" button with status, and review of the collisions the last syncs
+ * resolved automatically (keep the kept value, or switch to the other one).
+ *
+ * @param props.isAvailable - False when sync is unavailable for the current data source
+ */
+export function SyncSection({ isAvailable }: SyncSectionProps): JSX.Element {
+  const serverUrl = useSyncStore((s) => s.serverUrl);
+  const isAutoSyncEnabled = useSyncStore((s) => s.isAutoSyncEnabled);
+  const isSyncing = useSyncStore((s) => s.isSyncing);
+  const lastError = useSyncStore((s) => s.lastError);
+  const setSettings = useSyncStore((s) => s.setSettings);
+  const syncNow = useSyncStore((s) => s.syncNow);
+  const [draftUrl, setDraftUrl] = useState(serverUrl);
+  const [error, setError] = useState<string | null>(null);
+
+  const query = useCallback(
+    async (): Promise<SyncOverview> => ({
+      summary: serverUrl ? await getSyncSummary(serverUrl) : null,
+      conflicts: await getSyncConflicts(),
+    }),
+    [serverUrl]
+  );
+  const { data } = useLiveQuery(isAvailable ? query : null, EMPTY_OVERVIEW);
+
+  /**
+   * Runs a conflict action, showing its error if it fails.
+   *
+   * @param action - Action to run.
+   */
+  const handleConflictAction = useCallback(
+    async (action: () => Promise<void>) => {
+      setError(null);
+      try {
+        await action();
+      } catch (err) {
+        setError(
+          err instanceof Error ? err.message : 'Failed to resolve conflict.'
+        );
+      }
+    },
+    []
+  );
+
+  if (!isAvailable) {
+    return (
+      <section className="space-y-1">
+        <h3 className="text-base font-medium text-slate-800">Sync</h3>
+        <p className="text-sm text-slate-600">
+          Sync is available when data is stored in this browser.
+        </p>
+      </section>
+    );
+  }
+
+  return (
+    <section className="space-y-3">
+      <div>
+        <h3 className="text-base font-medium text-slate-800">Sync</h3>
+        <p className="text-sm text-slate-600">
+          Keep working offline and sync with a server when it is reachable. When
+          the same field was changed in two places, the later change wins and is
+          listed below for review.
+        </p>
+      </div>
+      <form
+        className="flex flex-wrap items-end gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          setSettings({ serverUrl: draftUrl });
+        }}
+      >
+        <label className="flex min-w-[16rem] flex-1 flex-col gap-1 text-sm text-slate-700">
+          Sync server URL
+          <input
+            type="url"
+            value={draftUrl}
+            onChange={(e) => setDraftUrl(e.target.value)}
+            placeholder="http://localhost:8787"
+            className="rounded border border-slate-300 px-2 py-1.5 text-sm"
+          />
+        </label>
+        <button
+          type="submit"
+          disabled={draftUrl.trim() === serverUrl}
+          className="rounded border border-slate-300 bg-white px-3 py-1.5 text-sm text-slate-700 hover:bg-slate-50 disabled:opacity-50"
+        >
+          Save
+        </button>
+      </form>
+      {serverUrl ? (
+        <>
+          <div className="flex flex-wrap items-center gap-3">
+            <button
+              type="button"
+              onClick={() => void syncNow()}
+              disabled={isSyncing}
+              className="rounded bg-slate-800 px-3 py-1.5 text-sm font-medium text-white hover:bg-slate-700 disabled:opacity-50"
+            >
+              {isSyncing ? 'Syncing…' : 'Sync now'}
+            </button>
+            <label className="flex items-center gap-2 text-sm text-slate-700">
+              <input
+                type="checkbox"
+                checked={isAutoSyncEnabled}
+                onChange={(e) =>
+                  setSettings({ isAutoSyncEnabled: e.target.checked })
+                }
+              />
+              Sync automatically
+            </label>
+          </div>
+          {data.summary ? (
+            <p className="text-sm text-slate-600" role="status">
+              {data.summary.pendingCount === 0
+                ? 'All changes synced.'
+                : `${data.summary.pendingCount} ${data.summary.pendingCount === 1 ? 'change' : 'changes'} waiting to sync.`}{' '}
+              {data.summary.lastSyncedAt
+                ? `Last synced ${new Date(data.summary.lastSyncedAt).toLocaleString()}.`
+                : 'Not synced yet.'}
+            </p>
+          ) : null}
+          {lastError ? (
+            <p className="text-sm text-red-600" role="alert">
+              {lastError}
+            </p>
+          ) : null}
+        </>
+      ) : null}
+      {error ? (
+        <p className="text-sm text-red-600" role="alert">
+          {error}
+        </p>
+      ) : null}
+      {data.conflicts.length > 0 ? (
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium text-slate-800">
+            Conflicts ({data.conflicts.length})
+          </h4>
+          <ul className="space-y-2" role="list">
+            {data.conflicts.map((conflict) => {
+              const keptValue =
+                conflict.winner === 'local'
+                  ? conflict.localValue
+                  : conflict.remoteValue;
+              const otherValue =
+                conflict.winner === 'local'
+                  ? conflict.remoteValue
+                  : conflict.localValue;
+              const keptSide =
+                conflict.winner === 'local' ? 'this device' : 'server';
+              const otherSide =
+                conflict.winner === 'local' ? 'server' : 'this device';
+              return (
+                <li
+                  key={conflict.id}
+                  className="space-y-1 rounded border border-amber-200 bg-amber-50 p-2 text-sm text-slate-700"
+                >
+                  <p className="font-medium text-slate-800">
+                    {conflict.table} · {conflict.field ?? 'whole row'}
+                    <span className="ml-2 text-xs font-normal text-slate-500">
+                      {conflict.key}
+                    </span>
+                  </p>
+                  <p>
+                    Kept ({keptSide}): {formatConflictValue(keptValue)}
+                  </p>
+                  <p className="text-slate-500">
+                    Other ({otherSide}): {formatConflictValue(otherValue)}
+                  </p>
+                  <div className="flex gap-2 pt-1">
+                    <button
+                      type="button"
+                      onClick={() =>
+                        void handleConflictAction(() =>
+                          dismissSyncConflict(conflict.id)
+                        )
+                      }
+                      className="rounded border border-slate-300 bg-white px-2 py-1 text-xs text-slate-700 hover:bg-slate-50"
+                    >
+                      Keep
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        void handleConflictAction(() =>
+                          overrideSyncConflict(conflict.id)
+                        )
+                      }
+                      className="rounded border border-slate-300 bg-white px-2 py-1 text-xs text-slate-700 hover:bg-slate-50"
+                    >
+                      Use other value
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      ) : null}
+    </section>
+  );
+}
@@ -1,5 +1,6 @@
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useState } from 'react';
 import { ConfirmDialog } from '../../components/ConfirmDialog';
+import { useLiveRefresh } from '../../hooks/useLiveRefresh';
 import { threadRepository } from '../../lib/repositories';
 import type { GameId, PlaythroughId, ThreadId } from '../../types/ids';
 import type { Thread } from '../../types/Thread';
@@ -42,7 +43,6 @@ export function ThreadListScreen({
    * Loads the threads for the current game (game-level plus current playthrough only).
    */
   const loadThreads = useCallback(async () => {
-    setIsLoading(true);
     try {
       const list = await threadRepository.getByGameId(gameId, playthroughId);
       setThreads(list);
@@ -62,9 +62,7 @@ export function ThreadListScreen({
     }
   }, [gameId, playthroughId]);
 
-  useEffect(() => {
-    loadThreads();
-  }, [loadThreads]);
+  useLiveRefresh(loadThreads);
 
   /**
    * Handles the confirmation of deleting a thread.
@@ -73,8 +71,7 @@ export function ThreadListScreen({
     if (deleteTarget === null) return;
     await threadRepository.delete(deleteTarget);
     setDeleteTarget(null);
-    loadThreads();
-  }, [deleteTarget, loadThreads]);
+  }, [deleteTarget]);
 
   if (isLoading) {
     return <p className="text-slate-500">Loading threads…</p>;
@@ -100,20 +97,14 @@ export function ThreadListScreen({
               mode="create"
               gameId={gameId}
               playthroughId={playthroughId}
-              onSaved={() => {
-                setFormState(null);
-                loadThreads();
-              }}
+              onSaved={() => setFormState(null)}
               onCancel={() => setFormState(null)}
             />
           ) : (
             <ThreadForm
               mode="edit"
               thread={formState.thread}
-              onSaved={() => {
-                setFormState(null);
-                loadThreads();
-              }}
+              onSaved={() => setFormState(null)}
               onCancel={() => setFormState(null)}
             />
           )}
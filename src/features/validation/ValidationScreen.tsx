@@ -0,0 +1,110 @@
+import { useCallback } from 'react';
+import { useLiveQuery } from '../../hooks/useLiveQuery';
+import {
+  validateGameRequirements,
+  type RequirementIssue,
+  type RequirementIssueKind,
+} from '../../lib/validation';
+import type { GameId } from '../../types/ids';
+
+/**
+ * Props for the ValidationScreen component.
+ */
+export interface ValidationScreenProps {
+  /** Current game ID. */
+  gameId: GameId;
+}
+
+/** Tables whose changes can add or resolve requirement issues (threads and names). */
+const VALIDATION_TABLES = [
+  'threads',
+  'quests',
+  'insights',
+  'items',
+  'persons',
+  'places',
+  'maps',
+  'paths',
+] as const;
+
+/** Display labels for requirement issue kinds, in report order. */
+const ISSUE_KIND_LABELS: Record<RequirementIssueKind, string> = {
+  cycle: 'Circular dependencies',
+  alternativeCycle: 'Circular dependencies through alternatives',
+  selfReference: 'Self-references',
+  targetWithoutStatus: 'Requirements on entities without status',
+};
+
+/** List styles by issue kind: loops that alternatives can break are softer. */
+const ISSUE_KIND_LIST_CLASSES: Partial<Record<RequirementIssueKind, string>> = {
+  alternativeCycle: 'border-slate-200 bg-slate-50 text-slate-700',
+};
+
+/** Stable empty result before the first validation. */
+const NO_ISSUES: RequirementIssue[] = [];
+
+/**
+ * Game-wide validation report: requirement loops (across requirements and
+ * locations; loops that alternatives can break are shown apart, in a softer
+ * style), self-references, and requirements on entities without status,
+ * grouped by kind. Stays current as threads change.
+ *
+ * @param props - ValidationScreen props (gameId).
+ * @returns A JSX element representing the ValidationScreen component.
+ */
+export function ValidationScreen({
+  gameId,
+}: ValidationScreenProps): JSX.Element {
+  const query = useCallback(() => validateGameRequirements(gameId), [gameId]);
+  const {
+    data: issues,
+    isLoading,
+    error,
+  } = useLiveQuery(query, NO_ISSUES, VALIDATION_TABLES);
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-base font-medium text-slate-800">Validation</h3>
+        <p className="text-sm text-slate-600">
+          Requirements that can never be met because they depend on themselves
+          or point at entities without a status.
+        </p>
+      </div>
+      {error ? (
+        <p className="text-sm text-red-600" role="alert">
+          {error}
+        </p>
+      ) : isLoading ? (
+        <p className="text-sm text-slate-500">Checking…</p>
+      ) : issues.length === 0 ? (
+        <p className="text-sm text-slate-600">No problems found.</p>
+      ) : (
+        (Object.keys(ISSUE_KIND_LABELS) as RequirementIssueKind[]).map(
+          (kind) => {
+            const ofKind = issues.filter((issue) => issue.kind === kind);
+            if (ofKind.length === 0) return null;
+            return (
+              <section key={kind} className="space-y-1">
+                <h4 className="text-sm font-medium text-slate-700">
+                  {ISSUE_KIND_LABELS[kind]} ({ofKind.length})
+                </h4>
+                <ul
+                  className={`list-inside list-disc rounded border p-2 text-sm ${
+                    ISSUE_KIND_LIST_CLASSES[kind] ??
+                    'border-amber-300 bg-amber-50 text-amber-800'
+                  }`}
+                  role="list"
+                >
+                  {ofKind.map((issue) => (
+                    <li key={issue.threadIds.join(',')}>{issue.message}</li>
+                  ))}
+                </ul>
+              </section>
+            );
+          }
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+import { useEffect } from 'react';
+import { startBackupService } from '../lib/backups';
+
+/**
+ * Runs the automatic backup service while mounted. Mount once near the app
+ * root.
+ *
+ * @param isEnabled - False to never back up (when data is not stored in this browser).
+ */
+export function useBackupService(isEnabled: boolean): void {
+  useEffect(() => {
+    if (!isEnabled) return;
+    return startBackupService();
+  }, [isEnabled]);
+}
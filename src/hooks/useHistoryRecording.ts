@@ -0,0 +1,26 @@
+import { useEffect } from 'react';
+import { subscribeToChanges } from '../lib/changes';
+import { useHistoryStore } from '../stores/historyStore';
+
+/**
+ * Records every committed user change set into the history store so it can be
+ * undone, and drops the steps whose rows another tab, sync, or maintenance
+ * changed since. Mount once near the app root.
+ *
+ * @param isEnabled - False to record nothing (undo replays writes on the browser database).
+ */
+export function useHistoryRecording(isEnabled: boolean): void {
+  const record = useHistoryStore((s) => s.record);
+  const invalidate = useHistoryStore((s) => s.invalidate);
+
+  useEffect(() => {
+    if (!isEnabled) return;
+    return subscribeToChanges((changeSet) => {
+      if (changeSet.origin === 'local') {
+        record(changeSet);
+      } else if (changeSet.origin !== 'history') {
+        invalidate(changeSet);
+      }
+    });
+  }, [isEnabled, record, invalidate]);
+}
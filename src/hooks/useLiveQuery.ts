@@ -0,0 +1,75 @@
+import { useEffect, useRef, useState } from 'react';
+import { observeTables } from '../lib/live';
+
+/**
+ * Result of the useLiveQuery hook.
+ */
+export interface LiveQueryResult<T> {
+  /** Latest query result, or the initial value before the first result. */
+  data: T;
+
+  /** True until the first result for the current query arrives. */
+  isLoading: boolean;
+
+  /** Error message when the latest run failed, or null. */
+  error: string | null;
+}
+
+/**
+ * Runs an async query and re-runs it whenever committed changes touch the
+ * given tables, so the result stays current without manual reloads. Pass a
+ * memoized query (useCallback); a new query identity starts over. A null query
+ * yields the initial value.
+ *
+ * @param query - Memoized async query, or null to skip.
+ * @param initialValue - Value before the first result and when skipped or failed.
+ * @param tables - Table names to watch (a module constant); all tables when omitted.
+ * @returns Latest data, loading flag, and error.
+ */
+export function useLiveQuery<T>(
+  query: (() => Promise<T>) | null,
+  initialValue: T,
+  tables?: readonly string[]
+): LiveQueryResult<T> {
+  const initialValueRef = useRef(initialValue);
+  const tablesRef = useRef(tables ?? null);
+  const [state, setState] = useState<LiveQueryResult<T>>({
+    data: initialValue,
+    isLoading: query !== null,
+    error: null,
+  });
+
+  useEffect(() => {
+    if (query === null) {
+      setState({
+        data: initialValueRef.current,
+        isLoading: false,
+        error: null,
+      });
+      return;
+    }
+
+    let cancelled = false;
+    setState((prev) => ({ ...prev, isLoading: true, error: null }));
+    const observation = observeTables(tablesRef.current, async () => {
+      try {
+        const data = await query();
+        if (!cancelled) setState({ data, isLoading: false, error: null });
+      } catch (err) {
+        if (cancelled) return;
+        setState({
+          data: initialValueRef.current,
+          isLoading: false,
+          error: err instanceof Error ? err.message : 'Failed to load data.',
+        });
+      }
+    });
+    observation.refresh();
+    return () => {
+      cancelled = true;
+      observation.stop();
+    };
+  }, [query]);
+
+  return state;
+}
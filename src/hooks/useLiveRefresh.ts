@@ -0,0 +1,25 @@
+import { useEffect, useRef } from 'react';
+import { observeTables } from '../lib/live';
+
+/**
+ * Calls a screen's load function on mount and again whenever committed
+ * changes touch the given tables, so lists stay current when data changes
+ * elsewhere (another screen, undo/redo, an import). Runs never overlap. Load
+ * functions should only show their loading state on the first load, so
+ * background refreshes do not unmount open forms.
+ *
+ * @param load - Memoized load function (useCallback); a new identity reloads.
+ * @param tables - Table names to watch (a module constant); all tables when omitted.
+ */
+export function useLiveRefresh(
+  load: () => Promise<void> | void,
+  tables?: readonly string[]
+): void {
+  const tablesRef = useRef(tables ?? null);
+
+  useEffect(() => {
+    const observation = observeTables(tablesRef.current, load);
+    observation.refresh();
+    return () => observation.stop();
+  }, [load]);
+}
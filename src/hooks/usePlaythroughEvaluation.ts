@@ -0,0 +1,55 @@
+import { useCallback } from 'react';
+import type { GameId, PlaythroughId } from '../types/ids';
+import {
+  loadPlaythroughEvaluation,
+  type PlaythroughEvaluation,
+} from '../lib/evaluation';
+import { useLiveQuery } from './useLiveQuery';
+
+/**
+ * Result of the usePlaythroughEvaluation hook.
+ */
+export interface UsePlaythroughEvaluationResult {
+  /** The evaluation of the playthrough, or null before the first result and without a playthrough. */
+  evaluation: PlaythroughEvaluation | null;
+
+  /** True while the first evaluation for the playthrough is computed. */
+  isLoading: boolean;
+
+  /** Error message when evaluation fails, or null. */
+  error: string | null;
+}
+
+/**
+ * Evaluates a playthrough (availability, reachability, completion, and what
+ * can be done next) from one snapshot, and re-evaluates whenever the data
+ * changes (live query). Call once per playthrough and pass the result to
+ * every consumer, so nothing is evaluated twice.
+ *
+ * @param gameId - Current game ID.
+ * @param playthroughId - Playthrough to evaluate, or null to skip.
+ * @returns The evaluation, loading flag, and error if any.
+ */
+export function usePlaythroughEvaluation(
+  gameId: GameId | null,
+  playthroughId: PlaythroughId | null
+): UsePlaythroughEvaluationResult {
+  const query = useCallback(
+    () => loadPlaythroughEvaluation(gameId!, playthroughId!),
+    [gameId, playthroughId]
+  );
+  const { data, isLoading, error } = useLiveQuery<PlaythroughEvaluation | null>(
+    gameId && playthroughId ? query : null,
+    null
+  );
+
+  // The previous playthrough's result is kept until the new one arrives; hide it.
+  const evaluation =
+    data !== null &&
+    data.snapshot.gameId === gameId &&
+    data.snapshot.playthroughId === playthroughId
+      ? data
+      : null;
+
+  return { evaluation, isLoading, error };
+}
@@ -0,0 +1,19 @@
+import { useEffect } from 'react';
+import { startSyncService } from '../lib/sync';
+import { useSyncStore } from '../stores/syncStore';
+
+/**
+ * Runs the background sync service while mounted, a sync server is configured,
+ * and automatic sync is on. Mount once near the app root.
+ *
+ * @param isEnabled - False to never sync (e.g. when not using local storage).
+ */
+export function useSyncService(isEnabled: boolean): void {
+  const serverUrl = useSyncStore((s) => s.serverUrl);
+  const isAutoSyncEnabled = useSyncStore((s) => s.isAutoSyncEnabled);
+
+  useEffect(() => {
+    if (!isEnabled || !serverUrl || !isAutoSyncEnabled) return;
+    return startSyncService(() => useSyncStore.getState().syncNow());
+  }, [isEnabled, serverUrl, isAutoSyncEnabled]);
+}
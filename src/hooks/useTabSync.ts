@@ -0,0 +1,57 @@
+import { useEffect } from 'react';
+import { startTabSync } from '../lib/tabSync';
+import { useAppStore } from '../stores/appStore';
+
+/**
+ * Keeps open tabs in step: relays committed data changes so live views in
+ * other tabs refresh, and mirrors the current game and playthrough selection
+ * across tabs. Mount once near the app root.
+ *
+ * @param isEnabled - False for sessions whose data other tabs cannot see (in-memory demo).
+ */
+export function useTabSync(isEnabled: boolean): void {
+  useEffect(() => {
+    if (!isEnabled) return;
+    let isApplyingRemote = false;
+
+    const tabSync = startTabSync((selection) => {
+      const { currentGameId, currentPlaythroughId } = useAppStore.getState();
+      if (
+        currentGameId === selection.gameId &&
+        currentPlaythroughId === selection.playthroughId
+      ) {
+        return;
+      }
+      isApplyingRemote = true;
+      try {
+        useAppStore
+          .getState()
+          .setCurrentGameAndPlaythrough(
+            selection.gameId,
+            selection.playthroughId
+          );
+      } finally {
+        isApplyingRemote = false;
+      }
+    });
+
+    const unsubscribe = useAppStore.subscribe((state, prev) => {
+      if (isApplyingRemote) return;
+      if (
+        state.currentGameId === prev.currentGameId &&
+        state.currentPlaythroughId === prev.currentPlaythroughId
+      ) {
+        return;
+      }
+      tabSync.broadcastSelection({
+        gameId: state.currentGameId,
+        playthroughId: state.currentPlaythroughId,
+      });
+    });
+
+    return () => {
+      unsubscribe();
+      tabSync.stop();
+    };
+  }, [isEnabled]);
+}
@@ -0,0 +1,49 @@
+import { useEffect } from 'react';
+import { useHistoryStore } from '../stores/historyStore';
+
+/**
+ * Returns true when the event target edits text, where the browser's own
+ * undo should win over app-wide undo.
+ *
+ * @param target - Event target.
+ * @returns Whether the target is a text-editing element.
+ */
+function isTextEditingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    target instanceof HTMLTextAreaElement ||
+    (target instanceof HTMLInputElement &&
+      !['checkbox', 'radio', 'button', 'submit', 'file'].includes(target.type))
+  );
+}
+
+/**
+ * Binds app-wide undo/redo keyboard shortcuts: Ctrl/Cmd+Z to undo,
+ * Ctrl/Cmd+Shift+Z or Ctrl/Cmd+Y to redo. Ignored while typing in text fields.
+ * Failures are kept in the history store and shown by UndoRedoToolbar.
+ *
+ * @param isEnabled - False to leave the shortcuts unbound.
+ */
+export function useUndoRedoShortcuts(isEnabled: boolean): void {
+  const undo = useHistoryStore((s) => s.undo);
+  const redo = useHistoryStore((s) => s.redo);
+
+  useEffect(() => {
+    if (!isEnabled) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      if (isTextEditingTarget(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        void undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        void redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isEnabled, undo, redo]);
+}
@@ -0,0 +1,37 @@
+/**
+ * Kind of problem found while validating an archive.
+ * - `format`: the file is not an archive of the expected kind or version.
+ * - `structure`: a required section or field is missing or malformed.
+ * - `missingReference`: a row references an ID that is not present.
+ * - `orphanedRow`: a progress row's entity no longer exists in the target game;
+ *   the row is skipped and the rest of the import proceeds.
+ * - `encryption`: the archive's encrypted text cannot be read with the target
+ *   game's key.
+ */
+export type ArchiveValidationIssueKind =
+  | 'format'
+  | 'structure'
+  | 'missingReference'
+  | 'orphanedRow'
+  | 'encryption';
+
+/**
+ * A single problem found while validating an archive before import.
+ * Imports are only written when no blocking issues are reported; `orphanedRow`
+ * issues are informational.
+ *
+ * @property kind - Category of the problem
+ * @property message - Human-readable description for display
+ * @property rowId - ID of the row containing the problem, if any
+ * @property missingId - Referenced ID that could not be resolved, if any
+ */
+export interface ArchiveValidationIssue {
+  /** Category of the problem. */
+  kind: ArchiveValidationIssueKind;
+  /** Human-readable description for display. */
+  message: string;
+  /** ID of the row containing the problem, if any. */
+  rowId?: string;
+  /** Referenced ID that could not be resolved, if any. */
+  missingId?: string;
+}
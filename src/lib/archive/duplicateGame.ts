@@ -0,0 +1,33 @@
+import type { Game } from '../../types/Game';
+import type { GameId } from '../../types/ids';
+import { exportGameArchive } from './exportGameArchive';
+import { importGameArchive } from './importGameArchive';
+
+/**
+ * Deep-copies a game as a new game: every game-scoped entity, game-level
+ * thread and map marker, and uploaded map image, with fresh IDs and all
+ * references rewritten (quest givers and objective links, place maps, map
+ * top-level places, thread endpoints, markers). Playthroughs and progress are
+ * not copied. Runs the archive export and import pipeline, so the copy is
+ * written in one transaction.
+ *
+ * @param gameId - Game to duplicate.
+ * @param name - Name of the copy; defaults to the original name with " (copy)".
+ * @returns The new game.
+ * @throws Error when the game does not exist or its data has dangling references.
+ */
+export async function duplicateGame(
+  gameId: GameId,
+  name?: string
+): Promise<Game> {
+  const archive = await exportGameArchive(gameId);
+  const result = await importGameArchive(archive, {
+    name: name?.trim() || `${archive.game.name} (copy)`,
+  });
+  if (!result.game) {
+    throw new Error(
+      `Game could not be duplicated: ${result.issues[0]?.message ?? 'unknown error'} Run the data integrity check in Settings and try again.`
+    );
+  }
+  return result.game;
+}
@@ -0,0 +1,149 @@
+import {
+  GAME_ARCHIVE_FORMAT,
+  GAME_ARCHIVE_VERSION,
+  type GameArchive,
+  type GameArchiveImage,
+} from '../../types/GameArchive';
+import type { GameId } from '../../types/ids';
+import { blobToBase64 } from '../../utils/blobToBase64';
+import { db } from '../db';
+
+/**
+ * Options for exporting a game archive.
+ *
+ * @property includeImages - Whether to carry uploaded map images; defaults to true.
+ */
+export interface ExportGameArchiveOptions {
+  /** Whether to carry uploaded map images; defaults to true. */
+  includeImages?: boolean;
+}
+
+/**
+ * Builds a portable archive of a game: the game row, every game-scoped entity,
+ * game-level threads and map markers, and the uploaded map image blobs.
+ * Playthroughs and all playthrough-scoped rows are excluded. Without images,
+ * maps lose their uploaded image (URL images are kept).
+ *
+ * Rows are read in a single read transaction so the archive is consistent even
+ * if another tab writes while exporting.
+ *
+ * @param gameId - ID of the game to export.
+ * @param options - Optional export options.
+ * @returns The game archive.
+ * @throws Error when the game does not exist.
+ */
+export async function exportGameArchive(
+  gameId: GameId,
+  options: ExportGameArchiveOptions = {}
+): Promise<GameArchive> {
+  const includeImages = options.includeImages ?? true;
+  const rows = await db.transaction(
+    'r',
+    [
+      db.games,
+      db.quests,
+      db.insights,
+      db.items,
+      db.persons,
+      db.places,
+      db.paths,
+      db.maps,
+      db.threads,
+      db.mapMarkers,
+      db.mapImages,
+    ],
+    async () => {
+      const [
+        game,
+        quests,
+        insights,
+        items,
+        persons,
+        places,
+        paths,
+        maps,
+        threads,
+        mapMarkers,
+        mapImages,
+      ] = await Promise.all([
+        db.games.get(gameId),
+        db.quests.where('gameId').equals(gameId).toArray(),
+        db.insights.where('gameId').equals(gameId).toArray(),
+        db.items.where('gameId').equals(gameId).toArray(),
+        db.persons.where('gameId').equals(gameId).toArray(),
+        db.places.where('gameId').equals(gameId).toArray(),
+        db.paths.where('gameId').equals(gameId).toArray(),
+        db.maps.where('gameId').equals(gameId).toArray(),
+        db.threads
+          .where('gameId')
+          .equals(gameId)
+          .filter((t) => t.playthroughId == null)
+          .toArray(),
+        db.mapMarkers
+          .where('gameId')
+          .equals(gameId)
+          .filter((m) => m.playthroughId == null)
+          .toArray(),
+        includeImages
+          ? db.mapImages.where('gameId').equals(gameId).toArray()
+          : [],
+      ]);
+      return {
+        game,
+        quests,
+        insights,
+        items,
+        persons,
+        places,
+        paths,
+        maps,
+        threads,
+        mapMarkers,
+        mapImages,
+      };
+    }
+  );
+
+  if (!rows.game) {
+    throw new Error('Game not found.');
+  }
+
+  // Only carry blobs that a map still references; stale blobs are not exported.
+  const referencedBlobIds = new Set(
+    rows.maps
+      .filter((m) => m.imageSourceType === 'upload' && m.imageBlobId)
+      .map((m) => m.imageBlobId as string)
+  );
+  const mapImages: GameArchiveImage[] = await Promise.all(
+    rows.mapImages
+      .filter((row) => referencedBlobIds.has(row.id))
+      .map(async (row) => ({
+        id: row.id,
+        mapId: row.mapId,
+        mimeType: row.blob.type || 'application/octet-stream',
+        data: await blobToBase64(row.blob),
+        createdAt: row.createdAt,
+      }))
+  );
+
+  return {
+    format: GAME_ARCHIVE_FORMAT,
+    version: GAME_ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    game: rows.game,
+    quests: rows.quests,
+    insights: rows.insights,
+    items: rows.items,
+    persons: rows.persons,
+    places: rows.places,
+    paths: rows.paths,
+    maps: includeImages
+      ? rows.maps
+      : rows.maps.map((m) =>
+          m.imageSourceType === 'upload' ? { ...m, imageBlobId: undefined } : m
+        ),
+    threads: rows.threads,
+    mapMarkers: rows.mapMarkers,
+    mapImages,
+  };
+}
@@ -0,0 +1,32 @@
+import type { PlaythroughId } from '../../types/ids';
+import {
+  PLAYTHROUGH_ARCHIVE_FORMAT,
+  PLAYTHROUGH_ARCHIVE_VERSION,
+  type PlaythroughArchive,
+} from '../../types/PlaythroughArchive';
+import { capturePlaythroughSnapshot } from '../playthroughState';
+import { gameRepository } from '../repositories';
+
+/**
+ * Builds a portable archive of one playthrough's progress (progress, state,
+ * discovery, playthrough-scoped threads and markers, current position).
+ * Game definitions are not included; the game's encryption salt is recorded
+ * so the archive is only imported where its notes can be read.
+ *
+ * @param playthroughId - ID of the playthrough to export.
+ * @returns The playthrough archive.
+ * @throws Error when the playthrough does not exist.
+ */
+export async function exportPlaythroughArchive(
+  playthroughId: PlaythroughId
+): Promise<PlaythroughArchive> {
+  const snapshot = await capturePlaythroughSnapshot(playthroughId);
+  const game = await gameRepository.getById(snapshot.playthrough.gameId);
+  return {
+    format: PLAYTHROUGH_ARCHIVE_FORMAT,
+    version: PLAYTHROUGH_ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    encryptionSalt: game?.encryption?.salt ?? null,
+    ...snapshot,
+  };
+}
@@ -0,0 +1,168 @@
+import type { GameArchive } from '../../types/GameArchive';
+import type { GameId } from '../../types/ids';
+import { exportGameArchive } from './exportGameArchive';
+
+/** Key of the link fragment parameter holding a shared game. */
+export const GAME_SHARE_LINK_KEY = 'questloom-game';
+
+/**
+ * Longest encoded game accepted in a link (characters). Keeps links short
+ * enough for chat apps and browsers.
+ */
+export const MAX_GAME_SHARE_LINK_PAYLOAD_LENGTH = 8_000;
+
+/** Largest decompressed game accepted from a link (bytes). */
+const MAX_SHARED_GAME_JSON_BYTES = 1_000_000;
+
+/** Compression format of link payloads. */
+const LINK_COMPRESSION_FORMAT: CompressionFormat = 'deflate';
+
+/**
+ * Encodes bytes as URL-safe base64 without padding.
+ *
+ * @param bytes - Bytes to encode.
+ * @returns The encoded string.
+ */
+function bytesToBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * Decodes URL-safe base64 (with or without padding).
+ *
+ * @param text - Encoded string.
+ * @returns The bytes.
+ * @throws Error when the string is not valid base64.
+ */
+function base64UrlToBytes(text: string): Uint8Array {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+}
+
+/**
+ * Reads a byte stream to the end, stopping early when it gets too long.
+ *
+ * @param stream - Stream to read.
+ * @param maxBytes - Largest accepted total size.
+ * @returns All bytes, or null when the stream is longer than maxBytes.
+ */
+async function readAllBytes(
+  stream: ReadableStream<Uint8Array>,
+  maxBytes: number
+): Promise<Uint8Array | null> {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    length += value.length;
+    if (length > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  const bytes = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+}
+
+/**
+ * Compresses a game archive into a URL-safe string for a link fragment.
+ *
+ * @param archive - The archive to encode (without images, to stay small).
+ * @returns The encoded archive.
+ * @throws Error when the result is longer than MAX_GAME_SHARE_LINK_PAYLOAD_LENGTH.
+ */
+export async function encodeGameArchiveForLink(
+  archive: GameArchive
+): Promise<string> {
+  const json = new Blob([JSON.stringify(archive)]);
+  const compressed = await new Response(
+    json.stream().pipeThrough(new CompressionStream(LINK_COMPRESSION_FORMAT))
+  ).arrayBuffer();
+  const payload = bytesToBase64Url(new Uint8Array(compressed));
+  if (payload.length > MAX_GAME_SHARE_LINK_PAYLOAD_LENGTH) {
+    throw new Error(
+      `This game is too big to share as a link (${payload.length.toLocaleString()} characters; the limit is ${MAX_GAME_SHARE_LINK_PAYLOAD_LENGTH.toLocaleString()}). Export it as a file instead.`
+    );
+  }
+  return payload;
+}
+
+/**
+ * Decodes a game archive from a link payload. The result is untrusted and is
+ * validated by importGameArchive.
+ *
+ * @param payload - Encoded archive from a link.
+ * @returns The parsed archive value.
+ * @throws Error when the payload is too long or not an encoded game.
+ */
+export async function decodeGameArchiveFromLink(
+  payload: string
+): Promise<GameArchive> {
+  if (payload.length > MAX_GAME_SHARE_LINK_PAYLOAD_LENGTH) {
+    throw new Error('The shared game is too big.');
+  }
+  let json: Uint8Array | null;
+  try {
+    const compressed = new Blob([base64UrlToBytes(payload)]);
+    json = await readAllBytes(
+      compressed
+        .stream()
+        .pipeThrough(new DecompressionStream(LINK_COMPRESSION_FORMAT)),
+      MAX_SHARED_GAME_JSON_BYTES
+    );
+  } catch {
+    throw new Error('The link does not contain a valid QuestLoom game.');
+  }
+  if (json === null) {
+    throw new Error('The shared game is too big.');
+  }
+  try {
+    return JSON.parse(new TextDecoder().decode(json)) as GameArchive;
+  } catch {
+    throw new Error('The link does not contain a valid QuestLoom game.');
+  }
+}
+
+/**
+ * Creates a link that carries a game (entities, threads, maps, and markers;
+ * no uploaded images) in its fragment. The fragment is never sent to a server.
+ *
+ * @param gameId - ID of the game to share.
+ * @param baseUrl - App URL the link opens (any fragment is replaced).
+ * @returns The link.
+ * @throws Error when the game does not exist or is too big for a link.
+ */
+export async function createGameShareLink(
+  gameId: GameId,
+  baseUrl: string
+): Promise<string> {
+  const archive = await exportGameArchive(gameId, { includeImages: false });
+  const payload = await encodeGameArchiveForLink(archive);
+  return `${baseUrl.split('#')[0]}#${GAME_SHARE_LINK_KEY}=${payload}`;
+}
+
+/**
+ * Returns the shared game payload of a link fragment, if it has one.
+ *
+ * @param hash - Location hash (with or without the leading `#`).
+ * @returns The payload, or null.
+ */
+export function readGameShareLinkPayload(hash: string): string | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  return params.get(GAME_SHARE_LINK_KEY) || null;
+}
@@ -0,0 +1,98 @@
+import type { Game } from '../../types/Game';
+import type { GameArchive } from '../../types/GameArchive';
+import { base64ToBlob } from '../../utils/base64ToBlob';
+import { db, type MapImageBlobRow } from '../db';
+import { transactionRunner } from '../repositories';
+import type { ArchiveValidationIssue } from './ArchiveValidationIssue';
+import { remapGameArchiveIds } from './remapGameArchiveIds';
+import { validateGameArchive } from './validateGameArchive';
+
+/**
+ * Options for importing a game archive.
+ *
+ * @property name - Name for the imported game; defaults to the archived name.
+ */
+export interface ImportGameArchiveOptions {
+  /** Name for the imported game; defaults to the archived name. */
+  name?: string;
+}
+
+/**
+ * Result of importing a game archive.
+ *
+ * @property game - The newly created game, or null when the import was rejected
+ * @property issues - Validation issues; non-empty exactly when game is null
+ */
+export interface ImportGameArchiveResult {
+  /** The newly created game, or null when the import was rejected. */
+  game: Game | null;
+  /** Validation issues; non-empty exactly when game is null. */
+  issues: ArchiveValidationIssue[];
+}
+
+/**
+ * Validates a game archive and, if it has no issues, writes it as a new game
+ * with freshly generated IDs (so it can live alongside the original).
+ * All rows are written in one transaction: either everything is imported or
+ * nothing is.
+ *
+ * @param archive - Parsed archive value (untrusted).
+ * @param options - Optional import options.
+ * @returns The created game, or the issues that prevented the import.
+ */
+export async function importGameArchive(
+  archive: GameArchive,
+  options: ImportGameArchiveOptions = {}
+): Promise<ImportGameArchiveResult> {
+  const issues = validateGameArchive(archive);
+  if (issues.length > 0) {
+    return { game: null, issues };
+  }
+
+  const { archive: remapped } = remapGameArchiveIds(archive);
+  const now = new Date().toISOString();
+  const game: Game = {
+    ...remapped.game,
+    name: options.name?.trim() || remapped.game.name,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const imageRows: MapImageBlobRow[] = [];
+  for (const image of remapped.mapImages) {
+    try {
+      imageRows.push({
+        id: image.id,
+        gameId: game.id,
+        mapId: image.mapId,
+        blob: base64ToBlob(image.data, image.mimeType),
+        createdAt: image.createdAt,
+      });
+    } catch {
+      issues.push({
+        kind: 'structure',
+        message: 'A map image could not be decoded.',
+        rowId: image.id,
+      });
+    }
+  }
+  if (issues.length > 0) {
+    return { game: null, issues };
+  }
+
+  await transactionRunner.run(async () => {
+    await db.games.add(game);
+    await db.quests.bulkAdd(remapped.quests);
+    await db.insights.bulkAdd(remapped.insights);
+    await db.items.bulkAdd(remapped.items);
+    await db.persons.bulkAdd(remapped.persons);
+    await db.places.bulkAdd(remapped.places);
+    await db.paths.bulkAdd(remapped.paths);
+    await db.maps.bulkAdd(remapped.maps);
+    await db.threads.bulkAdd(remapped.threads);
+    await db.mapMarkers.bulkAdd(remapped.mapMarkers);
+    await db.mapImages.bulkAdd(imageRows);
+  });
+
+  return { game, issues: [] };
+}
@@ -0,0 +1,155 @@
+import type { GameId, PlaythroughId } from '../../types/ids';
+import type { Playthrough } from '../../types/Playthrough';
+import type { PlaythroughArchive } from '../../types/PlaythroughArchive';
+import type { PlaythroughSnapshot } from '../../types/PlaythroughSnapshot';
+import { generateId } from '../../utils/generateId';
+import { db } from '../db';
+import { isEncryptedText } from '../encryption/gameCrypto';
+import {
+  prunePlaythroughSnapshot,
+  writePlaythroughSnapshot,
+} from '../playthroughState';
+import type { ArchiveValidationIssue } from './ArchiveValidationIssue';
+import { validatePlaythroughArchive } from './validatePlaythroughArchive';
+
+/** Human-readable labels for snapshot sections, used in orphan messages. */
+const SECTION_LABELS: Record<keyof PlaythroughSnapshot, string> = {
+  playthrough: 'Current position',
+  questProgress: 'Quest progress',
+  insightProgress: 'Insight progress',
+  itemState: 'Item state',
+  personProgress: 'Person progress',
+  pathProgress: 'Path progress',
+  entityDiscovery: 'Discovery',
+  threads: 'Thread',
+  mapMarkers: 'Map marker',
+};
+
+/**
+ * Returns whether any row of a playthrough archive holds encrypted text.
+ *
+ * @param archive - A validated playthrough archive.
+ * @returns True when some field value is encrypted text.
+ */
+function containsEncryptedText(archive: PlaythroughArchive): boolean {
+  const rows: object[] = [
+    archive.playthrough,
+    ...archive.questProgress,
+    ...archive.insightProgress,
+    ...archive.itemState,
+    ...archive.personProgress,
+    ...archive.pathProgress,
+    ...archive.entityDiscovery,
+    ...archive.threads,
+    ...archive.mapMarkers,
+  ];
+  return rows.some((row) => Object.values(row).some(isEncryptedText));
+}
+
+/**
+ * Where an imported playthrough is written.
+ * - `create`: a new playthrough is created (optionally with a custom name).
+ * - `overwrite`: the progress of an existing playthrough of the game is replaced.
+ */
+export type ImportPlaythroughArchiveTarget =
+  | { mode: 'create'; name?: string }
+  | { mode: 'overwrite'; playthroughId: PlaythroughId };
+
+/**
+ * Result of importing a playthrough archive.
+ *
+ * @property playthrough - The written playthrough, or null when the import was rejected
+ * @property issues - Blocking issues when rejected; otherwise the orphaned rows that were skipped
+ */
+export interface ImportPlaythroughArchiveResult {
+  /** The written playthrough, or null when the import was rejected. */
+  playthrough: Playthrough | null;
+  /** Blocking issues when rejected; otherwise the orphaned rows that were skipped. */
+  issues: ArchiveValidationIssue[];
+}
+
+/**
+ * Imports a playthrough archive onto a game. Progress rows are matched to the
+ * game's entities by ID; rows whose entity no longer exists are skipped and
+ * reported as `orphanedRow` issues. All remaining rows are written in one
+ * transaction. Archives from a game with a different encryption key are
+ * rejected, since their encrypted notes could not be read.
+ *
+ * @param archive - Parsed archive value (untrusted).
+ * @param gameId - Game to import the playthrough into.
+ * @param target - Create a new playthrough or overwrite an existing one.
+ * @returns The written playthrough and any issues.
+ */
+export async function importPlaythroughArchive(
+  archive: PlaythroughArchive,
+  gameId: GameId,
+  target: ImportPlaythroughArchiveTarget
+): Promise<ImportPlaythroughArchiveResult> {
+  const issues = validatePlaythroughArchive(archive);
+  if (issues.length > 0) {
+    return { playthrough: null, issues };
+  }
+
+  const game = await db.games.get(gameId);
+  if (!game) {
+    throw new Error('Game not found.');
+  }
+  // Archives without a recorded salt are older; reject only encrypted text
+  // going into a game without encryption.
+  const encryptionMismatch =
+    archive.encryptionSalt !== undefined
+      ? (archive.encryptionSalt ?? undefined) !== game.encryption?.salt
+      : !game.encryption && containsEncryptedText(archive);
+  if (encryptionMismatch) {
+    return {
+      playthrough: null,
+      issues: [
+        {
+          kind: 'encryption',
+          message:
+            "This playthrough comes from a game with different encryption; its notes can't be read in this game.",
+        },
+      ],
+    };
+  }
+
+  let destination: Playthrough;
+  if (target.mode === 'overwrite') {
+    const existing = await db.playthroughs.get(target.playthroughId);
+    if (!existing || existing.gameId !== gameId) {
+      return {
+        playthrough: null,
+        issues: [
+          {
+            kind: 'structure',
+            message: 'The playthrough to overwrite was not found in this game.',
+          },
+        ],
+      };
+    }
+    destination = existing;
+  } else {
+    const now = new Date().toISOString();
+    destination = {
+      id: generateId() as PlaythroughId,
+      gameId,
+      name: target.name?.trim() || archive.playthrough.name,
+      currentPositionPlaceId: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+
+  const { snapshot, orphans } = await prunePlaythroughSnapshot(archive, gameId);
+  const playthrough = await writePlaythroughSnapshot(snapshot, destination);
+
+  return {
+    playthrough,
+    issues: orphans.map((orphan) => ({
+      kind: 'orphanedRow',
+      message: `${SECTION_LABELS[orphan.section]} skipped: entity ${orphan.missingId} no longer exists.`,
+      rowId: orphan.rowId,
+      missingId: orphan.missingId,
+    })),
+  };
+}
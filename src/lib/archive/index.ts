@@ -0,0 +1,31 @@
+export type {
+  ArchiveValidationIssue,
+  ArchiveValidationIssueKind,
+} from './ArchiveValidationIssue';
+export type { ExportGameArchiveOptions } from './exportGameArchive';
+export type {
+  ImportGameArchiveOptions,
+  ImportGameArchiveResult,
+} from './importGameArchive';
+export type {
+  ImportPlaythroughArchiveResult,
+  ImportPlaythroughArchiveTarget,
+} from './importPlaythroughArchive';
+export { duplicateGame } from './duplicateGame';
+export { exportGameArchive } from './exportGameArchive';
+export { exportPlaythroughArchive } from './exportPlaythroughArchive';
+export {
+  GAME_SHARE_LINK_KEY,
+  MAX_GAME_SHARE_LINK_PAYLOAD_LENGTH,
+  createGameShareLink,
+  decodeGameArchiveFromLink,
+  encodeGameArchiveForLink,
+  readGameShareLinkPayload,
+} from './gameShareLink';
+export { importGameArchive } from './importGameArchive';
+export { importPlaythroughArchive } from './importPlaythroughArchive';
+export { parseArchive } from './parseArchive';
+export { remapGameArchiveIds } from './remapGameArchiveIds';
+export { serializeArchive } from './serializeArchive';
+export { validateGameArchive } from './validateGameArchive';
+export { validatePlaythroughArchive } from './validatePlaythroughArchive';
@@ -0,0 +1,16 @@
+/**
+ * Parses archive file contents as JSON. The result is untrusted and must be
+ * passed through the matching validator (validateGameArchive or
+ * validatePlaythroughArchive) before use.
+ *
+ * @param text - Raw file contents.
+ * @returns The parsed archive value.
+ * @throws Error when the contents are not valid JSON.
+ */
+export function parseArchive<T>(text: string): T {
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    throw new Error('File is not valid JSON.');
+  }
+}
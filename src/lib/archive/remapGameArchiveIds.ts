@@ -0,0 +1,111 @@
+import { EntityType } from '../../types/EntityType';
+import type { GameArchive } from '../../types/GameArchive';
+import { generateEntityId, generateId } from '../../utils/generateId';
+
+/**
+ * Returns a copy of a validated game archive with fresh IDs for the game,
+ * every entity, thread, map marker, and map image, rewriting every reference
+ * to match. The copy can be written alongside the original game without
+ * collisions. Entity IDs keep their type prefix (see generateEntityId).
+ *
+ * @param archive - A game archive that passed validateGameArchive.
+ * @returns The remapped archive and the old-to-new ID lookup.
+ */
+export function remapGameArchiveIds(archive: GameArchive): {
+  archive: GameArchive;
+  idMap: Map<string, string>;
+} {
+  const idMap = new Map<string, string>();
+  const assign = (rows: { id: string }[], entityType: EntityType) => {
+    for (const row of rows) {
+      idMap.set(row.id, generateEntityId(entityType));
+    }
+  };
+
+  const newGameId = generateId();
+  assign(archive.quests, EntityType.QUEST);
+  assign(archive.insights, EntityType.INSIGHT);
+  assign(archive.items, EntityType.ITEM);
+  assign(archive.persons, EntityType.PERSON);
+  assign(archive.places, EntityType.PLACE);
+  assign(archive.paths, EntityType.PATH);
+  assign(archive.maps, EntityType.MAP);
+  assign(archive.threads, EntityType.THREAD);
+  for (const row of archive.mapMarkers) idMap.set(row.id, generateId());
+  for (const row of archive.mapImages) idMap.set(row.id, generateId());
+
+  const remap = (id: string): string => idMap.get(id) ?? id;
+  const remapOptional = (id: string | undefined): string | undefined =>
+    id ? remap(id) : id;
+
+  return {
+    idMap,
+    archive: {
+      ...archive,
+      game: { ...archive.game, id: newGameId },
+      quests: archive.quests.map((q) => ({
+        ...q,
+        id: remap(q.id),
+        gameId: newGameId,
+        giver: q.giver ? remap(q.giver) : q.giver,
+        // Hand-edited archives may omit objectives.
+        objectives: (q.objectives ?? []).map((o) => ({
+          ...o,
+          entityId: remapOptional(o.entityId),
+        })),
+      })),
+      insights: archive.insights.map((i) => ({
+        ...i,
+        id: remap(i.id),
+        gameId: newGameId,
+      })),
+      items: archive.items.map((i) => ({
+        ...i,
+        id: remap(i.id),
+        gameId: newGameId,
+      })),
+      persons: archive.persons.map((p) => ({
+        ...p,
+        id: remap(p.id),
+        gameId: newGameId,
+      })),
+      places: archive.places.map((p) => ({
+        ...p,
+        id: remap(p.id),
+        gameId: newGameId,
+        map: remapOptional(p.map),
+      })),
+      paths: archive.paths.map((p) => ({
+        ...p,
+        id: remap(p.id),
+        gameId: newGameId,
+      })),
+      maps: archive.maps.map((m) => ({
+        ...m,
+        id: remap(m.id),
+        gameId: newGameId,
+        topLevelPlaceId: remapOptional(m.topLevelPlaceId),
+        imageBlobId: remapOptional(m.imageBlobId),
+      })),
+      threads: archive.threads.map((t) => ({
+        ...t,
+        id: remap(t.id),
+        gameId: newGameId,
+        sourceId: remap(t.sourceId),
+        targetId: remap(t.targetId),
+      })),
+      mapMarkers: archive.mapMarkers.map((m) => ({
+        ...m,
+        id: remap(m.id),
+        gameId: newGameId,
+        mapId: remap(m.mapId),
+        entityId: remap(m.entityId),
+      })),
+      mapImages: archive.mapImages.map((i) => ({
+        ...i,
+        id: remap(i.id),
+        mapId: remap(i.mapId),
+      })),
+    },
+  };
+}
@@ -0,0 +1,14 @@
+import type { GameArchive } from '../../types/GameArchive';
+import type { PlaythroughArchive } from '../../types/PlaythroughArchive';
+
+/**
+ * Serializes a game or playthrough archive to a downloadable JSON blob.
+ *
+ * @param archive - The archive to serialize.
+ * @returns A Blob containing the archive as JSON.
+ */
+export function serializeArchive(
+  archive: GameArchive | PlaythroughArchive
+): Blob {
+  return new Blob([JSON.stringify(archive)], { type: 'application/json' });
+}
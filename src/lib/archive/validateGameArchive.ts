@@ -0,0 +1,236 @@
+import {
+  GAME_ARCHIVE_FORMAT,
+  GAME_ARCHIVE_VERSION,
+  type GameArchive,
+} from '../../types/GameArchive';
+import type { ArchiveValidationIssue } from './ArchiveValidationIssue';
+
+/** Array sections every game archive must contain. */
+const ARRAY_SECTIONS = [
+  'quests',
+  'insights',
+  'items',
+  'persons',
+  'places',
+  'paths',
+  'maps',
+  'threads',
+  'mapMarkers',
+  'mapImages',
+] as const;
+
+/**
+ * Validates an archive-shaped value before import: format marker, version,
+ * section shapes, game ownership of every row, and every ID reference
+ * (thread endpoints, quest givers and objectives, place maps, map top-level
+ * places and image blobs, marker maps and entities, image maps).
+ *
+ * @param archive - Parsed archive value (untrusted).
+ * @returns The list of issues found; empty when the archive can be imported.
+ */
+export function validateGameArchive(
+  archive: GameArchive
+): ArchiveValidationIssue[] {
+  const issues: ArchiveValidationIssue[] = [];
+
+  if (!archive || typeof archive !== 'object') {
+    return [{ kind: 'format', message: 'File is not a QuestLoom game.' }];
+  }
+  if (archive.format !== GAME_ARCHIVE_FORMAT) {
+    return [{ kind: 'format', message: 'File is not a QuestLoom game.' }];
+  }
+  if (
+    typeof archive.version !== 'number' ||
+    archive.version > GAME_ARCHIVE_VERSION
+  ) {
+    return [
+      {
+        kind: 'format',
+        message: `Unsupported game file version: ${String(archive.version)}.`,
+      },
+    ];
+  }
+  if (!archive.game || typeof archive.game.id !== 'string') {
+    issues.push({ kind: 'structure', message: 'Game record is missing.' });
+  }
+  for (const section of ARRAY_SECTIONS) {
+    if (!Array.isArray(archive[section])) {
+      issues.push({
+        kind: 'structure',
+        message: `Section "${section}" is missing or not a list.`,
+      });
+    }
+  }
+  if (issues.length > 0) {
+    return issues;
+  }
+
+  const gameId = archive.game.id;
+  const entityIds = new Set<string>();
+  const seenIds = new Set<string>();
+  let hasNonObjectRows = false;
+
+  const register = (rows: { id: string; gameId?: string }[], label: string) => {
+    for (const row of rows) {
+      if (!row || typeof row !== 'object') {
+        issues.push({
+          kind: 'structure',
+          message: `A ${label} is not an object.`,
+        });
+        hasNonObjectRows = true;
+        continue;
+      }
+      if (typeof row.id !== 'string' || row.id === '') {
+        issues.push({ kind: 'structure', message: `A ${label} has no ID.` });
+        continue;
+      }
+      if (seenIds.has(row.id)) {
+        issues.push({
+          kind: 'structure',
+          message: `Duplicate ID in ${label} rows.`,
+          rowId: row.id,
+        });
+      }
+      seenIds.add(row.id);
+      if (row.gameId !== undefined && row.gameId !== gameId) {
+        issues.push({
+          kind: 'structure',
+          message: `A ${label} belongs to a different game.`,
+          rowId: row.id,
+        });
+      }
+    }
+  };
+
+  register(archive.quests, 'quest');
+  register(archive.insights, 'insight');
+  register(archive.items, 'item');
+  register(archive.persons, 'person');
+  register(archive.places, 'place');
+  register(archive.paths, 'path');
+  register(archive.maps, 'map');
+  register(archive.threads, 'thread');
+  register(archive.mapMarkers, 'map marker');
+  register(archive.mapImages, 'map image');
+
+  // The reference checks below read row fields; stop before a non-object row.
+  if (hasNonObjectRows) {
+    return issues;
+  }
+
+  for (const rows of [
+    archive.quests,
+    archive.insights,
+    archive.items,
+    archive.persons,
+    archive.places,
+    archive.paths,
+    archive.maps,
+    archive.threads,
+  ]) {
+    for (const row of rows) {
+      if (row?.id) entityIds.add(row.id);
+    }
+  }
+  const personIds = new Set(archive.persons.map((p) => p.id));
+  const placeIds = new Set(archive.places.map((p) => p.id));
+  const mapIds = new Set(archive.maps.map((m) => m.id));
+  const imageIds = new Set(archive.mapImages.map((i) => i.id));
+
+  const missing = (rowId: string, missingId: string, what: string) => {
+    issues.push({
+      kind: 'missingReference',
+      message: `${what} references missing ID ${missingId}.`,
+      rowId,
+      missingId,
+    });
+  };
+
+  for (const quest of archive.quests) {
+    if (quest.giver && !personIds.has(quest.giver)) {
+      missing(quest.id, quest.giver, `Quest "${quest.title}" giver`);
+    }
+    if (
+      quest.objectives != null &&
+      (!Array.isArray(quest.objectives) ||
+        quest.objectives.some((o) => !o || typeof o !== 'object'))
+    ) {
+      issues.push({
+        kind: 'structure',
+        message: `Quest "${quest.title}" has invalid objectives.`,
+        rowId: quest.id,
+      });
+      continue;
+    }
+    for (const objective of quest.objectives ?? []) {
+      if (objective.entityId && !entityIds.has(objective.entityId)) {
+        missing(
+          quest.id,
+          objective.entityId,
+          `Quest "${quest.title}" objective "${objective.label}"`
+        );
+      }
+    }
+  }
+  for (const place of archive.places) {
+    if (place.map && !mapIds.has(place.map)) {
+      missing(place.id, place.map, `Place "${place.name}"`);
+    }
+  }
+  for (const map of archive.maps) {
+    if (map.topLevelPlaceId && !placeIds.has(map.topLevelPlaceId)) {
+      missing(map.id, map.topLevelPlaceId, `Map "${map.name}" top-level place`);
+    }
+    if (
+      map.imageSourceType === 'upload' &&
+      map.imageBlobId &&
+      !imageIds.has(map.imageBlobId)
+    ) {
+      missing(map.id, map.imageBlobId, `Map "${map.name}" image`);
+    }
+  }
+  for (const thread of archive.threads) {
+    if (thread.playthroughId != null) {
+      issues.push({
+        kind: 'structure',
+        message: 'A thread is scoped to a playthrough.',
+        rowId: thread.id,
+      });
+    }
+    if (!entityIds.has(thread.sourceId)) {
+      missing(thread.id, thread.sourceId, 'Thread source');
+    }
+    if (!entityIds.has(thread.targetId)) {
+      missing(thread.id, thread.targetId, 'Thread target');
+    }
+  }
+  for (const marker of archive.mapMarkers) {
+    if (marker.playthroughId != null) {
+      issues.push({
+        kind: 'structure',
+        message: 'A map marker is scoped to a playthrough.',
+        rowId: marker.id,
+      });
+    }
+    if (!mapIds.has(marker.mapId)) {
+      missing(marker.id, marker.mapId, 'Map marker map');
+    }
+    if (!entityIds.has(marker.entityId)) {
+      missing(marker.id, marker.entityId, 'Map marker entity');
+    }
+  }
+  for (const image of archive.mapImages) {
+    if (!mapIds.has(image.mapId)) {
+      missing(image.id, image.mapId, 'Map image');
+    }
+    if (typeof image.data !== 'string') {
+      issues.push({
+        kind: 'structure',
+        message: 'A map image has no data.',
+        rowId: image.id,
+      });
+    }
+  }
+
+  return issues;
+}
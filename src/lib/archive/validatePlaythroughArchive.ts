@@ -0,0 +1,68 @@
+import {
+  PLAYTHROUGH_ARCHIVE_FORMAT,
+  PLAYTHROUGH_ARCHIVE_VERSION,
+  type PlaythroughArchive,
+} from '../../types/PlaythroughArchive';
+import type { ArchiveValidationIssue } from './ArchiveValidationIssue';
+
+/** Array sections every playthrough archive must contain. */
+const ARRAY_SECTIONS = [
+  'questProgress',
+  'insightProgress',
+  'itemState',
+  'personProgress',
+  'pathProgress',
+  'entityDiscovery',
+  'threads',
+  'mapMarkers',
+] as const;
+
+/**
+ * Validates the format, version, and section shapes of a playthrough archive.
+ * Entity references are checked against the target game at import time
+ * (see importPlaythroughArchive), not here.
+ *
+ * @param archive - Parsed archive value (untrusted).
+ * @returns The list of issues found; empty when the archive can be imported.
+ */
+export function validatePlaythroughArchive(
+  archive: PlaythroughArchive
+): ArchiveValidationIssue[] {
+  if (
+    !archive ||
+    typeof archive !== 'object' ||
+    archive.format !== PLAYTHROUGH_ARCHIVE_FORMAT
+  ) {
+    return [
+      { kind: 'format', message: 'File is not a QuestLoom playthrough.' },
+    ];
+  }
+  if (
+    typeof archive.version !== 'number' ||
+    archive.version > PLAYTHROUGH_ARCHIVE_VERSION
+  ) {
+    return [
+      {
+        kind: 'format',
+        message: `Unsupported playthrough file version: ${String(archive.version)}.`,
+      },
+    ];
+  }
+
+  const issues: ArchiveValidationIssue[] = [];
+  if (!archive.playthrough || typeof archive.playthrough.id !== 'string') {
+    issues.push({
+      kind: 'structure',
+      message: 'Playthrough record is missing.',
+    });
+  }
+  for (const section of ARRAY_SECTIONS) {
+    if (!Array.isArray(archive[section])) {
+      issues.push({
+        kind: 'structure',
+        message: `Section "${section}" is missing or not a list.`,
+      });
+    }
+  }
+  return issues;
+}
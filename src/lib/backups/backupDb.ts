@@ -0,0 +1,88 @@
+/**
+ * Backup database: a separate IndexedDB instance holding full snapshots of
+ * QuestLoomDB. Kept apart from the main database so purging or restoring the
+ * main data never touches the backups. Image blobs are stored once by content
+ * hash and referenced from the snapshots, so unchanged map images are not
+ * copied into every backup.
+ */
+
+import Dexie, { type Table } from 'dexie';
+
+/**
+ * Metadata of one stored backup (listed without loading its data).
+ */
+export interface DatabaseBackup {
+  /** Unique identifier. */
+  id: string;
+  /** When the snapshot was taken (ISO 8601). */
+  createdAt: string;
+  /** Approximate snapshot size in bytes (JSON rows plus blob sizes). */
+  sizeBytes: number;
+  /** QuestLoomDB schema version the snapshot was taken with. */
+  schemaVersion: number;
+  /** Total number of rows across all tables. */
+  rowCount: number;
+  /**
+   * Content hashes of the images the snapshot references. Absent on backups
+   * taken before images were stored by hash (their blobs are inline).
+   */
+  imageHashes?: string[];
+}
+
+/**
+ * Stored snapshot data of a backup, keyed by the same id as its metadata.
+ */
+export interface DatabaseBackupDataRow {
+  /** Same as DatabaseBackup.id. */
+  id: string;
+  /**
+   * Rows of every backed-up QuestLoomDB table, by table name. Blob fields hold
+   * a BackupImageRef (or the Blob itself in older backups).
+   */
+  tables: Record<string, unknown[]>;
+}
+
+/**
+ * Stands in for a Blob field in a snapshot row; the blob is in the images
+ * table under the hash.
+ */
+export interface BackupImageRef {
+  /** Content hash of the image (SHA-256, hex). */
+  imageHash: string;
+}
+
+/**
+ * Image blob shared by every backup that references its hash.
+ */
+export interface DatabaseBackupImage {
+  /** Content hash of the blob (SHA-256, hex). */
+  hash: string;
+  /** Image data. */
+  blob: Blob;
+}
+
+/**
+ * Backup database schema and typed tables.
+ * Use through the functions in lib/backups, not from components.
+ */
+export class QuestLoomBackupsDB extends Dexie {
+  backups!: Table<DatabaseBackup, string>;
+  backupData!: Table<DatabaseBackupDataRow, string>;
+  images!: Table<DatabaseBackupImage, string>;
+
+  constructor() {
+    super('QuestLoomBackups');
+    this.version(1).stores({
+      backups: 'id, createdAt',
+      backupData: 'id',
+    });
+    this.version(2).stores({
+      backups: 'id, createdAt, *imageHashes',
+      backupData: 'id',
+      images: 'hash',
+    });
+  }
+}
+
+/** Single backup database instance. */
+export const backupDb = new QuestLoomBackupsDB();
@@ -0,0 +1,146 @@
+import {
+  backupDb,
+  type BackupImageRef,
+  type DatabaseBackupImage,
+} from './backupDb';
+
+/**
+ * Hashes a blob's contents.
+ *
+ * @param blob - Blob to hash.
+ * @returns SHA-256 digest as lowercase hex.
+ */
+async function hashBlob(blob: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    await blob.arrayBuffer()
+  );
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, '0')
+  ).join('');
+}
+
+/**
+ * Returns whether a snapshot field value is a reference to a stored image.
+ *
+ * @param value - Field value.
+ * @returns True for a BackupImageRef.
+ */
+function isBackupImageRef(value: unknown): value is BackupImageRef {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !(value instanceof Blob) &&
+    Object.keys(value).length === 1 &&
+    typeof (value as BackupImageRef).imageHash === 'string'
+  );
+}
+
+/**
+ * Replaces the Blob fields of snapshot rows with references by content hash.
+ * Must run outside a Dexie transaction (hashing is not a Dexie operation).
+ *
+ * @param tables - Rows by table name, with Blob fields.
+ * @returns The rows with references, and the referenced images.
+ */
+export async function extractSnapshotImages(
+  tables: Record<string, unknown[]>
+): Promise<{
+  tables: Record<string, unknown[]>;
+  images: DatabaseBackupImage[];
+}> {
+  const images = new Map<string, Blob>();
+  const result: Record<string, unknown[]> = {};
+  for (const [name, rows] of Object.entries(tables)) {
+    result[name] = await Promise.all(
+      rows.map(async (row) => {
+        const fields = row as Record<string, unknown>;
+        if (!Object.values(fields).some((value) => value instanceof Blob)) {
+          return row;
+        }
+        const stored: Record<string, unknown> = { ...fields };
+        for (const [key, value] of Object.entries(fields)) {
+          if (value instanceof Blob) {
+            const hash = await hashBlob(value);
+            images.set(hash, value);
+            stored[key] = { imageHash: hash } satisfies BackupImageRef;
+          }
+        }
+        return stored;
+      })
+    );
+  }
+  return {
+    tables: result,
+    images: [...images].map(([hash, blob]) => ({ hash, blob })),
+  };
+}
+
+/**
+ * Replaces image references in stored snapshot rows with their blobs. Rows of
+ * older backups, which hold the blobs inline, are returned unchanged.
+ *
+ * @param tables - Stored rows by table name.
+ * @returns Rows with Blob fields.
+ * @throws Error when a referenced image is missing.
+ */
+export async function resolveSnapshotImages(
+  tables: Record<string, unknown[]>
+): Promise<Record<string, unknown[]>> {
+  const hashes = new Set<string>();
+  for (const rows of Object.values(tables)) {
+    for (const row of rows) {
+      for (const value of Object.values(row as Record<string, unknown>)) {
+        if (isBackupImageRef(value)) hashes.add(value.imageHash);
+      }
+    }
+  }
+  if (hashes.size === 0) return tables;
+
+  const blobs = new Map<string, Blob>();
+  const images = await backupDb.images.bulkGet([...hashes]);
+  for (const image of images) {
+    if (image) blobs.set(image.hash, image.blob);
+  }
+
+  const result: Record<string, unknown[]> = {};
+  for (const [name, rows] of Object.entries(tables)) {
+    result[name] = rows.map((row) => {
+      const fields = row as Record<string, unknown>;
+      if (!Object.values(fields).some(isBackupImageRef)) return row;
+      const resolved: Record<string, unknown> = { ...fields };
+      for (const [key, value] of Object.entries(fields)) {
+        if (isBackupImageRef(value)) {
+          const blob = blobs.get(value.imageHash);
+          if (!blob) {
+            throw new Error('Backup image not found.');
+          }
+          resolved[key] = blob;
+        }
+      }
+      return resolved;
+    });
+  }
+  return result;
+}
+
+/**
+ * Deletes the given images when no remaining backup references them. Call
+ * inside a read-write transaction over backups and images, after deleting the
+ * backups that referenced them.
+ *
+ * @param hashes - Hashes of images that may have become unreferenced.
+ */
+export async function deleteUnreferencedImages(
+  hashes: Iterable<string>
+): Promise<void> {
+  for (const hash of new Set(hashes)) {
+    const references = await backupDb.backups
+      .where('imageHashes')
+      .equals(hash)
+      .count();
+    if (references === 0) {
+      await backupDb.images.delete(hash);
+    }
+  }
+}
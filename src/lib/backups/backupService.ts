@@ -0,0 +1,102 @@
+import { subscribeToChanges } from '../changes';
+import { createBackup } from './createBackup';
+import { listBackups } from './listBackups';
+import { requestPersistentStorage } from './storage';
+
+/** How often the backup service checks for changes to back up (10 minutes). */
+export const BACKUP_INTERVAL_MS = 10 * 60 * 1000;
+
+/** Name of the Web Lock held by the one tab that takes backups. */
+const BACKUP_LOCK_NAME = 'questloom-backup';
+
+/**
+ * Takes a backup every intervalMs while the data has changed since the last
+ * one, and at start when the newest backup is older than the interval.
+ *
+ * @param intervalMs - Check interval.
+ * @returns A function that stops taking backups.
+ */
+function runBackups(intervalMs: number): () => void {
+  let isDirty = false;
+  let isRunning = false;
+  let isStopped = false;
+
+  // Only this tab takes backups, so changes relayed from other tabs count too.
+  const unsubscribe = subscribeToChanges(() => {
+    isDirty = true;
+  });
+
+  const backUpIfDirty = async () => {
+    if (!isDirty || isRunning || isStopped) return;
+    isRunning = true;
+    isDirty = false;
+    try {
+      await createBackup();
+    } catch {
+      // Retry on the next tick.
+      isDirty = true;
+    } finally {
+      isRunning = false;
+    }
+  };
+
+  void listBackups().then((backups) => {
+    const newest = backups[0];
+    if (
+      !newest ||
+      Date.now() - new Date(newest.createdAt).getTime() > intervalMs
+    ) {
+      isDirty = true;
+      void backUpIfDirty();
+    }
+  });
+  const timer = setInterval(() => void backUpIfDirty(), intervalMs);
+
+  return () => {
+    isStopped = true;
+    clearInterval(timer);
+    unsubscribe();
+  };
+}
+
+/**
+ * Starts the background backup service: requests persistent storage, then
+ * takes a backup every BACKUP_INTERVAL_MS while the data has changed since the
+ * last one. A backup is also due at start when the newest one is older than
+ * the interval (e.g. changes from a session closed before its next backup).
+ * Tabs share one database, so only the tab holding the backup Web Lock takes
+ * backups; when it closes, another open tab takes over.
+ *
+ * @param intervalMs - Check interval; defaults to BACKUP_INTERVAL_MS.
+ * @returns A function that stops the service.
+ */
+export function startBackupService(
+  intervalMs: number = BACKUP_INTERVAL_MS
+): () => void {
+  const controller = new AbortController();
+  let release = () => {};
+  const stopped = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+  const run = async () => {
+    const stop = runBackups(intervalMs);
+    await stopped;
+    stop();
+  };
+
+  void requestPersistentStorage();
+  if (typeof navigator === 'undefined' || !navigator.locks) {
+    void run();
+  } else {
+    navigator.locks
+      .request(BACKUP_LOCK_NAME, { signal: controller.signal }, run)
+      .catch(() => {
+        // Stopped before this tab got the lock.
+      });
+  }
+
+  return () => {
+    controller.abort();
+    release();
+  };
+}
@@ -0,0 +1,99 @@
+import { generateId } from '../../utils/generateId';
+import { db } from '../db';
+import { isSyncedTable } from '../sync/syncJournalMiddleware';
+import { backupDb, type DatabaseBackup } from './backupDb';
+import {
+  deleteUnreferencedImages,
+  extractSnapshotImages,
+} from './backupImages';
+
+/** Number of backups kept; older ones are deleted when a new one is taken. */
+export const BACKUP_RETENTION = 10;
+
+/**
+ * Estimates the stored size of a snapshot: the JSON length of its rows plus
+ * the size of any Blob fields (which JSON would drop).
+ *
+ * @param tables - Rows by table name.
+ * @returns Approximate size in bytes.
+ */
+function estimateSnapshotSize(tables: Record<string, unknown[]>): number {
+  let size = 0;
+  for (const rows of Object.values(tables)) {
+    for (const row of rows) {
+      size += JSON.stringify(row).length;
+      for (const value of Object.values(row as Record<string, unknown>)) {
+        if (value instanceof Blob) size += value.size;
+      }
+    }
+  }
+  return size;
+}
+
+/**
+ * Reads every QuestLoomDB app data table in one read transaction. Sync
+ * bookkeeping (journal, conflicts, server state) describes this device's sync
+ * progress rather than the data, so it is not backed up.
+ *
+ * @returns Rows by table name.
+ */
+export async function readDatabaseSnapshot(): Promise<
+  Record<string, unknown[]>
+> {
+  const dataTables = db.tables.filter((table) => isSyncedTable(table.name));
+  return db.transaction('r', dataTables, async () => {
+    const tables: Record<string, unknown[]> = {};
+    for (const table of dataTables) {
+      tables[table.name] = await table.toArray();
+    }
+    return tables;
+  });
+}
+
+/**
+ * Takes a full snapshot of QuestLoomDB into the backup database, then deletes
+ * the oldest backups beyond BACKUP_RETENTION. Images are stored once by
+ * content hash; the snapshot only references them.
+ *
+ * @returns Metadata of the new backup.
+ */
+export async function createBackup(): Promise<DatabaseBackup> {
+  const snapshot = await readDatabaseSnapshot();
+  const { tables, images } = await extractSnapshotImages(snapshot);
+  const backup: DatabaseBackup = {
+    id: generateId(),
+    createdAt: new Date().toISOString(),
+    sizeBytes: estimateSnapshotSize(snapshot),
+    schemaVersion: db.verno,
+    rowCount: Object.values(tables).reduce((n, rows) => n + rows.length, 0),
+    imageHashes: images.map((image) => image.hash),
+  };
+
+  await backupDb.transaction(
+    'rw',
+    [backupDb.backups, backupDb.backupData, backupDb.images],
+    async () => {
+      const storedHashes = new Set(
+        await backupDb.images
+          .where('hash')
+          .anyOf(images.map((image) => image.hash))
+          .primaryKeys()
+      );
+      await backupDb.images.bulkAdd(
+        images.filter((image) => !storedHashes.has(image.hash))
+      );
+      await backupDb.backups.add(backup);
+      await backupDb.backupData.add({ id: backup.id, tables });
+      const stale = await backupDb.backups
+        .orderBy('createdAt')
+        .reverse()
+        .offset(BACKUP_RETENTION)
+        .toArray();
+      const staleIds = stale.map((b) => b.id);
+      await backupDb.backups.bulkDelete(staleIds);
+      await backupDb.backupData.bulkDelete(staleIds);
+      await deleteUnreferencedImages(stale.flatMap((b) => b.imageHashes ?? []));
+    }
+  );
+  return backup;
+}
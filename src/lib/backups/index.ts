@@ -0,0 +1,8 @@
+export type { DatabaseBackup } from './backupDb';
+export type { StorageStatus } from './storage';
+export { BACKUP_INTERVAL_MS, startBackupService } from './backupService';
+export { BACKUP_RETENTION, createBackup } from './createBackup';
+export { deleteBackup, listBackups } from './listBackups';
+export { restoreBackup } from './restoreBackup';
+export { BACKUP_FILE_EXTENSION, serializeBackup } from './serializeBackup';
+export { getStorageStatus, requestPersistentStorage } from './storage';
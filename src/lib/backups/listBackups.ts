@@ -0,0 +1,29 @@
+import { backupDb, type DatabaseBackup } from './backupDb';
+import { deleteUnreferencedImages } from './backupImages';
+
+/**
+ * Lists stored backups, newest first (metadata only).
+ *
+ * @returns Backup metadata.
+ */
+export async function listBackups(): Promise<DatabaseBackup[]> {
+  return backupDb.backups.orderBy('createdAt').reverse().toArray();
+}
+
+/**
+ * Deletes a backup and its data, and any images only it referenced.
+ *
+ * @param backupId - Backup to delete.
+ */
+export async function deleteBackup(backupId: string): Promise<void> {
+  await backupDb.transaction(
+    'rw',
+    [backupDb.backups, backupDb.backupData, backupDb.images],
+    async () => {
+      const backup = await backupDb.backups.get(backupId);
+      await backupDb.backups.delete(backupId);
+      await backupDb.backupData.delete(backupId);
+      await deleteUnreferencedImages(backup?.imageHashes ?? []);
+    }
+  );
+}
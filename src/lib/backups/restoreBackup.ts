@@ -0,0 +1,46 @@
+import { setCurrentTransactionOrigin } from '../changes';
+import { db } from '../db';
+import { isSyncedTable } from '../sync/syncJournalMiddleware';
+import { backupDb, type DatabaseBackup } from './backupDb';
+import { resolveSnapshotImages } from './backupImages';
+import { createBackup } from './createBackup';
+
+/**
+ * Replaces all QuestLoomDB data with a backup. The current data is backed up
+ * first so the restore can itself be undone from the Backups screen. Tables
+ * missing from the backup (added by a later schema version) are left empty;
+ * sync bookkeeping is kept, and the restored rows are journaled as changes.
+ * The restore is written in one transaction tagged as a system change, so it
+ * is not recorded for undo.
+ *
+ * @param backupId - Backup to restore.
+ * @returns Metadata of the safety backup taken before restoring.
+ * @throws Error when the backup does not exist or was taken with a newer schema.
+ */
+export async function restoreBackup(backupId: string): Promise<DatabaseBackup> {
+  const [backup, data] = await Promise.all([
+    backupDb.backups.get(backupId),
+    backupDb.backupData.get(backupId),
+  ]);
+  if (!backup || !data) {
+    throw new Error('Backup not found.');
+  }
+  if (backup.schemaVersion > db.verno) {
+    throw new Error('Backup was made by a newer version of QuestLoom.');
+  }
+
+  const tables = await resolveSnapshotImages(data.tables);
+  const safetyBackup = await createBackup();
+  await db.transaction('rw', db.tables, async () => {
+    setCurrentTransactionOrigin('system');
+    for (const table of db.tables) {
+      if (!isSyncedTable(table.name)) continue;
+      await table.clear();
+      const rows = tables[table.name];
+      if (rows && rows.length > 0) {
+        await table.bulkAdd(rows as never[]);
+      }
+    }
+  });
+  return safetyBackup;
+}
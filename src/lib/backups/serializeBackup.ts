@@ -0,0 +1,56 @@
+import { blobToBase64 } from '../../utils/blobToBase64';
+import { backupDb } from './backupDb';
+import { resolveSnapshotImages } from './backupImages';
+
+/** Format identifier written into downloaded backup files. */
+export const BACKUP_FILE_FORMAT = 'questloom-backup';
+
+/** File extension for downloaded backups. */
+export const BACKUP_FILE_EXTENSION = '.questloom-backup.json';
+
+/**
+ * Serializes a stored backup to a downloadable JSON file. Blob fields (map
+ * images) are embedded as base64 with their MIME type.
+ *
+ * @param backupId - Backup to serialize.
+ * @returns JSON file contents.
+ * @throws Error when the backup does not exist.
+ */
+export async function serializeBackup(backupId: string): Promise<Blob> {
+  const [backup, data] = await Promise.all([
+    backupDb.backups.get(backupId),
+    backupDb.backupData.get(backupId),
+  ]);
+  if (!backup || !data) {
+    throw new Error('Backup not found.');
+  }
+
+  const tables: Record<string, unknown[]> = {};
+  const resolved = await resolveSnapshotImages(data.tables);
+  for (const [name, rows] of Object.entries(resolved)) {
+    tables[name] = await Promise.all(
+      rows.map(async (row) => {
+        const encoded: Record<string, unknown> = {
+          ...(row as Record<string, unknown>),
+        };
+        for (const [key, value] of Object.entries(encoded)) {
+          if (value instanceof Blob) {
+            encoded[key] = {
+              base64: await blobToBase64(value),
+              mimeType: value.type,
+            };
+          }
+        }
+        return encoded;
+      })
+    );
+  }
+
+  const file = {
+    format: BACKUP_FILE_FORMAT,
+    createdAt: backup.createdAt,
+    schemaVersion: backup.schemaVersion,
+    tables,
+  };
+  return new Blob([JSON.stringify(file)], { type: 'application/json' });
+}
@@ -0,0 +1,47 @@
+/**
+ * Browser storage status: whether storage is persistent (exempt from eviction)
+ * and how much of the origin quota is used. Fields are null when the browser
+ * does not expose them.
+ */
+export interface StorageStatus {
+  /** True when the browser granted persistent storage. */
+  persisted: boolean | null;
+  /** Bytes used by this origin. */
+  usage: number | null;
+  /** Bytes available to this origin. */
+  quota: number | null;
+}
+
+/**
+ * Asks the browser to keep this origin's storage from being evicted under
+ * storage pressure. Browsers may grant or deny silently.
+ *
+ * @returns True when storage is persistent, false when denied, null when unsupported.
+ */
+export async function requestPersistentStorage(): Promise<boolean | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.persist) {
+    return null;
+  }
+  if (await navigator.storage.persisted()) return true;
+  return navigator.storage.persist();
+}
+
+/**
+ * Reads the current persistence flag and quota usage.
+ *
+ * @returns Storage status; unsupported fields are null.
+ */
+export async function getStorageStatus(): Promise<StorageStatus> {
+  if (typeof navigator === 'undefined' || !navigator.storage) {
+    return { persisted: null, usage: null, quota: null };
+  }
+  const [persisted, estimate] = await Promise.all([
+    navigator.storage.persisted ? navigator.storage.persisted() : null,
+    navigator.storage.estimate ? navigator.storage.estimate() : null,
+  ]);
+  return {
+    persisted,
+    usage: estimate?.usage ?? null,
+    quota: estimate?.quota ?? null,
+  };
+}
@@ -0,0 +1,19 @@
+/**
+ * One row-level change captured from the local database.
+ * A create has no `before`; a delete has no `after`; an update has both.
+ *
+ * @property table - Name of the database table
+ * @property key - Primary key of the changed row
+ * @property before - Row contents before the change, if it existed
+ * @property after - Row contents after the change, if it still exists
+ */
+export interface ChangeRecord {
+  /** Name of the database table. */
+  table: string;
+  /** Primary key of the changed row. */
+  key: string;
+  /** Row contents before the change, if it existed. */
+  before?: object;
+  /** Row contents after the change, if it still exists. */
+  after?: object;
+}
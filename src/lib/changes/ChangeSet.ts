@@ -0,0 +1,30 @@
+import type { ChangeRecord } from './ChangeRecord';
+
+/**
+ * Where a committed change set came from.
+ * - `local`: a user edit through the repositories (recorded for undo).
+ * - `history`: an undo or redo replaying a previous change set.
+ * - `system`: maintenance such as integrity repair or purge (not undoable).
+ * - `remote`: committed by another tab or a non-local data source (server,
+ *   in-memory store) and relayed here (not undoable).
+ * - `sync`: rows received from a sync server (not undoable).
+ */
+export type ChangeOrigin = 'local' | 'history' | 'system' | 'remote' | 'sync';
+
+/**
+ * All row changes committed by one database transaction, in the order they
+ * were made. Composite operations (e.g. a delete with its cascades) therefore
+ * produce a single change set.
+ *
+ * @property changes - Row changes in write order
+ * @property origin - Where the change set came from
+ * @property committedAt - Commit timestamp (ISO 8601)
+ */
+export interface ChangeSet {
+  /** Row changes in write order. */
+  changes: ChangeRecord[];
+  /** Where the change set came from. */
+  origin: ChangeOrigin;
+  /** Commit timestamp (ISO 8601). */
+  committedAt: string;
+}
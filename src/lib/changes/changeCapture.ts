@@ -0,0 +1,183 @@
+/**
+ * Captures every row change made to the local database and publishes it per
+ * committed transaction. Changes are collected with Dexie table hooks and
+ * grouped by the underlying IndexedDB transaction, so nested repository calls
+ * inside one transactionRunner.run produce one change set.
+ */
+
+import Dexie, { type Transaction } from 'dexie';
+import { db } from '../db';
+import type { ChangeRecord } from './ChangeRecord';
+import type { ChangeOrigin, ChangeSet } from './ChangeSet';
+
+/** Listener invoked with each committed change set. */
+export type ChangeListener = (changeSet: ChangeSet) => void;
+
+/** Change set being collected for a transaction that has not committed yet. */
+interface PendingChangeSet {
+  changes: ChangeRecord[];
+  origin: ChangeOrigin;
+}
+
+const listeners = new Set<ChangeListener>();
+const pendingByTransaction = new WeakMap<IDBTransaction, PendingChangeSet>();
+/** Settles when the transaction commits (after notifying) or aborts. */
+const settlingTransactions = new Set<Promise<void>>();
+let isInstalled = false;
+
+/**
+ * Returns the pending change set for a transaction, creating it (and hooking
+ * its completion) on first use.
+ *
+ * @param idbtrans - The underlying IndexedDB transaction.
+ * @returns The pending change set.
+ */
+function getPending(idbtrans: IDBTransaction): PendingChangeSet {
+  let pending = pendingByTransaction.get(idbtrans);
+  if (pending) return pending;
+  const created: PendingChangeSet = { changes: [], origin: 'local' };
+  pendingByTransaction.set(idbtrans, created);
+  const settling = new Promise<void>((resolve) => {
+    idbtrans.addEventListener('complete', () => {
+      pendingByTransaction.delete(idbtrans);
+      settlingTransactions.delete(settling);
+      try {
+        if (created.changes.length > 0) {
+          notify({
+            changes: created.changes,
+            origin: created.origin,
+            committedAt: new Date().toISOString(),
+          });
+        }
+      } finally {
+        resolve();
+      }
+    });
+    idbtrans.addEventListener('abort', () => {
+      pendingByTransaction.delete(idbtrans);
+      settlingTransactions.delete(settling);
+      resolve();
+    });
+  });
+  settlingTransactions.add(settling);
+  pending = created;
+  return pending;
+}
+
+/**
+ * Delivers a change set to every listener.
+ *
+ * @param changeSet - The committed change set.
+ */
+function notify(changeSet: ChangeSet): void {
+  for (const listener of listeners) {
+    listener(changeSet);
+  }
+}
+
+/**
+ * Appends a change to the pending change set of a transaction.
+ *
+ * @param trans - Dexie transaction the change was made in.
+ * @param change - The captured change.
+ */
+function record(trans: Transaction, change: ChangeRecord): void {
+  getPending(trans.idbtrans).changes.push(change);
+}
+
+/**
+ * Copies a row so later mutations by callers do not alter the captured value.
+ *
+ * @param row - Row to copy.
+ * @returns A deep copy (Blobs are preserved).
+ */
+function snapshotRow(row: object): object {
+  return structuredClone(row);
+}
+
+/**
+ * Installs creating/updating/deleting hooks on every table (once).
+ */
+function install(): void {
+  if (isInstalled) return;
+  isInstalled = true;
+  for (const table of db.tables) {
+    const tableName = table.name;
+    table.hook('creating', function (_primKey, obj, trans) {
+      const after = snapshotRow(obj);
+      this.onsuccess = (key) => {
+        record(trans, { table: tableName, key: String(key), after });
+      };
+    });
+    table.hook('updating', function (_modifications, primKey, obj, trans) {
+      const before = snapshotRow(obj);
+      this.onsuccess = (updated) => {
+        record(trans, {
+          table: tableName,
+          key: String(primKey),
+          before,
+          after: snapshotRow(updated),
+        });
+      };
+    });
+    table.hook('deleting', function (primKey, obj, trans) {
+      const before = snapshotRow(obj);
+      this.onsuccess = () => {
+        record(trans, { table: tableName, key: String(primKey), before });
+      };
+    });
+  }
+}
+
+/**
+ * Subscribes to committed change sets. Starts capturing on first subscription.
+ *
+ * @param listener - Called after each transaction that changed rows commits.
+ * @returns A function that removes the listener.
+ */
+export function subscribeToChanges(listener: ChangeListener): () => void {
+  install();
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Waits until every transaction that has captured changes so far has
+ * committed (and its change set has been delivered) or aborted. A write's
+ * promise can resolve before its transaction's complete event fires, so
+ * callers that need the change sets of writes they awaited wait for this.
+ */
+export async function waitForCapturedTransactions(): Promise<void> {
+  await Promise.all(settlingTransactions);
+}
+
+/**
+ * Delivers a change set that was not captured from this tab's database writes
+ * (another tab, a server, or a non-Dexie data source) to listeners, so live
+ * views refresh. The change set is reported with the `remote` origin and is
+ * not recorded for undo.
+ *
+ * @param changeSet - Change set committed elsewhere.
+ */
+export function publishRemoteChangeSet(changeSet: ChangeSet): void {
+  notify({ ...changeSet, origin: 'remote' });
+}
+
+/**
+ * Tags the currently running transaction with an origin so listeners can tell
+ * user edits from replays and maintenance. Call inside transactionRunner.run.
+ *
+ * @param origin - Origin to report for the transaction's change set.
+ * @throws Error when called outside a transaction.
+ */
+export function setCurrentTransactionOrigin(origin: ChangeOrigin): void {
+  const trans = Dexie.currentTransaction;
+  if (!trans) {
+    throw new Error(
+      'setCurrentTransactionOrigin must run inside a transaction'
+    );
+  }
+  getPending(trans.idbtrans).origin = origin;
+}
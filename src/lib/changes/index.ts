@@ -0,0 +1,9 @@
+export type { ChangeRecord } from './ChangeRecord';
+export type { ChangeOrigin, ChangeSet } from './ChangeSet';
+export {
+  publishRemoteChangeSet,
+  setCurrentTransactionOrigin,
+  subscribeToChanges,
+  waitForCapturedTransactions,
+  type ChangeListener,
+} from './changeCapture';
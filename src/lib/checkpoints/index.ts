@@ -0,0 +1,3 @@
+export type { RestoreCheckpointResult } from './restoreCheckpoint';
+export { restoreCheckpoint } from './restoreCheckpoint';
+export { saveCheckpoint } from './saveCheckpoint';
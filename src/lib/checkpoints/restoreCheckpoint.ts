@@ -0,0 +1,58 @@
+import type { Playthrough } from '../../types/Playthrough';
+import {
+  prunePlaythroughSnapshot,
+  writePlaythroughSnapshot,
+  type OrphanedSnapshotRow,
+} from '../playthroughState';
+import {
+  playthroughCheckpointRepository,
+  playthroughRepository,
+  transactionRunner,
+} from '../repositories';
+
+/**
+ * Result of restoring a checkpoint.
+ *
+ * @property playthrough - The restored playthrough row
+ * @property skipped - Checkpoint rows dropped because their entity was deleted since saving
+ */
+export interface RestoreCheckpointResult {
+  /** The restored playthrough row. */
+  playthrough: Playthrough;
+  /** Checkpoint rows dropped because their entity was deleted since saving. */
+  skipped: OrphanedSnapshotRow[];
+}
+
+/**
+ * Replaces the current state of a checkpoint's playthrough with the state saved
+ * in the checkpoint, in one transaction. Rows for entities deleted since the
+ * checkpoint was saved are skipped. The playthrough keeps its name, and the
+ * checkpoint itself is kept so it can be restored again.
+ *
+ * @param checkpointId - ID of the checkpoint to restore.
+ * @returns The restored playthrough and any skipped rows.
+ * @throws Error when the checkpoint or its playthrough does not exist.
+ */
+export async function restoreCheckpoint(
+  checkpointId: string
+): Promise<RestoreCheckpointResult> {
+  return transactionRunner.run(async () => {
+    const checkpoint =
+      await playthroughCheckpointRepository.getById(checkpointId);
+    if (!checkpoint) {
+      throw new Error('Checkpoint not found.');
+    }
+    const target = await playthroughRepository.getById(
+      checkpoint.playthroughId
+    );
+    if (!target) {
+      throw new Error('Playthrough not found.');
+    }
+    const { snapshot, orphans } = await prunePlaythroughSnapshot(
+      checkpoint.snapshot,
+      target.gameId
+    );
+    const playthrough = await writePlaythroughSnapshot(snapshot, target);
+    return { playthrough, skipped: orphans };
+  });
+}
@@ -0,0 +1,26 @@
+import type { PlaythroughId } from '../../types/ids';
+import type { PlaythroughCheckpoint } from '../../types/PlaythroughCheckpoint';
+import { capturePlaythroughSnapshot } from '../playthroughState';
+import { playthroughCheckpointRepository } from '../repositories';
+
+/**
+ * Captures the full current state of a playthrough (progress, state,
+ * discovery, playthrough threads and markers, current position) and stores it
+ * as a named checkpoint.
+ *
+ * @param playthroughId - Playthrough to checkpoint.
+ * @param name - Checkpoint name; blank names fall back to the capture time.
+ * @returns The stored checkpoint.
+ * @throws Error when the playthrough does not exist.
+ */
+export async function saveCheckpoint(
+  playthroughId: PlaythroughId,
+  name: string
+): Promise<PlaythroughCheckpoint> {
+  const snapshot = await capturePlaythroughSnapshot(playthroughId);
+  return playthroughCheckpointRepository.create({
+    playthroughId,
+    name: name.trim() || new Date().toLocaleString(),
+    snapshot,
+  });
+}
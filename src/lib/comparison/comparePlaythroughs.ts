@@ -0,0 +1,205 @@
+import type { DiscoveryEntityType } from '../../types/DiscoveryEntityType';
+import { EntityType } from '../../types/EntityType';
+import type { PlaythroughId } from '../../types/ids';
+import {
+  entityDiscoveryRepository,
+  insightRepository,
+  itemRepository,
+  pathRepository,
+  personRepository,
+  questRepository,
+} from '../repositories';
+
+/**
+ * An entity whose status differs between the two compared playthroughs.
+ * A null side means that playthrough has no progress row for the entity.
+ */
+export interface StatusDifference {
+  /** Typed ID of the entity. */
+  entityId: string;
+  /** Entity type (quest, insight, item, person, or path). */
+  entityType: EntityType;
+  /** Status in the left playthrough, or null when unset. */
+  left: number | null;
+  /** Status in the right playthrough, or null when unset. */
+  right: number | null;
+}
+
+/**
+ * A person, place, or map whose discovery state differs between the two runs.
+ * A null side means that playthrough has no discovery row for the entity.
+ */
+export interface DiscoveryDifference {
+  /** Typed ID of the entity. */
+  entityId: string;
+  /** Discoverable entity type. */
+  entityType: DiscoveryEntityType;
+  /** Discovered flag in the left playthrough, or null when unset. */
+  left: boolean | null;
+  /** Discovered flag in the right playthrough, or null when unset. */
+  right: boolean | null;
+}
+
+/**
+ * A quest objective completed in exactly one of the two runs.
+ */
+export interface ObjectiveDifference {
+  /** Typed ID of the quest. */
+  questId: string;
+  /** 0-based index of the objective. */
+  objectiveIndex: number;
+  /** The playthrough in which the objective is completed. */
+  completedIn: 'left' | 'right';
+}
+
+/**
+ * Differences between two playthroughs of the same game.
+ */
+export interface PlaythroughComparison {
+  /** Entities whose status differs, grouped in entity type order. */
+  statusDifferences: StatusDifference[];
+  /** Entities whose discovery state differs. */
+  discoveryDifferences: DiscoveryDifference[];
+  /** Objectives completed in one run but not the other. */
+  objectiveDifferences: ObjectiveDifference[];
+}
+
+/**
+ * Collects status differences between two lists of progress rows.
+ *
+ * @param entityType - Entity type of the rows.
+ * @param left - Status by entity ID in the left playthrough.
+ * @param right - Status by entity ID in the right playthrough.
+ * @returns Entities whose status differs.
+ */
+function diffStatuses(
+  entityType: EntityType,
+  left: Map<string, number>,
+  right: Map<string, number>
+): StatusDifference[] {
+  const differences: StatusDifference[] = [];
+  for (const entityId of new Set([...left.keys(), ...right.keys()])) {
+    const l = left.get(entityId) ?? null;
+    const r = right.get(entityId) ?? null;
+    if (l !== r) {
+      differences.push({ entityId, entityType, left: l, right: r });
+    }
+  }
+  return differences;
+}
+
+/**
+ * Compares the playthrough-scoped state of two playthroughs of the same game:
+ * per-entity status (quests, insights, items, people, paths), discovery, and
+ * completed quest objectives. The Loom overlay takes each run's resolved
+ * entities from its playthrough evaluation instead.
+ *
+ * @param leftId - First playthrough.
+ * @param rightId - Second playthrough.
+ * @returns The differences between the two runs.
+ */
+export async function comparePlaythroughs(
+  leftId: PlaythroughId,
+  rightId: PlaythroughId
+): Promise<PlaythroughComparison> {
+  const load = (playthroughId: PlaythroughId) =>
+    Promise.all([
+      questRepository.getAllProgressForPlaythrough(playthroughId),
+      insightRepository.getAllProgressForPlaythrough(playthroughId),
+      itemRepository.getAllStateForPlaythrough(playthroughId),
+      personRepository.getAllProgressForPlaythrough(playthroughId),
+      pathRepository.getAllProgressForPlaythrough(playthroughId),
+      entityDiscoveryRepository.getAllForPlaythrough(playthroughId),
+    ]);
+  const [left, right] = await Promise.all([load(leftId), load(rightId)]);
+  const [lQuests, lInsights, lItems, lPersons, lPaths, lDiscovery] = left;
+  const [rQuests, rInsights, rItems, rPersons, rPaths, rDiscovery] = right;
+
+  const statusDifferences = [
+    ...diffStatuses(
+      EntityType.QUEST,
+      new Map(lQuests.map((r) => [r.questId, r.status])),
+      new Map(rQuests.map((r) => [r.questId, r.status]))
+    ),
+    ...diffStatuses(
+      EntityType.INSIGHT,
+      new Map(lInsights.map((r) => [r.insightId, r.status])),
+      new Map(rInsights.map((r) => [r.insightId, r.status]))
+    ),
+    ...diffStatuses(
+      EntityType.ITEM,
+      new Map(lItems.map((r) => [r.itemId, r.status])),
+      new Map(rItems.map((r) => [r.itemId, r.status]))
+    ),
+    ...diffStatuses(
+      EntityType.PERSON,
+      new Map(lPersons.map((r) => [r.personId, r.status])),
+      new Map(rPersons.map((r) => [r.personId, r.status]))
+    ),
+    ...diffStatuses(
+      EntityType.PATH,
+      new Map(lPaths.map((r) => [r.pathId, r.status])),
+      new Map(rPaths.map((r) => [r.pathId, r.status]))
+    ),
+  ];
+
+  const discoveryKey = (entityType: DiscoveryEntityType, entityId: string) =>
+    `${entityType}|${entityId}`;
+  const leftDiscovery = new Map(
+    lDiscovery.map((r) => [discoveryKey(r.entityType, r.entityId), r])
+  );
+  const rightDiscovery = new Map(
+    rDiscovery.map((r) => [discoveryKey(r.entityType, r.entityId), r])
+  );
+  const discoveryDifferences: DiscoveryDifference[] = [];
+  for (const key of new Set([
+    ...leftDiscovery.keys(),
+    ...rightDiscovery.keys(),
+  ])) {
+    const l = leftDiscovery.get(key);
+    const r = rightDiscovery.get(key);
+    const row = (l ?? r)!;
+    const lValue = l?.discovered ?? null;
+    const rValue = r?.discovered ?? null;
+    if (lValue !== rValue) {
+      discoveryDifferences.push({
+        entityId: row.entityId,
+        entityType: row.entityType,
+        left: lValue,
+        right: rValue,
+      });
+    }
+  }
+
+  const leftObjectives = new Map(
+    lQuests.map((r) => [r.questId, new Set(r.completedObjectiveIndexes ?? [])])
+  );
+  const rightObjectives = new Map(
+    rQuests.map((r) => [r.questId, new Set(r.completedObjectiveIndexes ?? [])])
+  );
+  const objectiveDifferences: ObjectiveDifference[] = [];
+  for (const questId of new Set([
+    ...leftObjectives.keys(),
+    ...rightObjectives.keys(),
+  ])) {
+    const l = leftObjectives.get(questId) ?? new Set<number>();
+    const r = rightObjectives.get(questId) ?? new Set<number>();
+    for (const objectiveIndex of [...new Set([...l, ...r])].sort(
+      (a, b) => a - b
+    )) {
+      if (l.has(objectiveIndex) !== r.has(objectiveIndex)) {
+        objectiveDifferences.push({
+          questId,
+          objectiveIndex,
+          completedIn: l.has(objectiveIndex) ? 'left' : 'right',
+        });
+      }
+    }
+  }
+
+  return {
+    statusDifferences,
+    discoveryDifferences,
+    objectiveDifferences,
+  };
+}
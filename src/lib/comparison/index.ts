@@ -0,0 +1,11 @@
+/**
+ * Playthrough comparison: per-entity differences between two runs of a game.
+ */
+
+export type {
+  DiscoveryDifference,
+  ObjectiveDifference,
+  PlaythroughComparison,
+  StatusDifference,
+} from './comparePlaythroughs';
+export { comparePlaythroughs } from './comparePlaythroughs';
@@ -0,0 +1,66 @@
+/**
+ * Startup selection of the app's data source.
+ */
+
+import { withGameEncryption } from './encryption';
+import { createMemoryDataSource } from './memory';
+import { createRemoteDataSource } from './remote';
+import { getDataSource, setDataSource } from './repositories';
+
+/** Kind of data source the app runs on. */
+export type DataSourceKind = 'local' | 'remote' | 'memory';
+
+/**
+ * Data source configuration, usually read from environment variables.
+ */
+export interface DataSourceConfig {
+  /** Requested kind (`VITE_QUESTLOOM_DATA_SOURCE`); inferred from serverUrl when omitted. */
+  kind?: string;
+
+  /** Server base URL for the remote kind (`VITE_QUESTLOOM_SERVER_URL`). */
+  serverUrl?: string;
+}
+
+/** Kind selected by configureDataSource. */
+let configuredKind: DataSourceKind = 'local';
+
+/**
+ * Selects the app's data source: `memory` keeps everything in memory (demo
+ * mode, nothing saved), `remote` uses a QuestLoom server, and `local` (the
+ * default) uses IndexedDB. Without an explicit kind, a server URL selects
+ * `remote`. Every kind stores the private text of encrypted games encrypted.
+ * Call once before rendering.
+ *
+ * @param config - Data source configuration.
+ * @returns The selected kind.
+ * @throws Error when the kind is unknown, or `remote` is requested without a server URL.
+ */
+export function configureDataSource(config: DataSourceConfig): DataSourceKind {
+  const serverUrl = config.serverUrl?.trim() ?? '';
+  const kind = config.kind?.trim() || (serverUrl ? 'remote' : 'local');
+
+  let source = getDataSource();
+  if (kind === 'memory') {
+    source = createMemoryDataSource();
+  } else if (kind === 'remote') {
+    if (!serverUrl) {
+      throw new Error('A server URL is required for the remote data source.');
+    }
+    source = createRemoteDataSource(serverUrl);
+  } else if (kind !== 'local') {
+    throw new Error(`Unknown data source "${kind}".`);
+  }
+  setDataSource(withGameEncryption(source));
+
+  configuredKind = kind;
+  return kind;
+}
+
+/**
+ * Returns the kind selected at startup.
+ *
+ * @returns The configured data source kind.
+ */
+export function getDataSourceKind(): DataSourceKind {
+  return configuredKind;
+}
@@ -3,4 +3,7 @@
  */
 
 export type { ActionableEntity } from './actionable';
-export { getActionableEntities, getActionableRouteEdgeIds } from './actionable';
+export {
+  findActionableEntities,
+  findActionableRouteEdgeIds,
+} from './actionable';
@@ -22,6 +22,12 @@ import type { InsightProgress } from '../types/InsightProgress';
 import type { ItemState } from '../types/ItemState';
 import type { PersonProgress } from '../types/PersonProgress';
 import type { EntityDiscovery } from '../types/EntityDiscovery';
+import type { ActivityLogEntry } from '../types/ActivityLogEntry';
+import type { PlaythroughCheckpoint } from '../types/PlaythroughCheckpoint';
+import type { SyncConflict } from '../types/SyncConflict';
+import type { SyncJournalEntry } from '../types/SyncJournalEntry';
+import type { SyncState } from '../types/SyncState';
+import { createSyncJournalMiddleware } from './sync/syncJournalMiddleware';
 
 /**
  * Stored row types: progress/discovery tables use string id (generated on insert).
@@ -98,8 +104,13 @@ export class QuestLoomDB extends Dexie {
   itemState!: Table<ItemStateRow, string>;
   personProgress!: Table<PersonProgressRow, string>;
   entityDiscovery!: Table<EntityDiscoveryRow, string>;
+  activityLog!: Table<ActivityLogEntry, string>;
+  playthroughCheckpoints!: Table<PlaythroughCheckpoint, string>;
   mapImages!: Table<MapImageBlobRow, string>;
   mapMarkers!: Table<MapMarkerRow, string>;
+  syncJournal!: Table<SyncJournalEntry, [string, string]>;
+  syncConflicts!: Table<SyncConflict, string>;
+  syncState!: Table<SyncState, string>;
 
   constructor() {
     super('QuestLoomDB');
@@ -240,6 +251,85 @@ export class QuestLoomDB extends Dexie {
       mapImages: 'id, gameId, mapId',
       mapMarkers: 'id, gameId, mapId, playthroughId, [gameId+mapId]',
     });
+    // v8: playthrough activity log
+    this.version(8).stores({
+      games: 'id',
+      playthroughs: 'id, gameId',
+      quests: 'id, gameId',
+      insights: 'id, gameId',
+      items: 'id, gameId',
+      persons: 'id, gameId',
+      places: 'id, gameId',
+      maps: 'id, gameId, topLevelPlaceId',
+      paths: 'id, gameId',
+      threads: 'id, gameId, playthroughId',
+      questProgress: 'id, playthroughId, questId, [playthroughId+questId]',
+      pathProgress: 'id, playthroughId, pathId, [playthroughId+pathId]',
+      insightProgress:
+        'id, playthroughId, insightId, [playthroughId+insightId]',
+      itemState: 'id, playthroughId, itemId, [playthroughId+itemId]',
+      personProgress: 'id, playthroughId, personId, [playthroughId+personId]',
+      entityDiscovery:
+        'id, playthroughId, entityType, entityId, [playthroughId+entityType+entityId]',
+      mapImages: 'id, gameId, mapId',
+      mapMarkers: 'id, gameId, mapId, playthroughId, [gameId+mapId]',
+      activityLog: 'id, playthroughId, entityId, [playthroughId+entityId]',
+    });
+    // v9: playthrough checkpoints (save slots)
+    this.version(9).stores({
+      games: 'id',
+      playthroughs: 'id, gameId',
+      quests: 'id, gameId',
+      insights: 'id, gameId',
+      items: 'id, gameId',
+      persons: 'id, gameId',
+      places: 'id, gameId',
+      maps: 'id, gameId, topLevelPlaceId',
+      paths: 'id, gameId',
+      threads: 'id, gameId, playthroughId',
+      questProgress: 'id, playthroughId, questId, [playthroughId+questId]',
+      pathProgress: 'id, playthroughId, pathId, [playthroughId+pathId]',
+      insightProgress:
+        'id, playthroughId, insightId, [playthroughId+insightId]',
+      itemState: 'id, playthroughId, itemId, [playthroughId+itemId]',
+      personProgress: 'id, playthroughId, personId, [playthroughId+personId]',
+      entityDiscovery:
+        'id, playthroughId, entityType, entityId, [playthroughId+entityType+entityId]',
+      mapImages: 'id, gameId, mapId',
+      mapMarkers: 'id, gameId, mapId, playthroughId, [gameId+mapId]',
+      activityLog: 'id, playthroughId, entityId, [playthroughId+entityId]',
+      playthroughCheckpoints: 'id, playthroughId',
+    });
+    // v10: sync change journal, conflict records, and per-server sync state
+    this.version(10).stores({
+      games: 'id',
+      playthroughs: 'id, gameId',
+      quests: 'id, gameId',
+      insights: 'id, gameId',
+      items: 'id, gameId',
+      persons: 'id, gameId',
+      places: 'id, gameId',
+      maps: 'id, gameId, topLevelPlaceId',
+      paths: 'id, gameId',
+      threads: 'id, gameId, playthroughId',
+      questProgress: 'id, playthroughId, questId, [playthroughId+questId]',
+      pathProgress: 'id, playthroughId, pathId, [playthroughId+pathId]',
+      insightProgress:
+        'id, playthroughId, insightId, [playthroughId+insightId]',
+      itemState: 'id, playthroughId, itemId, [playthroughId+itemId]',
+      personProgress: 'id, playthroughId, personId, [playthroughId+personId]',
+      entityDiscovery:
+        'id, playthroughId, entityType, entityId, [playthroughId+entityType+entityId]',
+      mapImages: 'id, gameId, mapId',
+      mapMarkers: 'id, gameId, mapId, playthroughId, [gameId+mapId]',
+      activityLog: 'id, playthroughId, entityId, [playthroughId+entityId]',
+      playthroughCheckpoints: 'id, playthroughId',
+      syncJournal: '[table+key], pending',
+      syncConflicts: 'id, [table+key]',
+      syncState: 'serverUrl',
+    });
+    // Journal every write to app tables so changes can be synced (lib/sync).
+    this.use(createSyncJournalMiddleware());
   }
 }
 
@@ -3,6 +3,7 @@
  * For development/debug only; wipes data without deleting the database schema.
  */
 
+import { setCurrentTransactionOrigin } from './changes';
 import { db } from './db';
 import {
   useAppStore,
@@ -11,27 +12,20 @@ import {
 } from '../stores/appStore';
 
 /**
- * Clears all tables in the local IndexedDB database. Does not delete the database
- * itself so the schema remains. For development/debug only; wipes all data.
+ * Clears every table in the local IndexedDB database (including tables added in
+ * later schema versions). Does not delete the database itself so the schema
+ * remains. For development/debug only; wipes all data.
  *
  * @remarks Use when resetting local state; after calling, the app should clear
  * current game/playthrough selection and refresh lists.
  */
 export async function purgeDatabase(): Promise<void> {
-  await db.games.clear();
-  await db.playthroughs.clear();
-  await db.quests.clear();
-  await db.insights.clear();
-  await db.items.clear();
-  await db.persons.clear();
-  await db.places.clear();
-  await db.maps.clear();
-  await db.threads.clear();
-  await db.questProgress.clear();
-  await db.insightProgress.clear();
-  await db.itemState.clear();
-  await db.personProgress.clear();
-  await db.entityDiscovery.clear();
+  await db.transaction('rw', db.tables, async () => {
+    setCurrentTransactionOrigin('system');
+    for (const table of db.tables) {
+      await table.clear();
+    }
+  });
 }
 
 /**
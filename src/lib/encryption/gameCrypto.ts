@@ -0,0 +1,176 @@
+/**
+ * Web Crypto primitives for game encryption: a PBKDF2-SHA256 key derived from
+ * the passphrase, and AES-GCM encrypted text stored as prefixed strings.
+ */
+
+import type { GameEncryption } from '../../types/GameEncryption';
+
+/** Prefix (and format version) of encrypted text values. */
+export const ENCRYPTED_TEXT_PREFIX = 'qlenc:v1:';
+
+/** PBKDF2 iterations for new encryption settings. */
+const KEY_DERIVATION_ITERATIONS = 600_000;
+
+/** Salt length in bytes. */
+const SALT_LENGTH = 16;
+
+/** AES-GCM initialization vector length in bytes. */
+const IV_LENGTH = 12;
+
+/** Known text encrypted into GameEncryption.check. */
+const CHECK_TEXT = 'questloom';
+
+/**
+ * Encodes bytes as base64.
+ *
+ * @param bytes - Bytes to encode.
+ * @returns Base64 string.
+ */
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Decodes base64 into bytes.
+ *
+ * @param base64 - Base64 string.
+ * @returns The bytes.
+ */
+function base64ToBytes(base64: string): Uint8Array {
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+}
+
+/**
+ * Returns whether a value is encrypted text.
+ *
+ * @param value - Any field value.
+ * @returns True for strings written by encryptText.
+ */
+export function isEncryptedText(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(ENCRYPTED_TEXT_PREFIX);
+}
+
+/**
+ * Derives the AES-GCM key for a passphrase.
+ *
+ * @param passphrase - The passphrase.
+ * @param salt - PBKDF2 salt (base64).
+ * @param iterations - PBKDF2 iteration count.
+ * @returns A non-extractable key.
+ */
+async function deriveKey(
+  passphrase: string,
+  salt: string,
+  iterations: number
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: base64ToBytes(salt), iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Encrypts text with a fresh random IV.
+ *
+ * @param key - Game key.
+ * @param text - Plain text.
+ * @returns Encrypted text: prefix, IV and ciphertext.
+ */
+export async function encryptText(
+  key: CryptoKey,
+  text: string
+): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(text)
+  );
+  return `${ENCRYPTED_TEXT_PREFIX}${bytesToBase64(iv)}:${bytesToBase64(new Uint8Array(ciphertext))}`;
+}
+
+/**
+ * Decrypts text written by encryptText.
+ *
+ * @param key - Game key.
+ * @param value - Encrypted text.
+ * @returns The plain text.
+ * @throws Error when the value is malformed or was encrypted with another key.
+ */
+export async function decryptText(
+  key: CryptoKey,
+  value: string
+): Promise<string> {
+  const [iv, ciphertext] = value.slice(ENCRYPTED_TEXT_PREFIX.length).split(':');
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: base64ToBytes(iv) },
+      key,
+      base64ToBytes(ciphertext)
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    throw new Error('Encrypted text could not be decrypted.');
+  }
+}
+
+/**
+ * Creates encryption settings for a new passphrase.
+ *
+ * @param passphrase - The passphrase.
+ * @returns The settings to store on the game and the derived key.
+ */
+export async function createGameEncryption(
+  passphrase: string
+): Promise<{ encryption: GameEncryption; key: CryptoKey }> {
+  const salt = bytesToBase64(
+    crypto.getRandomValues(new Uint8Array(SALT_LENGTH))
+  );
+  const key = await deriveKey(passphrase, salt, KEY_DERIVATION_ITERATIONS);
+  return {
+    encryption: {
+      salt,
+      iterations: KEY_DERIVATION_ITERATIONS,
+      check: await encryptText(key, CHECK_TEXT),
+    },
+    key,
+  };
+}
+
+/**
+ * Derives the key for a game's encryption settings and checks the passphrase.
+ *
+ * @param encryption - The game's encryption settings.
+ * @param passphrase - Passphrase to try.
+ * @returns The game key.
+ * @throws Error when the passphrase is wrong.
+ */
+export async function openGameEncryption(
+  encryption: GameEncryption,
+  passphrase: string
+): Promise<CryptoKey> {
+  const key = await deriveKey(
+    passphrase,
+    encryption.salt,
+    encryption.iterations
+  );
+  const check = await decryptText(key, encryption.check).catch(() => null);
+  if (check !== CHECK_TEXT) {
+    throw new Error('Wrong passphrase.');
+  }
+  return key;
+}
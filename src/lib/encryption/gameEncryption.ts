@@ -0,0 +1,251 @@
+import {
+  gameRepository,
+  insightRepository,
+  itemRepository,
+  personRepository,
+  placeRepository,
+  playthroughRepository,
+  questRepository,
+  transactionRunner,
+} from '../repositories';
+import type { Game } from '../../types/Game';
+import type { Insight } from '../../types/Insight';
+import type { InsightProgress } from '../../types/InsightProgress';
+import type { ItemState } from '../../types/ItemState';
+import type { Person } from '../../types/Person';
+import type { PersonProgress } from '../../types/PersonProgress';
+import type { Place } from '../../types/Place';
+import type { QuestProgress } from '../../types/QuestProgress';
+import type { GameId } from '../../types/ids';
+import {
+  createGameEncryption,
+  encryptText,
+  openGameEncryption,
+} from './gameCrypto';
+import { deleteGameKey, getGameKey, setGameKey } from './gameKeyring';
+
+/**
+ * Rows of a game holding private text (the encrypted fields).
+ */
+interface PrivateRows {
+  insights: Insight[];
+  persons: Person[];
+  places: Place[];
+  questProgress: QuestProgress[];
+  insightProgress: InsightProgress[];
+  itemStates: ItemState[];
+  personProgress: PersonProgress[];
+}
+
+/**
+ * Loads a game's rows holding private text, as read through the repositories
+ * (decrypted when the game is unlocked).
+ *
+ * @param gameId - The game ID.
+ * @returns The rows, with progress of every playthrough.
+ */
+async function loadPrivateRows(gameId: GameId): Promise<PrivateRows> {
+  const playthroughs = await playthroughRepository.getByGameId(gameId);
+  const forEachPlaythrough = async <T>(
+    load: (playthroughId: string) => Promise<T[]>
+  ): Promise<T[]> =>
+    (await Promise.all(playthroughs.map((p) => load(p.id)))).flat();
+
+  const [insights, persons, places] = await Promise.all([
+    insightRepository.getByGameId(gameId),
+    personRepository.getByGameId(gameId),
+    placeRepository.getByGameId(gameId),
+  ]);
+  return {
+    insights,
+    persons,
+    places,
+    questProgress: await forEachPlaythrough((id) =>
+      questRepository.getAllProgressForPlaythrough(id)
+    ),
+    insightProgress: await forEachPlaythrough((id) =>
+      insightRepository.getAllProgressForPlaythrough(id)
+    ),
+    itemStates: await forEachPlaythrough((id) =>
+      itemRepository.getAllStateForPlaythrough(id)
+    ),
+    personProgress: await forEachPlaythrough((id) =>
+      personRepository.getAllProgressForPlaythrough(id)
+    ),
+  };
+}
+
+/**
+ * Encrypts the private text of some rows (empty text stays empty).
+ *
+ * @param key - Game key.
+ * @param rows - Rows in plain text.
+ * @returns The rows with encrypted text.
+ */
+async function encryptPrivateRows(
+  key: CryptoKey,
+  rows: PrivateRows
+): Promise<PrivateRows> {
+  const seal = (text: string) =>
+    text === '' ? Promise.resolve(text) : encryptText(key, text);
+  const sealNotes = <T extends { notes: string }>(list: T[]) =>
+    Promise.all(
+      list.map(async (row) => ({ ...row, notes: await seal(row.notes) }))
+    );
+
+  return {
+    insights: await Promise.all(
+      rows.insights.map(async (row) => ({
+        ...row,
+        content: await seal(row.content),
+      }))
+    ),
+    persons: await sealNotes(rows.persons),
+    places: await sealNotes(rows.places),
+    questProgress: await sealNotes(rows.questProgress),
+    insightProgress: await sealNotes(rows.insightProgress),
+    itemStates: await sealNotes(rows.itemStates),
+    personProgress: await sealNotes(rows.personProgress),
+  };
+}
+
+/**
+ * Writes rows holding private text back through the repositories.
+ *
+ * @param rows - Rows to write.
+ */
+async function writePrivateRows(rows: PrivateRows): Promise<void> {
+  for (const insight of rows.insights) {
+    await insightRepository.update(insight);
+  }
+  for (const person of rows.persons) {
+    await personRepository.update(person);
+  }
+  for (const place of rows.places) {
+    await placeRepository.update(place);
+  }
+  for (const progress of rows.questProgress) {
+    await questRepository.upsertProgress(progress);
+  }
+  for (const progress of rows.insightProgress) {
+    await insightRepository.upsertProgress(progress);
+  }
+  for (const state of rows.itemStates) {
+    await itemRepository.upsertState(state);
+  }
+  for (const progress of rows.personProgress) {
+    await personRepository.upsertProgress(progress);
+  }
+}
+
+/**
+ * Returns whether a game is encrypted and not unlocked in this tab.
+ *
+ * @param game - The game.
+ * @returns True when the game's private text cannot be read.
+ */
+export function isGameLocked(game: Game): boolean {
+  return (
+    game.encryption !== undefined &&
+    getGameKey(game.id, game.encryption) === null
+  );
+}
+
+/**
+ * Unlocks an encrypted game for the rest of the session (this tab).
+ *
+ * @param gameId - The game ID.
+ * @param passphrase - The game's passphrase.
+ * @throws Error when the game does not exist, is not encrypted, or the passphrase is wrong.
+ */
+export async function unlockGame(
+  gameId: GameId,
+  passphrase: string
+): Promise<void> {
+  const game = await gameRepository.getById(gameId);
+  if (!game) {
+    throw new Error('Game not found.');
+  }
+  if (!game.encryption) {
+    throw new Error('This game is not encrypted.');
+  }
+  const key = await openGameEncryption(game.encryption, passphrase);
+  setGameKey(gameId, game.encryption, key);
+}
+
+/**
+ * Locks an encrypted game again.
+ *
+ * @param gameId - The game ID.
+ */
+export function lockGame(gameId: GameId): void {
+  deleteGameKey(gameId);
+}
+
+/**
+ * Turns on encryption for a game: encrypts its existing insight content,
+ * notes, and progress notes with a key derived from the passphrase, in one
+ * transaction. The game stays unlocked in this tab.
+ *
+ * @param gameId - The game ID.
+ * @param passphrase - New passphrase (not stored; it cannot be recovered).
+ * @throws Error when the game does not exist, is already encrypted, or the passphrase is empty.
+ */
+export async function enableGameEncryption(
+  gameId: GameId,
+  passphrase: string
+): Promise<void> {
+  const game = await gameRepository.getById(gameId);
+  if (!game) {
+    throw new Error('Game not found.');
+  }
+  if (game.encryption) {
+    throw new Error('This game is already encrypted.');
+  }
+  if (passphrase === '') {
+    throw new Error('Enter a passphrase.');
+  }
+
+  const { encryption, key } = await createGameEncryption(passphrase);
+  // Encrypt up front rather than holding the transaction open for every row.
+  const rows = await encryptPrivateRows(key, await loadPrivateRows(gameId));
+  setGameKey(gameId, encryption, key);
+  try {
+    await transactionRunner.run(async () => {
+      await gameRepository.update({ ...game, encryption });
+      await writePrivateRows(rows);
+    });
+  } catch (err) {
+    deleteGameKey(gameId);
+    throw err;
+  }
+}
+
+/**
+ * Turns off encryption for an unlocked game: stores its private text in plain
+ * text again, in one transaction.
+ *
+ * @param gameId - The game ID.
+ * @throws Error when the game does not exist, is not encrypted, or is locked.
+ */
+export async function disableGameEncryption(gameId: GameId): Promise<void> {
+  const game = await gameRepository.getById(gameId);
+  if (!game) {
+    throw new Error('Game not found.');
+  }
+  if (!game.encryption) {
+    throw new Error('This game is not encrypted.');
+  }
+  if (isGameLocked(game)) {
+    throw new Error('Unlock the game first.');
+  }
+
+  const rows = await loadPrivateRows(gameId);
+  const decrypted: Game = { ...game };
+  delete decrypted.encryption;
+  await transactionRunner.run(async () => {
+    await gameRepository.update(decrypted);
+    await writePrivateRows(rows);
+  });
+  deleteGameKey(gameId);
+}
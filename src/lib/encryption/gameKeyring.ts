@@ -0,0 +1,60 @@
+/**
+ * Keys of the games unlocked in this tab. Keys live in memory only, so every
+ * encrypted game is locked again when the tab is closed or reloaded.
+ */
+
+import type { GameEncryption } from '../../types/GameEncryption';
+import type { GameId } from '../../types/ids';
+
+/**
+ * Key of an unlocked game, with the salt it was derived for.
+ */
+interface UnlockedGameKey {
+  salt: string;
+  key: CryptoKey;
+}
+
+/** Unlocked keys by game ID. */
+const unlockedKeys = new Map<GameId, UnlockedGameKey>();
+
+/**
+ * Remembers the key of an unlocked game.
+ *
+ * @param gameId - The game ID.
+ * @param encryption - The game's encryption settings.
+ * @param key - Key derived for these settings.
+ */
+export function setGameKey(
+  gameId: GameId,
+  encryption: GameEncryption,
+  key: CryptoKey
+): void {
+  unlockedKeys.set(gameId, { salt: encryption.salt, key });
+}
+
+/**
+ * Forgets the key of a game, locking it.
+ *
+ * @param gameId - The game ID.
+ */
+export function deleteGameKey(gameId: GameId): void {
+  unlockedKeys.delete(gameId);
+}
+
+/**
+ * Returns the key of an unlocked game. With encryption settings, the key is
+ * only returned when it was derived for them (not for an older passphrase).
+ *
+ * @param gameId - The game ID.
+ * @param encryption - The game's current encryption settings, if known.
+ * @returns The key, or null when the game is locked.
+ */
+export function getGameKey(
+  gameId: GameId,
+  encryption?: GameEncryption
+): CryptoKey | null {
+  const unlocked = unlockedKeys.get(gameId);
+  if (!unlocked) return null;
+  if (encryption && encryption.salt !== unlocked.salt) return null;
+  return unlocked.key;
+}
@@ -0,0 +1,20 @@
+/**
+ * Per-game passphrase encryption of private text (insight content, notes, and
+ * progress notes) with the Web Crypto API, applied by a data source decorator.
+ */
+
+export {
+  ENCRYPTED_TEXT_PREFIX,
+  decryptText,
+  encryptText,
+  isEncryptedText,
+} from './gameCrypto';
+export {
+  disableGameEncryption,
+  enableGameEncryption,
+  isGameLocked,
+  lockGame,
+  unlockGame,
+} from './gameEncryption';
+export { getGameKey } from './gameKeyring';
+export { withGameEncryption } from './withGameEncryption';
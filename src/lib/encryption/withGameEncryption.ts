@@ -0,0 +1,390 @@
+/**
+ * Data source decorator that encrypts the private text fields of encrypted
+ * games: insight content, person and place notes, and the notes on quest,
+ * insight, and person progress and item state.
+ */
+
+import type { DataSource } from '../repositories';
+import type { GameId, PlaythroughId } from '../../types/ids';
+import { getGameKey } from './gameKeyring';
+import { decryptText, encryptText, isEncryptedText } from './gameCrypto';
+
+/** Names of a row's string fields. */
+type TextField<T> = {
+  [K in keyof T]-?: T[K] extends string | undefined ? K : never;
+}[keyof T] &
+  string;
+
+/** Awaits crypto work without ending the active transaction (see ITransactionRunner.waitFor). */
+type WaitFor = <T>(promise: Promise<T>) => Promise<T>;
+
+/**
+ * Returns a repository whose listed methods are replaced and whose other
+ * methods forward to the original.
+ *
+ * @param repository - Repository to wrap.
+ * @param overrides - Replacement methods.
+ * @returns The wrapped repository.
+ */
+function overrideMethods<T extends object>(
+  repository: T,
+  overrides: Partial<T>
+): T {
+  return new Proxy(repository, {
+    get(target, property) {
+      if (Object.prototype.hasOwnProperty.call(overrides, property)) {
+        return Reflect.get(overrides, property);
+      }
+      const value: unknown = Reflect.get(target, property, target);
+      return typeof value === 'function' ? value.bind(target) : value;
+    },
+  });
+}
+
+/**
+ * Decrypts one field of some rows. Without the key (or with the wrong one)
+ * encrypted values read as empty text.
+ *
+ * @param waitFor - Keeps an active transaction open while decrypting.
+ * @param key - Game key, or null when the game is locked.
+ * @param rows - Rows as stored.
+ * @param field - Encrypted field.
+ * @returns Rows with the field in plain text.
+ */
+async function openRows<T extends object>(
+  waitFor: WaitFor,
+  key: CryptoKey | null,
+  rows: T[],
+  field: TextField<T>
+): Promise<T[]> {
+  if (!rows.some((row) => isEncryptedText(row[field]))) return rows;
+  return waitFor(
+    Promise.all(
+      rows.map(async (row) => {
+        const value: unknown = row[field];
+        if (!isEncryptedText(value)) return row;
+        const text = key ? await decryptText(key, value).catch(() => '') : '';
+        return { ...row, [field]: text };
+      })
+    )
+  );
+}
+
+/**
+ * Encrypts one field of a row. Empty and already encrypted values are kept
+ * as they are, and so is the stored value when the text did not change (so
+ * unrelated edits do not rewrite the field).
+ *
+ * @param waitFor - Keeps an active transaction open while encrypting.
+ * @param key - Game key, or null when the game is not encrypted.
+ * @param row - Row with the field in plain text.
+ * @param field - Field to encrypt.
+ * @param getStored - Loads the row as stored, if it exists.
+ * @returns The row to store.
+ */
+async function sealRow<T extends object>(
+  waitFor: WaitFor,
+  key: CryptoKey | null,
+  row: T,
+  field: TextField<T>,
+  getStored: () => Promise<T | undefined>
+): Promise<T> {
+  const value: unknown = row[field];
+  if (key === null || typeof value !== 'string' || value === '') return row;
+  if (isEncryptedText(value)) return row;
+  const stored: unknown = (await getStored())?.[field];
+  if (
+    isEncryptedText(stored) &&
+    (await waitFor(decryptText(key, stored).catch(() => null))) === value
+  ) {
+    return { ...row, [field]: stored };
+  }
+  return { ...row, [field]: await waitFor(encryptText(key, value)) };
+}
+
+/**
+ * Wraps a data source so the private text fields of encrypted games are
+ * stored encrypted. Reads decrypt with the keys of unlocked games (values of
+ * locked games read as empty text); writes to a locked game are rejected.
+ * Values that are already encrypted pass through unchanged, so archives,
+ * backups, and sync keep the ciphertext.
+ *
+ * @param source - Data source to wrap.
+ * @returns The encrypting data source.
+ */
+export function withGameEncryption(source: DataSource): DataSource {
+  const playthroughGameIds = new Map<PlaythroughId, GameId | null>();
+  const waitFor: WaitFor = (promise) =>
+    source.transactionRunner.waitFor(promise);
+
+  /**
+   * Returns the game a playthrough belongs to (cached; playthroughs never
+   * move between games).
+   *
+   * @param playthroughId - The playthrough ID.
+   * @returns The game ID, or null when the playthrough does not exist.
+   */
+  const getPlaythroughGameId = async (
+    playthroughId: PlaythroughId
+  ): Promise<GameId | null> => {
+    const cached = playthroughGameIds.get(playthroughId);
+    if (cached) return cached;
+    const playthrough =
+      await source.playthroughRepository.getById(playthroughId);
+    const gameId = playthrough?.gameId ?? null;
+    if (gameId) playthroughGameIds.set(playthroughId, gameId);
+    return gameId;
+  };
+
+  /**
+   * Returns the key to encrypt writes to a game with.
+   *
+   * @param gameId - The game ID, or null when unknown.
+   * @returns The key, or null when the game is not encrypted.
+   * @throws Error when the game is encrypted and locked.
+   */
+  const getWriteKey = async (
+    gameId: GameId | null
+  ): Promise<CryptoKey | null> => {
+    if (gameId === null) return null;
+    const game = await source.gameRepository.getById(gameId);
+    if (!game?.encryption) return null;
+    const key = getGameKey(gameId, game.encryption);
+    if (!key) {
+      throw new Error('This game is locked. Unlock it to make changes.');
+    }
+    return key;
+  };
+
+  /**
+   * Returns the key to decrypt a playthrough's rows with.
+   *
+   * @param playthroughId - The playthrough ID.
+   * @returns The key, or null when its game is locked or unknown.
+   */
+  const getPlaythroughKey = async (
+    playthroughId: PlaythroughId
+  ): Promise<CryptoKey | null> => {
+    const gameId = await getPlaythroughGameId(playthroughId);
+    return gameId ? getGameKey(gameId) : null;
+  };
+
+  const { insightRepository, personRepository, placeRepository } = source;
+  const { questRepository, itemRepository } = source;
+
+  return {
+    ...source,
+    questRepository: overrideMethods(questRepository, {
+      getProgress: async (playthroughId, questId) => {
+        const progress = await questRepository.getProgress(
+          playthroughId,
+          questId
+        );
+        if (!progress) return undefined;
+        const key = await getPlaythroughKey(playthroughId);
+        return (await openRows(waitFor, key, [progress], 'notes'))[0];
+      },
+      getAllProgressForPlaythrough: async (playthroughId) =>
+        openRows(
+          waitFor,
+          await getPlaythroughKey(playthroughId),
+          await questRepository.getAllProgressForPlaythrough(playthroughId),
+          'notes'
+        ),
+      upsertProgress: async (progress) => {
+        const key = await getWriteKey(
+          await getPlaythroughGameId(progress.playthroughId)
+        );
+        await questRepository.upsertProgress(
+          await sealRow(waitFor, key, progress, 'notes', () =>
+            questRepository.getProgress(
+              progress.playthroughId,
+              progress.questId
+            )
+          )
+        );
+      },
+    }),
+    insightRepository: overrideMethods(insightRepository, {
+      getByGameId: async (gameId) =>
+        openRows(
+          waitFor,
+          getGameKey(gameId),
+          await insightRepository.getByGameId(gameId),
+          'content'
+        ),
+      getById: async (id) => {
+        const insight = await insightRepository.getById(id);
+        if (!insight) return undefined;
+        return (
+          await openRows(
+            waitFor,
+            getGameKey(insight.gameId),
+            [insight],
+            'content'
+          )
+        )[0];
+      },
+      create: async (input) => {
+        const key = await getWriteKey(input.gameId);
+        const created = await insightRepository.create(
+          await sealRow(waitFor, key, input, 'content', async () => undefined)
+        );
+        return (await openRows(waitFor, key, [created], 'content'))[0];
+      },
+      update: async (insight) => {
+        const key = await getWriteKey(insight.gameId);
+        await insightRepository.update(
+          await sealRow(waitFor, key, insight, 'content', () =>
+            insightRepository.getById(insight.id)
+          )
+        );
+      },
+      getProgress: async (playthroughId, insightId) => {
+        const progress = await insightRepository.getProgress(
+          playthroughId,
+          insightId
+        );
+        if (!progress) return undefined;
+        const key = await getPlaythroughKey(playthroughId);
+        return (await openRows(waitFor, key, [progress], 'notes'))[0];
+      },
+      getAllProgressForPlaythrough: async (playthroughId) =>
+        openRows(
+          waitFor,
+          await getPlaythroughKey(playthroughId),
+          await insightRepository.getAllProgressForPlaythrough(playthroughId),
+          'notes'
+        ),
+      upsertProgress: async (progress) => {
+        const key = await getWriteKey(
+          await getPlaythroughGameId(progress.playthroughId)
+        );
+        await insightRepository.upsertProgress(
+          await sealRow(waitFor, key, progress, 'notes', () =>
+            insightRepository.getProgress(
+              progress.playthroughId,
+              progress.insightId
+            )
+          )
+        );
+      },
+    }),
+    itemRepository: overrideMethods(itemRepository, {
+      getState: async (playthroughId, itemId) => {
+        const state = await itemRepository.getState(playthroughId, itemId);
+        if (!state) return undefined;
+        const key = await getPlaythroughKey(playthroughId);
+        return (await openRows(waitFor, key, [state], 'notes'))[0];
+      },
+      getAllStateForPlaythrough: async (playthroughId) =>
+        openRows(
+          waitFor,
+          await getPlaythroughKey(playthroughId),
+          await itemRepository.getAllStateForPlaythrough(playthroughId),
+          'notes'
+        ),
+      upsertState: async (state) => {
+        const key = await getWriteKey(
+          await getPlaythroughGameId(state.playthroughId)
+        );
+        await itemRepository.upsertState(
+          await sealRow(waitFor, key, state, 'notes', () =>
+            itemRepository.getState(state.playthroughId, state.itemId)
+          )
+        );
+      },
+    }),
+    personRepository: overrideMethods(personRepository, {
+      getByGameId: async (gameId) =>
+        openRows(
+          waitFor,
+          getGameKey(gameId),
+          await personRepository.getByGameId(gameId),
+          'notes'
+        ),
+      getById: async (id) => {
+        const person = await personRepository.getById(id);
+        if (!person) return undefined;
+        return (
+          await openRows(waitFor, getGameKey(person.gameId), [person], 'notes')
+        )[0];
+      },
+      create: async (input) => {
+        const key = await getWriteKey(input.gameId);
+        const created = await personRepository.create(
+          await sealRow(waitFor, key, input, 'notes', async () => undefined)
+        );
+        return (await openRows(waitFor, key, [created], 'notes'))[0];
+      },
+      update: async (person) => {
+        const key = await getWriteKey(person.gameId);
+        await personRepository.update(
+          await sealRow(waitFor, key, person, 'notes', () =>
+            personRepository.getById(person.id)
+          )
+        );
+      },
+      getProgress: async (playthroughId, personId) => {
+        const progress = await personRepository.getProgress(
+          playthroughId,
+          personId
+        );
+        if (!progress) return undefined;
+        const key = await getPlaythroughKey(playthroughId);
+        return (await openRows(waitFor, key, [progress], 'notes'))[0];
+      },
+      getAllProgressForPlaythrough: async (playthroughId) =>
+        openRows(
+          waitFor,
+          await getPlaythroughKey(playthroughId),
+          await personRepository.getAllProgressForPlaythrough(playthroughId),
+          'notes'
+        ),
+      upsertProgress: async (progress) => {
+        const key = await getWriteKey(
+          await getPlaythroughGameId(progress.playthroughId)
+        );
+        await personRepository.upsertProgress(
+          await sealRow(waitFor, key, progress, 'notes', () =>
+            personRepository.getProgress(
+              progress.playthroughId,
+              progress.personId
+            )
+          )
+        );
+      },
+    }),
+    placeRepository: overrideMethods(placeRepository, {
+      getByGameId: async (gameId) =>
+        openRows(
+          waitFor,
+          getGameKey(gameId),
+          await placeRepository.getByGameId(gameId),
+          'notes'
+        ),
+      getById: async (id) => {
+        const place = await placeRepository.getById(id);
+        if (!place) return undefined;
+        return (
+          await openRows(waitFor, getGameKey(place.gameId), [place], 'notes')
+        )[0];
+      },
+      create: async (input) => {
+        const key = await getWriteKey(input.gameId);
+        const created = await placeRepository.create(
+          await sealRow(waitFor, key, input, 'notes', async () => undefined)
+        );
+        return (await openRows(waitFor, key, [created], 'notes'))[0];
+      },
+      update: async (place) => {
+        const key = await getWriteKey(place.gameId);
+        await placeRepository.update(
+          await sealRow(waitFor, key, place, 'notes', () =>
+            placeRepository.getById(place.id)
+          )
+        );
+      },
+    }),
+  };
+}
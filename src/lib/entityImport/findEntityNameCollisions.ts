@@ -0,0 +1,98 @@
+import type { EntityType } from '../../types/EntityType';
+import type { GameId } from '../../types/ids';
+import {
+  loadGameEntities,
+  summarizeGameEntities,
+  type GameEntitySummary,
+} from './loadGameEntities';
+
+/**
+ * A selected source entity whose name matches an entity of the same type in
+ * the target game.
+ */
+export interface EntityNameCollision {
+  /** Entity ID in the source game. */
+  sourceId: string;
+  /** ID of the matching entity in the target game. */
+  targetId: string;
+  /** Type shared by both entities. */
+  entityType: EntityType;
+  /** Name of the target entity. */
+  name: string;
+}
+
+/**
+ * Normalizes a name for collision matching (trimmed, case-insensitive).
+ *
+ * @param name - Entity name or title.
+ * @returns Comparison key.
+ */
+function normalizeName(name: string): string {
+  return name.trim().toLocaleLowerCase();
+}
+
+/**
+ * Matches selected source entities to same-type, same-name target entities.
+ * When the target has several matches, the first one wins. Blank names never
+ * collide.
+ *
+ * @param source - Source game entity summaries.
+ * @param target - Target game entity summaries.
+ * @param selectedIds - Source entity IDs being imported.
+ * @returns One collision per matched source entity.
+ */
+export function matchEntityNameCollisions(
+  source: GameEntitySummary[],
+  target: GameEntitySummary[],
+  selectedIds: ReadonlySet<string>
+): EntityNameCollision[] {
+  const targetByKey = new Map<string, GameEntitySummary>();
+  for (const entity of target) {
+    const name = normalizeName(entity.name);
+    if (!name) continue;
+    const key = `${entity.entityType}|${name}`;
+    if (!targetByKey.has(key)) targetByKey.set(key, entity);
+  }
+
+  const collisions: EntityNameCollision[] = [];
+  for (const entity of source) {
+    if (!selectedIds.has(entity.id)) continue;
+    const name = normalizeName(entity.name);
+    if (!name) continue;
+    const match = targetByKey.get(`${entity.entityType}|${name}`);
+    if (match) {
+      collisions.push({
+        sourceId: entity.id,
+        targetId: match.id,
+        entityType: entity.entityType,
+        name: match.name,
+      });
+    }
+  }
+  return collisions;
+}
+
+/**
+ * Finds which of the selected source entities share a name with an entity of
+ * the same type in the target game, so the user can choose to merge or copy.
+ *
+ * @param sourceGameId - Game the entities come from.
+ * @param targetGameId - Game the entities are imported into.
+ * @param entityIds - Selected source entity IDs.
+ * @returns Name collisions, in source entity order.
+ */
+export async function findEntityNameCollisions(
+  sourceGameId: GameId,
+  targetGameId: GameId,
+  entityIds: string[]
+): Promise<EntityNameCollision[]> {
+  const [source, target] = await Promise.all([
+    loadGameEntities(sourceGameId),
+    loadGameEntities(targetGameId),
+  ]);
+  return matchEntityNameCollisions(
+    summarizeGameEntities(source),
+    summarizeGameEntities(target),
+    new Set(entityIds)
+  );
+}
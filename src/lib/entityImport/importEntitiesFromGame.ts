@@ -0,0 +1,301 @@
+import { EntityType } from '../../types/EntityType';
+import type { GameId } from '../../types/ids';
+import type { Thread } from '../../types/Thread';
+import { ThreadSubtype } from '../../types/ThreadSubtype';
+import { generateEntityId, generateId } from '../../utils/generateId';
+import { db, type MapImageBlobRow, type MapMarkerRow } from '../db';
+import { transactionRunner } from '../repositories';
+import { matchEntityNameCollisions } from './findEntityNameCollisions';
+import { loadGameEntities, summarizeGameEntities } from './loadGameEntities';
+
+/**
+ * How to handle a selected entity whose name collides with a target entity:
+ * merge into the existing entity, or import a separate copy.
+ */
+export type EntityCollisionResolution = 'merge' | 'copy';
+
+/**
+ * Options for importing entities from another game.
+ */
+export interface ImportEntitiesOptions {
+  /** Source entity IDs to import. */
+  entityIds: string[];
+  /** Whether to copy custom, location, requirement, and path threads between imported entities. */
+  includeThreads: boolean;
+  /** Resolution per colliding source entity ID; unlisted collisions are copied. */
+  collisionResolutions?: Record<string, EntityCollisionResolution>;
+}
+
+/**
+ * Result of importing entities from another game.
+ */
+export interface ImportEntitiesResult {
+  /** Entities created in the target game. */
+  importedCount: number;
+  /** Entities merged into an existing target entity. */
+  mergedCount: number;
+  /** Threads created in the target game. */
+  threadCount: number;
+  /** Map markers created in the target game. */
+  markerCount: number;
+  /** References to entities outside the selection that were dropped. */
+  droppedReferenceCount: number;
+}
+
+/** Subtypes that mirror an entity field (giver, place map, objectives). */
+const FIELD_BACKED_SUBTYPES: ReadonlySet<ThreadSubtype> = new Set([
+  ThreadSubtype.GIVER,
+  ThreadSubtype.MAP,
+  ThreadSubtype.OBJECTIVE_REQUIRES,
+]);
+
+/**
+ * Returns the key identifying an equivalent thread in the target game.
+ *
+ * @param thread - Thread to key.
+ * @returns Duplicate-detection key.
+ */
+function threadKey(thread: Thread): string {
+  return [
+    thread.sourceId,
+    thread.targetId,
+    thread.subtype,
+    thread.label,
+    thread.objectiveIndex ?? '',
+  ].join('|');
+}
+
+/**
+ * Imports a selection of entities from one game into another.
+ *
+ * Each selected entity is either copied with a fresh ID or, when it collides
+ * by name with a target entity and the resolution is 'merge', mapped onto the
+ * existing entity (which is left unchanged). References to entities outside
+ * the selection are dropped: quest givers are cleared, objectives lose their
+ * linked entity, places lose their map, maps lose their top-level place, and
+ * threads or markers with an endpoint outside the selection are skipped.
+ *
+ * Threads that mirror a copied entity's fields (giver, map, objective) are
+ * always brought along; other game-level threads between imported entities
+ * only when includeThreads is set. Threads already present in the target are
+ * not duplicated. Game-level markers on imported maps and uploaded map images
+ * are copied too. Everything is written in one transaction.
+ *
+ * @param sourceGameId - Game to import from.
+ * @param targetGameId - Game to import into.
+ * @param options - Selection, thread, and collision options.
+ * @returns Counts of what was imported, merged, and dropped.
+ * @throws Error when either game does not exist, both are the same game, or their encryption differs.
+ */
+export async function importEntitiesFromGame(
+  sourceGameId: GameId,
+  targetGameId: GameId,
+  options: ImportEntitiesOptions
+): Promise<ImportEntitiesResult> {
+  if (sourceGameId === targetGameId) {
+    throw new Error('Cannot import entities from the same game.');
+  }
+
+  return transactionRunner.run(async () => {
+    const [sourceGame, targetGame] = await Promise.all([
+      db.games.get(sourceGameId),
+      db.games.get(targetGameId),
+    ]);
+    if (!sourceGame) {
+      throw new Error('Source game not found.');
+    }
+    if (!targetGame) {
+      throw new Error('Target game not found.');
+    }
+    // Encrypted text can only be read with the key of the game it came from.
+    if (sourceGame.encryption?.salt !== targetGame.encryption?.salt) {
+      throw new Error(
+        'Entities can only be imported between games with the same encryption.'
+      );
+    }
+
+    const [source, target] = await Promise.all([
+      loadGameEntities(sourceGameId),
+      loadGameEntities(targetGameId),
+    ]);
+    const sourceSummaries = summarizeGameEntities(source);
+    const selectedIds = new Set(options.entityIds);
+    const mergeTargets = new Map<string, string>();
+    for (const collision of matchEntityNameCollisions(
+      sourceSummaries,
+      summarizeGameEntities(target),
+      selectedIds
+    )) {
+      if (options.collisionResolutions?.[collision.sourceId] === 'merge') {
+        mergeTargets.set(collision.sourceId, collision.targetId);
+      }
+    }
+
+    // Source ID -> target ID for every selected entity; copies get fresh IDs.
+    const idMap = new Map<string, string>();
+    const copiedIds = new Set<string>();
+    for (const entity of sourceSummaries) {
+      if (!selectedIds.has(entity.id)) continue;
+      const mergeTarget = mergeTargets.get(entity.id);
+      if (mergeTarget) {
+        idMap.set(entity.id, mergeTarget);
+      } else {
+        idMap.set(entity.id, generateEntityId(entity.entityType));
+        copiedIds.add(entity.id);
+      }
+    }
+
+    let droppedReferenceCount = 0;
+    const remapReference = (id: string | undefined): string | undefined => {
+      if (!id) return undefined;
+      const mapped = idMap.get(id);
+      if (mapped === undefined) droppedReferenceCount++;
+      return mapped;
+    };
+    const isCopied = (row: { id: string }) => copiedIds.has(row.id);
+    const newId = (id: string) => idMap.get(id)!;
+
+    const quests = source.quests.filter(isCopied).map((q) => ({
+      ...q,
+      id: newId(q.id),
+      gameId: targetGameId,
+      giver: remapReference(q.giver) ?? '',
+      objectives: q.objectives.map((o) => ({
+        ...o,
+        entityId: remapReference(o.entityId),
+      })),
+    }));
+    const insights = source.insights
+      .filter(isCopied)
+      .map((i) => ({ ...i, id: newId(i.id), gameId: targetGameId }));
+    const items = source.items
+      .filter(isCopied)
+      .map((i) => ({ ...i, id: newId(i.id), gameId: targetGameId }));
+    const persons = source.persons
+      .filter(isCopied)
+      .map((p) => ({ ...p, id: newId(p.id), gameId: targetGameId }));
+    const places = source.places.filter(isCopied).map((p) => ({
+      ...p,
+      id: newId(p.id),
+      gameId: targetGameId,
+      map: remapReference(p.map),
+    }));
+    const paths = source.paths
+      .filter(isCopied)
+      .map((p) => ({ ...p, id: newId(p.id), gameId: targetGameId }));
+
+    const imageRows: MapImageBlobRow[] = [];
+    const maps = [];
+    for (const m of source.maps.filter(isCopied)) {
+      const mapId = newId(m.id);
+      let imageBlobId: string | undefined;
+      if (m.imageBlobId) {
+        const image = await db.mapImages.get(m.imageBlobId);
+        if (image) {
+          imageBlobId = generateId();
+          imageRows.push({
+            ...image,
+            id: imageBlobId,
+            gameId: targetGameId,
+            mapId,
+          });
+        }
+      }
+      maps.push({
+        ...m,
+        id: mapId,
+        gameId: targetGameId,
+        topLevelPlaceId: remapReference(m.topLevelPlaceId),
+        imageBlobId,
+      });
+    }
+
+    const placesWithMap = new Set(
+      source.places
+        .filter((p) => isCopied(p) && p.map && idMap.has(p.map))
+        .map((p) => p.id)
+    );
+    const [sourceThreads, targetThreads] = await Promise.all([
+      db.threads
+        .where('gameId')
+        .equals(sourceGameId)
+        .filter((t) => t.playthroughId == null)
+        .toArray(),
+      db.threads
+        .where('gameId')
+        .equals(targetGameId)
+        .filter((t) => t.playthroughId == null)
+        .toArray(),
+    ]);
+    const existingThreadKeys = new Set(targetThreads.map(threadKey));
+    const threads: Thread[] = [];
+    for (const t of sourceThreads) {
+      const touchesSelection =
+        selectedIds.has(t.sourceId) || selectedIds.has(t.targetId);
+      if (!touchesSelection) continue;
+      if (FIELD_BACKED_SUBTYPES.has(t.subtype)) {
+        // Merged entities keep their own fields, so only copies bring these.
+        if (!copiedIds.has(t.sourceId)) continue;
+        if (t.subtype === ThreadSubtype.MAP && !placesWithMap.has(t.sourceId))
+          continue;
+      } else if (!options.includeThreads) {
+        continue;
+      }
+      const sourceId = idMap.get(t.sourceId);
+      const targetId = idMap.get(t.targetId);
+      if (sourceId === undefined || targetId === undefined) {
+        // Field-backed threads were already counted with their field.
+        if (!FIELD_BACKED_SUBTYPES.has(t.subtype)) droppedReferenceCount++;
+        continue;
+      }
+      const copy: Thread = {
+        ...t,
+        id: generateEntityId(EntityType.THREAD),
+        gameId: targetGameId,
+        sourceId,
+        targetId,
+      };
+      const key = threadKey(copy);
+      if (existingThreadKeys.has(key)) continue;
+      existingThreadKeys.add(key);
+      threads.push(copy);
+    }
+
+    const sourceMarkers = await db.mapMarkers
+      .where('gameId')
+      .equals(sourceGameId)
+      .filter((m) => m.playthroughId == null && copiedIds.has(m.mapId))
+      .toArray();
+    const markers: MapMarkerRow[] = [];
+    for (const m of sourceMarkers) {
+      const entityId = remapReference(m.entityId);
+      if (entityId === undefined) continue;
+      markers.push({
+        ...m,
+        id: generateId(),
+        gameId: targetGameId,
+        mapId: newId(m.mapId),
+        entityId,
+      });
+    }
+
+    await db.quests.bulkAdd(quests);
+    await db.insights.bulkAdd(insights);
+    await db.items.bulkAdd(items);
+    await db.persons.bulkAdd(persons);
+    await db.places.bulkAdd(places);
+    await db.paths.bulkAdd(paths);
+    await db.maps.bulkAdd(maps);
+    await db.threads.bulkAdd(threads);
+    await db.mapMarkers.bulkAdd(markers);
+    await db.mapImages.bulkAdd(imageRows);
+
+    return {
+      importedCount: copiedIds.size,
+      mergedCount: mergeTargets.size,
+      threadCount: threads.length,
+      markerCount: markers.length,
+      droppedReferenceCount,
+    };
+  });
+}
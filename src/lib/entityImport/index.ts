@@ -0,0 +1,10 @@
+export type { EntityNameCollision } from './findEntityNameCollisions';
+export type {
+  EntityCollisionResolution,
+  ImportEntitiesOptions,
+  ImportEntitiesResult,
+} from './importEntitiesFromGame';
+export type { GameEntitySummary } from './loadGameEntities';
+export { findEntityNameCollisions } from './findEntityNameCollisions';
+export { importEntitiesFromGame } from './importEntitiesFromGame';
+export { listGameEntities } from './loadGameEntities';
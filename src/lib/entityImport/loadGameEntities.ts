@@ -0,0 +1,115 @@
+import { EntityType } from '../../types/EntityType';
+import type { GameId } from '../../types/ids';
+import type { Insight } from '../../types/Insight';
+import type { Item } from '../../types/Item';
+import type { Map } from '../../types/Map';
+import type { Path } from '../../types/Path';
+import type { Person } from '../../types/Person';
+import type { Place } from '../../types/Place';
+import type { Quest } from '../../types/Quest';
+import { db } from '../db';
+
+/**
+ * Every game-scoped entity row of one game, grouped by table.
+ */
+export interface GameEntities {
+  quests: Quest[];
+  insights: Insight[];
+  items: Item[];
+  persons: Person[];
+  places: Place[];
+  paths: Path[];
+  maps: Map[];
+}
+
+/**
+ * One entity of a game with its type and display name.
+ */
+export interface GameEntitySummary {
+  /** Entity ID. */
+  id: string;
+  /** Entity type. */
+  entityType: EntityType;
+  /** Title (quests, insights) or name (everything else). */
+  name: string;
+}
+
+/**
+ * Loads every entity row of a game.
+ *
+ * @param gameId - Game to load.
+ * @returns The game's entities, grouped by table.
+ */
+export async function loadGameEntities(gameId: GameId): Promise<GameEntities> {
+  const [quests, insights, items, persons, places, paths, maps] =
+    await Promise.all([
+      db.quests.where('gameId').equals(gameId).toArray(),
+      db.insights.where('gameId').equals(gameId).toArray(),
+      db.items.where('gameId').equals(gameId).toArray(),
+      db.persons.where('gameId').equals(gameId).toArray(),
+      db.places.where('gameId').equals(gameId).toArray(),
+      db.paths.where('gameId').equals(gameId).toArray(),
+      db.maps.where('gameId').equals(gameId).toArray(),
+    ]);
+  return { quests, insights, items, persons, places, paths, maps };
+}
+
+/**
+ * Flattens loaded entities into summaries, in a stable type order.
+ *
+ * @param entities - Entities loaded with loadGameEntities.
+ * @returns One summary per entity.
+ */
+export function summarizeGameEntities(
+  entities: GameEntities
+): GameEntitySummary[] {
+  return [
+    ...entities.quests.map((q) => ({
+      id: q.id,
+      entityType: EntityType.QUEST,
+      name: q.title,
+    })),
+    ...entities.insights.map((i) => ({
+      id: i.id,
+      entityType: EntityType.INSIGHT,
+      name: i.title,
+    })),
+    ...entities.items.map((i) => ({
+      id: i.id,
+      entityType: EntityType.ITEM,
+      name: i.name,
+    })),
+    ...entities.persons.map((p) => ({
+      id: p.id,
+      entityType: EntityType.PERSON,
+      name: p.name,
+    })),
+    ...entities.places.map((p) => ({
+      id: p.id,
+      entityType: EntityType.PLACE,
+      name: p.name,
+    })),
+    ...entities.paths.map((p) => ({
+      id: p.id,
+      entityType: EntityType.PATH,
+      name: p.name,
+    })),
+    ...entities.maps.map((m) => ({
+      id: m.id,
+      entityType: EntityType.MAP,
+      name: m.name,
+    })),
+  ];
+}
+
+/**
+ * Lists every entity of a game with its type and name (for pickers).
+ *
+ * @param gameId - Game to list.
+ * @returns Entity summaries, grouped by type.
+ */
+export async function listGameEntities(
+  gameId: GameId
+): Promise<GameEntitySummary[]> {
+  return summarizeGameEntities(await loadGameEntities(gameId));
+}
@@ -0,0 +1,220 @@
+import { EntityType } from '../../types/EntityType';
+import type { GameId, PathId, PlaceId, PlaythroughId } from '../../types/ids';
+import type { Thread } from '../../types/Thread';
+import { ThreadSubtype } from '../../types/ThreadSubtype';
+import { getEntityTypeFromId } from '../../utils/parseEntityId';
+import { getThreadSubtype } from '../../utils/threadSubtype';
+import { isCompletedStatus } from '../completion';
+import {
+  findActionableEntities,
+  findActionableRouteEdgeIds,
+  type ActionableEntity,
+} from '../contextualProgression';
+import { getLocationPlaceIdsByEntity } from '../location';
+import {
+  buildPathTraversabilityMap,
+  buildTraversablePlaceGraph,
+  findShortestRoutes,
+} from '../reachability';
+import {
+  buildRequirementTree,
+  evaluateEntityAvailability,
+  getThresholdSatisfiedCounts,
+  isObjectiveCompletable,
+  type AvailabilityResult,
+} from '../requirements';
+import {
+  getSnapshotStatus,
+  loadEvaluationSnapshot,
+  type EvaluationSnapshot,
+} from './loadEvaluationSnapshot';
+
+/**
+ * Everything derived from a playthrough's state, computed together from one
+ * snapshot and shared by the Loom, map, Oracle, and lists.
+ */
+export interface PlaythroughEvaluation {
+  /** The snapshot the evaluation was computed from. */
+  snapshot: EvaluationSnapshot;
+  /** Requirement availability of every quest, insight, item, person, place, and path. */
+  availabilityById: Map<string, AvailabilityResult>;
+  /** Satisfied member counts of at-least ("N of M") requirement groups, by group ID. */
+  thresholdSatisfiedCounts: Map<string, number>;
+  /** Whether each path can be traversed (opened, or restricted with requirements met). */
+  traversableByPathId: Map<PathId, boolean>;
+  /** Places reachable from the current position (empty without one). */
+  reachablePlaceIds: Set<PlaceId>;
+  /** Location places by typed entity ID (entities without a location are absent). */
+  locationPlaceIdsByEntity: Map<string, PlaceId[]>;
+  /** Entities with unmet requirements or located only at unreachable places. */
+  unavailableEntityIds: Set<string>;
+  /** Entities "completed" or resolved for visual purposes (see isCompletedStatus). */
+  completedEntityIds: Set<string>;
+  /** Completable objective indexes by quest ID. */
+  completableObjectiveIndexes: Map<string, Set<number>>;
+  /** What can be done next, for the Oracle. */
+  actionableEntities: ActionableEntity[];
+  /** IDs of the actionable entities (Loom and map emphasis). */
+  actionableEntityIds: Set<string>;
+  /** Thread IDs on shortest routes to actionable entities (Loom edge emphasis). */
+  actionableRouteEdgeIds: Set<string>;
+}
+
+/**
+ * Evaluates a snapshot in one pass without further loading: requirement
+ * availability and "N of M" group progress, path traversability, reachability, location-aware
+ * availability, completion, objective completability, and the actionable
+ * sets.
+ *
+ * @param snapshot - The playthrough's evaluation snapshot.
+ * @returns The evaluation.
+ */
+export function evaluatePlaythrough(
+  snapshot: EvaluationSnapshot
+): PlaythroughEvaluation {
+  const getStatus = (id: string) => getSnapshotStatus(snapshot, id);
+
+  // Requirements and locations are game-level; movement may be per playthrough.
+  const gameThreads = snapshot.threads.filter((t) => t.playthroughId == null);
+  const requirementThreadsBySource = new Map<string, Thread[]>();
+  for (const thread of gameThreads) {
+    if (getThreadSubtype(thread) !== ThreadSubtype.REQUIRES) continue;
+    const list = requirementThreadsBySource.get(thread.sourceId) ?? [];
+    list.push(thread);
+    requirementThreadsBySource.set(thread.sourceId, list);
+  }
+
+  const entityIds = [
+    ...snapshot.quests,
+    ...snapshot.insights,
+    ...snapshot.items,
+    ...snapshot.persons,
+    ...snapshot.places,
+    ...snapshot.paths,
+  ].map((e) => e.id);
+  const availabilityById = new Map(
+    entityIds.map((id) => [
+      id,
+      evaluateEntityAvailability(
+        requirementThreadsBySource.get(id) ?? [],
+        getStatus
+      ),
+    ])
+  );
+
+  const thresholdSatisfiedCounts = new Map<string, number>();
+  for (const threads of requirementThreadsBySource.values()) {
+    const counts = getThresholdSatisfiedCounts(
+      buildRequirementTree(threads),
+      getStatus
+    );
+    for (const [groupId, count] of counts) {
+      thresholdSatisfiedCounts.set(groupId, count);
+    }
+  }
+
+  const traversableByPathId = buildPathTraversabilityMap(
+    snapshot.paths,
+    snapshot.pathStatusById,
+    (pathId) => availabilityById.get(pathId)?.available ?? true
+  );
+  const routes = findShortestRoutes(
+    snapshot.currentPositionPlaceId,
+    buildTraversablePlaceGraph(
+      new Set(snapshot.places.map((p) => p.id)),
+      snapshot.threads,
+      traversableByPathId
+    )
+  );
+  const reachablePlaceIds = new Set(routes.keys());
+
+  // Unavailable: requirements unmet, or every location place unreachable
+  // (a place is located at itself).
+  const locationPlaceIdsByEntity = getLocationPlaceIdsByEntity(gameThreads);
+  const unavailableEntityIds = new Set<string>();
+  for (const [id, availability] of availabilityById) {
+    const placeIds =
+      getEntityTypeFromId(id) === EntityType.PLACE
+        ? [id as PlaceId]
+        : (locationPlaceIdsByEntity.get(id) ?? []);
+    if (
+      !availability.available ||
+      (placeIds.length > 0 && !placeIds.some((p) => reachablePlaceIds.has(p)))
+    ) {
+      unavailableEntityIds.add(id);
+    }
+  }
+
+  const completedEntityIds = new Set<string>();
+  const entityTypes: [EntityType, { id: string }[]][] = [
+    [EntityType.QUEST, snapshot.quests],
+    [EntityType.INSIGHT, snapshot.insights],
+    [EntityType.ITEM, snapshot.items],
+    [EntityType.PERSON, snapshot.persons],
+  ];
+  for (const [entityType, entities] of entityTypes) {
+    for (const { id } of entities) {
+      const status = getStatus(id);
+      if (status !== null && isCompletedStatus(entityType, status)) {
+        completedEntityIds.add(id);
+      }
+    }
+  }
+
+  const completableObjectiveIndexes = new Map<string, Set<number>>();
+  for (const quest of snapshot.quests) {
+    const indexes = new Set<number>();
+    quest.objectives.forEach((objective, i) => {
+      const status = objective.entityId ? getStatus(objective.entityId) : null;
+      if (isObjectiveCompletable(objective, status)) indexes.add(i);
+    });
+    completableObjectiveIndexes.set(quest.id, indexes);
+  }
+
+  const actionableEntities = findActionableEntities(
+    snapshot,
+    availabilityById,
+    unavailableEntityIds,
+    completableObjectiveIndexes
+  );
+  const actionableEntityIds = new Set(
+    actionableEntities.map((e) => e.entityId)
+  );
+
+  return {
+    snapshot,
+    availabilityById,
+    thresholdSatisfiedCounts,
+    traversableByPathId,
+    reachablePlaceIds,
+    locationPlaceIdsByEntity,
+    unavailableEntityIds,
+    completedEntityIds,
+    completableObjectiveIndexes,
+    actionableEntities,
+    actionableEntityIds,
+    actionableRouteEdgeIds: findActionableRouteEdgeIds(
+      snapshot,
+      routes,
+      locationPlaceIdsByEntity,
+      actionableEntityIds
+    ),
+  };
+}
+
+/**
+ * Loads a playthrough's snapshot and evaluates it.
+ *
+ * @param gameId - The game ID.
+ * @param playthroughId - The playthrough ID.
+ * @returns The evaluation.
+ * @throws Error when the playthrough does not exist.
+ */
+export async function loadPlaythroughEvaluation(
+  gameId: GameId,
+  playthroughId: PlaythroughId
+): Promise<PlaythroughEvaluation> {
+  return evaluatePlaythrough(
+    await loadEvaluationSnapshot(gameId, playthroughId)
+  );
+}
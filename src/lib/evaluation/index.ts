@@ -0,0 +1,17 @@
+/**
+ * Batch evaluation: one snapshot of a playthrough's entities, threads,
+ * statuses, and discovery, evaluated once into availability, reachability,
+ * completion, and actionable sets.
+ */
+
+export type { PlaythroughEvaluation } from './evaluatePlaythrough';
+export {
+  evaluatePlaythrough,
+  loadPlaythroughEvaluation,
+} from './evaluatePlaythrough';
+export type { EvaluationSnapshot } from './loadEvaluationSnapshot';
+export {
+  getSnapshotEntityName,
+  getSnapshotStatus,
+  loadEvaluationSnapshot,
+} from './loadEvaluationSnapshot';
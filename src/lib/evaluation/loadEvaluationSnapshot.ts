@@ -0,0 +1,174 @@
+import type { GameId, PlaceId, PlaythroughId } from '../../types/ids';
+import type { Insight } from '../../types/Insight';
+import type { Item } from '../../types/Item';
+import type { Path } from '../../types/Path';
+import type { PathStatus } from '../../types/PathStatus';
+import type { Person } from '../../types/Person';
+import type { Place } from '../../types/Place';
+import type { Quest } from '../../types/Quest';
+import type { QuestProgress } from '../../types/QuestProgress';
+import type { Thread } from '../../types/Thread';
+import {
+  entityDiscoveryRepository,
+  insightRepository,
+  itemRepository,
+  pathRepository,
+  personRepository,
+  placeRepository,
+  playthroughRepository,
+  questRepository,
+  threadRepository,
+} from '../repositories';
+
+/**
+ * Everything evaluation reads for one playthrough of a game, loaded at once:
+ * entities, threads, statuses, and discovery.
+ */
+export interface EvaluationSnapshot {
+  /** The game ID. */
+  gameId: GameId;
+  /** The playthrough ID. */
+  playthroughId: PlaythroughId;
+  /** The playthrough's current position, or null when unset. */
+  currentPositionPlaceId: PlaceId | null;
+  /** Quests of the game. */
+  quests: Quest[];
+  /** Insights of the game. */
+  insights: Insight[];
+  /** Items of the game. */
+  items: Item[];
+  /** People of the game. */
+  persons: Person[];
+  /** Places of the game. */
+  places: Place[];
+  /** Paths of the game. */
+  paths: Path[];
+  /** Game-level and playthrough threads. */
+  threads: Thread[];
+  /** Status of quests, insights, items, and people by typed ID; absent when unset. */
+  statusById: Map<string, number>;
+  /** Path status by path ID; absent when unset (restricted). */
+  pathStatusById: Map<string, PathStatus>;
+  /** Quest progress by quest ID (completed objectives). */
+  questProgressById: Map<string, QuestProgress>;
+  /** Entities with a discovery record marking them undiscovered. */
+  undiscoveredIds: Set<string>;
+  /** Display names by typed entity ID. */
+  nameById: Map<string, string>;
+}
+
+/**
+ * Loads the evaluation snapshot of a playthrough: one query per table, no
+ * per-entity lookups.
+ *
+ * @param gameId - The game ID.
+ * @param playthroughId - The playthrough ID.
+ * @returns The snapshot.
+ * @throws Error when the playthrough does not exist.
+ */
+export async function loadEvaluationSnapshot(
+  gameId: GameId,
+  playthroughId: PlaythroughId
+): Promise<EvaluationSnapshot> {
+  const [
+    playthrough,
+    quests,
+    insights,
+    items,
+    persons,
+    places,
+    paths,
+    threads,
+    questProgress,
+    insightProgress,
+    itemState,
+    personProgress,
+    pathProgress,
+    discovery,
+  ] = await Promise.all([
+    playthroughRepository.getById(playthroughId),
+    questRepository.getByGameId(gameId),
+    insightRepository.getByGameId(gameId),
+    itemRepository.getByGameId(gameId),
+    personRepository.getByGameId(gameId),
+    placeRepository.getByGameId(gameId),
+    pathRepository.getByGameId(gameId),
+    threadRepository.getByGameId(gameId, playthroughId),
+    questRepository.getAllProgressForPlaythrough(playthroughId),
+    insightRepository.getAllProgressForPlaythrough(playthroughId),
+    itemRepository.getAllStateForPlaythrough(playthroughId),
+    personRepository.getAllProgressForPlaythrough(playthroughId),
+    pathRepository.getAllProgressForPlaythrough(playthroughId),
+    entityDiscoveryRepository.getAllForPlaythrough(playthroughId),
+  ]);
+  if (!playthrough) {
+    throw new Error('Playthrough not found.');
+  }
+
+  const statusById = new Map<string, number>([
+    ...questProgress.map((p) => [p.questId, p.status] as const),
+    ...insightProgress.map((p) => [p.insightId, p.status] as const),
+    ...itemState.map((s) => [s.itemId, s.status] as const),
+    ...personProgress.map((p) => [p.personId, p.status] as const),
+  ]);
+
+  const nameById = new Map<string, string>([
+    ...quests.map((q) => [q.id, q.title] as const),
+    ...insights.map((i) => [i.id, i.title] as const),
+    ...items.map((i) => [i.id, i.name] as const),
+    ...persons.map((p) => [p.id, p.name] as const),
+    ...places.map((p) => [p.id, p.name] as const),
+    ...paths.map((p) => [p.id, p.name] as const),
+  ]);
+
+  return {
+    gameId,
+    playthroughId,
+    currentPositionPlaceId:
+      (playthrough.currentPositionPlaceId as PlaceId | null) ?? null,
+    quests,
+    insights,
+    items,
+    persons,
+    places,
+    paths,
+    threads,
+    statusById,
+    pathStatusById: new Map(pathProgress.map((p) => [p.pathId, p.status])),
+    questProgressById: new Map(questProgress.map((p) => [p.questId, p])),
+    undiscoveredIds: new Set(
+      discovery.filter((d) => !d.discovered).map((d) => d.entityId)
+    ),
+    nameById,
+  };
+}
+
+/**
+ * Returns an entity's display name from a snapshot (like getEntityDisplayName,
+ * without a lookup): the ID itself when the entity is unknown.
+ *
+ * @param snapshot - The snapshot.
+ * @param entityId - Typed entity ID.
+ * @returns The display name.
+ */
+export function getSnapshotEntityName(
+  snapshot: EvaluationSnapshot,
+  entityId: string
+): string {
+  return snapshot.nameById.get(entityId) ?? entityId;
+}
+
+/**
+ * Returns an entity's current status from a snapshot, as
+ * getPlaythroughStatusForEntity would (null for paths and types without status).
+ *
+ * @param snapshot - The snapshot.
+ * @param entityId - Typed entity ID.
+ * @returns Status enum value, or null when unset or unsupported.
+ */
+export function getSnapshotStatus(
+  snapshot: EvaluationSnapshot,
+  entityId: string
+): number | null {
+  return snapshot.statusById.get(entityId) ?? null;
+}
@@ -0,0 +1,32 @@
+import { setCurrentTransactionOrigin, type ChangeSet } from '../changes';
+import { db } from '../db';
+
+/**
+ * Reverts or reapplies a captured change set in one transaction.
+ * Undo walks the changes backwards restoring each `before` row (or deleting
+ * rows that were created); redo walks forwards writing each `after` row (or
+ * deleting rows that were deleted). The resulting change set is tagged
+ * `history` so it is not recorded as a new edit.
+ *
+ * @param changeSet - The change set to revert or reapply.
+ * @param direction - 'undo' to revert, 'redo' to reapply.
+ */
+export async function applyChangeSet(
+  changeSet: ChangeSet,
+  direction: 'undo' | 'redo'
+): Promise<void> {
+  const ordered =
+    direction === 'undo' ? [...changeSet.changes].reverse() : changeSet.changes;
+  await db.transaction('rw', db.tables, async () => {
+    setCurrentTransactionOrigin('history');
+    for (const change of ordered) {
+      const row = direction === 'undo' ? change.before : change.after;
+      const table = db.table(change.table);
+      if (row) {
+        await table.put(structuredClone(row));
+      } else {
+        await table.delete(change.key);
+      }
+    }
+  });
+}
@@ -0,0 +1 @@
+export { applyChangeSet } from './applyChangeSet';
@@ -0,0 +1,135 @@
+/** Encodings an image can be re-encoded to. */
+export type CompressedImageFormat = 'image/webp' | 'image/jpeg';
+
+/**
+ * Options for processing an uploaded image before it is stored.
+ */
+export interface ImageCompressionOptions {
+  /** When false, images are stored as uploaded. */
+  enabled: boolean;
+  /** Longest side in pixels after downscaling; null keeps the original size. */
+  maxDimension: number | null;
+  /** Encoding of the processed image. */
+  format: CompressedImageFormat;
+  /** Encoder quality from 0 to 1. */
+  quality: number;
+}
+
+/**
+ * Defaults: off, so uploads are stored as uploaded until the user opts in;
+ * when enabled, WebP at 0.85 with the longest side at most 4096 px.
+ */
+export const DEFAULT_IMAGE_COMPRESSION_OPTIONS: ImageCompressionOptions = {
+  enabled: false,
+  maxDimension: 4096,
+  format: 'image/webp',
+  quality: 0.85,
+};
+
+/**
+ * Returns the size of an image scaled down so its longest side fits
+ * maxDimension, preserving the aspect ratio (images are never enlarged).
+ * Map markers are stored in logical 0–1 coordinates, so keeping the aspect
+ * ratio keeps them aligned after resizing.
+ *
+ * @param width - Original width in pixels.
+ * @param height - Original height in pixels.
+ * @param maxDimension - Maximum longest side, or null for no limit.
+ * @returns Target width and height in pixels.
+ */
+export function getScaledDimensions(
+  width: number,
+  height: number,
+  maxDimension: number | null
+): { width: number; height: number } {
+  const longest = Math.max(width, height);
+  if (maxDimension === null || longest <= maxDimension) {
+    return { width, height };
+  }
+  const scale = maxDimension / longest;
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+/**
+ * Encodes a canvas to a blob of the given type.
+ *
+ * @param canvas - Canvas holding the image.
+ * @param type - MIME type to encode to.
+ * @param quality - Encoder quality from 0 to 1.
+ * @returns The encoded blob (the browser may fall back to PNG).
+ */
+async function encodeCanvas(
+  canvas: OffscreenCanvas | HTMLCanvasElement,
+  type: string,
+  quality: number
+): Promise<Blob> {
+  if (canvas instanceof HTMLCanvasElement) {
+    return new Promise((resolve, reject) => {
+      canvas.toBlob(
+        (blob) =>
+          blob ? resolve(blob) : reject(new Error('Failed to encode image.')),
+        type,
+        quality
+      );
+    });
+  }
+  return canvas.convertToBlob({ type, quality });
+}
+
+/**
+ * Downscales and re-encodes an image according to the options. Falls back to
+ * JPEG when the browser cannot encode WebP. The original is returned when
+ * compression is disabled, the image cannot be decoded, or the processed image
+ * would not be smaller.
+ *
+ * @param image - Uploaded image.
+ * @param options - Compression options.
+ * @returns The processed image, or the original.
+ */
+export async function compressImage(
+  image: Blob,
+  options: ImageCompressionOptions
+): Promise<Blob> {
+  if (!options.enabled) return image;
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(image);
+  } catch {
+    return image;
+  }
+
+  try {
+    const { width, height } = getScaledDimensions(
+      bitmap.width,
+      bitmap.height,
+      options.maxDimension
+    );
+    const canvas =
+      typeof OffscreenCanvas !== 'undefined'
+        ? new OffscreenCanvas(width, height)
+        : Object.assign(document.createElement('canvas'), { width, height });
+    const context = canvas.getContext('2d') as
+      | OffscreenCanvasRenderingContext2D
+      | CanvasRenderingContext2D
+      | null;
+    if (!context) return image;
+    if (options.format === 'image/jpeg') {
+      // JPEG has no alpha; flatten transparency onto white instead of black.
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, width, height);
+    }
+    context.drawImage(bitmap, 0, 0, width, height);
+
+    let encoded = await encodeCanvas(canvas, options.format, options.quality);
+    if (encoded.type !== options.format) {
+      encoded = await encodeCanvas(canvas, 'image/jpeg', options.quality);
+    }
+    return encoded.size < image.size ? encoded : image;
+  } finally {
+    bitmap.close();
+  }
+}
@@ -0,0 +1,11 @@
+export type {
+  CompressedImageFormat,
+  ImageCompressionOptions,
+} from './compressImage';
+export type { RecompressMapImagesResult } from './recompressMapImages';
+export {
+  compressImage,
+  DEFAULT_IMAGE_COMPRESSION_OPTIONS,
+  getScaledDimensions,
+} from './compressImage';
+export { recompressMapImages } from './recompressMapImages';
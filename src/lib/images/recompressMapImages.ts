@@ -0,0 +1,71 @@
+import type { GameId, MapId } from '../../types/ids';
+import { mapRepository, transactionRunner } from '../repositories';
+import { compressImage, type ImageCompressionOptions } from './compressImage';
+
+/**
+ * Result of re-compressing a game's map images.
+ */
+export interface RecompressMapImagesResult {
+  /** Uploaded map images examined. */
+  imageCount: number;
+  /** Images replaced by a smaller version. */
+  recompressedCount: number;
+  /** Total bytes before. */
+  bytesBefore: number;
+  /** Total bytes after. */
+  bytesAfter: number;
+}
+
+/**
+ * Re-compresses every uploaded map image of a game with the given options.
+ * An image is only replaced when the result is smaller. All images are
+ * processed first and then written in one transaction, so the operation is
+ * a single undo step. Markers use logical coordinates and stay aligned.
+ *
+ * @param gameId - Game whose map images to process.
+ * @param options - Compression options (enabled is ignored; always compresses).
+ * @returns Counts and byte totals.
+ */
+export async function recompressMapImages(
+  gameId: GameId,
+  options: ImageCompressionOptions
+): Promise<RecompressMapImagesResult> {
+  const maps = await mapRepository.getByGameId(gameId);
+  const replacements: { mapId: MapId; image: Blob }[] = [];
+  let imageCount = 0;
+  let bytesBefore = 0;
+  let bytesAfter = 0;
+
+  for (const map of maps) {
+    if (map.imageSourceType !== 'upload') continue;
+    const original = await mapRepository.getImageBlob(map.id);
+    if (!original) continue;
+    imageCount++;
+    bytesBefore += original.size;
+    const compressed = await compressImage(original, {
+      ...options,
+      enabled: true,
+    });
+    if (compressed.size < original.size) {
+      replacements.push({ mapId: map.id, image: compressed });
+      bytesAfter += compressed.size;
+    } else {
+      bytesAfter += original.size;
+    }
+  }
+
+  if (replacements.length > 0) {
+    await transactionRunner.run(async () => {
+      for (const { mapId, image } of replacements) {
+        await mapRepository.setImageFromUpload(mapId, image);
+      }
+    });
+  }
+
+  return {
+    imageCount,
+    recompressedCount: replacements.length,
+    bytesBefore,
+    bytesAfter,
+  };
+}
@@ -0,0 +1,43 @@
+/**
+ * Category of an integrity problem found in the local database.
+ * - `orphanedGameRow`: a game-scoped row (entity, thread, marker, blob, playthrough) whose game is gone.
+ * - `orphanedPlaythroughRow`: a playthrough-scoped row whose playthrough is gone.
+ * - `orphanedProgress`: a progress/state/discovery row whose entity is gone.
+ * - `orphanedThread`: a thread whose source or target entity is gone.
+ * - `orphanedMarker`: a map marker whose map or entity is gone.
+ * - `orphanedMapImage`: an uploaded image blob whose map is gone or no longer uses it.
+ * - `danglingTopLevelPlace`: a map whose topLevelPlaceId points at a missing place.
+ * - `danglingCurrentPosition`: a playthrough whose current position points at a missing place.
+ */
+export type IntegrityIssueKind =
+  | 'orphanedGameRow'
+  | 'orphanedPlaythroughRow'
+  | 'orphanedProgress'
+  | 'orphanedThread'
+  | 'orphanedMarker'
+  | 'orphanedMapImage'
+  | 'danglingTopLevelPlace'
+  | 'danglingCurrentPosition';
+
+/**
+ * A single integrity problem and how it is repaired: orphaned rows are deleted,
+ * dangling references are cleared.
+ *
+ * @property kind - Category of the problem
+ * @property table - Name of the database table holding the row
+ * @property rowId - Primary key of the affected row
+ * @property missingId - The ID that could not be resolved
+ * @property message - Human-readable description for display
+ */
+export interface IntegrityIssue {
+  /** Category of the problem. */
+  kind: IntegrityIssueKind;
+  /** Name of the database table holding the row. */
+  table: string;
+  /** Primary key of the affected row. */
+  rowId: string;
+  /** The ID that could not be resolved. */
+  missingId: string;
+  /** Human-readable description for display. */
+  message: string;
+}
@@ -0,0 +1,13 @@
+import { db } from '../db';
+import type { IntegrityIssue } from './IntegrityIssue';
+import { scanIntegrity } from './scanIntegrity';
+
+/**
+ * Scans the whole local database for orphaned rows and dangling references
+ * without changing anything.
+ *
+ * @returns All integrity problems found; empty when the database is consistent.
+ */
+export async function auditIntegrity(): Promise<IntegrityIssue[]> {
+  return db.transaction('r', db.tables, () => scanIntegrity());
+}
@@ -0,0 +1,3 @@
+export type { IntegrityIssue, IntegrityIssueKind } from './IntegrityIssue';
+export { auditIntegrity } from './auditIntegrity';
+export { repairIntegrity } from './repairIntegrity';
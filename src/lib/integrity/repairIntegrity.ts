@@ -0,0 +1,51 @@
+import { setCurrentTransactionOrigin } from '../changes';
+import { db } from '../db';
+import type { IntegrityIssue } from './IntegrityIssue';
+import { scanIntegrity } from './scanIntegrity';
+
+/** Upper bound on scan/fix passes; each pass can only orphan rows one level deeper. */
+const MAX_REPAIR_PASSES = 5;
+
+/**
+ * Applies the fix for one issue: orphaned rows are deleted and dangling
+ * references are cleared.
+ *
+ * @param issue - The issue to fix.
+ */
+async function applyRepair(issue: IntegrityIssue): Promise<void> {
+  switch (issue.kind) {
+    case 'danglingTopLevelPlace':
+      await db.maps.update(issue.rowId, { topLevelPlaceId: undefined });
+      return;
+    case 'danglingCurrentPosition':
+      await db.playthroughs.update(issue.rowId, {
+        currentPositionPlaceId: null,
+      });
+      return;
+    default:
+      await db.table(issue.table).delete(issue.rowId);
+  }
+}
+
+/**
+ * Re-scans the database and repairs every integrity problem in one transaction.
+ * Repeats until a scan comes back clean, since deleting an orphan can orphan
+ * rows that depended on it (e.g. progress for an entity of a deleted game).
+ *
+ * @returns The issues that were repaired.
+ */
+export async function repairIntegrity(): Promise<IntegrityIssue[]> {
+  return db.transaction('rw', db.tables, async () => {
+    setCurrentTransactionOrigin('system');
+    const repaired: IntegrityIssue[] = [];
+    for (let pass = 0; pass < MAX_REPAIR_PASSES; pass++) {
+      const issues = await scanIntegrity();
+      if (issues.length === 0) break;
+      for (const issue of issues) {
+        await applyRepair(issue);
+      }
+      repaired.push(...issues);
+    }
+    return repaired;
+  });
+}
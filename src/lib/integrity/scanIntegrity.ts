@@ -0,0 +1,333 @@
+import { db } from '../db';
+import type { IntegrityIssue } from './IntegrityIssue';
+
+/**
+ * Reads every table and returns all integrity problems. Call inside a
+ * transaction covering all tables (see auditIntegrity / repairIntegrity) so the
+ * scan sees a consistent state.
+ *
+ * @returns All problems found, in table order.
+ */
+export async function scanIntegrity(): Promise<IntegrityIssue[]> {
+  const [
+    games,
+    playthroughs,
+    quests,
+    insights,
+    items,
+    persons,
+    places,
+    paths,
+    maps,
+    threads,
+    questProgress,
+    insightProgress,
+    itemState,
+    personProgress,
+    pathProgress,
+    entityDiscovery,
+    mapMarkers,
+    mapImages,
+    activityLog,
+    checkpoints,
+  ] = await Promise.all([
+    db.games.toArray(),
+    db.playthroughs.toArray(),
+    db.quests.toArray(),
+    db.insights.toArray(),
+    db.items.toArray(),
+    db.persons.toArray(),
+    db.places.toArray(),
+    db.paths.toArray(),
+    db.maps.toArray(),
+    db.threads.toArray(),
+    db.questProgress.toArray(),
+    db.insightProgress.toArray(),
+    db.itemState.toArray(),
+    db.personProgress.toArray(),
+    db.pathProgress.toArray(),
+    db.entityDiscovery.toArray(),
+    db.mapMarkers.toArray(),
+    // Only keys are needed; avoid loading image binaries.
+    db.mapImages.toArray((rows) =>
+      rows.map(({ id, gameId, mapId }) => ({ id, gameId, mapId }))
+    ),
+    db.activityLog.toArray(),
+    // Only the owner is needed; avoid loading the stored snapshots.
+    db.playthroughCheckpoints.toArray((rows) =>
+      rows.map(({ id, playthroughId }) => ({ id, playthroughId }))
+    ),
+  ]);
+
+  const issues: IntegrityIssue[] = [];
+  const gameIds = new Set(games.map((g) => g.id));
+  const playthroughIds = new Set(playthroughs.map((p) => p.id));
+  const ids = (rows: { id: string }[]) => new Set(rows.map((r) => r.id));
+  const questIds = ids(quests);
+  const insightIds = ids(insights);
+  const itemIds = ids(items);
+  const personIds = ids(persons);
+  const placeIds = ids(places);
+  const pathIds = ids(paths);
+  const mapIds = ids(maps);
+  const entityIds = new Set<string>([
+    ...questIds,
+    ...insightIds,
+    ...itemIds,
+    ...personIds,
+    ...placeIds,
+    ...pathIds,
+    ...mapIds,
+    ...threads.map((t) => t.id),
+  ]);
+
+  /** Rows already reported for deletion, so each row is reported once. */
+  const reported = new Set<string>();
+  const report = (issue: Omit<IntegrityIssue, 'message'>, message: string) => {
+    const key = `${issue.table}:${issue.rowId}`;
+    if (reported.has(key)) return;
+    reported.add(key);
+    issues.push({ ...issue, message });
+  };
+
+  const gameScoped: [string, { id: string; gameId: string }[]][] = [
+    ['playthroughs', playthroughs],
+    ['quests', quests],
+    ['insights', insights],
+    ['items', items],
+    ['persons', persons],
+    ['places', places],
+    ['paths', paths],
+    ['maps', maps],
+    ['threads', threads],
+    ['mapMarkers', mapMarkers],
+    ['mapImages', mapImages],
+  ];
+  for (const [table, rows] of gameScoped) {
+    for (const row of rows) {
+      if (!gameIds.has(row.gameId)) {
+        report(
+          {
+            kind: 'orphanedGameRow',
+            table,
+            rowId: row.id,
+            missingId: row.gameId,
+          },
+          `Row in ${table} belongs to a deleted game.`
+        );
+      }
+    }
+  }
+
+  /** Progress-like rows normalized to the entity they track. */
+  const progressTables: {
+    table: string;
+    label: string;
+    known: Set<string>;
+    rows: { id: string; playthroughId: string; entityId: string }[];
+  }[] = [
+    {
+      table: 'questProgress',
+      label: 'quest',
+      known: questIds,
+      rows: questProgress.map((r) => ({ ...r, entityId: r.questId })),
+    },
+    {
+      table: 'insightProgress',
+      label: 'insight',
+      known: insightIds,
+      rows: insightProgress.map((r) => ({ ...r, entityId: r.insightId })),
+    },
+    {
+      table: 'itemState',
+      label: 'item',
+      known: itemIds,
+      rows: itemState.map((r) => ({ ...r, entityId: r.itemId })),
+    },
+    {
+      table: 'personProgress',
+      label: 'person',
+      known: personIds,
+      rows: personProgress.map((r) => ({ ...r, entityId: r.personId })),
+    },
+    {
+      table: 'pathProgress',
+      label: 'path',
+      known: pathIds,
+      rows: pathProgress.map((r) => ({ ...r, entityId: r.pathId })),
+    },
+    {
+      table: 'entityDiscovery',
+      label: 'entity',
+      known: entityIds,
+      rows: entityDiscovery,
+    },
+  ];
+  for (const { table, label, known, rows } of progressTables) {
+    for (const row of rows) {
+      if (!playthroughIds.has(row.playthroughId)) {
+        report(
+          {
+            kind: 'orphanedPlaythroughRow',
+            table,
+            rowId: row.id,
+            missingId: row.playthroughId,
+          },
+          `Row in ${table} belongs to a deleted playthrough.`
+        );
+      } else if (!known.has(row.entityId)) {
+        report(
+          {
+            kind: 'orphanedProgress',
+            table,
+            rowId: row.id,
+            missingId: row.entityId,
+          },
+          `Progress in ${table} refers to a deleted ${label}.`
+        );
+      }
+    }
+  }
+
+  for (const thread of threads) {
+    if (thread.playthroughId && !playthroughIds.has(thread.playthroughId)) {
+      report(
+        {
+          kind: 'orphanedPlaythroughRow',
+          table: 'threads',
+          rowId: thread.id,
+          missingId: thread.playthroughId,
+        },
+        `Thread "${thread.label || thread.id}" belongs to a deleted playthrough.`
+      );
+      continue;
+    }
+    for (const endpoint of [thread.sourceId, thread.targetId]) {
+      if (!entityIds.has(endpoint)) {
+        report(
+          {
+            kind: 'orphanedThread',
+            table: 'threads',
+            rowId: thread.id,
+            missingId: endpoint,
+          },
+          `Thread "${thread.label || thread.id}" points at a deleted entity.`
+        );
+      }
+    }
+  }
+
+  // Log entries may outlive the entities they mention; only the playthrough matters.
+  for (const entry of activityLog) {
+    if (!playthroughIds.has(entry.playthroughId)) {
+      report(
+        {
+          kind: 'orphanedPlaythroughRow',
+          table: 'activityLog',
+          rowId: entry.id,
+          missingId: entry.playthroughId,
+        },
+        'Activity log entry belongs to a deleted playthrough.'
+      );
+    }
+  }
+
+  for (const checkpoint of checkpoints) {
+    if (!playthroughIds.has(checkpoint.playthroughId)) {
+      report(
+        {
+          kind: 'orphanedPlaythroughRow',
+          table: 'playthroughCheckpoints',
+          rowId: checkpoint.id,
+          missingId: checkpoint.playthroughId,
+        },
+        'Checkpoint belongs to a deleted playthrough.'
+      );
+    }
+  }
+
+  for (const marker of mapMarkers) {
+    if (marker.playthroughId && !playthroughIds.has(marker.playthroughId)) {
+      report(
+        {
+          kind: 'orphanedPlaythroughRow',
+          table: 'mapMarkers',
+          rowId: marker.id,
+          missingId: marker.playthroughId,
+        },
+        'Map marker belongs to a deleted playthrough.'
+      );
+      continue;
+    }
+    if (!mapIds.has(marker.mapId)) {
+      report(
+        {
+          kind: 'orphanedMarker',
+          table: 'mapMarkers',
+          rowId: marker.id,
+          missingId: marker.mapId,
+        },
+        'Map marker is on a deleted map.'
+      );
+    } else if (!entityIds.has(marker.entityId)) {
+      report(
+        {
+          kind: 'orphanedMarker',
+          table: 'mapMarkers',
+          rowId: marker.id,
+          missingId: marker.entityId,
+        },
+        'Map marker points at a deleted entity.'
+      );
+    }
+  }
+
+  const mapsById = new Map(maps.map((m) => [m.id, m]));
+  for (const image of mapImages) {
+    const map = mapsById.get(image.mapId);
+    if (!map || map.imageBlobId !== image.id) {
+      report(
+        {
+          kind: 'orphanedMapImage',
+          table: 'mapImages',
+          rowId: image.id,
+          missingId: image.mapId,
+        },
+        map
+          ? `Stored image is no longer used by map "${map.name}".`
+          : 'Stored image belongs to a deleted map.'
+      );
+    }
+  }
+
+  for (const map of maps) {
+    if (map.topLevelPlaceId && !placeIds.has(map.topLevelPlaceId)) {
+      report(
+        {
+          kind: 'danglingTopLevelPlace',
+          table: 'maps',
+          rowId: map.id,
+          missingId: map.topLevelPlaceId,
+        },
+        `Map "${map.name}" has a top-level place that no longer exists.`
+      );
+    }
+  }
+
+  for (const playthrough of playthroughs) {
+    const positionId = playthrough.currentPositionPlaceId;
+    if (positionId && !placeIds.has(positionId)) {
+      report(
+        {
+          kind: 'danglingCurrentPosition',
+          table: 'playthroughs',
+          rowId: playthrough.id,
+          missingId: positionId,
+        },
+        `Playthrough "${playthrough.name || playthrough.id}" is positioned at a place that no longer exists.`
+      );
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,6 @@
+/**
+ * Live data: re-run queries when committed changes touch the tables they read.
+ */
+
+export type { TableObservation } from './observeTables';
+export { observeTables } from './observeTables';
@@ -0,0 +1,75 @@
+import { subscribeToChanges } from '../changes';
+
+/**
+ * Handle returned by observeTables.
+ */
+export interface TableObservation {
+  /** Runs the task now (serialized with change-triggered runs). */
+  refresh: () => void;
+  /** Stops observing; a run in progress finishes but is not repeated. */
+  stop: () => void;
+}
+
+/**
+ * Runs a task whenever a committed change set touches one of the given tables.
+ * Runs never overlap: a change arriving mid-run schedules exactly one more run
+ * after it, so the last run always sees the latest data. Change sets
+ * committed in the same tick are coalesced into one run.
+ *
+ * @param tables - Table names to watch, or null to watch every table.
+ * @param task - Work to run (e.g. re-query and update state).
+ * @returns Handle to trigger a run or stop observing.
+ */
+export function observeTables(
+  tables: readonly string[] | null,
+  task: () => Promise<void> | void
+): TableObservation {
+  let isRunning = false;
+  let isPending = false;
+  let isScheduled = false;
+  let isStopped = false;
+
+  const run = async () => {
+    if (isStopped) return;
+    if (isRunning) {
+      isPending = true;
+      return;
+    }
+    isRunning = true;
+    try {
+      do {
+        isPending = false;
+        try {
+          await task();
+        } catch {
+          // Tasks report their own errors; keep observing.
+        }
+      } while (isPending && !isStopped);
+    } finally {
+      isRunning = false;
+    }
+  };
+
+  const unsubscribe = subscribeToChanges((changeSet) => {
+    if (
+      tables !== null &&
+      !changeSet.changes.some((change) => tables.includes(change.table))
+    ) {
+      return;
+    }
+    if (isScheduled) return;
+    isScheduled = true;
+    setTimeout(() => {
+      isScheduled = false;
+      void run();
+    }, 0);
+  });
+
+  return {
+    refresh: () => void run(),
+    stop: () => {
+      isStopped = true;
+      unsubscribe();
+    },
+  };
+}
@@ -1,10 +1,42 @@
 import { EntityType } from '../../types/EntityType';
 import type { GameId, PlaceId } from '../../types/ids';
+import type { Thread } from '../../types/Thread';
 import { getEntityTypeFromId } from '../../utils/parseEntityId';
 import { getThreadSubtype } from '../../utils/threadSubtype';
 import { ThreadSubtype } from '../../types/ThreadSubtype';
 import { threadRepository } from '../repositories';
 
+/**
+ * Returns the Place IDs at which each entity is located, from LOCATION threads
+ * (entity to Place, either direction). Places themselves are not included
+ * (a Place is "at itself").
+ *
+ * @param threads - Game-level threads of the game.
+ * @returns Map of typed entity ID to its location place IDs (entities without a location are absent).
+ */
+export function getLocationPlaceIdsByEntity(
+  threads: Thread[]
+): Map<string, PlaceId[]> {
+  const placeIdsByEntity = new Map<string, PlaceId[]>();
+
+  for (const t of threads) {
+    if (getThreadSubtype(t) !== ThreadSubtype.LOCATION) continue;
+    const sourceIsPlace = getEntityTypeFromId(t.sourceId) === EntityType.PLACE;
+    const targetIsPlace = getEntityTypeFromId(t.targetId) === EntityType.PLACE;
+    if (sourceIsPlace === targetIsPlace) continue;
+
+    const entityId = sourceIsPlace ? t.targetId : t.sourceId;
+    const placeId = (sourceIsPlace ? t.sourceId : t.targetId) as PlaceId;
+    const placeIds = placeIdsByEntity.get(entityId) ?? [];
+    if (!placeIds.includes(placeId)) {
+      placeIds.push(placeId);
+      placeIdsByEntity.set(entityId, placeIds);
+    }
+  }
+
+  return placeIdsByEntity;
+}
+
 /**
  * Returns all Place IDs at which the given entity is located.
  * Location is represented by LOCATION threads (entity to Place); a Place is "at itself".
@@ -25,24 +57,5 @@ export async function getEntityLocationPlaceIds(
   }
 
   const threads = await threadRepository.getByGameId(gameId, null);
-  const placeIds: PlaceId[] = [];
-  const seen = new Set<string>();
-
-  for (const t of threads) {
-    if (getThreadSubtype(t) !== ThreadSubtype.LOCATION) continue;
-    const isSource = t.sourceId === entityId;
-    const isTarget = t.targetId === entityId;
-    if (!isSource && !isTarget) continue;
-
-    const otherId = isSource ? t.targetId : t.sourceId;
-    const otherType = getEntityTypeFromId(otherId);
-    if (otherType !== EntityType.PLACE) continue;
-
-    if (!seen.has(otherId)) {
-      seen.add(otherId);
-      placeIds.push(otherId as PlaceId);
-    }
-  }
-
-  return placeIds;
+  return getLocationPlaceIdsByEntity(threads).get(entityId) ?? [];
 }
@@ -1,2 +1,5 @@
-export { getEntityLocationPlaceIds } from './entityLocation';
+export {
+  getEntityLocationPlaceIds,
+  getLocationPlaceIdsByEntity,
+} from './entityLocation';
 export { syncLocationThreads } from './syncLocationThreads';
@@ -1,11 +1,12 @@
 import type { GameId, PlaceId } from '../../types/ids';
 import { ThreadSubtype } from '../../types/ThreadSubtype';
 import { getThreadSubtype } from '../../utils/threadSubtype';
-import { threadRepository } from '../repositories';
+import { threadRepository, transactionRunner } from '../repositories';
 
 /**
  * Syncs LOCATION threads for an entity: removes all existing LOCATION threads,
- * then creates one per place ID. Call after create/update of the entity.
+ * then creates one per place ID, in one transaction so a failure never leaves
+ * the entity without its locations. Call after create/update of the entity.
  *
  * @param gameId - Game ID.
  * @param entityId - Entity ID.
@@ -16,23 +17,25 @@ export async function syncLocationThreads(
   entityId: string,
   placeIds: PlaceId[]
 ): Promise<void> {
-  const threads = await threadRepository.getThreadsFromEntity(
-    gameId,
-    entityId,
-    null
-  );
-  const locationThreads = threads.filter(
-    (t) => getThreadSubtype(t) === ThreadSubtype.LOCATION
-  );
-  for (const t of locationThreads) {
-    await threadRepository.delete(t.id);
-  }
-  for (const placeId of placeIds) {
-    await threadRepository.create({
+  await transactionRunner.run(async () => {
+    const threads = await threadRepository.getThreadsFromEntity(
       gameId,
-      sourceId: entityId,
-      targetId: placeId,
-      subtype: ThreadSubtype.LOCATION,
-    });
-  }
+      entityId,
+      null
+    );
+    const locationThreads = threads.filter(
+      (t) => getThreadSubtype(t) === ThreadSubtype.LOCATION
+    );
+    for (const t of locationThreads) {
+      await threadRepository.delete(t.id);
+    }
+    for (const placeId of placeIds) {
+      await threadRepository.create({
+        gameId,
+        sourceId: entityId,
+        targetId: placeId,
+        subtype: ThreadSubtype.LOCATION,
+      });
+    }
+  });
 }
@@ -0,0 +1,488 @@
+import { EntityType } from '../../types/EntityType';
+import type { PathId, PlaceId } from '../../types/ids';
+import { PathStatus } from '../../types/PathStatus';
+import { RequirementGroupOperator } from '../../types/RequirementGroupOperator';
+import type { Thread } from '../../types/Thread';
+import { ThreadSubtype } from '../../types/ThreadSubtype';
+import { getEntityTypeFromId } from '../../utils/parseEntityId';
+import { getThreadSubtype } from '../../utils/threadSubtype';
+import {
+  getSnapshotEntityName,
+  getSnapshotStatus,
+  type PlaythroughEvaluation,
+} from '../evaluation';
+import {
+  buildRequirementTree,
+  DEFAULT_ALLOWED_STATUSES,
+  evaluateRequirementTree,
+  type RequirementGroupNode,
+  type RequirementTreeNode,
+} from '../requirements';
+
+/**
+ * Why an entity is locked: its unmet requirements and unreachable location,
+ * with locked requirement targets and blocked paths explained in turn.
+ */
+export interface EntityLockExplanation {
+  /** Typed entity ID. */
+  entityId: string;
+  /** Display name. */
+  name: string;
+  /** True when the requirements are unmet or no location is reachable. */
+  locked: boolean;
+  /**
+   * True when the entity is explained elsewhere in the tree (shared or circular
+   * dependency); requirements and location are then not repeated.
+   */
+  repeated: boolean;
+  /** Root requirement group with only the members that keep it unmet, or null when met. */
+  requirements: RequirementGroupExplanation | null;
+  /** Why no location place is reachable, or null when reachable or unplaced. */
+  location: LocationExplanation | null;
+}
+
+/**
+ * A requirement group in an explanation, with the members responsible for its result.
+ */
+export interface RequirementGroupExplanation {
+  kind: 'group';
+  /** Group ID, or null for the entity's top-level requirements. */
+  groupId: string | null;
+  /** How the group combines its members. */
+  operator: RequirementGroupOperator;
+  /** For AtLeast: how many members must be satisfied. */
+  minSatisfied?: number;
+  /** How many members are satisfied. */
+  satisfiedCount: number;
+  /**
+   * True when the group is satisfied but must not be (inside a none-of group);
+   * children are then the members that satisfy it.
+   */
+  forbidden: boolean;
+  /** Members responsible for the group's result. */
+  children: RequirementExplanationNode[];
+}
+
+/**
+ * A single requirement in an explanation.
+ */
+export interface RequirementExplanation {
+  kind: 'requirement';
+  /** The requirement thread ID. */
+  threadId: string;
+  /** Typed entity ID of the target. */
+  targetId: string;
+  /** Display name of the target. */
+  targetName: string;
+  /** Entity type of the target. */
+  targetType: EntityType;
+  /** Target's current playthrough status, or null when it has none yet. */
+  currentStatus: number | null;
+  /** Statuses that satisfy the requirement. */
+  allowedStatuses: number[];
+  /**
+   * True when the requirement is satisfied but must not be (inside a none-of
+   * group): the target is in a status it must not be in.
+   */
+  forbidden: boolean;
+  /** Why the target is locked, when it is (unmet requirements only). */
+  target: EntityLockExplanation | null;
+}
+
+/** A node of a requirement explanation. */
+export type RequirementExplanationNode =
+  | RequirementGroupExplanation
+  | RequirementExplanation;
+
+/**
+ * Why none of an entity's location places is reachable.
+ */
+export interface LocationExplanation {
+  /** True when the playthrough has no current position, so nothing is reachable. */
+  noCurrentPosition: boolean;
+  /** The entity's location places (none reachable). */
+  places: { placeId: PlaceId; name: string }[];
+  /** IDs of the threads placing the entity at those places. */
+  locationThreadIds: string[];
+  /**
+   * Paths that are not traversable between the reachable places and the
+   * unreachable area containing the location. Empty with a current position
+   * means the area is not connected to the reachable places at all.
+   */
+  blockedPaths: BlockedPathExplanation[];
+}
+
+/**
+ * A path that keeps places unreachable.
+ */
+export interface BlockedPathExplanation {
+  /** Typed path ID. */
+  pathId: PathId;
+  /** Display name. */
+  name: string;
+  /** Path status for the playthrough (Restricted or Blocked). */
+  status: PathStatus;
+  /** IDs of the threads connecting the path to places. */
+  connectionThreadIds: string[];
+  /** Why a restricted path's requirements are unmet; null for blocked paths. */
+  path: EntityLockExplanation | null;
+}
+
+/**
+ * Playthrough evaluation shared by one explanation.
+ */
+interface ExplanationContext {
+  evaluation: PlaythroughEvaluation;
+  /** Game-level REQUIRES threads by source entity ID. */
+  requirementThreadsBySource: Map<string, Thread[]>;
+  /** Entities already explained (each is expanded once). */
+  explained: Set<string>;
+}
+
+/**
+ * Returns an entity's display name from the context.
+ *
+ * @param context - Explanation context.
+ * @param entityId - Typed entity ID.
+ * @returns The display name.
+ */
+function nameOf(context: ExplanationContext, entityId: string): string {
+  return getSnapshotEntityName(context.evaluation.snapshot, entityId);
+}
+
+/**
+ * Returns an entity's location places (a place is located at itself).
+ *
+ * @param context - Explanation context.
+ * @param entityId - Typed entity ID.
+ * @returns The location place IDs.
+ */
+function getLocationPlaceIds(
+  context: ExplanationContext,
+  entityId: string
+): PlaceId[] {
+  if (getEntityTypeFromId(entityId) === EntityType.PLACE) {
+    return [entityId as PlaceId];
+  }
+  return context.evaluation.locationPlaceIdsByEntity.get(entityId) ?? [];
+}
+
+/**
+ * Explains a requirement tree node. In normal mode the node is unmet and the
+ * explanation holds the members that keep it unmet; in forbidden mode the
+ * node is met inside a none-of group and holds the members that satisfy it.
+ *
+ * @param context - Explanation context.
+ * @param node - Requirement or group.
+ * @param forbidden - True for forbidden mode.
+ * @returns The explanation.
+ */
+function explainRequirementNode(
+  context: ExplanationContext,
+  node: RequirementTreeNode,
+  forbidden: boolean
+): RequirementExplanationNode {
+  if (node.kind === 'requirement') {
+    const { thread } = node;
+    const targetType = getEntityTypeFromId(thread.targetId) as EntityType;
+    const locked =
+      !forbidden &&
+      context.evaluation.unavailableEntityIds.has(thread.targetId);
+    return {
+      kind: 'requirement',
+      threadId: thread.id,
+      targetId: thread.targetId,
+      targetName: nameOf(context, thread.targetId),
+      targetType,
+      currentStatus: getSnapshotStatus(
+        context.evaluation.snapshot,
+        thread.targetId
+      ),
+      allowedStatuses:
+        thread.requirementAllowedStatuses != null &&
+        thread.requirementAllowedStatuses.length > 0
+          ? thread.requirementAllowedStatuses
+          : DEFAULT_ALLOWED_STATUSES[targetType],
+      forbidden,
+      target: locked ? explainEntity(context, thread.targetId) : null,
+    };
+  }
+  return explainRequirementGroup(context, node, forbidden);
+}
+
+/**
+ * Explains a requirement group (see explainRequirementNode).
+ *
+ * @param context - Explanation context.
+ * @param group - The group.
+ * @param forbidden - True for forbidden mode.
+ * @returns The explanation.
+ */
+function explainRequirementGroup(
+  context: ExplanationContext,
+  group: RequirementGroupNode,
+  forbidden: boolean
+): RequirementGroupExplanation {
+  // Members of a none-of group are explained in the opposite mode.
+  const childForbidden =
+    forbidden !== (group.operator === RequirementGroupOperator.NONE_OF);
+  const getStatus = (id: string) =>
+    getSnapshotStatus(context.evaluation.snapshot, id);
+  const children: RequirementExplanationNode[] = [];
+  let satisfiedCount = 0;
+  for (const child of group.children) {
+    const result = evaluateRequirementTree(child, getStatus);
+    if (result.satisfied) satisfiedCount += 1;
+    if (result.satisfied === null || result.satisfied !== childForbidden) {
+      continue;
+    }
+    children.push(explainRequirementNode(context, child, childForbidden));
+  }
+  return {
+    kind: 'group',
+    groupId: group.id,
+    operator: group.operator,
+    ...(group.minSatisfied != null && { minSatisfied: group.minSatisfied }),
+    satisfiedCount,
+    forbidden,
+    children,
+  };
+}
+
+/**
+ * Explains why none of an entity's location places is reachable.
+ *
+ * @param context - Explanation context.
+ * @param entityId - Typed entity ID.
+ * @param placeIds - The entity's location places (none reachable).
+ * @returns The explanation.
+ */
+function explainLocation(
+  context: ExplanationContext,
+  entityId: string,
+  placeIds: PlaceId[]
+): LocationExplanation {
+  const { snapshot, reachablePlaceIds, traversableByPathId } =
+    context.evaluation;
+  const places = placeIds.map((placeId) => ({
+    placeId,
+    name: nameOf(context, placeId),
+  }));
+  const locationThreadIds = snapshot.threads
+    .filter(
+      (t) =>
+        getThreadSubtype(t) === ThreadSubtype.LOCATION &&
+        ((t.sourceId === entityId && placeIds.includes(t.targetId)) ||
+          (t.targetId === entityId && placeIds.includes(t.sourceId)))
+    )
+    .map((t) => t.id);
+  if (snapshot.currentPositionPlaceId === null) {
+    return {
+      noCurrentPosition: true,
+      places,
+      locationThreadIds,
+      blockedPaths: [],
+    };
+  }
+
+  // Place connections regardless of traversability.
+  const linkedPlaces = new Map<PlaceId, Set<PlaceId>>();
+  const pathPlaces = new Map<PathId, Set<PlaceId>>();
+  const pathThreadIds = new Map<PathId, string[]>();
+  const link = (a: PlaceId, b: PlaceId) => {
+    if (!linkedPlaces.has(a)) linkedPlaces.set(a, new Set());
+    linkedPlaces.get(a)?.add(b);
+  };
+  for (const t of snapshot.threads) {
+    const subtype = getThreadSubtype(t);
+    const sourceType = getEntityTypeFromId(t.sourceId);
+    const targetType = getEntityTypeFromId(t.targetId);
+    if (
+      subtype === ThreadSubtype.DIRECT_PLACE_LINK &&
+      sourceType === EntityType.PLACE &&
+      targetType === EntityType.PLACE
+    ) {
+      link(t.sourceId as PlaceId, t.targetId as PlaceId);
+      link(t.targetId as PlaceId, t.sourceId as PlaceId);
+    } else if (subtype === ThreadSubtype.CONNECTS_PATH) {
+      const isSourcePath = sourceType === EntityType.PATH;
+      if (!isSourcePath && targetType !== EntityType.PATH) continue;
+      const pathId = (isSourcePath ? t.sourceId : t.targetId) as PathId;
+      const placeId = (isSourcePath ? t.targetId : t.sourceId) as PlaceId;
+      if (!pathPlaces.has(pathId)) pathPlaces.set(pathId, new Set());
+      pathPlaces.get(pathId)?.add(placeId);
+      pathThreadIds.set(pathId, [...(pathThreadIds.get(pathId) ?? []), t.id]);
+    }
+  }
+  for (const endpoints of pathPlaces.values()) {
+    for (const a of endpoints) {
+      for (const b of endpoints) {
+        if (a !== b) link(a, b);
+      }
+    }
+  }
+
+  // The unreachable area around the location places.
+  const area = new Set<PlaceId>(placeIds);
+  const queue = [...placeIds];
+  while (queue.length > 0) {
+    const current = queue.shift() as PlaceId;
+    for (const next of linkedPlaces.get(current) ?? []) {
+      if (area.has(next) || reachablePlaceIds.has(next)) continue;
+      area.add(next);
+      queue.push(next);
+    }
+  }
+
+  // Paths that would connect the area to the reachable places.
+  const blockedPaths: BlockedPathExplanation[] = [];
+  for (const [pathId, endpoints] of pathPlaces) {
+    if (traversableByPathId.get(pathId)) continue;
+    const endpointList = [...endpoints];
+    if (
+      !endpointList.some((id) => area.has(id)) ||
+      !endpointList.some((id) => reachablePlaceIds.has(id))
+    ) {
+      continue;
+    }
+    const status = snapshot.pathStatusById.get(pathId) ?? PathStatus.RESTRICTED;
+    blockedPaths.push({
+      pathId,
+      name: nameOf(context, pathId),
+      status,
+      connectionThreadIds: pathThreadIds.get(pathId) ?? [],
+      path:
+        status === PathStatus.RESTRICTED
+          ? explainEntity(context, pathId)
+          : null,
+    });
+  }
+  return { noCurrentPosition: false, places, locationThreadIds, blockedPaths };
+}
+
+/**
+ * Explains an entity, expanding it only the first time it is seen.
+ *
+ * @param context - Explanation context.
+ * @param entityId - Typed entity ID.
+ * @returns The explanation.
+ */
+function explainEntity(
+  context: ExplanationContext,
+  entityId: string
+): EntityLockExplanation {
+  const name = nameOf(context, entityId);
+  if (context.explained.has(entityId)) {
+    return {
+      entityId,
+      name,
+      locked: true,
+      repeated: true,
+      requirements: null,
+      location: null,
+    };
+  }
+  context.explained.add(entityId);
+
+  const requirements =
+    context.evaluation.availabilityById.get(entityId)?.available === false
+      ? explainRequirementGroup(
+          context,
+          buildRequirementTree(
+            context.requirementThreadsBySource.get(entityId) ?? []
+          ),
+          false
+        )
+      : null;
+
+  const placeIds = getLocationPlaceIds(context, entityId);
+  const location =
+    placeIds.length > 0 &&
+    !placeIds.some((id) => context.evaluation.reachablePlaceIds.has(id))
+      ? explainLocation(context, entityId, placeIds)
+      : null;
+
+  return {
+    entityId,
+    name,
+    locked: requirements !== null || location !== null,
+    repeated: false,
+    requirements,
+    location,
+  };
+}
+
+/**
+ * Explains why an entity is locked in an evaluated playthrough: unmet
+ * requirements (expanding locked targets), unreachable locations, and the
+ * paths that keep them unreachable (expanding restricted paths), recursively.
+ * Each entity is expanded once; later mentions are marked repeated.
+ *
+ * @param evaluation - The shared evaluation of the playthrough.
+ * @param entityId - Typed ID of the entity to explain.
+ * @returns The explanation tree (locked is false when the entity is available).
+ */
+export function explainEntityLock(
+  evaluation: PlaythroughEvaluation,
+  entityId: string
+): EntityLockExplanation {
+  const requirementThreadsBySource = new Map<string, Thread[]>();
+  for (const thread of evaluation.snapshot.threads) {
+    if (
+      thread.playthroughId != null ||
+      getThreadSubtype(thread) !== ThreadSubtype.REQUIRES
+    ) {
+      continue;
+    }
+    const list = requirementThreadsBySource.get(thread.sourceId) ?? [];
+    list.push(thread);
+    requirementThreadsBySource.set(thread.sourceId, list);
+  }
+  return explainEntity(
+    { evaluation, requirementThreadsBySource, explained: new Set() },
+    entityId
+  );
+}
+
+/**
+ * Returns the entities and threads involved in an explanation, for
+ * highlighting it as a subgraph.
+ *
+ * @param explanation - The explanation tree.
+ * @returns Typed entity IDs and thread IDs.
+ */
+export function getLockExplanationSubgraph(
+  explanation: EntityLockExplanation
+): {
+  entityIds: Set<string>;
+  threadIds: Set<string>;
+} {
+  const entityIds = new Set<string>();
+  const threadIds = new Set<string>();
+
+  const visitEntity = (entity: EntityLockExplanation) => {
+    entityIds.add(entity.entityId);
+    if (entity.requirements) visitRequirement(entity.requirements);
+    if (entity.location) {
+      entity.location.places.forEach((p) => entityIds.add(p.placeId));
+      entity.location.locationThreadIds.forEach((id) => threadIds.add(id));
+      for (const blocked of entity.location.blockedPaths) {
+        entityIds.add(blocked.pathId);
+        blocked.connectionThreadIds.forEach((id) => threadIds.add(id));
+        if (blocked.path) visitEntity(blocked.path);
+      }
+    }
+  };
+  const visitRequirement = (node: RequirementExplanationNode) => {
+    if (node.kind === 'group') {
+      node.children.forEach(visitRequirement);
+      return;
+    }
+    threadIds.add(node.threadId);
+    entityIds.add(node.targetId);
+    if (node.target) visitEntity(node.target);
+  };
+
+  visitEntity(explanation);
+  return { entityIds, threadIds };
+}
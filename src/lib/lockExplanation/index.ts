@@ -0,0 +1,17 @@
+/**
+ * "Why locked?" explanations: recursive trees of unmet requirements,
+ * unreachable locations, and blocked paths.
+ */
+
+export type {
+  BlockedPathExplanation,
+  EntityLockExplanation,
+  LocationExplanation,
+  RequirementExplanation,
+  RequirementExplanationNode,
+  RequirementGroupExplanation,
+} from './explainEntityLock';
+export {
+  explainEntityLock,
+  getLockExplanationSubgraph,
+} from './explainEntityLock';
@@ -0,0 +1,46 @@
+import type { ActivityLogEntry } from '../../types/ActivityLogEntry';
+import type { PlaythroughId } from '../../types/ids';
+import { generateId } from '../../utils/generateId';
+import type {
+  CreateActivityLogEntryInput,
+  IActivityLogRepository,
+} from '../repositories';
+import type { MemoryStore } from './MemoryStore';
+
+/**
+ * In-memory implementation of IActivityLogRepository.
+ */
+export class MemoryActivityLogRepository implements IActivityLogRepository {
+  /**
+   * @param store - Tables of this data source.
+   */
+  constructor(private readonly store: MemoryStore) {}
+
+  async getByPlaythroughId(
+    playthroughId: PlaythroughId,
+    entityId?: string
+  ): Promise<ActivityLogEntry[]> {
+    const rows = this.store.activityLog.where(
+      (row) =>
+        row.playthroughId === playthroughId &&
+        (!entityId || row.entityId === entityId)
+    );
+    return rows.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  }
+
+  async append(input: CreateActivityLogEntryInput): Promise<ActivityLogEntry> {
+    const entry: ActivityLogEntry = {
+      ...input,
+      id: generateId(),
+      timestamp: new Date().toISOString(),
+    };
+    this.store.activityLog.add(entry);
+    return entry;
+  }
+
+  async deleteByPlaythroughId(playthroughId: PlaythroughId): Promise<void> {
+    this.store.activityLog.deleteWhere(
+      (row) => row.playthroughId === playthroughId
+    );
+  }
+}
@@ -0,0 +1,105 @@
+import { ActivityKind } from '../../types/ActivityKind';
+import { DiscoveryEntityType } from '../../types/DiscoveryEntityType';
+import type { EntityDiscovery } from '../../types/EntityDiscovery';
+import { EntityType } from '../../types/EntityType';
+import type { PlaythroughId } from '../../types/ids';
+import { generateId } from '../../utils/generateId';
+import type { EntityDiscoveryRow } from '../db';
+import type { DataSource, IEntityDiscoveryRepository } from '../repositories';
+import type { MemoryStore } from './MemoryStore';
+
+/** Entity type logged for each discoverable entity type. */
+const DISCOVERY_ENTITY_TYPES: Record<DiscoveryEntityType, EntityType> = {
+  [DiscoveryEntityType.PERSON]: EntityType.PERSON,
+  [DiscoveryEntityType.PLACE]: EntityType.PLACE,
+  [DiscoveryEntityType.MAP]: EntityType.MAP,
+};
+
+/**
+ * In-memory implementation of IEntityDiscoveryRepository. Discovery changes
+ * are logged like the Dexie repository.
+ */
+export class MemoryEntityDiscoveryRepository implements IEntityDiscoveryRepository {
+  /**
+   * @param store - Tables of this data source.
+   * @param source - Sibling repositories (for logging).
+   */
+  constructor(
+    private readonly store: MemoryStore,
+    private readonly source: DataSource
+  ) {}
+
+  async getDiscovery(
+    playthroughId: PlaythroughId,
+    entityType: DiscoveryEntityType,
+    entityId: string
+  ): Promise<EntityDiscovery | undefined> {
+    const row = this.store.entityDiscovery.first(
+      (r) =>
+        r.playthroughId === playthroughId &&
+        r.entityType === entityType &&
+        r.entityId === entityId
+    );
+    return row ? toEntityDiscovery(row) : undefined;
+  }
+
+  async getAllForPlaythrough(
+    playthroughId: PlaythroughId
+  ): Promise<EntityDiscovery[]> {
+    return this.store.entityDiscovery
+      .where((r) => r.playthroughId === playthroughId)
+      .map(toEntityDiscovery);
+  }
+
+  async upsert(discovery: EntityDiscovery): Promise<void> {
+    const row: EntityDiscoveryRow = {
+      id: discovery.id ?? generateId(),
+      playthroughId: discovery.playthroughId,
+      entityType: discovery.entityType,
+      entityId: discovery.entityId,
+      discovered: discovery.discovered,
+    };
+    await this.store.run(async () => {
+      const previous = discovery.id
+        ? this.store.entityDiscovery.get(discovery.id)
+        : this.store.entityDiscovery.first(
+            (r) =>
+              r.playthroughId === discovery.playthroughId &&
+              r.entityType === discovery.entityType &&
+              r.entityId === discovery.entityId
+          );
+      this.store.entityDiscovery.put(row);
+      if (previous?.discovered === row.discovered) return;
+      await this.source.activityLogRepository.append({
+        playthroughId: row.playthroughId,
+        kind: ActivityKind.DISCOVERY_CHANGE,
+        entityType: DISCOVERY_ENTITY_TYPES[row.entityType],
+        entityId: row.entityId,
+        previousValue: previous?.discovered ?? null,
+        newValue: row.discovered,
+      });
+    });
+  }
+
+  async deleteByPlaythroughId(playthroughId: PlaythroughId): Promise<void> {
+    this.store.entityDiscovery.deleteWhere(
+      (r) => r.playthroughId === playthroughId
+    );
+  }
+}
+
+/**
+ * Maps a stored discovery row to the domain type.
+ *
+ * @param row - Stored row.
+ * @returns Entity discovery.
+ */
+function toEntityDiscovery(row: EntityDiscoveryRow): EntityDiscovery {
+  return {
+    id: row.id,
+    playthroughId: row.playthroughId,
+    entityType: row.entityType,
+    entityId: row.entityId,
+    discovered: row.discovered,
+  };
+}
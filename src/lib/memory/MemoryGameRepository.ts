@@ -0,0 +1,63 @@
+import type { Game } from '../../types/Game';
+import type { GameId } from '../../types/ids';
+import { generateId } from '../../utils/generateId';
+import type {
+  CreateGameInput,
+  DataSource,
+  IGameRepository,
+} from '../repositories';
+import type { MemoryStore } from './MemoryStore';
+
+/**
+ * In-memory implementation of IGameRepository. Deleting a game cascades like
+ * the Dexie repository.
+ */
+export class MemoryGameRepository implements IGameRepository {
+  /**
+   * @param store - Tables of this data source.
+   * @param source - Sibling repositories (for cascades).
+   */
+  constructor(
+    private readonly store: MemoryStore,
+    private readonly source: DataSource
+  ) {}
+
+  async getAll(): Promise<Game[]> {
+    return this.store.games.toArray();
+  }
+
+  async getById(id: GameId): Promise<Game | undefined> {
+    return this.store.games.get(id);
+  }
+
+  async create(input: CreateGameInput): Promise<Game> {
+    const now = new Date().toISOString();
+    const game: Game = {
+      id: generateId() as GameId,
+      name: input.name,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.store.games.add(game);
+    return game;
+  }
+
+  async update(game: Game): Promise<void> {
+    this.store.games.put({ ...game, updatedAt: new Date().toISOString() });
+  }
+
+  async delete(id: GameId): Promise<void> {
+    await this.store.run(async () => {
+      await this.source.playthroughRepository.deleteByGameId(id);
+      await this.source.questRepository.deleteByGameId(id);
+      await this.source.insightRepository.deleteByGameId(id);
+      await this.source.itemRepository.deleteByGameId(id);
+      await this.source.personRepository.deleteByGameId(id);
+      await this.source.placeRepository.deleteByGameId(id);
+      await this.source.pathRepository.deleteByGameId(id);
+      await this.source.mapRepository.deleteByGameId(id);
+      await this.source.threadRepository.deleteByGameId(id);
+      this.store.games.delete(id);
+    });
+  }
+}
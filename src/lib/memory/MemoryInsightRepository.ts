@@ -0,0 +1,149 @@
+import { EntityType } from '../../types/EntityType';
+import type { Insight } from '../../types/Insight';
+import type { InsightProgress } from '../../types/InsightProgress';
+import type { GameId, InsightId, PlaythroughId } from '../../types/ids';
+import { generateEntityId, generateId } from '../../utils/generateId';
+import type { InsightProgressRow } from '../db';
+import type {
+  CreateInsightInput,
+  DataSource,
+  IInsightRepository,
+} from '../repositories';
+import { logStatusChange } from '../repositories/logStatusChange';
+import type { MemoryStore } from './MemoryStore';
+
+/**
+ * In-memory implementation of IInsightRepository. Deletes cascade to threads
+ * and markers; status changes are logged like the Dexie repository.
+ */
+export class MemoryInsightRepository implements IInsightRepository {
+  /**
+   * @param store - Tables of this data source.
+   * @param source - Sibling repositories (for cascades and logging).
+   */
+  constructor(
+    private readonly store: MemoryStore,
+    private readonly source: DataSource
+  ) {}
+
+  async getByGameId(gameId: GameId): Promise<Insight[]> {
+    return this.store.insights.where((i) => i.gameId === gameId);
+  }
+
+  async getById(id: InsightId): Promise<Insight | undefined> {
+    return this.store.insights.get(id);
+  }
+
+  async create(input: CreateInsightInput): Promise<Insight> {
+    const now = new Date().toISOString();
+    const insight: Insight = {
+      id: generateEntityId(EntityType.INSIGHT) as InsightId,
+      gameId: input.gameId,
+      title: input.title,
+      content: input.content,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.store.insights.add(insight);
+    return insight;
+  }
+
+  async update(insight: Insight): Promise<void> {
+    this.store.insights.put({
+      ...insight,
+      updatedAt: new Date().toISOString(),
+    });
+  }
+
+  async delete(id: InsightId): Promise<void> {
+    await this.store.run(async () => {
+      const insight = this.store.insights.get(id);
+      if (insight) {
+        await this.source.threadRepository.deleteThreadsInvolvingEntity(
+          insight.gameId,
+          id
+        );
+        await this.source.mapMarkerRepository.deleteByEntity(
+          insight.gameId,
+          EntityType.INSIGHT,
+          id
+        );
+      }
+      this.store.insights.delete(id);
+    });
+  }
+
+  async deleteByGameId(gameId: GameId): Promise<void> {
+    this.store.insights.deleteWhere((i) => i.gameId === gameId);
+  }
+
+  async getProgress(
+    playthroughId: PlaythroughId,
+    insightId: InsightId
+  ): Promise<InsightProgress | undefined> {
+    const row = this.store.insightProgress.first(
+      (r) => r.playthroughId === playthroughId && r.insightId === insightId
+    );
+    return row ? toInsightProgress(row) : undefined;
+  }
+
+  async getAllProgressForPlaythrough(
+    playthroughId: PlaythroughId
+  ): Promise<InsightProgress[]> {
+    return this.store.insightProgress
+      .where((r) => r.playthroughId === playthroughId)
+      .map(toInsightProgress);
+  }
+
+  async upsertProgress(progress: InsightProgress): Promise<void> {
+    const row: InsightProgressRow = {
+      id: progress.id ?? generateId(),
+      playthroughId: progress.playthroughId,
+      insightId: progress.insightId,
+      status: progress.status,
+      notes: progress.notes,
+    };
+    await this.store.run(async () => {
+      const previous = progress.id
+        ? this.store.insightProgress.get(progress.id)
+        : this.store.insightProgress.first(
+            (r) =>
+              r.playthroughId === progress.playthroughId &&
+              r.insightId === progress.insightId
+          );
+      this.store.insightProgress.put(row);
+      await logStatusChange(
+        row.playthroughId,
+        EntityType.INSIGHT,
+        row.insightId,
+        previous?.status,
+        row.status,
+        this.source.activityLogRepository
+      );
+    });
+  }
+
+  async deleteProgressByPlaythroughId(
+    playthroughId: PlaythroughId
+  ): Promise<void> {
+    this.store.insightProgress.deleteWhere(
+      (r) => r.playthroughId === playthroughId
+    );
+  }
+}
+
+/**
+ * Maps a stored progress row to the domain type.
+ *
+ * @param row - Stored row.
+ * @returns Insight progress.
+ */
+function toInsightProgress(row: InsightProgressRow): InsightProgress {
+  return {
+    id: row.id,
+    playthroughId: row.playthroughId,
+    insightId: row.insightId,
+    status: row.status,
+    notes: row.notes,
+  };
+}
@@ -0,0 +1,144 @@
+import { EntityType } from '../../types/EntityType';
+import type { Item } from '../../types/Item';
+import type { ItemState } from '../../types/ItemState';
+import type { GameId, ItemId, PlaythroughId } from '../../types/ids';
+import { generateEntityId, generateId } from '../../utils/generateId';
+import type { ItemStateRow } from '../db';
+import type {
+  CreateItemInput,
+  DataSource,
+  IItemRepository,
+} from '../repositories';
+import { logStatusChange } from '../repositories/logStatusChange';
+import type { MemoryStore } from './MemoryStore';
+
+/**
+ * In-memory implementation of IItemRepository. Deletes cascade to threads
+ * and markers; status changes are logged like the Dexie repository.
+ */
+export class MemoryItemRepository implements IItemRepository {
+  /**
+   * @param store - Tables of this data source.
+   * @param source - Sibling repositories (for cascades and logging).
+   */
+  constructor(
+    private readonly store: MemoryStore,
+    private readonly source: DataSource
+  ) {}
+
+  async getByGameId(gameId: GameId): Promise<Item[]> {
+    return this.store.items.where((i) => i.gameId === gameId);
+  }
+
+  async getById(id: ItemId): Promise<Item | undefined> {
+    return this.store.items.get(id);
+  }
+
+  async create(input: CreateItemInput): Promise<Item> {
+    const now = new Date().toISOString();
+    const item: Item = {
+      id: generateEntityId(EntityType.ITEM) as ItemId,
+      gameId: input.gameId,
+      name: input.name,
+      description: input.description ?? '',
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.store.items.add(item);
+    return item;
+  }
+
+  async update(item: Item): Promise<void> {
+    this.store.items.put({ ...item, updatedAt: new Date().toISOString() });
+  }
+
+  async delete(id: ItemId): Promise<void> {
+    await this.store.run(async () => {
+      const item = this.store.items.get(id);
+      if (item) {
+        await this.source.threadRepository.deleteThreadsInvolvingEntity(
+          item.gameId,
+          id
+        );
+        await this.source.mapMarkerRepository.deleteByEntity(
+          item.gameId,
+          EntityType.ITEM,
+          id
+        );
+      }
+      this.store.items.delete(id);
+    });
+  }
+
+  async deleteByGameId(gameId: GameId): Promise<void> {
+    this.store.items.deleteWhere((i) => i.gameId === gameId);
+  }
+
+  async getState(
+    playthroughId: PlaythroughId,
+    itemId: ItemId
+  ): Promise<ItemState | undefined> {
+    const row = this.store.itemState.first(
+      (r) => r.playthroughId === playthroughId && r.itemId === itemId
+    );
+    return row ? toItemState(row) : undefined;
+  }
+
+  async getAllStateForPlaythrough(
+    playthroughId: PlaythroughId
+  ): Promise<ItemState[]> {
+    return this.store.itemState
+      .where((r) => r.playthroughId === playthroughId)
+      .map(toItemState);
+  }
+
+  async upsertState(state: ItemState): Promise<void> {
+    const row: ItemStateRow = {
+      id: state.id ?? generateId(),
+      playthroughId: state.playthroughId,
+      itemId: state.itemId,
+      status: state.status,
+      notes: state.notes,
+    };
+    await this.store.run(async () => {
+      const previous = state.id
+        ? this.store.itemState.get(state.id)
+        : this.store.itemState.first(
+            (r) =>
+              r.playthroughId === state.playthroughId &&
+              r.itemId === state.itemId
+          );
+      this.store.itemState.put(row);
+      await logStatusChange(
+        row.playthroughId,
+        EntityType.ITEM,
+        row.itemId,
+        previous?.status,
+        row.status,
+        this.source.activityLogRepository
+      );
+    });
+  }
+
+  async deleteStateByPlaythroughId(
+    playthroughId: PlaythroughId
+  ): Promise<void> {
+    this.store.itemState.deleteWhere((r) => r.playthroughId === playthroughId);
+  }
+}
+
+/**
+ * Maps a stored state row to the domain type.
+ *
+ * @param row - Stored row.
+ * @returns Item state.
+ */
+function toItemState(row: ItemStateRow): ItemState {
+  return {
+    id: row.id,
+    playthroughId: row.playthroughId,
+    itemId: row.itemId,
+    status: row.status,
+    notes: row.notes,
+  };
+}
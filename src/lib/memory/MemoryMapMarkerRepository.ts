@@ -0,0 +1,131 @@
+import type {
+  EntityType,
+  GameId,
+  InsightId,
+  ItemId,
+  MapId,
+  PathId,
+  PersonId,
+  PlaceId,
+  PlaythroughId,
+  QuestId,
+} from '../../types';
+import { THREAD_ENDPOINT_ENTITY_TYPES } from '../../types/EntityType';
+import type { MapMarker } from '../../types/MapMarker';
+import { generateId } from '../../utils/generateId';
+import type {
+  CreateMapMarkerInput,
+  IMapMarkerRepository,
+} from '../repositories/IMapMarkerRepository';
+import type { MemoryStore } from './MemoryStore';
+
+/**
+ * Throws when a coordinate is not a finite number.
+ *
+ * @param value - Coordinate to check.
+ * @param fieldName - Field name for the error message.
+ * @throws Error when value is NaN or infinite.
+ */
+function assertFiniteNumber(value: number, fieldName: string): void {
+  if (!Number.isFinite(value)) {
+    throw new Error(`${fieldName} must be a finite number`);
+  }
+}
+
+/**
+ * In-memory implementation of IMapMarkerRepository, with the same validation
+ * and playthrough filtering as the Dexie repository.
+ */
+export class MemoryMapMarkerRepository implements IMapMarkerRepository {
+  /**
+   * @param store - Tables of this data source.
+   */
+  constructor(private readonly store: MemoryStore) {}
+
+  async getByMapId(
+    gameId: GameId,
+    mapId: MapId,
+    playthroughId?: PlaythroughId | null
+  ): Promise<MapMarker[]> {
+    const markers = this.store.mapMarkers.where(
+      (row) => row.gameId === gameId && row.mapId === mapId
+    );
+    if (!playthroughId) {
+      return markers;
+    }
+    return markers.filter(
+      (marker) =>
+        marker.playthroughId === undefined ||
+        marker.playthroughId === null ||
+        marker.playthroughId === playthroughId
+    );
+  }
+
+  async create(input: CreateMapMarkerInput): Promise<MapMarker> {
+    if (!THREAD_ENDPOINT_ENTITY_TYPES.includes(input.entityType)) {
+      throw new Error(
+        'Map markers can only reference eligible endpoint entities'
+      );
+    }
+
+    assertFiniteNumber(input.position.x, 'position.x');
+    assertFiniteNumber(input.position.y, 'position.y');
+
+    const now = new Date().toISOString();
+    const marker: MapMarker = {
+      id: generateId(),
+      gameId: input.gameId,
+      mapId: input.mapId,
+      playthroughId: input.playthroughId ?? undefined,
+      entityType: input.entityType,
+      entityId: input.entityId,
+      label: input.label?.trim() || undefined,
+      position: {
+        x: input.position.x,
+        y: input.position.y,
+      },
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.store.mapMarkers.add(marker);
+    return marker;
+  }
+
+  async update(marker: MapMarker): Promise<void> {
+    assertFiniteNumber(marker.position.x, 'position.x');
+    assertFiniteNumber(marker.position.y, 'position.y');
+    this.store.mapMarkers.put({
+      ...marker,
+      updatedAt: new Date().toISOString(),
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    this.store.mapMarkers.delete(id);
+  }
+
+  async deleteByMapId(gameId: GameId, mapId: MapId): Promise<void> {
+    this.store.mapMarkers.deleteWhere(
+      (row) => row.gameId === gameId && row.mapId === mapId
+    );
+  }
+
+  async deleteByEntity(
+    gameId: GameId,
+    entityType: EntityType,
+    entityId: QuestId | InsightId | ItemId | PersonId | PlaceId | PathId
+  ): Promise<void> {
+    this.store.mapMarkers.deleteWhere(
+      (row) =>
+        row.gameId === gameId &&
+        row.entityType === entityType &&
+        (row.entityId as string) === entityId
+    );
+  }
+
+  async deleteByPlaythroughId(playthroughId: PlaythroughId): Promise<void> {
+    this.store.mapMarkers.deleteWhere(
+      (row) => row.playthroughId === playthroughId
+    );
+  }
+}
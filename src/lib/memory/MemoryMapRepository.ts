@@ -0,0 +1,195 @@
+import { EntityType } from '../../types/EntityType';
+import type { Map } from '../../types/Map';
+import type { GameId, MapId } from '../../types/ids';
+import { generateEntityId, generateId } from '../../utils/generateId';
+import type {
+  CreateMapInput,
+  DataSource,
+  IMapRepository,
+  MapImageStorageUsage,
+} from '../repositories';
+import type { MemoryStore } from './MemoryStore';
+
+/**
+ * In-memory implementation of IMapRepository. Deleting a map removes its
+ * image, markers, threads, and the places scoped to it, like the Dexie
+ * repository.
+ */
+export class MemoryMapRepository implements IMapRepository {
+  /**
+   * @param store - Tables of this data source.
+   * @param source - Sibling repositories (for cascades).
+   */
+  constructor(
+    private readonly store: MemoryStore,
+    private readonly source: DataSource
+  ) {}
+
+  async getByGameId(gameId: GameId): Promise<Map[]> {
+    return this.store.maps.where((m) => m.gameId === gameId);
+  }
+
+  async getById(id: MapId): Promise<Map | undefined> {
+    return this.store.maps.get(id);
+  }
+
+  async create(input: CreateMapInput): Promise<Map> {
+    const now = new Date().toISOString();
+    const map: Map = {
+      id: generateEntityId(EntityType.MAP) as MapId,
+      gameId: input.gameId,
+      name: input.name,
+      imageSourceType: input.imageSourceType,
+      imageUrl: input.imageUrl ?? '',
+      imageBlobId: input.imageBlobId,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.store.maps.add(map);
+    return map;
+  }
+
+  async update(map: Map): Promise<void> {
+    this.store.maps.put({ ...map, updatedAt: new Date().toISOString() });
+  }
+
+  async delete(id: MapId): Promise<void> {
+    await this.store.run(async () => {
+      const map = this.store.maps.get(id);
+      if (map) {
+        if (map.imageSourceType === 'upload' && map.imageBlobId) {
+          this.store.mapImages.delete(map.imageBlobId);
+        }
+        await this.source.threadRepository.deleteThreadsInvolvingEntity(
+          map.gameId,
+          id
+        );
+        await this.source.mapMarkerRepository.deleteByMapId(map.gameId, id);
+
+        const scopedPlaces = this.store.places.where(
+          (place) => place.gameId === map.gameId && place.map === id
+        );
+        for (const place of scopedPlaces) {
+          await this.source.mapMarkerRepository.deleteByEntity(
+            map.gameId,
+            EntityType.PLACE,
+            place.id
+          );
+          await this.source.threadRepository.deleteThreadsInvolvingEntity(
+            place.gameId,
+            place.id
+          );
+          this.store.places.delete(place.id);
+        }
+      }
+      this.store.maps.delete(id);
+    });
+  }
+
+  async deleteByGameId(gameId: GameId): Promise<void> {
+    await this.store.run(async () => {
+      this.store.mapMarkers.deleteWhere((m) => m.gameId === gameId);
+      this.store.mapImages.deleteWhere((i) => i.gameId === gameId);
+      this.store.maps.deleteWhere((m) => m.gameId === gameId);
+    });
+  }
+
+  async setImageFromUrl(mapId: MapId, url: string): Promise<void> {
+    await this.store.run(async () => {
+      const map = this.store.maps.get(mapId);
+      if (!map) return;
+      if (map.imageSourceType === 'upload' && map.imageBlobId) {
+        this.store.mapImages.delete(map.imageBlobId);
+      }
+      this.store.maps.put({
+        ...map,
+        imageSourceType: 'url',
+        imageUrl: url,
+        imageBlobId: undefined,
+        updatedAt: new Date().toISOString(),
+      });
+    });
+  }
+
+  async setImageFromUpload(mapId: MapId, image: Blob): Promise<void> {
+    await this.store.run(async () => {
+      const map = this.store.maps.get(mapId);
+      if (!map) return;
+      if (map.imageSourceType === 'upload' && map.imageBlobId) {
+        this.store.mapImages.delete(map.imageBlobId);
+      }
+      const blobId = generateId();
+      this.store.mapImages.add({
+        id: blobId,
+        gameId: map.gameId,
+        mapId,
+        blob: image,
+        createdAt: new Date().toISOString(),
+      });
+      this.store.maps.put({
+        ...map,
+        imageSourceType: 'upload',
+        imageUrl: undefined,
+        imageBlobId: blobId,
+        updatedAt: new Date().toISOString(),
+      });
+    });
+  }
+
+  async getImageBlob(mapId: MapId): Promise<Blob | null> {
+    const map = this.store.maps.get(mapId);
+    if (!map?.imageBlobId) return null;
+    return this.store.mapImages.get(map.imageBlobId)?.blob ?? null;
+  }
+
+  async getImageStorageUsage(gameId: GameId): Promise<MapImageStorageUsage> {
+    const rows = this.store.mapImages.where((i) => i.gameId === gameId);
+    return {
+      imageCount: rows.length,
+      totalBytes: rows.reduce((sum, row) => sum + row.blob.size, 0),
+    };
+  }
+
+  async clearImage(mapId: MapId): Promise<void> {
+    await this.store.run(async () => {
+      const map = this.store.maps.get(mapId);
+      if (!map) return;
+      if (map.imageSourceType === 'upload' && map.imageBlobId) {
+        this.store.mapImages.delete(map.imageBlobId);
+      }
+      this.store.maps.put({
+        ...map,
+        imageSourceType: undefined,
+        imageUrl: undefined,
+        imageBlobId: undefined,
+        updatedAt: new Date().toISOString(),
+      });
+    });
+  }
+
+  async getMapImageDisplayUrl(
+    mapId: MapId
+  ): Promise<{ url: string; revoke?: () => void } | null> {
+    const map = this.store.maps.get(mapId);
+    if (!map) return null;
+
+    const hasUrl =
+      map.imageSourceType === 'url' ||
+      (map.imageUrl != null && map.imageUrl.trim() !== '');
+    if (hasUrl && map.imageUrl) {
+      return { url: map.imageUrl };
+    }
+
+    if (
+      (map.imageSourceType === 'upload' || map.imageBlobId) &&
+      map.imageBlobId
+    ) {
+      const row = this.store.mapImages.get(map.imageBlobId);
+      if (!row) return null;
+      const url = URL.createObjectURL(row.blob);
+      return { url, revoke: () => URL.revokeObjectURL(url) };
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,162 @@
+import { EntityType } from '../../types/EntityType';
+import type { Path } from '../../types/Path';
+import type { PathProgress } from '../../types/PathProgress';
+import type { GameId, PathId, PlaythroughId } from '../../types/ids';
+import { generateEntityId, generateId } from '../../utils/generateId';
+import type { PathProgressRow } from '../db';
+import type {
+  CreatePathInput,
+  DataSource,
+  IPathRepository,
+} from '../repositories';
+import { logStatusChange } from '../repositories/logStatusChange';
+import type { MemoryStore } from './MemoryStore';
+
+/**
+ * In-memory implementation of IPathRepository. Deletes (including per-game
+ * deletes) cascade to threads and markers; status changes are logged like the
+ * Dexie repository.
+ */
+export class MemoryPathRepository implements IPathRepository {
+  /**
+   * @param store - Tables of this data source.
+   * @param source - Sibling repositories (for cascades and logging).
+   */
+  constructor(
+    private readonly store: MemoryStore,
+    private readonly source: DataSource
+  ) {}
+
+  async getByGameId(gameId: GameId): Promise<Path[]> {
+    return this.store.paths.where((p) => p.gameId === gameId);
+  }
+
+  async getById(id: PathId): Promise<Path | undefined> {
+    return this.store.paths.get(id);
+  }
+
+  async create(input: CreatePathInput): Promise<Path> {
+    const now = new Date().toISOString();
+    const path: Path = {
+      id: generateEntityId(EntityType.PATH) as PathId,
+      gameId: input.gameId,
+      name: input.name,
+      description: input.description,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.store.paths.add(path);
+    return path;
+  }
+
+  async update(path: Path): Promise<void> {
+    this.store.paths.put({ ...path, updatedAt: new Date().toISOString() });
+  }
+
+  async delete(id: PathId): Promise<void> {
+    await this.store.run(async () => {
+      const path = this.store.paths.get(id);
+      if (path) {
+        await this.source.threadRepository.deleteThreadsInvolvingEntity(
+          path.gameId,
+          id
+        );
+        await this.source.mapMarkerRepository.deleteByEntity(
+          path.gameId,
+          EntityType.PATH,
+          id
+        );
+      }
+      this.store.paths.delete(id);
+    });
+  }
+
+  async deleteByGameId(gameId: GameId): Promise<void> {
+    await this.store.run(async () => {
+      const paths = this.store.paths.where((p) => p.gameId === gameId);
+      await Promise.all(
+        paths.map(async (path) => {
+          await this.source.threadRepository.deleteThreadsInvolvingEntity(
+            gameId,
+            path.id
+          );
+          await this.source.mapMarkerRepository.deleteByEntity(
+            gameId,
+            EntityType.PATH,
+            path.id
+          );
+        })
+      );
+      this.store.paths.deleteWhere((p) => p.gameId === gameId);
+    });
+  }
+
+  async getProgress(
+    playthroughId: PlaythroughId,
+    pathId: PathId
+  ): Promise<PathProgress | undefined> {
+    const row = this.store.pathProgress.first(
+      (r) => r.playthroughId === playthroughId && r.pathId === pathId
+    );
+    return row ? toPathProgress(row) : undefined;
+  }
+
+  async getAllProgressForPlaythrough(
+    playthroughId: PlaythroughId
+  ): Promise<PathProgress[]> {
+    return this.store.pathProgress
+      .where((r) => r.playthroughId === playthroughId)
+      .map(toPathProgress);
+  }
+
+  async upsertProgress(progress: PathProgress): Promise<void> {
+    await this.store.run(async () => {
+      const previous =
+        progress.id !== undefined
+          ? this.store.pathProgress.get(progress.id)
+          : this.store.pathProgress.first(
+              (r) =>
+                r.playthroughId === progress.playthroughId &&
+                r.pathId === progress.pathId
+            );
+      const row: PathProgressRow = {
+        id: progress.id ?? previous?.id ?? generateId(),
+        playthroughId: progress.playthroughId,
+        pathId: progress.pathId,
+        status: progress.status,
+      };
+      this.store.pathProgress.put(row);
+      await logStatusChange(
+        row.playthroughId,
+        EntityType.PATH,
+        row.pathId,
+        previous?.status,
+        row.status,
+        this.source.activityLogRepository
+      );
+    });
+  }
+
+  async deleteProgressByPlaythroughId(
+    playthroughId: PlaythroughId
+  ): Promise<void> {
+    this.store.pathProgress.deleteWhere(
+      (r) => r.playthroughId === playthroughId
+    );
+  }
+}
+
+/**
+ * Maps a stored progress row to the domain type.
+ *
+ * @param row - Stored row.
+ * @returns Path progress.
+ */
+function toPathProgress(row: PathProgressRow): PathProgress {
+  return {
+    id: row.id,
+    playthroughId: row.playthroughId,
+    pathId: row.pathId,
+    status: row.status,
+  };
+}
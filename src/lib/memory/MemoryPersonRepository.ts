@@ -0,0 +1,147 @@
+import { EntityType } from '../../types/EntityType';
+import type { Person } from '../../types/Person';
+import type { PersonProgress } from '../../types/PersonProgress';
+import type { GameId, PersonId, PlaythroughId } from '../../types/ids';
+import { generateEntityId, generateId } from '../../utils/generateId';
+import type { PersonProgressRow } from '../db';
+import type {
+  CreatePersonInput,
+  DataSource,
+  IPersonRepository,
+} from '../repositories';
+import { logStatusChange } from '../repositories/logStatusChange';
+import type { MemoryStore } from './MemoryStore';
+
+/**
+ * In-memory implementation of IPersonRepository. Deletes cascade to threads
+ * and markers; status changes are logged like the Dexie repository.
+ */
+export class MemoryPersonRepository implements IPersonRepository {
+  /**
+   * @param store - Tables of this data source.
+   * @param source - Sibling repositories (for cascades and logging).
+   */
+  constructor(
+    private readonly store: MemoryStore,
+    private readonly source: DataSource
+  ) {}
+
+  async getByGameId(gameId: GameId): Promise<Person[]> {
+    return this.store.persons.where((p) => p.gameId === gameId);
+  }
+
+  async getById(id: PersonId): Promise<Person | undefined> {
+    return this.store.persons.get(id);
+  }
+
+  async create(input: CreatePersonInput): Promise<Person> {
+    const now = new Date().toISOString();
+    const person: Person = {
+      id: generateEntityId(EntityType.PERSON) as PersonId,
+      gameId: input.gameId,
+      name: input.name,
+      notes: input.notes ?? '',
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.store.persons.add(person);
+    return person;
+  }
+
+  async update(person: Person): Promise<void> {
+    this.store.persons.put({ ...person, updatedAt: new Date().toISOString() });
+  }
+
+  async delete(id: PersonId): Promise<void> {
+    await this.store.run(async () => {
+      const person = this.store.persons.get(id);
+      if (person) {
+        await this.source.threadRepository.deleteThreadsInvolvingEntity(
+          person.gameId,
+          id
+        );
+        await this.source.mapMarkerRepository.deleteByEntity(
+          person.gameId,
+          EntityType.PERSON,
+          id
+        );
+      }
+      this.store.persons.delete(id);
+    });
+  }
+
+  async deleteByGameId(gameId: GameId): Promise<void> {
+    this.store.persons.deleteWhere((p) => p.gameId === gameId);
+  }
+
+  async getProgress(
+    playthroughId: PlaythroughId,
+    personId: PersonId
+  ): Promise<PersonProgress | undefined> {
+    const row = this.store.personProgress.first(
+      (r) => r.playthroughId === playthroughId && r.personId === personId
+    );
+    return row ? toPersonProgress(row) : undefined;
+  }
+
+  async getAllProgressForPlaythrough(
+    playthroughId: PlaythroughId
+  ): Promise<PersonProgress[]> {
+    return this.store.personProgress
+      .where((r) => r.playthroughId === playthroughId)
+      .map(toPersonProgress);
+  }
+
+  async upsertProgress(progress: PersonProgress): Promise<void> {
+    await this.store.run(async () => {
+      const previous =
+        progress.id !== undefined
+          ? this.store.personProgress.get(progress.id)
+          : this.store.personProgress.first(
+              (r) =>
+                r.playthroughId === progress.playthroughId &&
+                r.personId === progress.personId
+            );
+      const row: PersonProgressRow = {
+        id: progress.id ?? previous?.id ?? generateId(),
+        playthroughId: progress.playthroughId,
+        personId: progress.personId,
+        status: progress.status,
+        notes: progress.notes,
+      };
+      this.store.personProgress.put(row);
+      await logStatusChange(
+        row.playthroughId,
+        EntityType.PERSON,
+        row.personId,
+        previous?.status,
+        row.status,
+        this.source.activityLogRepository
+      );
+    });
+  }
+
+  async deleteProgressByPlaythroughId(
+    playthroughId: PlaythroughId
+  ): Promise<void> {
+    this.store.personProgress.deleteWhere(
+      (r) => r.playthroughId === playthroughId
+    );
+  }
+}
+
+/**
+ * Maps a stored progress row to the domain type.
+ *
+ * @param row - Stored row.
+ * @returns Person progress.
+ */
+function toPersonProgress(row: PersonProgressRow): PersonProgress {
+  return {
+    id: row.id,
+    playthroughId: row.playthroughId,
+    personId: row.personId,
+    status: row.status,
+    notes: row.notes,
+  };
+}
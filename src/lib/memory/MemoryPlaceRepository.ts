@@ -0,0 +1,74 @@
+import { EntityType } from '../../types/EntityType';
+import type { Place } from '../../types/Place';
+import type { GameId, PlaceId } from '../../types/ids';
+import { generateEntityId } from '../../utils/generateId';
+import type {
+  CreatePlaceInput,
+  DataSource,
+  IPlaceRepository,
+} from '../repositories';
+import type { MemoryStore } from './MemoryStore';
+
+/**
+ * In-memory implementation of IPlaceRepository. Deletes cascade to threads
+ * and markers like the Dexie repository.
+ */
+export class MemoryPlaceRepository implements IPlaceRepository {
+  /**
+   * @param store - Tables of this data source.
+   * @param source - Sibling repositories (for cascades).
+   */
+  constructor(
+    private readonly store: MemoryStore,
+    private readonly source: DataSource
+  ) {}
+
+  async getByGameId(gameId: GameId): Promise<Place[]> {
+    return this.store.places.where((p) => p.gameId === gameId);
+  }
+
+  async getById(id: PlaceId): Promise<Place | undefined> {
+    return this.store.places.get(id);
+  }
+
+  async create(input: CreatePlaceInput): Promise<Place> {
+    const now = new Date().toISOString();
+    const place: Place = {
+      id: generateEntityId(EntityType.PLACE) as PlaceId,
+      gameId: input.gameId,
+      name: input.name,
+      notes: input.notes ?? '',
+      map: input.map,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.store.places.add(place);
+    return place;
+  }
+
+  async update(place: Place): Promise<void> {
+    this.store.places.put({ ...place, updatedAt: new Date().toISOString() });
+  }
+
+  async delete(id: PlaceId): Promise<void> {
+    await this.store.run(async () => {
+      const place = this.store.places.get(id);
+      if (place) {
+        await this.source.threadRepository.deleteThreadsInvolvingEntity(
+          place.gameId,
+          id
+        );
+        await this.source.mapMarkerRepository.deleteByEntity(
+          place.gameId,
+          EntityType.PLACE,
+          id
+        );
+      }
+      this.store.places.delete(id);
+    });
+  }
+
+  async deleteByGameId(gameId: GameId): Promise<void> {
+    this.store.places.deleteWhere((p) => p.gameId === gameId);
+  }
+}
@@ -0,0 +1,55 @@
+import type { PlaythroughId } from '../../types/ids';
+import type { PlaythroughCheckpoint } from '../../types/PlaythroughCheckpoint';
+import { generateId } from '../../utils/generateId';
+import type {
+  CreatePlaythroughCheckpointInput,
+  IPlaythroughCheckpointRepository,
+} from '../repositories';
+import type { MemoryStore } from './MemoryStore';
+
+/**
+ * In-memory implementation of IPlaythroughCheckpointRepository.
+ */
+export class MemoryPlaythroughCheckpointRepository implements IPlaythroughCheckpointRepository {
+  /**
+   * @param store - Tables of this data source.
+   */
+  constructor(private readonly store: MemoryStore) {}
+
+  async getByPlaythroughId(
+    playthroughId: PlaythroughId
+  ): Promise<PlaythroughCheckpoint[]> {
+    const rows = this.store.playthroughCheckpoints.where(
+      (row) => row.playthroughId === playthroughId
+    );
+    return rows.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async getById(id: string): Promise<PlaythroughCheckpoint | undefined> {
+    return this.store.playthroughCheckpoints.get(id);
+  }
+
+  async create(
+    input: CreatePlaythroughCheckpointInput
+  ): Promise<PlaythroughCheckpoint> {
+    const checkpoint: PlaythroughCheckpoint = {
+      id: generateId(),
+      playthroughId: input.playthroughId,
+      name: input.name,
+      snapshot: input.snapshot,
+      createdAt: new Date().toISOString(),
+    };
+    this.store.playthroughCheckpoints.add(checkpoint);
+    return checkpoint;
+  }
+
+  async delete(id: string): Promise<void> {
+    this.store.playthroughCheckpoints.delete(id);
+  }
+
+  async deleteByPlaythroughId(playthroughId: PlaythroughId): Promise<void> {
+    this.store.playthroughCheckpoints.deleteWhere(
+      (row) => row.playthroughId === playthroughId
+    );
+  }
+}
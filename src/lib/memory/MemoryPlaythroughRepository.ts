@@ -0,0 +1,100 @@
+import { ActivityKind } from '../../types/ActivityKind';
+import { EntityType } from '../../types/EntityType';
+import type { Playthrough } from '../../types/Playthrough';
+import type { GameId, PlaythroughId } from '../../types/ids';
+import { generateId } from '../../utils/generateId';
+import type {
+  CreatePlaythroughInput,
+  DataSource,
+  IPlaythroughRepository,
+} from '../repositories';
+import type { MemoryStore } from './MemoryStore';
+
+/**
+ * In-memory implementation of IPlaythroughRepository. Position changes are
+ * logged and deletes cascade to per-playthrough state like the Dexie
+ * repository.
+ */
+export class MemoryPlaythroughRepository implements IPlaythroughRepository {
+  /**
+   * @param store - Tables of this data source.
+   * @param source - Sibling repositories (for cascades and logging).
+   */
+  constructor(
+    private readonly store: MemoryStore,
+    private readonly source: DataSource
+  ) {}
+
+  async create(input: CreatePlaythroughInput): Promise<Playthrough> {
+    const now = new Date().toISOString();
+    const playthrough: Playthrough = {
+      id: generateId() as PlaythroughId,
+      gameId: input.gameId,
+      name: input.name ?? '',
+      currentPositionPlaceId: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.store.playthroughs.add(playthrough);
+    return playthrough;
+  }
+
+  async getByGameId(gameId: GameId): Promise<Playthrough[]> {
+    return this.store.playthroughs.where((p) => p.gameId === gameId);
+  }
+
+  async getById(id: PlaythroughId): Promise<Playthrough | undefined> {
+    return this.store.playthroughs.get(id);
+  }
+
+  async update(playthrough: Playthrough): Promise<void> {
+    const updated: Playthrough = {
+      ...playthrough,
+      updatedAt: new Date().toISOString(),
+    };
+    await this.store.run(async () => {
+      const previous = this.store.playthroughs.get(playthrough.id);
+      this.store.playthroughs.put(updated);
+      const previousPlaceId = previous?.currentPositionPlaceId ?? null;
+      const newPlaceId = updated.currentPositionPlaceId ?? null;
+      if (previousPlaceId === newPlaceId) return;
+      await this.source.activityLogRepository.append({
+        playthroughId: updated.id,
+        kind: ActivityKind.POSITION_CHANGE,
+        entityType: EntityType.PLACE,
+        entityId: newPlaceId,
+        previousValue: previousPlaceId,
+        newValue: newPlaceId,
+      });
+    });
+  }
+
+  async delete(id: PlaythroughId): Promise<void> {
+    await this.store.run(async () => {
+      await this.source.questRepository.deleteProgressByPlaythroughId(id);
+      await this.source.insightRepository.deleteProgressByPlaythroughId(id);
+      await this.source.itemRepository.deleteStateByPlaythroughId(id);
+      await this.source.personRepository.deleteProgressByPlaythroughId(id);
+      await this.source.pathRepository.deleteProgressByPlaythroughId(id);
+      await this.source.entityDiscoveryRepository.deleteByPlaythroughId(id);
+      await this.source.threadRepository.deleteByPlaythroughId(id);
+      await this.source.mapMarkerRepository.deleteByPlaythroughId(id);
+      await this.source.activityLogRepository.deleteByPlaythroughId(id);
+      await this.source.playthroughCheckpointRepository.deleteByPlaythroughId(
+        id
+      );
+      this.store.playthroughs.delete(id);
+    });
+  }
+
+  async deleteByGameId(gameId: GameId): Promise<void> {
+    await this.store.run(async () => {
+      const playthroughs = this.store.playthroughs.where(
+        (p) => p.gameId === gameId
+      );
+      for (const playthrough of playthroughs) {
+        await this.delete(playthrough.id);
+      }
+    });
+  }
+}
@@ -0,0 +1,167 @@
+import { ActivityKind } from '../../types/ActivityKind';
+import { EntityType } from '../../types/EntityType';
+import type { Quest } from '../../types/Quest';
+import type { QuestProgress } from '../../types/QuestProgress';
+import type { GameId, PlaythroughId, QuestId } from '../../types/ids';
+import { generateEntityId, generateId } from '../../utils/generateId';
+import type { QuestProgressRow } from '../db';
+import type {
+  CreateQuestInput,
+  DataSource,
+  IQuestRepository,
+} from '../repositories';
+import { logStatusChange } from '../repositories/logStatusChange';
+import type { MemoryStore } from './MemoryStore';
+
+/**
+ * In-memory implementation of IQuestRepository. Deletes cascade to threads
+ * and markers; progress changes are logged like the Dexie repository.
+ */
+export class MemoryQuestRepository implements IQuestRepository {
+  /**
+   * @param store - Tables of this data source.
+   * @param source - Sibling repositories (for cascades and logging).
+   */
+  constructor(
+    private readonly store: MemoryStore,
+    private readonly source: DataSource
+  ) {}
+
+  async getByGameId(gameId: GameId): Promise<Quest[]> {
+    return this.store.quests.where((q) => q.gameId === gameId);
+  }
+
+  async getById(id: QuestId): Promise<Quest | undefined> {
+    return this.store.quests.get(id);
+  }
+
+  async create(input: CreateQuestInput): Promise<Quest> {
+    const now = new Date().toISOString();
+    const quest: Quest = {
+      id: generateEntityId(EntityType.QUEST) as QuestId,
+      gameId: input.gameId,
+      title: input.title,
+      giver: input.giver,
+      objectives: input.objectives ?? [],
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.store.quests.add(quest);
+    return quest;
+  }
+
+  async update(quest: Quest): Promise<void> {
+    this.store.quests.put({ ...quest, updatedAt: new Date().toISOString() });
+  }
+
+  async delete(id: QuestId): Promise<void> {
+    await this.store.run(async () => {
+      const quest = this.store.quests.get(id);
+      if (quest) {
+        await this.source.threadRepository.deleteThreadsInvolvingEntity(
+          quest.gameId,
+          id
+        );
+        await this.source.mapMarkerRepository.deleteByEntity(
+          quest.gameId,
+          EntityType.QUEST,
+          id
+        );
+      }
+      this.store.quests.delete(id);
+    });
+  }
+
+  async deleteByGameId(gameId: GameId): Promise<void> {
+    this.store.quests.deleteWhere((q) => q.gameId === gameId);
+  }
+
+  async getProgress(
+    playthroughId: PlaythroughId,
+    questId: QuestId
+  ): Promise<QuestProgress | undefined> {
+    const row = this.store.questProgress.first(
+      (r) => r.playthroughId === playthroughId && r.questId === questId
+    );
+    return row ? toQuestProgress(row) : undefined;
+  }
+
+  async getAllProgressForPlaythrough(
+    playthroughId: PlaythroughId
+  ): Promise<QuestProgress[]> {
+    return this.store.questProgress
+      .where((r) => r.playthroughId === playthroughId)
+      .map(toQuestProgress);
+  }
+
+  async upsertProgress(progress: QuestProgress): Promise<void> {
+    const row: QuestProgressRow = {
+      id: progress.id ?? generateId(),
+      playthroughId: progress.playthroughId,
+      questId: progress.questId,
+      completedObjectiveIndexes: progress.completedObjectiveIndexes ?? [],
+      status: progress.status,
+      notes: progress.notes,
+    };
+    await this.store.run(async () => {
+      const previous = progress.id
+        ? this.store.questProgress.get(progress.id)
+        : this.store.questProgress.first(
+            (r) =>
+              r.playthroughId === progress.playthroughId &&
+              r.questId === progress.questId
+          );
+      this.store.questProgress.put(row);
+      await logStatusChange(
+        row.playthroughId,
+        EntityType.QUEST,
+        row.questId,
+        previous?.status,
+        row.status,
+        this.source.activityLogRepository
+      );
+      const wasCompleted = new Set(previous?.completedObjectiveIndexes ?? []);
+      const isCompleted = new Set(row.completedObjectiveIndexes);
+      const changedIndexes = [
+        ...row.completedObjectiveIndexes.filter((i) => !wasCompleted.has(i)),
+        ...[...wasCompleted].filter((i) => !isCompleted.has(i)),
+      ];
+      for (const objectiveIndex of changedIndexes) {
+        await this.source.activityLogRepository.append({
+          playthroughId: row.playthroughId,
+          kind: ActivityKind.OBJECTIVE_CHANGE,
+          entityType: EntityType.QUEST,
+          entityId: row.questId,
+          objectiveIndex,
+          previousValue: wasCompleted.has(objectiveIndex),
+          newValue: isCompleted.has(objectiveIndex),
+        });
+      }
+    });
+  }
+
+  async deleteProgressByPlaythroughId(
+    playthroughId: PlaythroughId
+  ): Promise<void> {
+    this.store.questProgress.deleteWhere(
+      (r) => r.playthroughId === playthroughId
+    );
+  }
+}
+
+/**
+ * Maps a stored progress row to the domain type.
+ *
+ * @param row - Stored row.
+ * @returns Quest progress.
+ */
+function toQuestProgress(row: QuestProgressRow): QuestProgress {
+  return {
+    id: row.id,
+    playthroughId: row.playthroughId,
+    questId: row.questId,
+    completedObjectiveIndexes: row.completedObjectiveIndexes ?? [],
+    status: row.status,
+    notes: row.notes,
+  };
+}
@@ -0,0 +1,393 @@
+import type { ActivityLogEntry } from '../../types/ActivityLogEntry';
+import type { Game } from '../../types/Game';
+import type { Insight } from '../../types/Insight';
+import type { Item } from '../../types/Item';
+import type { Map } from '../../types/Map';
+import type { Path } from '../../types/Path';
+import type { Person } from '../../types/Person';
+import type { Place } from '../../types/Place';
+import type { Playthrough } from '../../types/Playthrough';
+import type { PlaythroughCheckpoint } from '../../types/PlaythroughCheckpoint';
+import type { Quest } from '../../types/Quest';
+import type { Thread } from '../../types/Thread';
+import { publishRemoteChangeSet, type ChangeRecord } from '../changes';
+import type {
+  EntityDiscoveryRow,
+  InsightProgressRow,
+  ItemStateRow,
+  MapImageBlobRow,
+  MapMarkerRow,
+  PathProgressRow,
+  PersonProgressRow,
+  QuestProgressRow,
+} from '../db';
+
+/**
+ * Deep-copies plain objects and arrays so stored rows cannot be mutated by
+ * callers (as with IndexedDB). Blobs are immutable and shared.
+ *
+ * @param value - Value to copy.
+ * @returns The copy.
+ */
+function cloneValue<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(cloneValue) as T;
+  }
+  if (typeof value === 'object' && value !== null && !(value instanceof Blob)) {
+    const copy: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      copy[key] = cloneValue(entry);
+    }
+    return copy as T;
+  }
+  return value;
+}
+
+/**
+ * One in-memory table keyed by `id`. Queries return copies ordered by primary
+ * key, matching Dexie's ordering for equality lookups.
+ */
+export class MemoryTable<T extends { id: string }> {
+  private rows = new globalThis.Map<string, T>();
+
+  /**
+   * @param store - Store that records this table's changes.
+   * @param name - Table name (same as the Dexie table).
+   */
+  constructor(
+    private readonly store: MemoryStore,
+    readonly name: string
+  ) {}
+
+  /**
+   * Returns a row by primary key.
+   *
+   * @param id - Primary key.
+   * @returns A copy of the row, or undefined.
+   */
+  get(id: string): T | undefined {
+    const row = this.rows.get(id);
+    return row ? cloneValue(row) : undefined;
+  }
+
+  /**
+   * Returns every row.
+   *
+   * @returns Copies of all rows, ordered by primary key.
+   */
+  toArray(): T[] {
+    return this.where(() => true);
+  }
+
+  /**
+   * Returns the rows matching a predicate.
+   *
+   * @param predicate - Row filter.
+   * @returns Copies of the matching rows, ordered by primary key.
+   */
+  where(predicate: (row: T) => boolean): T[] {
+    return [...this.rows.values()]
+      .filter(predicate)
+      .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+      .map(cloneValue);
+  }
+
+  /**
+   * Returns the first row (by primary key) matching a predicate.
+   *
+   * @param predicate - Row filter.
+   * @returns A copy of the row, or undefined.
+   */
+  first(predicate: (row: T) => boolean): T | undefined {
+    return this.where(predicate)[0];
+  }
+
+  /**
+   * Inserts a new row.
+   *
+   * @param row - Row to insert.
+   * @throws Error when a row with the same key exists.
+   */
+  add(row: T): void {
+    if (this.rows.has(row.id)) {
+      throw new Error(`Key already exists in table ${this.name}.`);
+    }
+    this.put(row);
+  }
+
+  /**
+   * Inserts or replaces a row.
+   *
+   * @param row - Row to store.
+   */
+  put(row: T): void {
+    const before = this.rows.get(row.id);
+    const after = cloneValue(row);
+    this.rows.set(row.id, after);
+    this.store.record({
+      table: this.name,
+      key: row.id,
+      ...(before && { before: cloneValue(before) }),
+      after: cloneValue(after),
+    });
+  }
+
+  /**
+   * Deletes a row; missing keys are ignored.
+   *
+   * @param id - Primary key.
+   */
+  delete(id: string): void {
+    const before = this.rows.get(id);
+    if (!before) return;
+    this.rows.delete(id);
+    this.store.record({
+      table: this.name,
+      key: id,
+      before: cloneValue(before),
+    });
+  }
+
+  /**
+   * Deletes the rows matching a predicate.
+   *
+   * @param predicate - Row filter.
+   */
+  deleteWhere(predicate: (row: T) => boolean): void {
+    for (const row of this.where(predicate)) {
+      this.delete(row.id);
+    }
+  }
+
+  /**
+   * Captures the table's rows for rollback.
+   *
+   * @returns Opaque snapshot for restore.
+   */
+  snapshot(): ReadonlyMap<string, T> {
+    return new globalThis.Map(this.rows);
+  }
+
+  /**
+   * Restores rows captured by snapshot.
+   *
+   * @param rows - Snapshot to restore.
+   */
+  restore(rows: ReadonlyMap<string, T>): void {
+    this.rows = new globalThis.Map(rows);
+  }
+}
+
+/**
+ * State of the run whose work is executing.
+ */
+interface ActiveRun {
+  /** Table rows before the run, for rollback. */
+  snapshots: ReadonlyMap<string, { id: string }>[];
+  /** Changes made in the run, published when it commits. */
+  changes: ChangeRecord[];
+  /** First failure in the run (wrapped, since anything can be thrown). */
+  error: { cause: unknown } | null;
+  /** Operations the work is waiting for through waitFor. */
+  waiting: number;
+  /** Schedules the check that fails the run if its task ended early. */
+  armGuard: () => void;
+}
+
+/**
+ * In-memory tables for every repository, mirroring the Dexie schema, plus
+ * unit-of-work handling. Committed writes are published as change sets (with
+ * the `remote` origin) so live views refresh.
+ */
+export class MemoryStore {
+  readonly games = new MemoryTable<Game>(this, 'games');
+  readonly playthroughs = new MemoryTable<Playthrough>(this, 'playthroughs');
+  readonly quests = new MemoryTable<Quest>(this, 'quests');
+  readonly insights = new MemoryTable<Insight>(this, 'insights');
+  readonly items = new MemoryTable<Item>(this, 'items');
+  readonly persons = new MemoryTable<Person>(this, 'persons');
+  readonly places = new MemoryTable<Place>(this, 'places');
+  readonly maps = new MemoryTable<Map>(this, 'maps');
+  readonly paths = new MemoryTable<Path>(this, 'paths');
+  readonly threads = new MemoryTable<Thread>(this, 'threads');
+  readonly questProgress = new MemoryTable<QuestProgressRow>(
+    this,
+    'questProgress'
+  );
+  readonly pathProgress = new MemoryTable<PathProgressRow>(
+    this,
+    'pathProgress'
+  );
+  readonly insightProgress = new MemoryTable<InsightProgressRow>(
+    this,
+    'insightProgress'
+  );
+  readonly itemState = new MemoryTable<ItemStateRow>(this, 'itemState');
+  readonly personProgress = new MemoryTable<PersonProgressRow>(
+    this,
+    'personProgress'
+  );
+  readonly entityDiscovery = new MemoryTable<EntityDiscoveryRow>(
+    this,
+    'entityDiscovery'
+  );
+  readonly activityLog = new MemoryTable<ActivityLogEntry>(this, 'activityLog');
+  readonly playthroughCheckpoints = new MemoryTable<PlaythroughCheckpoint>(
+    this,
+    'playthroughCheckpoints'
+  );
+  readonly mapImages = new MemoryTable<MapImageBlobRow>(this, 'mapImages');
+  readonly mapMarkers = new MemoryTable<MapMarkerRow>(this, 'mapMarkers');
+
+  /** Run whose work is executing, or null; writes outside a run commit immediately. */
+  private active: ActiveRun | null = null;
+
+  /** Settles when the last queued run has finished. */
+  private queue: Promise<void> = Promise.resolve();
+
+  /**
+   * Records a row change: buffered inside a run, published immediately
+   * otherwise. Called by tables.
+   *
+   * @param change - The row change.
+   */
+  record(change: ChangeRecord): void {
+    if (this.active) {
+      this.active.changes.push(change);
+      return;
+    }
+    this.publish([change]);
+  }
+
+  /**
+   * Runs work as one unit, like a Dexie read-write transaction. Runs are queued
+   * and execute one at a time. A run started while another one's work is
+   * executing joins it (repository cascades and transactionRunner.run inside
+   * work), and a failure in a joined run fails the whole run even when caught.
+   * If work fails, every table is restored to its state before the run. As
+   * with IndexedDB, work may only await the store (or waitFor): a run still
+   * pending when its task ends is rolled back and fails.
+   *
+   * @param work - Composite operation to run.
+   * @returns The value returned by work.
+   * @throws Rethrows any error from work after restoring the tables.
+   */
+  async run<T>(work: () => Promise<T>): Promise<T> {
+    if (this.active) {
+      return this.join(this.active, work);
+    }
+
+    const previous = this.queue;
+    let release = () => {};
+    this.queue = new Promise((resolve) => {
+      release = resolve;
+    });
+    await previous;
+
+    const tables = this.tables();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const run: ActiveRun = {
+      snapshots: tables.map((table) => table.snapshot()),
+      changes: [],
+      error: null,
+      waiting: 0,
+      armGuard: () => {
+        clearTimeout(timer);
+        // Work that awaited something else lets the task end, which would
+        // commit an IndexedDB transaction; fail the run instead of stalling
+        // the queue.
+        timer = setTimeout(() => {
+          if (this.active !== run || run.waiting > 0) return;
+          run.error ??= {
+            cause: new Error('Transaction committed too early.'),
+          };
+          finish();
+        }, 0);
+      },
+    };
+    const finish = () => {
+      if (this.active !== run) return;
+      this.active = null;
+      if (run.error) {
+        tables.forEach((table, i) => table.restore(run.snapshots[i]));
+      } else if (run.changes.length > 0) {
+        this.publish(run.changes);
+      }
+      release();
+    };
+    this.active = run;
+    run.armGuard();
+
+    let result: T | undefined;
+    try {
+      result = await work();
+    } catch (err) {
+      run.error ??= { cause: err };
+    } finally {
+      clearTimeout(timer);
+    }
+    finish();
+    if (run.error) throw run.error.cause;
+    return result as T;
+  }
+
+  /**
+   * Awaits a non-store operation without failing the active run, like
+   * Dexie.waitFor. Outside a run the promise is simply returned.
+   *
+   * @param promise - Operation to wait for.
+   * @returns The promise's value.
+   */
+  async waitFor<T>(promise: Promise<T>): Promise<T> {
+    const run = this.active;
+    if (!run) return promise;
+    run.waiting += 1;
+    try {
+      return await promise;
+    } finally {
+      run.waiting -= 1;
+      if (this.active === run) run.armGuard();
+    }
+  }
+
+  /**
+   * Runs work inside the active run. A failure marks the whole run as failed.
+   *
+   * @param run - The active run.
+   * @param work - Nested operation to run.
+   * @returns The value returned by work.
+   */
+  private async join<T>(run: ActiveRun, work: () => Promise<T>): Promise<T> {
+    try {
+      return await work();
+    } catch (err) {
+      run.error ??= { cause: err };
+      throw err;
+    }
+  }
+
+  /**
+   * Returns every table.
+   *
+   * @returns The store's tables.
+   */
+  private tables(): MemoryTable<{ id: string }>[] {
+    return Object.values(this).filter(
+      (value): value is MemoryTable<{ id: string }> =>
+        value instanceof MemoryTable
+    );
+  }
+
+  /**
+   * Publishes committed changes to change listeners.
+   *
+   * @param changes - Row changes in write order.
+   */
+  private publish(changes: ChangeRecord[]): void {
+    publishRemoteChangeSet({
+      changes,
+      origin: 'remote',
+      committedAt: new Date().toISOString(),
+    });
+  }
+}
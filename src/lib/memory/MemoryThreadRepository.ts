@@ -0,0 +1,140 @@
+import { ActivityKind } from '../../types/ActivityKind';
+import { EntityType } from '../../types/EntityType';
+import type { Thread } from '../../types/Thread';
+import { ThreadSubtype } from '../../types/ThreadSubtype';
+import type { GameId, PlaythroughId, ThreadId } from '../../types/ids';
+import { generateEntityId } from '../../utils/generateId';
+import {
+  getThreadSubtype,
+  getThreadSubtypeDisplayLabel,
+} from '../../utils/threadSubtype';
+import type {
+  CreateThreadInput,
+  DataSource,
+  IThreadRepository,
+} from '../repositories';
+import type { MemoryStore } from './MemoryStore';
+
+/**
+ * In-memory implementation of IThreadRepository, with the same labeling,
+ * playthrough scoping, and activity logging as the Dexie repository.
+ */
+export class MemoryThreadRepository implements IThreadRepository {
+  /**
+   * @param store - Tables of this data source.
+   * @param source - Sibling repositories (for logging).
+   */
+  constructor(
+    private readonly store: MemoryStore,
+    private readonly source: DataSource
+  ) {}
+
+  async getByGameId(
+    gameId: GameId,
+    playthroughId?: PlaythroughId | null
+  ): Promise<Thread[]> {
+    return this.store.threads.where(
+      (t) =>
+        t.gameId === gameId &&
+        (playthroughId === undefined ||
+          (playthroughId === null
+            ? t.playthroughId == null
+            : t.playthroughId == null || t.playthroughId === playthroughId))
+    );
+  }
+
+  async getById(id: ThreadId): Promise<Thread | undefined> {
+    return this.store.threads.get(id);
+  }
+
+  async create(input: CreateThreadInput): Promise<Thread> {
+    const now = new Date().toISOString();
+    const subtype = input.subtype;
+    const label =
+      subtype === ThreadSubtype.CUSTOM
+        ? (input.label ?? '').trim()
+        : getThreadSubtypeDisplayLabel(subtype);
+    const thread: Thread = {
+      id: generateEntityId(EntityType.THREAD) as ThreadId,
+      gameId: input.gameId,
+      playthroughId: input.playthroughId ?? undefined,
+      sourceId: input.sourceId,
+      targetId: input.targetId,
+      subtype,
+      label,
+      createdAt: now,
+      ...(input.requirementAllowedStatuses != null && {
+        requirementAllowedStatuses: input.requirementAllowedStatuses,
+      }),
+      ...(input.objectiveIndex != null && {
+        objectiveIndex: input.objectiveIndex,
+      }),
+      ...(input.requirementGroups != null &&
+        input.requirementGroups.length > 0 && {
+          requirementGroups: input.requirementGroups,
+        }),
+    };
+    await this.store.run(async () => {
+      this.store.threads.add(thread);
+      if (thread.playthroughId == null) return;
+      await this.source.activityLogRepository.append({
+        playthroughId: thread.playthroughId,
+        kind: ActivityKind.THREAD_CREATED,
+        entityType: EntityType.THREAD,
+        entityId: thread.id,
+        previousValue: null,
+        newValue: thread.label,
+      });
+    });
+    return thread;
+  }
+
+  async update(thread: Thread): Promise<void> {
+    this.store.threads.put(thread);
+  }
+
+  async delete(id: ThreadId): Promise<void> {
+    this.store.threads.delete(id);
+  }
+
+  async deleteByGameId(gameId: GameId): Promise<void> {
+    this.store.threads.deleteWhere((t) => t.gameId === gameId);
+  }
+
+  async deleteByPlaythroughId(playthroughId: PlaythroughId): Promise<void> {
+    this.store.threads.deleteWhere((t) => t.playthroughId === playthroughId);
+  }
+
+  async getThreadsFromEntity(
+    gameId: GameId,
+    entityId: string,
+    playthroughId?: PlaythroughId | null
+  ): Promise<Thread[]> {
+    const threads = await this.getByGameId(gameId, playthroughId);
+    return threads.filter(
+      (t) => t.sourceId === entityId || t.targetId === entityId
+    );
+  }
+
+  async deleteThreadsInvolvingEntity(
+    gameId: GameId,
+    entityId: string
+  ): Promise<void> {
+    await this.store.run(async () => {
+      const threads = await this.getThreadsFromEntity(gameId, entityId);
+      await Promise.all(threads.map((t) => this.delete(t.id)));
+    });
+  }
+
+  async getRequirementThreadsFromEntity(
+    gameId: GameId,
+    entityId: string
+  ): Promise<Thread[]> {
+    const threads = await this.getByGameId(gameId, null);
+    return threads.filter(
+      (t) =>
+        t.sourceId === entityId &&
+        getThreadSubtype(t) === ThreadSubtype.REQUIRES
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import type { DataSource } from '../repositories';
+import { MemoryActivityLogRepository } from './MemoryActivityLogRepository';
+import { MemoryEntityDiscoveryRepository } from './MemoryEntityDiscoveryRepository';
+import { MemoryGameRepository } from './MemoryGameRepository';
+import { MemoryInsightRepository } from './MemoryInsightRepository';
+import { MemoryItemRepository } from './MemoryItemRepository';
+import { MemoryMapMarkerRepository } from './MemoryMapMarkerRepository';
+import { MemoryMapRepository } from './MemoryMapRepository';
+import { MemoryPathRepository } from './MemoryPathRepository';
+import { MemoryPersonRepository } from './MemoryPersonRepository';
+import { MemoryPlaceRepository } from './MemoryPlaceRepository';
+import { MemoryPlaythroughCheckpointRepository } from './MemoryPlaythroughCheckpointRepository';
+import { MemoryPlaythroughRepository } from './MemoryPlaythroughRepository';
+import { MemoryQuestRepository } from './MemoryQuestRepository';
+import { MemoryStore } from './MemoryStore';
+import { MemoryThreadRepository } from './MemoryThreadRepository';
+
+/**
+ * Creates an empty, independent data source that keeps everything in memory
+ * (nothing is saved). Cascades, activity logging, and rollback on failed
+ * transactionRunner work match the Dexie repositories. Needs no browser APIs,
+ * so lib engines can run against it in Node.
+ *
+ * @returns A new in-memory data source.
+ */
+export function createMemoryDataSource(): DataSource {
+  const store = new MemoryStore();
+  const source = {} as DataSource;
+  Object.assign(source, {
+    gameRepository: new MemoryGameRepository(store, source),
+    playthroughRepository: new MemoryPlaythroughRepository(store, source),
+    questRepository: new MemoryQuestRepository(store, source),
+    insightRepository: new MemoryInsightRepository(store, source),
+    itemRepository: new MemoryItemRepository(store, source),
+    personRepository: new MemoryPersonRepository(store, source),
+    placeRepository: new MemoryPlaceRepository(store, source),
+    mapRepository: new MemoryMapRepository(store, source),
+    mapMarkerRepository: new MemoryMapMarkerRepository(store),
+    threadRepository: new MemoryThreadRepository(store, source),
+    entityDiscoveryRepository: new MemoryEntityDiscoveryRepository(
+      store,
+      source
+    ),
+    pathRepository: new MemoryPathRepository(store, source),
+    activityLogRepository: new MemoryActivityLogRepository(store),
+    playthroughCheckpointRepository: new MemoryPlaythroughCheckpointRepository(
+      store
+    ),
+    transactionRunner: {
+      run: (work) => store.run(work),
+      waitFor: (promise) => store.waitFor(promise),
+    },
+  } satisfies DataSource);
+  return source;
+}
@@ -0,0 +1,7 @@
+/**
+ * In-memory data source: repository implementations over plain maps, for the
+ * demo mode, tests, and running lib engines outside the browser.
+ */
+
+export { createMemoryDataSource } from './createMemoryDataSource';
+export { MemoryStore, MemoryTable } from './MemoryStore';
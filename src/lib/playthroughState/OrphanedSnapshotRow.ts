@@ -0,0 +1,17 @@
+import type { PlaythroughSnapshot } from '../../types/PlaythroughSnapshot';
+
+/**
+ * A snapshot row dropped because the game entity it references no longer exists.
+ *
+ * @property section - Snapshot section the row came from
+ * @property rowId - ID of the dropped row (or of the playthrough for its current position)
+ * @property missingId - The game entity ID that could not be found
+ */
+export interface OrphanedSnapshotRow {
+  /** Snapshot section the row came from. */
+  section: keyof PlaythroughSnapshot;
+  /** ID of the dropped row (or of the playthrough for its current position). */
+  rowId: string;
+  /** The game entity ID that could not be found. */
+  missingId: string;
+}
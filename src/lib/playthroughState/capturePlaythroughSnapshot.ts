@@ -0,0 +1,74 @@
+import type { PlaythroughId } from '../../types/ids';
+import type { PlaythroughSnapshot } from '../../types/PlaythroughSnapshot';
+import { db } from '../db';
+
+/**
+ * Reads every playthrough-scoped row of a playthrough in one read transaction.
+ *
+ * @param playthroughId - ID of the playthrough to capture.
+ * @returns A consistent snapshot of the playthrough's data.
+ * @throws Error when the playthrough does not exist.
+ */
+export async function capturePlaythroughSnapshot(
+  playthroughId: PlaythroughId
+): Promise<PlaythroughSnapshot> {
+  return db.transaction(
+    'r',
+    [
+      db.playthroughs,
+      db.questProgress,
+      db.insightProgress,
+      db.itemState,
+      db.personProgress,
+      db.pathProgress,
+      db.entityDiscovery,
+      db.threads,
+      db.mapMarkers,
+    ],
+    async () => {
+      const playthrough = await db.playthroughs.get(playthroughId);
+      if (!playthrough) {
+        throw new Error('Playthrough not found.');
+      }
+      const [
+        questProgress,
+        insightProgress,
+        itemState,
+        personProgress,
+        pathProgress,
+        entityDiscovery,
+        threads,
+        mapMarkers,
+      ] = await Promise.all([
+        db.questProgress.where('playthroughId').equals(playthroughId).toArray(),
+        db.insightProgress
+          .where('playthroughId')
+          .equals(playthroughId)
+          .toArray(),
+        db.itemState.where('playthroughId').equals(playthroughId).toArray(),
+        db.personProgress
+          .where('playthroughId')
+          .equals(playthroughId)
+          .toArray(),
+        db.pathProgress.where('playthroughId').equals(playthroughId).toArray(),
+        db.entityDiscovery
+          .where('playthroughId')
+          .equals(playthroughId)
+          .toArray(),
+        db.threads.where('playthroughId').equals(playthroughId).toArray(),
+        db.mapMarkers.where('playthroughId').equals(playthroughId).toArray(),
+      ]);
+      return {
+        playthrough,
+        questProgress,
+        insightProgress,
+        itemState,
+        personProgress,
+        pathProgress,
+        entityDiscovery,
+        threads,
+        mapMarkers,
+      };
+    }
+  );
+}
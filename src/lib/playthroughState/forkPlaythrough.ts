@@ -0,0 +1,39 @@
+import type { PlaythroughId } from '../../types/ids';
+import type { Playthrough } from '../../types/Playthrough';
+import { generateId } from '../../utils/generateId';
+import { transactionRunner } from '../repositories';
+import { capturePlaythroughSnapshot } from './capturePlaythroughSnapshot';
+import { writePlaythroughSnapshot } from './writePlaythroughSnapshot';
+
+/**
+ * Creates a new playthrough of the same game as a deep copy of another one:
+ * progress, state, discovery, current position, and playthrough-scoped threads
+ * and markers are copied with fresh row IDs. The fork records its source in
+ * parentPlaythroughId; afterwards the two playthroughs evolve independently.
+ * Reading the source and writing the fork happen in one transaction.
+ *
+ * @param sourceId - Playthrough to fork.
+ * @param name - Name of the fork; defaults to the source name with " (fork)".
+ * @returns The new playthrough.
+ * @throws Error when the source playthrough does not exist.
+ */
+export async function forkPlaythrough(
+  sourceId: PlaythroughId,
+  name?: string
+): Promise<Playthrough> {
+  return transactionRunner.run(async () => {
+    const snapshot = await capturePlaythroughSnapshot(sourceId);
+    const source = snapshot.playthrough;
+    const now = new Date().toISOString();
+    const fork: Playthrough = {
+      id: generateId() as PlaythroughId,
+      gameId: source.gameId,
+      name: name?.trim() || `${source.name || 'Playthrough'} (fork)`,
+      currentPositionPlaceId: null,
+      parentPlaythroughId: source.id,
+      createdAt: now,
+      updatedAt: now,
+    };
+    return writePlaythroughSnapshot(snapshot, fork);
+  });
+}
@@ -0,0 +1,5 @@
+export type { OrphanedSnapshotRow } from './OrphanedSnapshotRow';
+export { capturePlaythroughSnapshot } from './capturePlaythroughSnapshot';
+export { forkPlaythrough } from './forkPlaythrough';
+export { prunePlaythroughSnapshot } from './prunePlaythroughSnapshot';
+export { writePlaythroughSnapshot } from './writePlaythroughSnapshot';
@@ -0,0 +1,133 @@
+import type { GameId } from '../../types/ids';
+import type { PlaythroughSnapshot } from '../../types/PlaythroughSnapshot';
+import { db } from '../db';
+import type { OrphanedSnapshotRow } from './OrphanedSnapshotRow';
+
+/**
+ * Matches a snapshot against a game's entities by ID and removes every row whose
+ * entity no longer exists (progress, state, discovery, thread endpoints, marker
+ * maps and entities). A current position pointing at a missing place is cleared.
+ *
+ * @param snapshot - Snapshot to check.
+ * @param gameId - Game whose entities the snapshot should reference.
+ * @returns The pruned snapshot and the rows that were dropped.
+ */
+export async function prunePlaythroughSnapshot(
+  snapshot: PlaythroughSnapshot,
+  gameId: GameId
+): Promise<{ snapshot: PlaythroughSnapshot; orphans: OrphanedSnapshotRow[] }> {
+  const [quests, insights, items, persons, places, paths, maps, threads] =
+    await Promise.all([
+      db.quests.where('gameId').equals(gameId).primaryKeys(),
+      db.insights.where('gameId').equals(gameId).primaryKeys(),
+      db.items.where('gameId').equals(gameId).primaryKeys(),
+      db.persons.where('gameId').equals(gameId).primaryKeys(),
+      db.places.where('gameId').equals(gameId).primaryKeys(),
+      db.paths.where('gameId').equals(gameId).primaryKeys(),
+      db.maps.where('gameId').equals(gameId).primaryKeys(),
+      db.threads
+        .where('gameId')
+        .equals(gameId)
+        .filter((t) => t.playthroughId == null)
+        .primaryKeys(),
+    ]);
+
+  const questIds = new Set<string>(quests);
+  const insightIds = new Set<string>(insights);
+  const itemIds = new Set<string>(items);
+  const personIds = new Set<string>(persons);
+  const placeIds = new Set<string>(places);
+  const pathIds = new Set<string>(paths);
+  const mapIds = new Set<string>(maps);
+  const entityIds = new Set<string>([
+    ...questIds,
+    ...insightIds,
+    ...itemIds,
+    ...personIds,
+    ...placeIds,
+    ...pathIds,
+    ...mapIds,
+    ...threads,
+    ...snapshot.threads.map((t) => t.id),
+  ]);
+
+  const orphans: OrphanedSnapshotRow[] = [];
+
+  /**
+   * Keeps rows whose referenced ID is in the known set; records the rest.
+   */
+  const keep = <T extends { id?: string }>(
+    section: keyof PlaythroughSnapshot,
+    rows: T[],
+    getRef: (row: T) => string,
+    known: Set<string>
+  ): T[] =>
+    rows.filter((row) => {
+      const ref = getRef(row);
+      if (known.has(ref)) return true;
+      orphans.push({ section, rowId: row.id ?? '', missingId: ref });
+      return false;
+    });
+
+  const pruned: PlaythroughSnapshot = {
+    playthrough: snapshot.playthrough,
+    questProgress: keep(
+      'questProgress',
+      snapshot.questProgress,
+      (r) => r.questId,
+      questIds
+    ),
+    insightProgress: keep(
+      'insightProgress',
+      snapshot.insightProgress,
+      (r) => r.insightId,
+      insightIds
+    ),
+    itemState: keep('itemState', snapshot.itemState, (r) => r.itemId, itemIds),
+    personProgress: keep(
+      'personProgress',
+      snapshot.personProgress,
+      (r) => r.personId,
+      personIds
+    ),
+    pathProgress: keep(
+      'pathProgress',
+      snapshot.pathProgress,
+      (r) => r.pathId,
+      pathIds
+    ),
+    entityDiscovery: keep(
+      'entityDiscovery',
+      snapshot.entityDiscovery,
+      (r) => r.entityId,
+      entityIds
+    ),
+    threads: keep(
+      'threads',
+      keep('threads', snapshot.threads, (r) => r.sourceId, entityIds),
+      (r) => r.targetId,
+      entityIds
+    ),
+    mapMarkers: keep(
+      'mapMarkers',
+      keep('mapMarkers', snapshot.mapMarkers, (r) => r.mapId, mapIds),
+      (r) => r.entityId,
+      entityIds
+    ),
+  };
+
+  const positionId = snapshot.playthrough.currentPositionPlaceId;
+  if (positionId && !placeIds.has(positionId)) {
+    orphans.push({
+      section: 'playthrough',
+      rowId: snapshot.playthrough.id,
+      missingId: positionId,
+    });
+    pruned.playthrough = {
+      ...snapshot.playthrough,
+      currentPositionPlaceId: null,
+    };
+  }
+
+  return { snapshot: pruned, orphans };
+}
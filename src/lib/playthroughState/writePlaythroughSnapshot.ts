@@ -0,0 +1,112 @@
+import { EntityType } from '../../types/EntityType';
+import type { Playthrough } from '../../types/Playthrough';
+import type { PlaythroughSnapshot } from '../../types/PlaythroughSnapshot';
+import { generateEntityId, generateId } from '../../utils/generateId';
+import { db } from '../db';
+import { transactionRunner } from '../repositories';
+
+/**
+ * Replaces all playthrough-scoped data of a target playthrough with the rows of
+ * a snapshot, in one transaction. Existing progress, state, discovery, threads,
+ * and markers of the target are removed first. Rows get fresh IDs so a snapshot
+ * can be written to a different playthrough than the one it was captured from.
+ * The target playthrough row is written (created if new) with the snapshot's
+ * current position.
+ *
+ * @param snapshot - Snapshot to write (prune it first if entities may be missing).
+ * @param target - Playthrough that receives the data; its name and IDs are kept.
+ * @returns The written playthrough row.
+ */
+export async function writePlaythroughSnapshot(
+  snapshot: PlaythroughSnapshot,
+  target: Playthrough
+): Promise<Playthrough> {
+  const playthroughId = target.id;
+  const playthrough: Playthrough = {
+    ...target,
+    currentPositionPlaceId: snapshot.playthrough.currentPositionPlaceId,
+    updatedAt: new Date().toISOString(),
+  };
+
+  const threadIdMap = new Map<string, string>(
+    snapshot.threads.map((t) => [t.id, generateEntityId(EntityType.THREAD)])
+  );
+  const remapThreadRef = (id: string): string => threadIdMap.get(id) ?? id;
+
+  await transactionRunner.run(async () => {
+    await Promise.all([
+      db.questProgress.where('playthroughId').equals(playthroughId).delete(),
+      db.insightProgress.where('playthroughId').equals(playthroughId).delete(),
+      db.itemState.where('playthroughId').equals(playthroughId).delete(),
+      db.personProgress.where('playthroughId').equals(playthroughId).delete(),
+      db.pathProgress.where('playthroughId').equals(playthroughId).delete(),
+      db.entityDiscovery.where('playthroughId').equals(playthroughId).delete(),
+      db.threads.where('playthroughId').equals(playthroughId).delete(),
+      db.mapMarkers.where('playthroughId').equals(playthroughId).delete(),
+    ]);
+
+    await db.playthroughs.put(playthrough);
+    await db.questProgress.bulkAdd(
+      snapshot.questProgress.map((r) => ({
+        ...r,
+        id: generateId(),
+        playthroughId,
+      }))
+    );
+    await db.insightProgress.bulkAdd(
+      snapshot.insightProgress.map((r) => ({
+        ...r,
+        id: generateId(),
+        playthroughId,
+      }))
+    );
+    await db.itemState.bulkAdd(
+      snapshot.itemState.map((r) => ({
+        ...r,
+        id: generateId(),
+        playthroughId,
+      }))
+    );
+    await db.personProgress.bulkAdd(
+      snapshot.personProgress.map((r) => ({
+        ...r,
+        id: generateId(),
+        playthroughId,
+      }))
+    );
+    await db.pathProgress.bulkAdd(
+      snapshot.pathProgress.map((r) => ({
+        ...r,
+        id: generateId(),
+        playthroughId,
+      }))
+    );
+    await db.entityDiscovery.bulkAdd(
+      snapshot.entityDiscovery.map((r) => ({
+        ...r,
+        id: generateId(),
+        playthroughId,
+      }))
+    );
+    await db.threads.bulkAdd(
+      snapshot.threads.map((t) => ({
+        ...t,
+        id: remapThreadRef(t.id),
+        gameId: target.gameId,
+        playthroughId,
+        sourceId: remapThreadRef(t.sourceId),
+        targetId: remapThreadRef(t.targetId),
+      }))
+    );
+    await db.mapMarkers.bulkAdd(
+      snapshot.mapMarkers.map((m) => ({
+        ...m,
+        id: generateId(),
+        gameId: target.gameId,
+        playthroughId,
+      }))
+    );
+  });
+
+  return playthrough;
+}
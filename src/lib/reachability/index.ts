@@ -1,2 +1,6 @@
-export type { ReachabilityResult } from './reachablePlaces';
-export { computeReachablePlaces } from './reachablePlaces';
+export type { PlaceGraph, PlaceGraphStep } from './reachablePlaces';
+export {
+  buildPathTraversabilityMap,
+  buildTraversablePlaceGraph,
+  findShortestRoutes,
+} from './reachablePlaces';
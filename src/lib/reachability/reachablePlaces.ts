@@ -1,226 +1,157 @@
 import { EntityType } from '../../types/EntityType';
 import { PathStatus } from '../../types/PathStatus';
-import type { GameId, PathId, PlaceId, PlaythroughId } from '../../types/ids';
-import {
-  pathRepository,
-  placeRepository,
-  threadRepository,
-} from '../repositories';
-import { checkEntityAvailability } from '../requirements';
-import { getEntityTypeFromId } from '../../utils/parseEntityId';
-import { ThreadSubtype } from '../../types/ThreadSubtype';
+import type { PathId, PlaceId } from '../../types/ids';
 import type { Path } from '../../types/Path';
+import type { Thread } from '../../types/Thread';
+import { ThreadSubtype } from '../../types/ThreadSubtype';
+import { getEntityTypeFromId } from '../../utils/parseEntityId';
+import { getThreadSubtype } from '../../utils/threadSubtype';
 
 /**
- * Result of computing reachability for places.
+ * A traversable step from a place: the neighboring place and the threads
+ * along the step (a direct link, or the path's connections).
  */
-export interface ReachabilityResult {
-  /** Set of place IDs reachable from the start place. */
-  reachablePlaceIds: Set<PlaceId>;
+export interface PlaceGraphStep {
+  /** Neighboring place ID. */
+  neighbor: PlaceId;
+  /** IDs of the threads along the step. */
+  threadIds: string[];
 }
 
+/** Traversable place graph: place ID to the steps leaving it. */
+export type PlaceGraph = Map<PlaceId, PlaceGraphStep[]>;
+
 /**
- * Builds a map of path ID to traversable flag for the given playthrough.
+ * Builds a map of path ID to traversable flag: opened paths are traversable,
+ * blocked paths are not, and restricted paths (the default) are traversable
+ * when their requirements are met.
  *
- * @param gameId - Current game ID.
- * @param playthroughId - Current playthrough ID.
  * @param paths - All paths for the current game.
- * @param pathIdsToEvaluate - IDs of the paths to evaluate (subset of `paths`).
+ * @param pathStatusById - Path status for the playthrough (absent = restricted).
+ * @param isPathAvailable - Whether a path's requirements are met.
  * @returns Map of path ID to traversable boolean.
  */
-async function buildPathTraversabilityMap(
-  gameId: GameId,
-  playthroughId: PlaythroughId,
+export function buildPathTraversabilityMap(
   paths: Path[],
-  pathIdsToEvaluate: PathId[]
-): Promise<Map<PathId, boolean>> {
-  // Load progress rows once for the playthrough and index by path ID.
-  const progressList =
-    await pathRepository.getAllProgressForPlaythrough(playthroughId);
-  const statusById = new Map<PathId, PathStatus>();
-  for (const row of progressList as { pathId: PathId; status: PathStatus }[]) {
-    statusById.set(row.pathId, row.status);
-  }
-
-  // Precompute availability for all paths, mirroring Loom path logic so
-  // reachability and Loom styling stay in sync.
-  const pathAvailabilityById = new Map<PathId, boolean>();
-  const availabilityResults = await Promise.all(
-    paths.map(async (p) => {
-      const availability = await checkEntityAvailability(
-        gameId,
-        playthroughId,
-        p.id
-      );
-      return { id: p.id as PathId, available: availability.available };
-    })
-  );
-  for (const r of availabilityResults) {
-    pathAvailabilityById.set(r.id, r.available);
-  }
-
+  pathStatusById: Map<string, PathStatus>,
+  isPathAvailable: (pathId: PathId) => boolean
+): Map<PathId, boolean> {
   const traversableById = new Map<PathId, boolean>();
-
-  for (const pathId of pathIdsToEvaluate) {
-    const status = statusById.get(pathId) ?? PathStatus.RESTRICTED;
-
-    if (status === PathStatus.BLOCKED) {
-      traversableById.set(pathId, false);
-      continue;
-    }
-
-    if (status === PathStatus.OPENED) {
-      traversableById.set(pathId, true);
-      continue;
-    }
-
-    // RESTRICTED: requires requirements to be satisfied.
-    traversableById.set(pathId, pathAvailabilityById.get(pathId) ?? false);
+  for (const path of paths) {
+    const status = pathStatusById.get(path.id) ?? PathStatus.RESTRICTED;
+    traversableById.set(
+      path.id,
+      status === PathStatus.OPENED ||
+        (status === PathStatus.RESTRICTED && isPathAvailable(path.id))
+    );
   }
-
   return traversableById;
 }
 
 /**
- * Computes the set of reachable places from a start place, following
- * direct Place–Place links and traversable Paths.
+ * Builds the traversable place graph from DIRECT_PLACE_LINK threads (always
+ * traversable) and CONNECTS_PATH threads of traversable paths (all endpoint
+ * places of a path connect to each other). Steps are bidirectional.
  *
- * @param gameId - Current game ID.
- * @param playthroughId - Current playthrough ID.
- * @param startPlaceId - Typed ID of the start place for reachability.
- * @returns Reachability result with all reachable place IDs.
+ * @param placeIds - All place IDs for the game.
+ * @param threads - Game-level and playthrough threads.
+ * @param traversableByPathId - Map of path IDs to traversable flags.
+ * @returns The place graph; every place is present.
  */
-export async function computeReachablePlaces(
-  gameId: GameId,
-  playthroughId: PlaythroughId,
-  startPlaceId: PlaceId | null
-): Promise<ReachabilityResult> {
-  // If required identifiers are missing, treat as empty reachable set.
-  if (!gameId || !playthroughId || !startPlaceId) {
-    return { reachablePlaceIds: new Set<PlaceId>() };
-  }
-
-  // Fetch places, paths, and threads for the game and playthrough.
-  const [places, paths, threads] = await Promise.all([
-    placeRepository.getByGameId(gameId),
-    pathRepository.getByGameId(gameId),
-    threadRepository.getByGameId(gameId, playthroughId),
-  ]);
-
-  // If no places are found, treat as empty reachable set.
-  if (places.length === 0) {
-    return { reachablePlaceIds: new Set<PlaceId>() };
-  }
-
-  // If the start place is not found, treat as empty reachable set.
-  const placeIds = new Set<PlaceId>(places.map((p) => p.id as PlaceId));
-  if (!placeIds.has(startPlaceId)) {
-    return { reachablePlaceIds: new Set<PlaceId>() };
-  }
-
-  // Initialize adjacency and path endpoints maps.
-  const adjacency = new Map<PlaceId, Set<PlaceId>>();
-  const pathEndpoints = new Map<PathId, Set<PlaceId>>();
-
-  // Initialize adjacency with empty sets so every place is present.
+export function buildTraversablePlaceGraph(
+  placeIds: Set<PlaceId>,
+  threads: Thread[],
+  traversableByPathId: Map<PathId, boolean>
+): PlaceGraph {
+  const graph: PlaceGraph = new Map();
   for (const id of placeIds) {
-    adjacency.set(id, new Set<PlaceId>());
+    graph.set(id, []);
   }
 
-  // Initialize set of path IDs for evaluation.
-  const pathIdsForEvaluation = new Set<PathId>();
+  // Path endpoints with the CONNECTS_PATH thread of each.
+  const endpointsByPathId = new Map<
+    PathId,
+    Array<{ placeId: PlaceId; threadId: string }>
+  >();
 
-  // Iterate over all threads to collect path endpoints and path IDs for evaluation.
   for (const thread of threads) {
-    const subtype = thread.subtype;
+    const subtype = getThreadSubtype(thread);
+    const sourceType = getEntityTypeFromId(thread.sourceId);
+    const targetType = getEntityTypeFromId(thread.targetId);
 
-    // Direct Place–Place links: always traversable, bidirectional.
     if (subtype === ThreadSubtype.DIRECT_PLACE_LINK) {
-      const sourceType = getEntityTypeFromId(thread.sourceId);
-      const targetType = getEntityTypeFromId(thread.targetId);
-      if (sourceType === EntityType.PLACE && targetType === EntityType.PLACE) {
-        const sourceId = thread.sourceId as PlaceId;
-        const targetId = thread.targetId as PlaceId;
-        if (placeIds.has(sourceId) && placeIds.has(targetId)) {
-          adjacency.get(sourceId)?.add(targetId);
-          adjacency.get(targetId)?.add(sourceId);
-        }
-      }
-      continue;
-    }
-
-    // Place–Path connectivity: collect endpoints for later traversal.
-    if (subtype === ThreadSubtype.CONNECTS_PATH) {
-      const sourceType = getEntityTypeFromId(thread.sourceId);
-      const targetType = getEntityTypeFromId(thread.targetId);
-
-      const isSourcePath = sourceType === EntityType.PATH;
-      const isTargetPath = targetType === EntityType.PATH;
-      if (!isSourcePath && !isTargetPath) {
+      if (sourceType !== EntityType.PLACE || targetType !== EntityType.PLACE) {
         continue;
       }
-
+      const sourceId = thread.sourceId as PlaceId;
+      const targetId = thread.targetId as PlaceId;
+      if (placeIds.has(sourceId) && placeIds.has(targetId)) {
+        graph
+          .get(sourceId)
+          ?.push({ neighbor: targetId, threadIds: [thread.id] });
+        graph
+          .get(targetId)
+          ?.push({ neighbor: sourceId, threadIds: [thread.id] });
+      }
+    } else if (subtype === ThreadSubtype.CONNECTS_PATH) {
+      const isSourcePath = sourceType === EntityType.PATH;
+      if (!isSourcePath && targetType !== EntityType.PATH) continue;
       const pathId = (
         isSourcePath ? thread.sourceId : thread.targetId
       ) as PathId;
       const placeId = (
         isSourcePath ? thread.targetId : thread.sourceId
       ) as PlaceId;
-
-      if (!placeIds.has(placeId)) {
-        continue;
-      }
-
-      let endpoints = pathEndpoints.get(pathId);
-      if (!endpoints) {
-        endpoints = new Set<PlaceId>();
-        pathEndpoints.set(pathId, endpoints);
-      }
-      endpoints.add(placeId);
-      pathIdsForEvaluation.add(pathId);
+      if (!placeIds.has(placeId)) continue;
+      const endpoints = endpointsByPathId.get(pathId) ?? [];
+      endpoints.push({ placeId, threadId: thread.id });
+      endpointsByPathId.set(pathId, endpoints);
     }
   }
 
-  // Evaluate which paths are traversable for this playthrough.
-  const traversableByPathId = await buildPathTraversabilityMap(
-    gameId,
-    playthroughId,
-    paths,
-    Array.from(pathIdsForEvaluation)
-  );
-
-  // For each traversable path, connect all of its place endpoints bidirectionally.
-  for (const [pathId, endpointPlaces] of pathEndpoints.entries()) {
+  // Connect all endpoint places of each traversable path.
+  for (const [pathId, endpoints] of endpointsByPathId) {
     if (!traversableByPathId.get(pathId)) continue;
-    const endpoints = Array.from(endpointPlaces);
+    const threadIds = endpoints.map((e) => e.threadId);
     for (let i = 0; i < endpoints.length; i += 1) {
       for (let j = i + 1; j < endpoints.length; j += 1) {
-        const a = endpoints[i];
-        const b = endpoints[j];
-        adjacency.get(a)?.add(b);
-        adjacency.get(b)?.add(a);
+        const a = endpoints[i].placeId;
+        const b = endpoints[j].placeId;
+        graph.get(a)?.push({ neighbor: b, threadIds });
+        graph.get(b)?.push({ neighbor: a, threadIds });
       }
     }
   }
 
-  // Traverse the graph from the start place.
-  const visited = new Set<PlaceId>();
-  const queue: PlaceId[] = [];
-
-  visited.add(startPlaceId);
-  queue.push(startPlaceId);
+  return graph;
+}
 
+/**
+ * Traverses the place graph from a start place (breadth-first). The keys of
+ * the result are the reachable places; each value holds the thread IDs on one
+ * shortest route from the start.
+ *
+ * @param startPlaceId - Typed ID of the start place, or null for none.
+ * @param graph - Traversable place graph.
+ * @returns Map of reachable place ID to route thread IDs (empty without a known start).
+ */
+export function findShortestRoutes(
+  startPlaceId: PlaceId | null,
+  graph: PlaceGraph
+): Map<PlaceId, Set<string>> {
+  const routes = new Map<PlaceId, Set<string>>();
+  if (startPlaceId === null || !graph.has(startPlaceId)) return routes;
+
+  routes.set(startPlaceId, new Set());
+  const queue: PlaceId[] = [startPlaceId];
   while (queue.length > 0) {
     const current = queue.shift() as PlaceId;
-    const neighbors = adjacency.get(current);
-    if (!neighbors) continue;
-    for (const neighbor of neighbors) {
-      if (!visited.has(neighbor)) {
-        visited.add(neighbor);
-        queue.push(neighbor);
-      }
+    const route = routes.get(current) ?? new Set<string>();
+    for (const { neighbor, threadIds } of graph.get(current) ?? []) {
+      if (routes.has(neighbor)) continue;
+      routes.set(neighbor, new Set([...route, ...threadIds]));
+      queue.push(neighbor);
     }
   }
-
-  return { reachablePlaceIds: visited };
+  return routes;
 }
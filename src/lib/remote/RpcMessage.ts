@@ -0,0 +1,29 @@
+import type { ChangeSet } from '../changes';
+import type { RemoteRepositoryName } from './remoteRepositoryMethods';
+
+/** Path (relative to the base URL) that accepts repository calls. */
+export const RPC_PATH = '/rpc';
+
+/**
+ * Body of a repository call posted to the server (values encoded with
+ * encodeRpcValue).
+ */
+export interface RpcRequest {
+  /** Repository to call, e.g. `questRepository`. */
+  repository: RemoteRepositoryName;
+
+  /** Method name on that repository. */
+  method: string;
+
+  /** Encoded arguments, in order. */
+  args: unknown[];
+}
+
+/**
+ * Body of the server's reply. Successful calls also return the change sets the
+ * call committed so clients can refresh live views; failed calls carry the
+ * repository's error message.
+ */
+export type RpcResponse =
+  | { ok: true; result: unknown; changeSets: ChangeSet[] }
+  | { ok: false; error: string };
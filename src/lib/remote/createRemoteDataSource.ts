@@ -0,0 +1,106 @@
+import type {
+  DataSource,
+  IMapRepository,
+  ITransactionRunner,
+} from '../repositories';
+import type { MapId } from '../../types/ids';
+import { createRpcClient, type RpcClient } from './createRpcClient';
+import {
+  REMOTE_REPOSITORY_METHODS,
+  type RemoteRepositoryName,
+} from './remoteRepositoryMethods';
+
+/**
+ * Builds a repository whose listed methods are forwarded to the server.
+ *
+ * @param client - RPC client for the server.
+ * @param name - Repository to forward to.
+ * @returns The remote repository.
+ */
+function createRemoteRepository<K extends RemoteRepositoryName>(
+  client: RpcClient,
+  name: K
+): DataSource[K] {
+  const repository: Record<string, (...args: unknown[]) => Promise<unknown>> =
+    {};
+  for (const method of Object.keys(REMOTE_REPOSITORY_METHODS[name])) {
+    repository[method] = (...args) => client.call(name, method, args);
+  }
+  return repository as unknown as DataSource[K];
+}
+
+/**
+ * Builds the remote map repository. Display URLs are created on the client
+ * from the map's URL or its downloaded image blob.
+ *
+ * @param client - RPC client for the server.
+ * @returns The remote map repository.
+ */
+function createRemoteMapRepository(client: RpcClient): IMapRepository {
+  const remote = createRemoteRepository(client, 'mapRepository');
+  return {
+    ...remote,
+    async getMapImageDisplayUrl(mapId: MapId) {
+      const map = await remote.getById(mapId);
+      if (!map) return null;
+      if (map.imageUrl && map.imageUrl.trim() !== '') {
+        return { url: map.imageUrl };
+      }
+      const blob = await remote.getImageBlob(mapId);
+      if (!blob) return null;
+      const url = URL.createObjectURL(blob);
+      return { url, revoke: () => URL.revokeObjectURL(url) };
+    },
+  };
+}
+
+/**
+ * Transaction runner for the remote data source. The server applies each
+ * repository call atomically (composite deletes included), but separate calls
+ * cannot share a transaction, so work simply runs; a failure part-way through
+ * leaves earlier calls applied.
+ */
+const remoteTransactionRunner: ITransactionRunner = {
+  run: (work) => work(),
+  waitFor: (promise) => promise,
+};
+
+/**
+ * Creates a data source that stores data on a QuestLoom server (see
+ * `server/` for the self-hostable reference implementation).
+ *
+ * @param baseUrl - Server base URL, e.g. `http://localhost:8787`.
+ * @returns Repositories that call the server over HTTP/JSON.
+ */
+export function createRemoteDataSource(baseUrl: string): DataSource {
+  const client = createRpcClient(baseUrl);
+  return {
+    gameRepository: createRemoteRepository(client, 'gameRepository'),
+    playthroughRepository: createRemoteRepository(
+      client,
+      'playthroughRepository'
+    ),
+    questRepository: createRemoteRepository(client, 'questRepository'),
+    insightRepository: createRemoteRepository(client, 'insightRepository'),
+    itemRepository: createRemoteRepository(client, 'itemRepository'),
+    personRepository: createRemoteRepository(client, 'personRepository'),
+    placeRepository: createRemoteRepository(client, 'placeRepository'),
+    mapRepository: createRemoteMapRepository(client),
+    mapMarkerRepository: createRemoteRepository(client, 'mapMarkerRepository'),
+    threadRepository: createRemoteRepository(client, 'threadRepository'),
+    entityDiscoveryRepository: createRemoteRepository(
+      client,
+      'entityDiscoveryRepository'
+    ),
+    pathRepository: createRemoteRepository(client, 'pathRepository'),
+    activityLogRepository: createRemoteRepository(
+      client,
+      'activityLogRepository'
+    ),
+    playthroughCheckpointRepository: createRemoteRepository(
+      client,
+      'playthroughCheckpointRepository'
+    ),
+    transactionRunner: remoteTransactionRunner,
+  };
+}
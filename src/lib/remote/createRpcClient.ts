@@ -0,0 +1,74 @@
+import { publishRemoteChangeSet, type ChangeSet } from '../changes';
+import { decodeRpcValue, encodeRpcValue } from './rpcCodec';
+import { RPC_PATH, type RpcRequest, type RpcResponse } from './RpcMessage';
+import type { RemoteRepositoryName } from './remoteRepositoryMethods';
+
+/**
+ * Sends repository calls to a QuestLoom server.
+ */
+export interface RpcClient {
+  /**
+   * Calls a repository method on the server and returns its decoded result.
+   * Change sets the call committed are published locally (remote origin) so
+   * live views refresh.
+   *
+   * @param repository - Repository to call.
+   * @param method - Method name.
+   * @param args - Method arguments.
+   * @returns The method's result.
+   * @throws Error with the server's message when the call fails, or when the server cannot be reached.
+   */
+  call(
+    repository: RemoteRepositoryName,
+    method: string,
+    args: unknown[]
+  ): Promise<unknown>;
+}
+
+/**
+ * Creates an HTTP/JSON client for the server at baseUrl.
+ *
+ * @param baseUrl - Server base URL, e.g. `http://localhost:8787`.
+ * @returns An RPC client.
+ */
+export function createRpcClient(baseUrl: string): RpcClient {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}${RPC_PATH}`;
+
+  return {
+    async call(repository, method, args) {
+      const request: RpcRequest = {
+        repository,
+        method,
+        args: (await encodeRpcValue(args)) as unknown[],
+      };
+
+      let response: Response;
+      try {
+        response = await fetch(endpoint, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(request),
+        });
+      } catch {
+        throw new Error('Could not reach the QuestLoom server.');
+      }
+
+      let body: RpcResponse;
+      try {
+        body = (await response.json()) as RpcResponse;
+      } catch {
+        throw new Error(
+          `The QuestLoom server returned an invalid response (${response.status}).`
+        );
+      }
+      if (!body.ok) {
+        throw new Error(body.error);
+      }
+
+      for (const changeSet of body.changeSets) {
+        publishRemoteChangeSet(decodeRpcValue(changeSet) as ChangeSet);
+      }
+      return decodeRpcValue(body.result);
+    },
+  };
+}
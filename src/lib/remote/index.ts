@@ -0,0 +1,16 @@
+/**
+ * Remote data source: repository implementations that call a QuestLoom server
+ * over HTTP/JSON, plus the wire protocol shared with the reference server.
+ */
+
+export type { RpcClient } from './createRpcClient';
+export type { RpcRequest, RpcResponse } from './RpcMessage';
+export type { RemoteRepositoryName } from './remoteRepositoryMethods';
+export { createRemoteDataSource } from './createRemoteDataSource';
+export { createRpcClient } from './createRpcClient';
+export { decodeRpcValue, encodeRpcValue } from './rpcCodec';
+export { RPC_PATH } from './RpcMessage';
+export {
+  isRemoteRepositoryMethod,
+  REMOTE_REPOSITORY_METHODS,
+} from './remoteRepositoryMethods';
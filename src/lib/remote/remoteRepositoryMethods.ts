@@ -0,0 +1,190 @@
+import type {
+  DataSource,
+  DataSourceRepositoryName,
+  IMapRepository,
+} from '../repositories';
+
+/**
+ * Repositories reachable over RPC. The transaction runner stays on the client:
+ * each remote call is atomic on the server, but calls cannot be grouped.
+ */
+export type RemoteRepositoryName = Exclude<
+  DataSourceRepositoryName,
+  'transactionRunner'
+>;
+
+/** Map repository methods that run on the client (they return object URLs). */
+type ClientOnlyMapMethod = 'getMapImageDisplayUrl';
+
+/**
+ * Methods of each repository that may be called remotely. Typed as complete
+ * records so adding a method to an interface fails to compile until it is
+ * listed here; the server rejects anything not listed.
+ */
+export const REMOTE_REPOSITORY_METHODS: {
+  [K in RemoteRepositoryName]: Record<
+    K extends 'mapRepository'
+      ? Exclude<keyof IMapRepository, ClientOnlyMapMethod>
+      : keyof DataSource[K],
+    true
+  >;
+} = {
+  gameRepository: {
+    getAll: true,
+    getById: true,
+    create: true,
+    update: true,
+    delete: true,
+  },
+  playthroughRepository: {
+    create: true,
+    getByGameId: true,
+    getById: true,
+    update: true,
+    delete: true,
+    deleteByGameId: true,
+  },
+  questRepository: {
+    getByGameId: true,
+    getById: true,
+    create: true,
+    update: true,
+    delete: true,
+    deleteByGameId: true,
+    getProgress: true,
+    getAllProgressForPlaythrough: true,
+    upsertProgress: true,
+    deleteProgressByPlaythroughId: true,
+  },
+  insightRepository: {
+    getByGameId: true,
+    getById: true,
+    create: true,
+    update: true,
+    delete: true,
+    deleteByGameId: true,
+    getProgress: true,
+    getAllProgressForPlaythrough: true,
+    upsertProgress: true,
+    deleteProgressByPlaythroughId: true,
+  },
+  itemRepository: {
+    getByGameId: true,
+    getById: true,
+    create: true,
+    update: true,
+    delete: true,
+    deleteByGameId: true,
+    getState: true,
+    getAllStateForPlaythrough: true,
+    upsertState: true,
+    deleteStateByPlaythroughId: true,
+  },
+  personRepository: {
+    getByGameId: true,
+    getById: true,
+    create: true,
+    update: true,
+    delete: true,
+    deleteByGameId: true,
+    getProgress: true,
+    getAllProgressForPlaythrough: true,
+    upsertProgress: true,
+    deleteProgressByPlaythroughId: true,
+  },
+  placeRepository: {
+    getByGameId: true,
+    getById: true,
+    create: true,
+    update: true,
+    delete: true,
+    deleteByGameId: true,
+  },
+  mapRepository: {
+    getByGameId: true,
+    getById: true,
+    create: true,
+    update: true,
+    delete: true,
+    deleteByGameId: true,
+    setImageFromUrl: true,
+    setImageFromUpload: true,
+    getImageBlob: true,
+    getImageStorageUsage: true,
+    clearImage: true,
+  },
+  mapMarkerRepository: {
+    getByMapId: true,
+    create: true,
+    update: true,
+    delete: true,
+    deleteByMapId: true,
+    deleteByEntity: true,
+    deleteByPlaythroughId: true,
+  },
+  threadRepository: {
+    getByGameId: true,
+    getById: true,
+    create: true,
+    update: true,
+    delete: true,
+    deleteByGameId: true,
+    deleteByPlaythroughId: true,
+    getThreadsFromEntity: true,
+    deleteThreadsInvolvingEntity: true,
+    getRequirementThreadsFromEntity: true,
+  },
+  entityDiscoveryRepository: {
+    getDiscovery: true,
+    getAllForPlaythrough: true,
+    upsert: true,
+    deleteByPlaythroughId: true,
+  },
+  pathRepository: {
+    getByGameId: true,
+    getById: true,
+    create: true,
+    update: true,
+    delete: true,
+    deleteByGameId: true,
+    getProgress: true,
+    getAllProgressForPlaythrough: true,
+    upsertProgress: true,
+    deleteProgressByPlaythroughId: true,
+  },
+  activityLogRepository: {
+    getByPlaythroughId: true,
+    append: true,
+    deleteByPlaythroughId: true,
+  },
+  playthroughCheckpointRepository: {
+    getByPlaythroughId: true,
+    getById: true,
+    create: true,
+    delete: true,
+    deleteByPlaythroughId: true,
+  },
+};
+
+/**
+ * Returns whether a repository method may be called remotely.
+ *
+ * @param repository - Repository name from the request.
+ * @param method - Method name from the request.
+ * @returns True when the pair is listed in REMOTE_REPOSITORY_METHODS.
+ */
+export function isRemoteRepositoryMethod(
+  repository: string,
+  method: string
+): repository is RemoteRepositoryName {
+  return (
+    Object.prototype.hasOwnProperty.call(
+      REMOTE_REPOSITORY_METHODS,
+      repository
+    ) &&
+    Object.prototype.hasOwnProperty.call(
+      REMOTE_REPOSITORY_METHODS[repository as RemoteRepositoryName],
+      method
+    )
+  );
+}
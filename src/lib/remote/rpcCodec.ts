@@ -0,0 +1,80 @@
+import { base64ToBlob } from '../../utils/base64ToBlob';
+import { blobToBase64 } from '../../utils/blobToBase64';
+
+/**
+ * Tagged JSON form of a value plain JSON cannot carry. Blobs (map images) are
+ * embedded as base64; undefined survives in argument lists and results.
+ */
+type EncodedSpecialValue =
+  | { $rpc: 'blob'; base64: string; mimeType: string }
+  | { $rpc: 'undefined' };
+
+/**
+ * Returns whether a decoded JSON value is a tagged special value.
+ *
+ * @param value - Decoded JSON value.
+ * @returns True when value carries an `$rpc` tag.
+ */
+function isEncodedSpecialValue(value: unknown): value is EncodedSpecialValue {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as { $rpc?: unknown }).$rpc === 'string'
+  );
+}
+
+/**
+ * Converts a value into JSON-safe form for an RPC request or response.
+ * Object properties that are undefined are omitted, as JSON.stringify would.
+ *
+ * @param value - Arguments, result, or change set to encode.
+ * @returns A value that round-trips through JSON.
+ */
+export async function encodeRpcValue(value: unknown): Promise<unknown> {
+  if (value === undefined) return { $rpc: 'undefined' };
+  if (value instanceof Blob) {
+    return {
+      $rpc: 'blob',
+      base64: await blobToBase64(value),
+      mimeType: value.type,
+    };
+  }
+  if (Array.isArray(value)) {
+    return Promise.all(value.map(encodeRpcValue));
+  }
+  if (typeof value === 'object' && value !== null) {
+    const encoded: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      if (entry !== undefined) {
+        encoded[key] = await encodeRpcValue(entry);
+      }
+    }
+    return encoded;
+  }
+  return value;
+}
+
+/**
+ * Restores a value produced by encodeRpcValue after JSON parsing.
+ *
+ * @param value - Parsed JSON value.
+ * @returns The original value, with Blobs and undefined restored.
+ */
+export function decodeRpcValue(value: unknown): unknown {
+  if (isEncodedSpecialValue(value)) {
+    return value.$rpc === 'blob'
+      ? base64ToBlob(value.base64, value.mimeType)
+      : undefined;
+  }
+  if (Array.isArray(value)) {
+    return value.map(decodeRpcValue);
+  }
+  if (typeof value === 'object' && value !== null) {
+    const decoded: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      decoded[key] = decodeRpcValue(entry);
+    }
+    return decoded;
+  }
+  return value;
+}
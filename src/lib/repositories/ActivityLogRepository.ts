@@ -0,0 +1,50 @@
+/**
+ * Singleton activity log repository for the app.
+ * Use this instead of Dexie directly; implements IActivityLogRepository against IndexedDB.
+ */
+
+import type { ActivityLogEntry } from '../../types/ActivityLogEntry';
+import type { PlaythroughId } from '../../types/ids';
+import { generateId } from '../../utils/generateId';
+import { db } from '../db';
+import type { CreateActivityLogEntryInput } from './CreateActivityLogEntryInput';
+import type { IActivityLogRepository } from './IActivityLogRepository';
+
+/**
+ * Dexie-backed implementation of IActivityLogRepository.
+ */
+class ActivityLogRepositoryImpl implements IActivityLogRepository {
+  async getByPlaythroughId(
+    playthroughId: PlaythroughId,
+    entityId?: string
+  ): Promise<ActivityLogEntry[]> {
+    const rows = entityId
+      ? await db.activityLog
+          .where('[playthroughId+entityId]')
+          .equals([playthroughId, entityId])
+          .toArray()
+      : await db.activityLog
+          .where('playthroughId')
+          .equals(playthroughId)
+          .toArray();
+    return rows.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  }
+
+  async append(input: CreateActivityLogEntryInput): Promise<ActivityLogEntry> {
+    const entry: ActivityLogEntry = {
+      ...input,
+      id: generateId(),
+      timestamp: new Date().toISOString(),
+    };
+    await db.activityLog.add(entry);
+    return entry;
+  }
+
+  async deleteByPlaythroughId(playthroughId: PlaythroughId): Promise<void> {
+    await db.activityLog.where('playthroughId').equals(playthroughId).delete();
+  }
+}
+
+/** Single activity log repository instance. */
+export const activityLogRepository: IActivityLogRepository =
+  new ActivityLogRepositoryImpl();
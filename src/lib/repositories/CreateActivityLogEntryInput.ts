@@ -0,0 +1,10 @@
+import type { ActivityLogEntry } from '../../types/ActivityLogEntry';
+
+/**
+ * Input for appending an activity log entry.
+ * ID and timestamp are set by the repository.
+ */
+export type CreateActivityLogEntryInput = Omit<
+  ActivityLogEntry,
+  'id' | 'timestamp'
+>;
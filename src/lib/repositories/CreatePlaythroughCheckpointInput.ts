@@ -0,0 +1,10 @@
+import type { PlaythroughCheckpoint } from '../../types/PlaythroughCheckpoint';
+
+/**
+ * Input for saving a playthrough checkpoint.
+ * ID and creation timestamp are set by the repository.
+ */
+export type CreatePlaythroughCheckpointInput = Omit<
+  PlaythroughCheckpoint,
+  'id' | 'createdAt'
+>;
@@ -1,4 +1,5 @@
 import type { GameId, PlaythroughId } from '../../types/ids';
+import type { RequirementGroupRef } from '../../types/RequirementGroup';
 import type { ThreadSubtype } from '../../types/ThreadSubtype';
 
 /**
@@ -34,4 +35,9 @@ export interface CreateThreadInput {
    * For ObjectiveRequires: 0-based index of the quest objective this dependency belongs to.
    */
   objectiveIndex?: number;
+
+  /**
+   * For Requires: groups containing this requirement, outermost first. Omit for the top level.
+   */
+  requirementGroups?: RequirementGroupRef[];
 }
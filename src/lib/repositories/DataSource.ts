@@ -0,0 +1,40 @@
+import type { IActivityLogRepository } from './IActivityLogRepository';
+import type { IEntityDiscoveryRepository } from './IEntityDiscoveryRepository';
+import type { IGameRepository } from './IGameRepository';
+import type { IInsightRepository } from './IInsightRepository';
+import type { IItemRepository } from './IItemRepository';
+import type { IMapMarkerRepository } from './IMapMarkerRepository';
+import type { IMapRepository } from './IMapRepository';
+import type { IPathRepository } from './IPathRepository';
+import type { IPersonRepository } from './IPersonRepository';
+import type { IPlaceRepository } from './IPlaceRepository';
+import type { IPlaythroughCheckpointRepository } from './IPlaythroughCheckpointRepository';
+import type { IPlaythroughRepository } from './IPlaythroughRepository';
+import type { IQuestRepository } from './IQuestRepository';
+import type { IThreadRepository } from './IThreadRepository';
+import type { ITransactionRunner } from './ITransactionRunner';
+
+/**
+ * A complete set of repository implementations backed by one store (local
+ * IndexedDB, a remote server, ...). Keys match the barrel's repository exports.
+ */
+export interface DataSource {
+  gameRepository: IGameRepository;
+  playthroughRepository: IPlaythroughRepository;
+  questRepository: IQuestRepository;
+  insightRepository: IInsightRepository;
+  itemRepository: IItemRepository;
+  personRepository: IPersonRepository;
+  placeRepository: IPlaceRepository;
+  mapRepository: IMapRepository;
+  mapMarkerRepository: IMapMarkerRepository;
+  threadRepository: IThreadRepository;
+  entityDiscoveryRepository: IEntityDiscoveryRepository;
+  pathRepository: IPathRepository;
+  activityLogRepository: IActivityLogRepository;
+  playthroughCheckpointRepository: IPlaythroughCheckpointRepository;
+  transactionRunner: ITransactionRunner;
+}
+
+/** Name of one repository in a data source. */
+export type DataSourceRepositoryName = keyof DataSource;
@@ -3,12 +3,23 @@
  * Use this instead of Dexie directly; implements IEntityDiscoveryRepository against IndexedDB.
  */
 
+import { ActivityKind } from '../../types/ActivityKind';
 import type { EntityDiscovery } from '../../types/EntityDiscovery';
-import type { DiscoveryEntityType } from '../../types/DiscoveryEntityType';
+import { DiscoveryEntityType } from '../../types/DiscoveryEntityType';
+import { EntityType } from '../../types/EntityType';
 import type { PlaythroughId } from '../../types/ids';
 import { generateId } from '../../utils/generateId';
 import { db, type EntityDiscoveryRow } from '../db';
+import { activityLogRepository } from './ActivityLogRepository';
 import type { IEntityDiscoveryRepository } from './IEntityDiscoveryRepository';
+import { transactionRunner } from './TransactionRunner';
+
+/** Entity type recorded in the activity log for each discoverable type. */
+const DISCOVERY_ENTITY_TYPES: Record<DiscoveryEntityType, EntityType> = {
+  [DiscoveryEntityType.PERSON]: EntityType.PERSON,
+  [DiscoveryEntityType.PLACE]: EntityType.PLACE,
+  [DiscoveryEntityType.MAP]: EntityType.MAP,
+};
 
 /**
  * Dexie-backed implementation of IEntityDiscoveryRepository.
@@ -44,7 +55,28 @@ class EntityDiscoveryRepositoryImpl implements IEntityDiscoveryRepository {
       entityId: discovery.entityId,
       discovered: discovery.discovered,
     };
-    await db.entityDiscovery.put(row);
+    await transactionRunner.run(async () => {
+      const previous = discovery.id
+        ? await db.entityDiscovery.get(discovery.id)
+        : await db.entityDiscovery
+            .where('[playthroughId+entityType+entityId]')
+            .equals([
+              discovery.playthroughId,
+              discovery.entityType,
+              discovery.entityId,
+            ])
+            .first();
+      await db.entityDiscovery.put(row);
+      if (previous?.discovered === row.discovered) return;
+      await activityLogRepository.append({
+        playthroughId: row.playthroughId,
+        kind: ActivityKind.DISCOVERY_CHANGE,
+        entityType: DISCOVERY_ENTITY_TYPES[row.entityType],
+        entityId: row.entityId,
+        previousValue: previous?.discovered ?? null,
+        newValue: row.discovered,
+      });
+    });
   }
 
   async deleteByPlaythroughId(playthroughId: PlaythroughId): Promise<void> {
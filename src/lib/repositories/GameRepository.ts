@@ -12,11 +12,13 @@ import type { IGameRepository } from './IGameRepository';
 import { insightRepository } from './InsightRepository';
 import { itemRepository } from './ItemRepository';
 import { mapRepository } from './MapRepository';
+import { pathRepository } from './PathRepository';
 import { personRepository } from './PersonRepository';
 import { placeRepository } from './PlaceRepository';
 import { playthroughRepository } from './PlaythroughRepository';
 import { questRepository } from './QuestRepository';
 import { threadRepository } from './ThreadRepository';
+import { transactionRunner } from './TransactionRunner';
 
 /**
  * Dexie-backed implementation of IGameRepository.
@@ -52,15 +54,18 @@ class GameRepositoryImpl implements IGameRepository {
   }
 
   async delete(id: GameId): Promise<void> {
-    await playthroughRepository.deleteByGameId(id);
-    await questRepository.deleteByGameId(id);
-    await insightRepository.deleteByGameId(id);
-    await itemRepository.deleteByGameId(id);
-    await personRepository.deleteByGameId(id);
-    await placeRepository.deleteByGameId(id);
-    await mapRepository.deleteByGameId(id);
-    await threadRepository.deleteByGameId(id);
-    await db.games.delete(id);
+    await transactionRunner.run(async () => {
+      await playthroughRepository.deleteByGameId(id);
+      await questRepository.deleteByGameId(id);
+      await insightRepository.deleteByGameId(id);
+      await itemRepository.deleteByGameId(id);
+      await personRepository.deleteByGameId(id);
+      await placeRepository.deleteByGameId(id);
+      await pathRepository.deleteByGameId(id);
+      await mapRepository.deleteByGameId(id);
+      await threadRepository.deleteByGameId(id);
+      await db.games.delete(id);
+    });
   }
 }
 
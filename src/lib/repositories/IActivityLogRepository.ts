@@ -0,0 +1,36 @@
+import type { ActivityLogEntry } from '../../types/ActivityLogEntry';
+import type { PlaythroughId } from '../../types/ids';
+import type { CreateActivityLogEntryInput } from './CreateActivityLogEntryInput';
+
+/**
+ * Contract for the playthrough activity log (playthrough-scoped).
+ * Entries are appended by the progress repositories; feature code only reads.
+ */
+export interface IActivityLogRepository {
+  /**
+   * Returns the log of a playthrough, newest first.
+   *
+   * @param playthroughId - The playthrough ID.
+   * @param entityId - When set, only entries concerning this entity.
+   * @returns Matching log entries, newest first.
+   */
+  getByPlaythroughId(
+    playthroughId: PlaythroughId,
+    entityId?: string
+  ): Promise<ActivityLogEntry[]>;
+
+  /**
+   * Appends an entry timestamped now.
+   *
+   * @param input - The event to record.
+   * @returns The stored entry.
+   */
+  append(input: CreateActivityLogEntryInput): Promise<ActivityLogEntry>;
+
+  /**
+   * Deletes the whole log of a playthrough (cascade when deleting playthrough).
+   *
+   * @param playthroughId - The playthrough ID.
+   */
+  deleteByPlaythroughId(playthroughId: PlaythroughId): Promise<void>;
+}
@@ -126,4 +126,11 @@ export interface IMapMarkerRepository {
     entityType: EntityType,
     entityId: QuestId | InsightId | ItemId | PersonId | PlaceId | PathId
   ): Promise<void>;
+
+  /**
+   * Deletes all playthrough-scoped markers of a playthrough.
+   *
+   * @param playthroughId - The playthrough whose markers to delete.
+   */
+  deleteByPlaythroughId(playthroughId: PlaythroughId): Promise<void>;
 }
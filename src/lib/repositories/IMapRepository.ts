@@ -1,6 +1,7 @@
 import type { Map } from '../../types/Map';
 import type { GameId, MapId } from '../../types/ids';
 import type { CreateMapInput } from './CreateMapInput';
+import type { MapImageStorageUsage } from './MapImageStorageUsage';
 
 /**
  * Contract for map data access.
@@ -61,12 +62,29 @@ export interface IMapRepository {
   setImageFromUrl(mapId: MapId, url: string): Promise<void>;
 
   /**
-   * Sets the map image from an uploaded file; stores blob and updates map.
+   * Sets the map image from an uploaded image; stores blob and updates map.
+   * Callers compress the image first (see lib/images).
    *
    * @param mapId - The map to update.
-   * @param file - Image file (e.g. PNG, JPEG, WebP).
+   * @param image - Image file or processed blob (e.g. PNG, JPEG, WebP).
    */
-  setImageFromUpload(mapId: MapId, file: File): Promise<void>;
+  setImageFromUpload(mapId: MapId, image: Blob): Promise<void>;
+
+  /**
+   * Returns the stored uploaded image of a map.
+   *
+   * @param mapId - The map to read.
+   * @returns The image blob, or null if the map has no uploaded image.
+   */
+  getImageBlob(mapId: MapId): Promise<Blob | null>;
+
+  /**
+   * Returns how much storage a game's uploaded map images use.
+   *
+   * @param gameId - The game ID.
+   * @returns Image count and total bytes.
+   */
+  getImageStorageUsage(gameId: GameId): Promise<MapImageStorageUsage>;
 
   /**
    * Clears the map image (removes blob if present, clears URL).
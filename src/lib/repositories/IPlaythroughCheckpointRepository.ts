@@ -0,0 +1,51 @@
+import type { PlaythroughId } from '../../types/ids';
+import type { PlaythroughCheckpoint } from '../../types/PlaythroughCheckpoint';
+import type { CreatePlaythroughCheckpointInput } from './CreatePlaythroughCheckpointInput';
+
+/**
+ * Contract for playthrough checkpoints (save slots, playthrough-scoped).
+ * Capturing and restoring the snapshot lives in lib/checkpoints.
+ */
+export interface IPlaythroughCheckpointRepository {
+  /**
+   * Returns the checkpoints of a playthrough, newest first.
+   *
+   * @param playthroughId - The playthrough ID.
+   * @returns Checkpoints of the playthrough, newest first.
+   */
+  getByPlaythroughId(
+    playthroughId: PlaythroughId
+  ): Promise<PlaythroughCheckpoint[]>;
+
+  /**
+   * Returns a checkpoint by ID.
+   *
+   * @param id - The checkpoint ID.
+   * @returns The checkpoint, or undefined if not found.
+   */
+  getById(id: string): Promise<PlaythroughCheckpoint | undefined>;
+
+  /**
+   * Stores a new checkpoint timestamped now.
+   *
+   * @param input - Playthrough, name, and captured snapshot.
+   * @returns The stored checkpoint.
+   */
+  create(
+    input: CreatePlaythroughCheckpointInput
+  ): Promise<PlaythroughCheckpoint>;
+
+  /**
+   * Deletes a checkpoint. The playthrough's current data is not affected.
+   *
+   * @param id - The checkpoint ID.
+   */
+  delete(id: string): Promise<void>;
+
+  /**
+   * Deletes all checkpoints of a playthrough (cascade when deleting playthrough).
+   *
+   * @param playthroughId - The playthrough ID.
+   */
+  deleteByPlaythroughId(playthroughId: PlaythroughId): Promise<void>;
+}
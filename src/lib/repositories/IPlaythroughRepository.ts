@@ -44,14 +44,16 @@ export interface IPlaythroughRepository {
   update(playthrough: Playthrough): Promise<void>;
 
   /**
-   * Deletes a single playthrough by ID.
+   * Deletes a single playthrough by ID together with its progress, state,
+   * discovery, and playthrough-scoped threads and map markers.
    *
    * @param id - Playthrough ID to delete
    */
   delete(id: PlaythroughId): Promise<void>;
 
   /**
-   * Deletes all playthroughs for a game. Used when deleting a game (cascade).
+   * Deletes all playthroughs for a game, cascading to each playthrough's
+   * scoped data as delete does. Used when deleting a game (cascade).
    *
    * @param gameId - Game ID whose playthroughs to delete
    */
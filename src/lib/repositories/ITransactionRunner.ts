@@ -0,0 +1,29 @@
+/**
+ * Unit of work for the repository layer. Runs a composite write so that either
+ * every change commits or, if the work throws, none of them do.
+ * Repository calls made inside the work join the same transaction; nested runs
+ * join the outer one.
+ */
+export interface ITransactionRunner {
+  /**
+   * Runs work in a single read-write transaction spanning all tables.
+   * Only await repository (or database) calls inside work; awaiting unrelated
+   * async operations (network, timers, file reads, Web Crypto) would end the
+   * transaction early. Do such work before the run, or wrap it in waitFor.
+   *
+   * @param work - Composite operation to run atomically.
+   * @returns The value returned by work.
+   * @throws Rethrows any error from work after rolling back all of its writes.
+   */
+  run<T>(work: () => Promise<T>): Promise<T>;
+
+  /**
+   * Awaits a non-database operation without ending the active transaction.
+   * Outside a run the promise is simply returned. Keep such waits short: the
+   * transaction holds every table while it waits.
+   *
+   * @param promise - Operation to wait for, e.g. encrypting a field.
+   * @returns The promise's value.
+   */
+  waitFor<T>(promise: Promise<T>): Promise<T>;
+}
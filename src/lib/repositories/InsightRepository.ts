@@ -10,9 +10,11 @@ import type { GameId, InsightId, PlaythroughId } from '../../types/ids';
 import { generateId, generateEntityId } from '../../utils/generateId';
 import { db, type InsightProgressRow } from '../db';
 import { deleteThreadsForEntity } from './cascadeDeleteThreads';
+import { logStatusChange } from './logStatusChange';
 import { mapMarkerRepository } from './MapMarkerRepository';
 import type { CreateInsightInput } from './CreateInsightInput';
 import type { IInsightRepository } from './IInsightRepository';
+import { transactionRunner } from './TransactionRunner';
 
 /**
  * Dexie-backed implementation of IInsightRepository.
@@ -49,16 +51,18 @@ class InsightRepositoryImpl implements IInsightRepository {
   }
 
   async delete(id: InsightId): Promise<void> {
-    const insight = await db.insights.get(id);
-    if (insight) {
-      await deleteThreadsForEntity(insight.gameId, id);
-      await mapMarkerRepository.deleteByEntity(
-        insight.gameId,
-        EntityType.INSIGHT,
-        id
-      );
-    }
-    await db.insights.delete(id);
+    await transactionRunner.run(async () => {
+      const insight = await db.insights.get(id);
+      if (insight) {
+        await deleteThreadsForEntity(insight.gameId, id);
+        await mapMarkerRepository.deleteByEntity(
+          insight.gameId,
+          EntityType.INSIGHT,
+          id
+        );
+      }
+      await db.insights.delete(id);
+    });
   }
 
   async deleteByGameId(gameId: GameId): Promise<void> {
@@ -94,7 +98,22 @@ class InsightRepositoryImpl implements IInsightRepository {
       status: progress.status,
       notes: progress.notes,
     };
-    await db.insightProgress.put(row);
+    await transactionRunner.run(async () => {
+      const previous = progress.id
+        ? await db.insightProgress.get(progress.id)
+        : await db.insightProgress
+            .where('[playthroughId+insightId]')
+            .equals([progress.playthroughId, progress.insightId])
+            .first();
+      await db.insightProgress.put(row);
+      await logStatusChange(
+        row.playthroughId,
+        EntityType.INSIGHT,
+        row.insightId,
+        previous?.status,
+        row.status
+      );
+    });
   }
 
   async deleteProgressByPlaythroughId(
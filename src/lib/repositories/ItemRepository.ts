@@ -10,9 +10,11 @@ import type { GameId, ItemId, PlaythroughId } from '../../types/ids';
 import { generateId, generateEntityId } from '../../utils/generateId';
 import { db, type ItemStateRow } from '../db';
 import { deleteThreadsForEntity } from './cascadeDeleteThreads';
+import { logStatusChange } from './logStatusChange';
 import { mapMarkerRepository } from './MapMarkerRepository';
 import type { CreateItemInput } from './CreateItemInput';
 import type { IItemRepository } from './IItemRepository';
+import { transactionRunner } from './TransactionRunner';
 
 /**
  * Dexie-backed implementation of IItemRepository.
@@ -49,16 +51,18 @@ class ItemRepositoryImpl implements IItemRepository {
   }
 
   async delete(id: ItemId): Promise<void> {
-    const item = await db.items.get(id);
-    if (item) {
-      await deleteThreadsForEntity(item.gameId, id);
-      await mapMarkerRepository.deleteByEntity(
-        item.gameId,
-        EntityType.ITEM,
-        id
-      );
-    }
-    await db.items.delete(id);
+    await transactionRunner.run(async () => {
+      const item = await db.items.get(id);
+      if (item) {
+        await deleteThreadsForEntity(item.gameId, id);
+        await mapMarkerRepository.deleteByEntity(
+          item.gameId,
+          EntityType.ITEM,
+          id
+        );
+      }
+      await db.items.delete(id);
+    });
   }
 
   async deleteByGameId(gameId: GameId): Promise<void> {
@@ -94,7 +98,22 @@ class ItemRepositoryImpl implements IItemRepository {
       status: state.status,
       notes: state.notes,
     };
-    await db.itemState.put(row);
+    await transactionRunner.run(async () => {
+      const previous = state.id
+        ? await db.itemState.get(state.id)
+        : await db.itemState
+            .where('[playthroughId+itemId]')
+            .equals([state.playthroughId, state.itemId])
+            .first();
+      await db.itemState.put(row);
+      await logStatusChange(
+        row.playthroughId,
+        EntityType.ITEM,
+        row.itemId,
+        previous?.status,
+        row.status
+      );
+    });
   }
 
   async deleteStateByPlaythroughId(
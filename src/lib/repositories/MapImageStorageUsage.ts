@@ -0,0 +1,9 @@
+/**
+ * Storage used by a game's uploaded map images.
+ */
+export interface MapImageStorageUsage {
+  /** Number of stored images. */
+  imageCount: number;
+  /** Total size of the stored images in bytes. */
+  totalBytes: number;
+}
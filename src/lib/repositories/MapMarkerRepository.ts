@@ -129,6 +129,10 @@ class MapMarkerRepositoryImpl implements IMapMarkerRepository {
       )
       .delete();
   }
+
+  async deleteByPlaythroughId(playthroughId: PlaythroughId): Promise<void> {
+    await db.mapMarkers.where('playthroughId').equals(playthroughId).delete();
+  }
 }
 
 /** Single map marker repository instance. */
@@ -11,7 +11,9 @@ import { db, type MapImageBlobRow } from '../db';
 import { deleteThreadsForEntity } from './cascadeDeleteThreads';
 import type { CreateMapInput } from './CreateMapInput';
 import type { IMapRepository } from './IMapRepository';
+import type { MapImageStorageUsage } from './MapImageStorageUsage';
 import { mapMarkerRepository } from './MapMarkerRepository';
+import { transactionRunner } from './TransactionRunner';
 
 /**
  * Dexie-backed implementation of IMapRepository.
@@ -50,94 +52,119 @@ class MapRepositoryImpl implements IMapRepository {
   }
 
   async delete(id: MapId): Promise<void> {
-    const map = await db.maps.get(id);
-    if (map) {
-      if (map.imageSourceType === 'upload' && map.imageBlobId) {
-        await db.mapImages.delete(map.imageBlobId);
-      }
-      await deleteThreadsForEntity(map.gameId, id);
-
-      await mapMarkerRepository.deleteByMapId(map.gameId, id);
-
-      const scopedPlaces = await db.places
-        .where('gameId')
-        .equals(map.gameId)
-        .filter((place) => place.map === id)
-        .toArray();
-      for (const place of scopedPlaces) {
-        await mapMarkerRepository.deleteByEntity(
-          map.gameId,
-          EntityType.PLACE,
-          place.id
-        );
-        await deleteThreadsForEntity(place.gameId, place.id);
-        await db.places.delete(place.id);
+    await transactionRunner.run(async () => {
+      const map = await db.maps.get(id);
+      if (map) {
+        if (map.imageSourceType === 'upload' && map.imageBlobId) {
+          await db.mapImages.delete(map.imageBlobId);
+        }
+        await deleteThreadsForEntity(map.gameId, id);
+
+        await mapMarkerRepository.deleteByMapId(map.gameId, id);
+
+        const scopedPlaces = await db.places
+          .where('gameId')
+          .equals(map.gameId)
+          .filter((place) => place.map === id)
+          .toArray();
+        for (const place of scopedPlaces) {
+          await mapMarkerRepository.deleteByEntity(
+            map.gameId,
+            EntityType.PLACE,
+            place.id
+          );
+          await deleteThreadsForEntity(place.gameId, place.id);
+          await db.places.delete(place.id);
+        }
       }
-    }
-    await db.maps.delete(id);
+      await db.maps.delete(id);
+    });
   }
 
   async deleteByGameId(gameId: GameId): Promise<void> {
-    await db.mapMarkers.where('gameId').equals(gameId).delete();
-    await db.mapImages.where('gameId').equals(gameId).delete();
-    await db.maps.where('gameId').equals(gameId).delete();
+    await transactionRunner.run(async () => {
+      await db.mapMarkers.where('gameId').equals(gameId).delete();
+      await db.mapImages.where('gameId').equals(gameId).delete();
+      await db.maps.where('gameId').equals(gameId).delete();
+    });
   }
 
   async setImageFromUrl(mapId: MapId, url: string): Promise<void> {
-    const map = await db.maps.get(mapId);
-    if (!map) return;
-    if (map.imageSourceType === 'upload' && map.imageBlobId) {
-      await db.mapImages.delete(map.imageBlobId);
-    }
-    const updated: Map = {
-      ...map,
-      imageSourceType: 'url',
-      imageUrl: url,
-      imageBlobId: undefined,
-      updatedAt: new Date().toISOString(),
-    };
-    await db.maps.put(updated);
+    await transactionRunner.run(async () => {
+      const map = await db.maps.get(mapId);
+      if (!map) return;
+      if (map.imageSourceType === 'upload' && map.imageBlobId) {
+        await db.mapImages.delete(map.imageBlobId);
+      }
+      const updated: Map = {
+        ...map,
+        imageSourceType: 'url',
+        imageUrl: url,
+        imageBlobId: undefined,
+        updatedAt: new Date().toISOString(),
+      };
+      await db.maps.put(updated);
+    });
   }
 
-  async setImageFromUpload(mapId: MapId, file: File): Promise<void> {
+  async setImageFromUpload(mapId: MapId, image: Blob): Promise<void> {
+    await transactionRunner.run(async () => {
+      const map = await db.maps.get(mapId);
+      if (!map) return;
+      if (map.imageSourceType === 'upload' && map.imageBlobId) {
+        await db.mapImages.delete(map.imageBlobId);
+      }
+      const blobId = generateId();
+      const row: MapImageBlobRow = {
+        id: blobId,
+        gameId: map.gameId,
+        mapId,
+        blob: image,
+        createdAt: new Date().toISOString(),
+      };
+      await db.mapImages.add(row);
+      const updated: Map = {
+        ...map,
+        imageSourceType: 'upload',
+        imageUrl: undefined,
+        imageBlobId: blobId,
+        updatedAt: new Date().toISOString(),
+      };
+      await db.maps.put(updated);
+    });
+  }
+
+  async getImageBlob(mapId: MapId): Promise<Blob | null> {
     const map = await db.maps.get(mapId);
-    if (!map) return;
-    if (map.imageSourceType === 'upload' && map.imageBlobId) {
-      await db.mapImages.delete(map.imageBlobId);
-    }
-    const blobId = generateId();
-    const row: MapImageBlobRow = {
-      id: blobId,
-      gameId: map.gameId,
-      mapId,
-      blob: file,
-      createdAt: new Date().toISOString(),
-    };
-    await db.mapImages.add(row);
-    const updated: Map = {
-      ...map,
-      imageSourceType: 'upload',
-      imageUrl: undefined,
-      imageBlobId: blobId,
-      updatedAt: new Date().toISOString(),
+    if (!map?.imageBlobId) return null;
+    const row = await db.mapImages.get(map.imageBlobId);
+    return row?.blob ?? null;
+  }
+
+  async getImageStorageUsage(gameId: GameId): Promise<MapImageStorageUsage> {
+    const rows = await db.mapImages.where('gameId').equals(gameId).toArray();
+    return {
+      imageCount: rows.length,
+      totalBytes: rows.reduce((sum, row) => sum + row.blob.size, 0),
     };
-    await db.maps.put(updated);
   }
 
   async clearImage(mapId: MapId): Promise<void> {
-    const map = await db.maps.get(mapId);
-    if (!map) return;
-    if (map.imageSourceType === 'upload' && map.imageBlobId) {
-      await db.mapImages.delete(map.imageBlobId);
-    }
-    const updated: Map = {
-      ...map,
-      imageSourceType: undefined,
-      imageUrl: undefined,
-      imageBlobId: undefined,
-      updatedAt: new Date().toISOString(),
-    };
-    await db.maps.put(updated);
+    await transactionRunner.run(async () => {
+      const map = await db.maps.get(mapId);
+      if (!map) return;
+      if (map.imageSourceType === 'upload' && map.imageBlobId) {
+        await db.mapImages.delete(map.imageBlobId);
+      }
+      const updated: Map = {
+        ...map,
+        imageSourceType: undefined,
+        imageUrl: undefined,
+        imageBlobId: undefined,
+        updatedAt: new Date().toISOString(),
+      };
+      await db.maps.put(updated);
+    });
   }
 
   async getMapImageDisplayUrl(
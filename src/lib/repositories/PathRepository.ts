@@ -10,9 +10,11 @@ import type { GameId, PathId, PlaythroughId } from '../../types/ids';
 import { generateEntityId, generateId } from '../../utils/generateId';
 import { db, type PathProgressRow } from '../db';
 import { deleteThreadsForEntity } from './cascadeDeleteThreads';
+import { logStatusChange } from './logStatusChange';
 import { mapMarkerRepository } from './MapMarkerRepository';
 import type { CreatePathInput } from './CreatePathInput';
 import type { IPathRepository } from './IPathRepository';
+import { transactionRunner } from './TransactionRunner';
 
 /**
  * Dexie-backed implementation of IPathRepository.
@@ -49,31 +51,35 @@ class PathRepositoryImpl implements IPathRepository {
   }
 
   async delete(id: PathId): Promise<void> {
-    const path = await db.paths.get(id);
-    if (path) {
-      await deleteThreadsForEntity(path.gameId, id);
-      await mapMarkerRepository.deleteByEntity(
-        path.gameId,
-        EntityType.PATH,
-        id
-      );
-    }
-    await db.paths.delete(id);
-  }
-
-  async deleteByGameId(gameId: GameId): Promise<void> {
-    const paths = await db.paths.where('gameId').equals(gameId).toArray();
-    await Promise.all(
-      paths.map(async (path) => {
-        await deleteThreadsForEntity(gameId, path.id);
+    await transactionRunner.run(async () => {
+      const path = await db.paths.get(id);
+      if (path) {
+        await deleteThreadsForEntity(path.gameId, id);
         await mapMarkerRepository.deleteByEntity(
-          gameId,
+          path.gameId,
           EntityType.PATH,
-          path.id
+          id
         );
-      })
-    );
-    await db.paths.where('gameId').equals(gameId).delete();
+      }
+      await db.paths.delete(id);
+    });
+  }
+
+  async deleteByGameId(gameId: GameId): Promise<void> {
+    await transactionRunner.run(async () => {
+      const paths = await db.paths.where('gameId').equals(gameId).toArray();
+      await Promise.all(
+        paths.map(async (path) => {
+          await deleteThreadsForEntity(gameId, path.id);
+          await mapMarkerRepository.deleteByEntity(
+            gameId,
+            EntityType.PATH,
+            path.id
+          );
+        })
+      );
+      await db.paths.where('gameId').equals(gameId).delete();
+    });
   }
 
   async getProgress(
@@ -98,21 +104,30 @@ class PathRepositoryImpl implements IPathRepository {
   }
 
   async upsertProgress(progress: PathProgress): Promise<void> {
-    let id = progress.id;
-    if (id === undefined) {
-      const existing = await db.pathProgress
-        .where('[playthroughId+pathId]')
-        .equals([progress.playthroughId, progress.pathId])
-        .first();
-      id = existing?.id ?? generateId();
-    }
-    const row: PathProgressRow = {
-      id,
-      playthroughId: progress.playthroughId,
-      pathId: progress.pathId,
-      status: progress.status,
-    };
-    await db.pathProgress.put(row);
+    await transactionRunner.run(async () => {
+      const previous =
+        progress.id !== undefined
+          ? await db.pathProgress.get(progress.id)
+          : await db.pathProgress
+              .where('[playthroughId+pathId]')
+              .equals([progress.playthroughId, progress.pathId])
+              .first();
+      const id = progress.id ?? previous?.id ?? generateId();
+      const row: PathProgressRow = {
+        id,
+        playthroughId: progress.playthroughId,
+        pathId: progress.pathId,
+        status: progress.status,
+      };
+      await db.pathProgress.put(row);
+      await logStatusChange(
+        row.playthroughId,
+        EntityType.PATH,
+        row.pathId,
+        previous?.status,
+        row.status
+      );
+    });
   }
 
   async deleteProgressByPlaythroughId(
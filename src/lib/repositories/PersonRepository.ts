@@ -10,9 +10,11 @@ import type { GameId, PersonId, PlaythroughId } from '../../types/ids';
 import { generateId, generateEntityId } from '../../utils/generateId';
 import { db, type PersonProgressRow } from '../db';
 import { deleteThreadsForEntity } from './cascadeDeleteThreads';
+import { logStatusChange } from './logStatusChange';
 import { mapMarkerRepository } from './MapMarkerRepository';
 import type { CreatePersonInput } from './CreatePersonInput';
 import type { IPersonRepository } from './IPersonRepository';
+import { transactionRunner } from './TransactionRunner';
 
 /**
  * Dexie-backed implementation of IPersonRepository.
@@ -49,16 +51,18 @@ class PersonRepositoryImpl implements IPersonRepository {
   }
 
   async delete(id: PersonId): Promise<void> {
-    const person = await db.persons.get(id);
-    if (person) {
-      await deleteThreadsForEntity(person.gameId, id);
-      await mapMarkerRepository.deleteByEntity(
-        person.gameId,
-        EntityType.PERSON,
-        id
-      );
-    }
-    await db.persons.delete(id);
+    await transactionRunner.run(async () => {
+      const person = await db.persons.get(id);
+      if (person) {
+        await deleteThreadsForEntity(person.gameId, id);
+        await mapMarkerRepository.deleteByEntity(
+          person.gameId,
+          EntityType.PERSON,
+          id
+        );
+      }
+      await db.persons.delete(id);
+    });
   }
 
   async deleteByGameId(gameId: GameId): Promise<void> {
@@ -87,22 +91,31 @@ class PersonRepositoryImpl implements IPersonRepository {
   }
 
   async upsertProgress(progress: PersonProgress): Promise<void> {
-    let id = progress.id;
-    if (id === undefined) {
-      const existing = await db.personProgress
-        .where('[playthroughId+personId]')
-        .equals([progress.playthroughId, progress.personId])
-        .first();
-      id = existing?.id ?? generateId();
-    }
-    const row: PersonProgressRow = {
-      id,
-      playthroughId: progress.playthroughId,
-      personId: progress.personId,
-      status: progress.status,
-      notes: progress.notes,
-    };
-    await db.personProgress.put(row);
+    await transactionRunner.run(async () => {
+      const previous =
+        progress.id !== undefined
+          ? await db.personProgress.get(progress.id)
+          : await db.personProgress
+              .where('[playthroughId+personId]')
+              .equals([progress.playthroughId, progress.personId])
+              .first();
+      const id = progress.id ?? previous?.id ?? generateId();
+      const row: PersonProgressRow = {
+        id,
+        playthroughId: progress.playthroughId,
+        personId: progress.personId,
+        status: progress.status,
+        notes: progress.notes,
+      };
+      await db.personProgress.put(row);
+      await logStatusChange(
+        row.playthroughId,
+        EntityType.PERSON,
+        row.personId,
+        previous?.status,
+        row.status
+      );
+    });
   }
 
   async deleteProgressByPlaythroughId(
@@ -12,6 +12,7 @@ import { deleteThreadsForEntity } from './cascadeDeleteThreads';
 import { mapMarkerRepository } from './MapMarkerRepository';
 import type { CreatePlaceInput } from './CreatePlaceInput';
 import type { IPlaceRepository } from './IPlaceRepository';
+import { transactionRunner } from './TransactionRunner';
 
 /**
  * Dexie-backed implementation of IPlaceRepository.
@@ -49,16 +50,18 @@ class PlaceRepositoryImpl implements IPlaceRepository {
   }
 
   async delete(id: PlaceId): Promise<void> {
-    const place = await db.places.get(id);
-    if (place) {
-      await deleteThreadsForEntity(place.gameId, id);
-      await mapMarkerRepository.deleteByEntity(
-        place.gameId,
-        EntityType.PLACE,
-        id
-      );
-    }
-    await db.places.delete(id);
+    await transactionRunner.run(async () => {
+      const place = await db.places.get(id);
+      if (place) {
+        await deleteThreadsForEntity(place.gameId, id);
+        await mapMarkerRepository.deleteByEntity(
+          place.gameId,
+          EntityType.PLACE,
+          id
+        );
+      }
+      await db.places.delete(id);
+    });
   }
 
   async deleteByGameId(gameId: GameId): Promise<void> {
@@ -0,0 +1,59 @@
+/**
+ * Singleton playthrough checkpoint repository for the app.
+ * Use this instead of Dexie directly; implements IPlaythroughCheckpointRepository against IndexedDB.
+ */
+
+import type { PlaythroughId } from '../../types/ids';
+import type { PlaythroughCheckpoint } from '../../types/PlaythroughCheckpoint';
+import { generateId } from '../../utils/generateId';
+import { db } from '../db';
+import type { CreatePlaythroughCheckpointInput } from './CreatePlaythroughCheckpointInput';
+import type { IPlaythroughCheckpointRepository } from './IPlaythroughCheckpointRepository';
+
+/**
+ * Dexie-backed implementation of IPlaythroughCheckpointRepository.
+ */
+class PlaythroughCheckpointRepositoryImpl implements IPlaythroughCheckpointRepository {
+  async getByPlaythroughId(
+    playthroughId: PlaythroughId
+  ): Promise<PlaythroughCheckpoint[]> {
+    const rows = await db.playthroughCheckpoints
+      .where('playthroughId')
+      .equals(playthroughId)
+      .toArray();
+    return rows.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async getById(id: string): Promise<PlaythroughCheckpoint | undefined> {
+    return db.playthroughCheckpoints.get(id);
+  }
+
+  async create(
+    input: CreatePlaythroughCheckpointInput
+  ): Promise<PlaythroughCheckpoint> {
+    const checkpoint: PlaythroughCheckpoint = {
+      id: generateId(),
+      playthroughId: input.playthroughId,
+      name: input.name,
+      snapshot: input.snapshot,
+      createdAt: new Date().toISOString(),
+    };
+    await db.playthroughCheckpoints.add(checkpoint);
+    return checkpoint;
+  }
+
+  async delete(id: string): Promise<void> {
+    await db.playthroughCheckpoints.delete(id);
+  }
+
+  async deleteByPlaythroughId(playthroughId: PlaythroughId): Promise<void> {
+    await db.playthroughCheckpoints
+      .where('playthroughId')
+      .equals(playthroughId)
+      .delete();
+  }
+}
+
+/** Single playthrough checkpoint repository instance. */
+export const playthroughCheckpointRepository: IPlaythroughCheckpointRepository =
+  new PlaythroughCheckpointRepositoryImpl();
@@ -3,18 +3,25 @@
  * Use this instead of Dexie directly; implements IPlaythroughRepository against IndexedDB.
  */
 
+import { ActivityKind } from '../../types/ActivityKind';
+import { EntityType } from '../../types/EntityType';
 import type { Playthrough } from '../../types/Playthrough';
 import type { GameId, PlaythroughId } from '../../types/ids';
 import { generateId } from '../../utils/generateId';
 import { db } from '../db';
+import { activityLogRepository } from './ActivityLogRepository';
 import type { CreatePlaythroughInput } from './CreatePlaythroughInput';
 import { entityDiscoveryRepository } from './EntityDiscoveryRepository';
 import type { IPlaythroughRepository } from './IPlaythroughRepository';
 import { insightRepository } from './InsightRepository';
 import { itemRepository } from './ItemRepository';
+import { mapMarkerRepository } from './MapMarkerRepository';
+import { pathRepository } from './PathRepository';
 import { personRepository } from './PersonRepository';
+import { playthroughCheckpointRepository } from './PlaythroughCheckpointRepository';
 import { questRepository } from './QuestRepository';
 import { threadRepository } from './ThreadRepository';
+import { transactionRunner } from './TransactionRunner';
 
 /**
  * Dexie-backed implementation of IPlaythroughRepository.
@@ -48,21 +55,49 @@ class PlaythroughRepositoryImpl implements IPlaythroughRepository {
       ...playthrough,
       updatedAt: new Date().toISOString(),
     };
-    await db.playthroughs.put(updated);
+    await transactionRunner.run(async () => {
+      const previous = await db.playthroughs.get(playthrough.id);
+      await db.playthroughs.put(updated);
+      const previousPlaceId = previous?.currentPositionPlaceId ?? null;
+      const newPlaceId = updated.currentPositionPlaceId ?? null;
+      if (previousPlaceId === newPlaceId) return;
+      await activityLogRepository.append({
+        playthroughId: updated.id,
+        kind: ActivityKind.POSITION_CHANGE,
+        entityType: EntityType.PLACE,
+        entityId: newPlaceId,
+        previousValue: previousPlaceId,
+        newValue: newPlaceId,
+      });
+    });
   }
 
   async delete(id: PlaythroughId): Promise<void> {
-    await questRepository.deleteProgressByPlaythroughId(id);
-    await insightRepository.deleteProgressByPlaythroughId(id);
-    await itemRepository.deleteStateByPlaythroughId(id);
-    await personRepository.deleteProgressByPlaythroughId(id);
-    await entityDiscoveryRepository.deleteByPlaythroughId(id);
-    await threadRepository.deleteByPlaythroughId(id);
-    await db.playthroughs.delete(id);
+    await transactionRunner.run(async () => {
+      await questRepository.deleteProgressByPlaythroughId(id);
+      await insightRepository.deleteProgressByPlaythroughId(id);
+      await itemRepository.deleteStateByPlaythroughId(id);
+      await personRepository.deleteProgressByPlaythroughId(id);
+      await pathRepository.deleteProgressByPlaythroughId(id);
+      await entityDiscoveryRepository.deleteByPlaythroughId(id);
+      await threadRepository.deleteByPlaythroughId(id);
+      await mapMarkerRepository.deleteByPlaythroughId(id);
+      await activityLogRepository.deleteByPlaythroughId(id);
+      await playthroughCheckpointRepository.deleteByPlaythroughId(id);
+      await db.playthroughs.delete(id);
+    });
   }
 
   async deleteByGameId(gameId: GameId): Promise<void> {
-    await db.playthroughs.where('gameId').equals(gameId).delete();
+    await transactionRunner.run(async () => {
+      const ids = await db.playthroughs
+        .where('gameId')
+        .equals(gameId)
+        .primaryKeys();
+      for (const id of ids) {
+        await this.delete(id);
+      }
+    });
   }
 }
 
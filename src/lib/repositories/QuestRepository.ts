@@ -9,10 +9,14 @@ import { EntityType } from '../../types/EntityType';
 import type { GameId, PlaythroughId, QuestId } from '../../types/ids';
 import { generateId, generateEntityId } from '../../utils/generateId';
 import { db, type QuestProgressRow } from '../db';
+import { ActivityKind } from '../../types/ActivityKind';
+import { activityLogRepository } from './ActivityLogRepository';
 import { deleteThreadsForEntity } from './cascadeDeleteThreads';
+import { logStatusChange } from './logStatusChange';
 import { mapMarkerRepository } from './MapMarkerRepository';
 import type { CreateQuestInput } from './CreateQuestInput';
 import type { IQuestRepository } from './IQuestRepository';
+import { transactionRunner } from './TransactionRunner';
 
 /**
  * Dexie-backed implementation of IQuestRepository.
@@ -50,16 +54,18 @@ class QuestRepositoryImpl implements IQuestRepository {
   }
 
   async delete(id: QuestId): Promise<void> {
-    const quest = await db.quests.get(id);
-    if (quest) {
-      await deleteThreadsForEntity(quest.gameId, id);
-      await mapMarkerRepository.deleteByEntity(
-        quest.gameId,
-        EntityType.QUEST,
-        id
-      );
-    }
-    await db.quests.delete(id);
+    await transactionRunner.run(async () => {
+      const quest = await db.quests.get(id);
+      if (quest) {
+        await deleteThreadsForEntity(quest.gameId, id);
+        await mapMarkerRepository.deleteByEntity(
+          quest.gameId,
+          EntityType.QUEST,
+          id
+        );
+      }
+      await db.quests.delete(id);
+    });
   }
 
   async deleteByGameId(gameId: GameId): Promise<void> {
@@ -96,7 +102,39 @@ class QuestRepositoryImpl implements IQuestRepository {
       status: progress.status,
       notes: progress.notes,
     };
-    await db.questProgress.put(row);
+    await transactionRunner.run(async () => {
+      const previous = progress.id
+        ? await db.questProgress.get(progress.id)
+        : await db.questProgress
+            .where('[playthroughId+questId]')
+            .equals([progress.playthroughId, progress.questId])
+            .first();
+      await db.questProgress.put(row);
+      await logStatusChange(
+        row.playthroughId,
+        EntityType.QUEST,
+        row.questId,
+        previous?.status,
+        row.status
+      );
+      const wasCompleted = new Set(previous?.completedObjectiveIndexes ?? []);
+      const isCompleted = new Set(row.completedObjectiveIndexes);
+      const changedIndexes = [
+        ...row.completedObjectiveIndexes.filter((i) => !wasCompleted.has(i)),
+        ...[...wasCompleted].filter((i) => !isCompleted.has(i)),
+      ];
+      for (const objectiveIndex of changedIndexes) {
+        await activityLogRepository.append({
+          playthroughId: row.playthroughId,
+          kind: ActivityKind.OBJECTIVE_CHANGE,
+          entityType: EntityType.QUEST,
+          entityId: row.questId,
+          objectiveIndex,
+          previousValue: wasCompleted.has(objectiveIndex),
+          newValue: isCompleted.has(objectiveIndex),
+        });
+      }
+    });
   }
 
   async deleteProgressByPlaythroughId(
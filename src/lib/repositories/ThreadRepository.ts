@@ -3,6 +3,7 @@
  * Use this instead of Dexie directly; implements IThreadRepository against IndexedDB.
  */
 
+import { ActivityKind } from '../../types/ActivityKind';
 import type { Thread } from '../../types/Thread';
 import { ThreadSubtype } from '../../types/ThreadSubtype';
 import { EntityType } from '../../types/EntityType';
@@ -13,8 +14,10 @@ import {
   getThreadSubtype,
 } from '../../utils/threadSubtype';
 import { db } from '../db';
+import { activityLogRepository } from './ActivityLogRepository';
 import type { CreateThreadInput } from './CreateThreadInput';
 import type { IThreadRepository } from './IThreadRepository';
+import { transactionRunner } from './TransactionRunner';
 
 /**
  * Dexie-backed implementation of IThreadRepository.
@@ -63,8 +66,23 @@ class ThreadRepositoryImpl implements IThreadRepository {
       ...(input.objectiveIndex != null && {
         objectiveIndex: input.objectiveIndex,
       }),
+      ...(input.requirementGroups != null &&
+        input.requirementGroups.length > 0 && {
+          requirementGroups: input.requirementGroups,
+        }),
     };
-    await db.threads.add(thread);
+    await transactionRunner.run(async () => {
+      await db.threads.add(thread);
+      if (thread.playthroughId == null) return;
+      await activityLogRepository.append({
+        playthroughId: thread.playthroughId,
+        kind: ActivityKind.THREAD_CREATED,
+        entityType: EntityType.THREAD,
+        entityId: thread.id,
+        previousValue: null,
+        newValue: thread.label,
+      });
+    });
     return thread;
   }
 
@@ -99,8 +117,10 @@ class ThreadRepositoryImpl implements IThreadRepository {
     gameId: GameId,
     entityId: string
   ): Promise<void> {
-    const threads = await this.getThreadsFromEntity(gameId, entityId);
-    await Promise.all(threads.map((t) => this.delete(t.id)));
+    await transactionRunner.run(async () => {
+      const threads = await this.getThreadsFromEntity(gameId, entityId);
+      await Promise.all(threads.map((t) => this.delete(t.id)));
+    });
   }
 
   async getRequirementThreadsFromEntity(
@@ -0,0 +1,28 @@
+/**
+ * Singleton transaction runner for the app.
+ * Use this to group repository writes into one atomic unit of work.
+ */
+
+import Dexie from 'dexie';
+import { db } from '../db';
+import type { ITransactionRunner } from './ITransactionRunner';
+
+/**
+ * Dexie-backed implementation of ITransactionRunner.
+ * Opens a read-write transaction over every table; Dexie reuses an already
+ * active transaction when runs are nested, so composite operations can call
+ * each other freely.
+ */
+class TransactionRunnerImpl implements ITransactionRunner {
+  async run<T>(work: () => Promise<T>): Promise<T> {
+    return db.transaction('rw', db.tables, work);
+  }
+
+  async waitFor<T>(promise: Promise<T>): Promise<T> {
+    return Dexie.currentTransaction ? Dexie.waitFor(promise) : promise;
+  }
+}
+
+/** Single transaction runner instance. Use this instead of Dexie transactions directly. */
+export const transactionRunner: ITransactionRunner =
+  new TransactionRunnerImpl();
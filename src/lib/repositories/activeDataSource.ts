@@ -0,0 +1,96 @@
+/**
+ * The data source the app's repositories delegate to. Local by default;
+ * replaced once at startup (before any repository call) to use another store.
+ */
+
+import { createLocalDataSource } from './createLocalDataSource';
+import type { DataSource, DataSourceRepositoryName } from './DataSource';
+
+/** Data source every delegating repository forwards to. */
+let activeDataSource: DataSource = createLocalDataSource();
+
+/**
+ * Replaces the active data source. Call at startup, before rendering.
+ *
+ * @param dataSource - Data source to use from now on.
+ */
+export function setDataSource(dataSource: DataSource): void {
+  activeDataSource = dataSource;
+}
+
+/**
+ * Returns the active data source.
+ *
+ * @returns The data source repositories currently delegate to.
+ */
+export function getDataSource(): DataSource {
+  return activeDataSource;
+}
+
+/**
+ * Creates a repository that forwards every call to the same-named repository
+ * of the active data source, so feature code can keep importing singletons.
+ *
+ * @param name - Repository key in DataSource.
+ * @returns A delegating repository.
+ */
+function delegateTo<K extends DataSourceRepositoryName>(
+  name: K
+): DataSource[K] {
+  return new Proxy({} as DataSource[K], {
+    get(_target, property) {
+      const repository = activeDataSource[name];
+      const value: unknown = Reflect.get(repository, property, repository);
+      return typeof value === 'function' ? value.bind(repository) : value;
+    },
+  });
+}
+
+/** Game repository of the active data source. */
+export const gameRepository = delegateTo('gameRepository');
+
+/** Playthrough repository of the active data source. */
+export const playthroughRepository = delegateTo('playthroughRepository');
+
+/** Quest repository of the active data source. */
+export const questRepository = delegateTo('questRepository');
+
+/** Insight repository of the active data source. */
+export const insightRepository = delegateTo('insightRepository');
+
+/** Item repository of the active data source. */
+export const itemRepository = delegateTo('itemRepository');
+
+/** Person repository of the active data source. */
+export const personRepository = delegateTo('personRepository');
+
+/** Place repository of the active data source. */
+export const placeRepository = delegateTo('placeRepository');
+
+/** Map repository of the active data source. */
+export const mapRepository = delegateTo('mapRepository');
+
+/** Map marker repository of the active data source. */
+export const mapMarkerRepository = delegateTo('mapMarkerRepository');
+
+/** Thread repository of the active data source. */
+export const threadRepository = delegateTo('threadRepository');
+
+/** Entity discovery repository of the active data source. */
+export const entityDiscoveryRepository = delegateTo(
+  'entityDiscoveryRepository'
+);
+
+/** Path repository of the active data source. */
+export const pathRepository = delegateTo('pathRepository');
+
+/** Activity log repository of the active data source. */
+export const activityLogRepository = delegateTo('activityLogRepository');
+
+/** Playthrough checkpoint repository of the active data source. */
+export const playthroughCheckpointRepository = delegateTo(
+  'playthroughCheckpointRepository'
+);
+
+/** Transaction runner of the active data source. */
+export const transactionRunner = delegateTo('transactionRunner');
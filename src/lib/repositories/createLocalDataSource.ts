@@ -0,0 +1,45 @@
+/**
+ * Local (Dexie/IndexedDB) data source: the app's default.
+ */
+
+import { activityLogRepository } from './ActivityLogRepository';
+import type { DataSource } from './DataSource';
+import { entityDiscoveryRepository } from './EntityDiscoveryRepository';
+import { gameRepository } from './GameRepository';
+import { insightRepository } from './InsightRepository';
+import { itemRepository } from './ItemRepository';
+import { mapMarkerRepository } from './MapMarkerRepository';
+import { mapRepository } from './MapRepository';
+import { pathRepository } from './PathRepository';
+import { personRepository } from './PersonRepository';
+import { placeRepository } from './PlaceRepository';
+import { playthroughCheckpointRepository } from './PlaythroughCheckpointRepository';
+import { playthroughRepository } from './PlaythroughRepository';
+import { questRepository } from './QuestRepository';
+import { threadRepository } from './ThreadRepository';
+import { transactionRunner } from './TransactionRunner';
+
+/**
+ * Returns the Dexie-backed repositories that store data in this browser.
+ *
+ * @returns The local data source.
+ */
+export function createLocalDataSource(): DataSource {
+  return {
+    gameRepository,
+    playthroughRepository,
+    questRepository,
+    insightRepository,
+    itemRepository,
+    personRepository,
+    placeRepository,
+    mapRepository,
+    mapMarkerRepository,
+    threadRepository,
+    entityDiscoveryRepository,
+    pathRepository,
+    activityLogRepository,
+    playthroughCheckpointRepository,
+    transactionRunner,
+  };
+}
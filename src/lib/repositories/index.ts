@@ -12,6 +12,8 @@ export type { CreatePlaceInput } from './CreatePlaceInput';
 export type { CreateMapInput } from './CreateMapInput';
 export type { CreatePathInput } from './CreatePathInput';
 export type { CreateThreadInput } from './CreateThreadInput';
+export type { CreateActivityLogEntryInput } from './CreateActivityLogEntryInput';
+export type { CreatePlaythroughCheckpointInput } from './CreatePlaythroughCheckpointInput';
 export type { IGameRepository } from './IGameRepository';
 export type { IPlaythroughRepository } from './IPlaythroughRepository';
 export type { IQuestRepository } from './IQuestRepository';
@@ -20,19 +22,32 @@ export type { IItemRepository } from './IItemRepository';
 export type { IPersonRepository } from './IPersonRepository';
 export type { IPlaceRepository } from './IPlaceRepository';
 export type { IMapRepository } from './IMapRepository';
+export type { MapImageStorageUsage } from './MapImageStorageUsage';
 export type { IMapMarkerRepository } from './IMapMarkerRepository';
 export type { IThreadRepository } from './IThreadRepository';
 export type { IEntityDiscoveryRepository } from './IEntityDiscoveryRepository';
 export type { IPathRepository } from './IPathRepository';
-export { gameRepository } from './GameRepository';
-export { playthroughRepository } from './PlaythroughRepository';
-export { questRepository } from './QuestRepository';
-export { insightRepository } from './InsightRepository';
-export { itemRepository } from './ItemRepository';
-export { personRepository } from './PersonRepository';
-export { placeRepository } from './PlaceRepository';
-export { mapRepository } from './MapRepository';
-export { mapMarkerRepository } from './MapMarkerRepository';
-export { threadRepository } from './ThreadRepository';
-export { entityDiscoveryRepository } from './EntityDiscoveryRepository';
-export { pathRepository } from './PathRepository';
+export type { IActivityLogRepository } from './IActivityLogRepository';
+export type { IPlaythroughCheckpointRepository } from './IPlaythroughCheckpointRepository';
+export type { ITransactionRunner } from './ITransactionRunner';
+export type { DataSource, DataSourceRepositoryName } from './DataSource';
+export { createLocalDataSource } from './createLocalDataSource';
+export {
+  getDataSource,
+  setDataSource,
+  gameRepository,
+  playthroughRepository,
+  questRepository,
+  insightRepository,
+  itemRepository,
+  personRepository,
+  placeRepository,
+  mapRepository,
+  mapMarkerRepository,
+  threadRepository,
+  entityDiscoveryRepository,
+  pathRepository,
+  activityLogRepository,
+  playthroughCheckpointRepository,
+  transactionRunner,
+} from './activeDataSource';
@@ -0,0 +1,36 @@
+import { ActivityKind } from '../../types/ActivityKind';
+import type { EntityType } from '../../types/EntityType';
+import type { PlaythroughId } from '../../types/ids';
+import { activityLogRepository } from './ActivityLogRepository';
+import type { IActivityLogRepository } from './IActivityLogRepository';
+
+/**
+ * Appends a STATUS_CHANGE entry to the activity log when a progress status
+ * actually changed. Call from progress upserts inside the same transaction.
+ * Other data sources pass their own activity log repository.
+ *
+ * @param playthroughId - The playthrough the progress belongs to.
+ * @param entityType - Type of the entity whose status changed.
+ * @param entityId - Typed ID of the entity.
+ * @param previous - Status before the upsert, or undefined when there was no row.
+ * @param next - Status after the upsert.
+ * @param activityLog - Activity log to append to; defaults to the Dexie one.
+ */
+export async function logStatusChange(
+  playthroughId: PlaythroughId,
+  entityType: EntityType,
+  entityId: string,
+  previous: number | undefined,
+  next: number,
+  activityLog: IActivityLogRepository = activityLogRepository
+): Promise<void> {
+  if (previous === next) return;
+  await activityLog.append({
+    playthroughId,
+    kind: ActivityKind.STATUS_CHANGE,
+    entityType,
+    entityId,
+    previousValue: previous ?? null,
+    newValue: next,
+  });
+}
@@ -1,9 +1,24 @@
 export { DEFAULT_ALLOWED_STATUSES } from './defaultAllowedStatuses';
 export {
-  checkEntityAvailability,
-  checkEntityAvailabilityWithReachability,
-  getObjectiveCompletability,
+  evaluateEntityAvailability,
+  evaluateRequirementTree,
   getPlaythroughStatusForEntity,
+  getThresholdSatisfiedCounts,
+  isObjectiveCompletable,
   isRequirementSatisfied,
+  isThresholdSatisfied,
   type AvailabilityResult,
+  type EntityStatusLookup,
+  type RequirementNodeResult,
+  type RequirementThresholdProgress,
 } from './requirementEvaluation';
+export {
+  buildRequirementTree,
+  listRequirementGroups,
+  setRequirementGroupOperator,
+  ungroupRequirementGroup,
+  type RequirementGroupNode,
+  type RequirementGroupOption,
+  type RequirementLeafNode,
+  type RequirementTreeNode,
+} from './requirementGroups';
@@ -1,26 +1,46 @@
 import { EntityType } from '../../types/EntityType';
-import type { GameId, PlaceId, PlaythroughId } from '../../types/ids';
-import type { Quest } from '../../types/Quest';
+import type { PlaythroughId } from '../../types/ids';
+import type { QuestObjective } from '../../types/QuestObjective';
+import { RequirementGroupOperator } from '../../types/RequirementGroupOperator';
 import type { Thread } from '../../types/Thread';
 import { getEntityTypeFromId } from '../../utils/parseEntityId';
-import { getEntityLocationPlaceIds } from '../location';
 import {
   insightRepository,
   itemRepository,
   personRepository,
   questRepository,
-  threadRepository,
 } from '../repositories';
 import { DEFAULT_ALLOWED_STATUSES } from './defaultAllowedStatuses';
+import {
+  buildRequirementTree,
+  type RequirementGroupNode,
+  type RequirementTreeNode,
+} from './requirementGroups';
 
 /**
  * Result of checking whether an entity is available (its requirements are satisfied).
  */
 export interface AvailabilityResult {
-  /** True if all requirement threads for this entity are satisfied. */
+  /** True if the entity's requirements (and requirement groups) are satisfied. */
   available: boolean;
   /** Typed entity IDs of requirement targets that are not satisfied. */
   unmetRequirementTargetIds: string[];
+  /** Progress of "N of M" groups that keep the entity unavailable. */
+  unmetThresholds: RequirementThresholdProgress[];
+}
+
+/**
+ * Progress of an at-least ("N of M") requirement group.
+ */
+export interface RequirementThresholdProgress {
+  /** The group ID. */
+  groupId: string;
+  /** How many members are satisfied. */
+  satisfiedCount: number;
+  /** How many members must be satisfied. */
+  minSatisfied: number;
+  /** Typed entity IDs of member targets that are not satisfied. */
+  unmetRequirementTargetIds: string[];
 }
 
 /**
@@ -45,6 +65,20 @@ export function isRequirementSatisfied(
   return allowed.includes(currentStatus);
 }
 
+/**
+ * Returns whether an at-least ("N of M") requirement group is satisfied.
+ *
+ * @param satisfiedCount - How many members are satisfied.
+ * @param minSatisfied - How many members must be satisfied (default 1).
+ * @returns True if at least minSatisfied members are satisfied.
+ */
+export function isThresholdSatisfied(
+  satisfiedCount: number,
+  minSatisfied = 1
+): boolean {
+  return satisfiedCount >= minSatisfied;
+}
+
 /**
  * Loads the current playthrough status for an entity (quest, insight, item, person).
  * Place/Map/Thread have no playthrough status; returns null.
@@ -85,106 +119,243 @@ export async function getPlaythroughStatusForEntity(
 }
 
 /**
- * Checks whether an entity is available: all its entity-level requirement threads
- * (subtype Requires) are satisfied for the given playthrough state.
- *
- * @param gameId - Current game.
- * @param playthroughId - Current playthrough (required for status lookups).
- * @param entityId - Typed entity ID whose availability to check.
- * @returns Availability result with unmet requirement target IDs if any.
+ * Returns an entity's current playthrough status (null when unset or for
+ * types without status), e.g. from a preloaded snapshot.
  */
-export async function checkEntityAvailability(
-  gameId: GameId,
-  playthroughId: PlaythroughId,
-  entityId: string
-): Promise<AvailabilityResult> {
-  const threads = await threadRepository.getRequirementThreadsFromEntity(
-    gameId,
-    entityId
-  );
+export type EntityStatusLookup = (entityId: string) => number | null;
 
-  // Get the IDs of the unmet requirement targets.
-  const unmetRequirementTargetIds: string[] = [];
-  for (const thread of threads) {
-    const targetType = getEntityTypeFromId(thread.targetId);
-    if (targetType == null) continue;
+/**
+ * Result of evaluating a requirement or requirement group.
+ */
+export interface RequirementNodeResult {
+  /**
+   * Whether the node is satisfied, or null when it does not apply (targets
+   * without playthrough status, or a group with no applicable members).
+   */
+  satisfied: boolean | null;
+  /** Typed entity IDs of targets that keep the node from being satisfied. */
+  unmetRequirementTargetIds: string[];
+  /** Typed entity IDs of targets whose requirements are satisfied. */
+  metRequirementTargetIds: string[];
+  /** How many applicable members are satisfied (1 or 0 for a single requirement). */
+  satisfiedCount: number;
+  /** How many members apply (0 for a requirement that does not apply). */
+  applicableCount: number;
+  /** Progress of unsatisfied "N of M" groups that keep the node from being satisfied. */
+  unmetThresholds: RequirementThresholdProgress[];
+}
 
+/** Result of a requirement or group that does not apply. */
+const NOT_APPLICABLE: RequirementNodeResult = {
+  satisfied: null,
+  unmetRequirementTargetIds: [],
+  metRequirementTargetIds: [],
+  satisfiedCount: 0,
+  applicableCount: 0,
+  unmetThresholds: [],
+};
+
+/**
+ * Evaluates a node of a requirement tree against known statuses. All-of needs
+ * every applicable member, any-of at least one, at-least its threshold, and
+ * none-of no satisfied member; for none-of, the satisfied members' targets
+ * are unmet.
+ *
+ * @param node - Requirement or group to evaluate.
+ * @param getStatus - Current status of a requirement target.
+ * @returns The node's result.
+ */
+export function evaluateRequirementTree(
+  node: RequirementTreeNode,
+  getStatus: EntityStatusLookup
+): RequirementNodeResult {
+  if (node.kind === 'requirement') {
+    const { thread } = node;
+    const targetType = getEntityTypeFromId(thread.targetId);
     // Place/Map/Thread have no playthrough status, so they are not considered for availability.
     if (
+      targetType == null ||
       targetType === EntityType.PLACE ||
       targetType === EntityType.MAP ||
       targetType === EntityType.THREAD
     ) {
-      continue;
+      return NOT_APPLICABLE;
     }
-    const currentStatus = await getPlaythroughStatusForEntity(
-      playthroughId,
-      thread.targetId
-    );
-    if (currentStatus === null) {
-      unmetRequirementTargetIds.push(thread.targetId);
-      continue;
+    const currentStatus = getStatus(thread.targetId);
+    const satisfied =
+      currentStatus !== null &&
+      isRequirementSatisfied(thread, targetType, currentStatus);
+    return {
+      satisfied,
+      unmetRequirementTargetIds: satisfied ? [] : [thread.targetId],
+      metRequirementTargetIds: satisfied ? [thread.targetId] : [],
+      satisfiedCount: satisfied ? 1 : 0,
+      applicableCount: 1,
+      unmetThresholds: [],
+    };
+  }
+
+  const results: RequirementNodeResult[] = [];
+  for (const child of node.children) {
+    const result = evaluateRequirementTree(child, getStatus);
+    if (result.satisfied !== null) results.push(result);
+  }
+  if (results.length === 0) return NOT_APPLICABLE;
+
+  const met = results.filter((r) => r.satisfied);
+  const unmet = results.filter((r) => !r.satisfied);
+  const counts = {
+    satisfiedCount: met.length,
+    applicableCount: results.length,
+  };
+  const metRequirementTargetIds = met.flatMap((r) => r.metRequirementTargetIds);
+  const unmetRequirementTargetIds = unmet.flatMap(
+    (r) => r.unmetRequirementTargetIds
+  );
+  const unmetThresholds = unmet.flatMap((r) => r.unmetThresholds);
+  switch (node.operator) {
+    case RequirementGroupOperator.ANY_OF: {
+      const satisfied = met.length > 0;
+      return {
+        satisfied,
+        unmetRequirementTargetIds: satisfied ? [] : unmetRequirementTargetIds,
+        metRequirementTargetIds,
+        ...counts,
+        unmetThresholds: satisfied ? [] : unmetThresholds,
+      };
     }
-    if (!isRequirementSatisfied(thread, targetType, currentStatus)) {
-      unmetRequirementTargetIds.push(thread.targetId);
+    case RequirementGroupOperator.AT_LEAST: {
+      const satisfied = isThresholdSatisfied(met.length, node.minSatisfied);
+      return {
+        satisfied,
+        unmetRequirementTargetIds: satisfied ? [] : unmetRequirementTargetIds,
+        metRequirementTargetIds,
+        ...counts,
+        unmetThresholds:
+          satisfied || node.id === null
+            ? []
+            : [
+                {
+                  groupId: node.id,
+                  satisfiedCount: met.length,
+                  minSatisfied: node.minSatisfied ?? 1,
+                  unmetRequirementTargetIds,
+                },
+              ],
+      };
     }
+    case RequirementGroupOperator.NONE_OF:
+      return {
+        satisfied: met.length === 0,
+        unmetRequirementTargetIds: metRequirementTargetIds,
+        metRequirementTargetIds: unmetRequirementTargetIds,
+        ...counts,
+        unmetThresholds: [],
+      };
+    case RequirementGroupOperator.ALL_OF:
+    default:
+      return {
+        satisfied: unmet.length === 0,
+        unmetRequirementTargetIds,
+        metRequirementTargetIds,
+        ...counts,
+        unmetThresholds,
+      };
   }
+}
+
+/**
+ * Converts the result of an entity's requirement tree to its availability.
+ *
+ * @param result - Result of the entity's root requirement group.
+ * @returns The availability.
+ */
+function toAvailabilityResult(
+  result: RequirementNodeResult
+): AvailabilityResult {
   return {
-    available: unmetRequirementTargetIds.length === 0,
-    unmetRequirementTargetIds,
+    available: result.satisfied !== false,
+    unmetRequirementTargetIds: [...new Set(result.unmetRequirementTargetIds)],
+    unmetThresholds: result.unmetThresholds,
   };
 }
 
 /**
- * Checks whether an entity is available for display: requirements satisfied
- * and (no location places or at least one location place is reachable).
+ * Returns whether an entity is available from its requirement threads and
+ * known statuses, without loading anything.
  *
- * @param gameId - Current game.
- * @param playthroughId - Current playthrough.
- * @param entityId - Typed entity ID.
- * @param reachablePlaceIds - Set of place IDs reachable from current position.
- * @returns True if the entity is available (requirements met and location reachable if any).
+ * @param requirementThreads - The entity's requirement threads (subtype Requires).
+ * @param getStatus - Current status of a requirement target.
+ * @returns Availability result with unmet requirement target IDs if any.
  */
-export async function checkEntityAvailabilityWithReachability(
-  gameId: GameId,
-  playthroughId: PlaythroughId,
-  entityId: string,
-  reachablePlaceIds: Set<PlaceId>
-): Promise<boolean> {
-  const result = await checkEntityAvailability(gameId, playthroughId, entityId);
-  if (!result.available) return false;
-  const locationPlaceIds = await getEntityLocationPlaceIds(gameId, entityId);
-  if (locationPlaceIds.length === 0) return true;
-  return locationPlaceIds.some((id) => reachablePlaceIds.has(id));
+export function evaluateEntityAvailability(
+  requirementThreads: Thread[],
+  getStatus: EntityStatusLookup
+): AvailabilityResult {
+  return toAvailabilityResult(
+    evaluateRequirementTree(buildRequirementTree(requirementThreads), getStatus)
+  );
 }
 
 /**
- * Returns whether a quest objective is completable: when the objective has entityId,
- * the referenced entity's playthrough status must be in the allowed set (or type default).
- * When the objective has no entityId, returns true (no entity gate).
+ * Returns how many members of each at-least ("N of M") group in a requirement
+ * tree are satisfied, from known statuses.
  *
- * @param playthroughId - Current playthrough.
- * @param quest - The quest containing the objective.
- * @param objectiveIndex - 0-based index of the objective.
+ * @param root - Root of an entity's requirement tree.
+ * @param getStatus - Current status of a requirement target.
+ * @returns Satisfied member counts by group ID.
+ */
+export function getThresholdSatisfiedCounts(
+  root: RequirementGroupNode,
+  getStatus: EntityStatusLookup
+): Map<string, number> {
+  const counts = new Map<string, number>();
+
+  /**
+   * Counts the at-least groups below a group.
+   *
+   * @param group - Group whose children to visit.
+   */
+  const visit = (group: RequirementGroupNode) => {
+    for (const child of group.children) {
+      if (child.kind !== 'group') continue;
+      if (
+        child.id !== null &&
+        child.operator === RequirementGroupOperator.AT_LEAST
+      ) {
+        counts.set(
+          child.id,
+          evaluateRequirementTree(child, getStatus).satisfiedCount
+        );
+      }
+      visit(child);
+    }
+  };
+
+  visit(root);
+  return counts;
+}
+
+/**
+ * Returns whether a quest objective is completable: when the objective has an
+ * entityId, the referenced entity's status must be in the allowed set (or type
+ * default). An objective without entityId has no entity gate.
+ *
+ * @param objective - The objective.
+ * @param currentStatus - Current status of the objective's entity (null when unset).
  * @returns True if the objective is completable (user may then mark it complete).
  */
-export async function getObjectiveCompletability(
-  playthroughId: PlaythroughId,
-  quest: Quest,
-  objectiveIndex: number
-): Promise<boolean> {
-  const obj = quest.objectives[objectiveIndex];
-  if (!obj?.entityId) return true;
-  const currentStatus = await getPlaythroughStatusForEntity(
-    playthroughId,
-    obj.entityId
-  );
+export function isObjectiveCompletable(
+  objective: QuestObjective,
+  currentStatus: number | null
+): boolean {
+  if (!objective.entityId) return true;
   if (currentStatus === null) return false;
-  const type = getEntityTypeFromId(obj.entityId);
+  const type = getEntityTypeFromId(objective.entityId);
   if (type == null) return false;
   const allowed =
-    obj.allowedStatuses != null && obj.allowedStatuses.length > 0
-      ? obj.allowedStatuses
+    objective.allowedStatuses != null && objective.allowedStatuses.length > 0
+      ? objective.allowedStatuses
       : DEFAULT_ALLOWED_STATUSES[type];
   return allowed.includes(currentStatus);
 }
@@ -0,0 +1,244 @@
+import type { GameId } from '../../types/ids';
+import type { RequirementGroupRef } from '../../types/RequirementGroup';
+import { RequirementGroupOperator } from '../../types/RequirementGroupOperator';
+import type { Thread } from '../../types/Thread';
+import { getRequirementGroupLabel } from '../../utils/requirementGroupOperators';
+import { threadRepository, transactionRunner } from '../repositories';
+
+/**
+ * A single requirement (Requires thread) in a requirement tree.
+ */
+export interface RequirementLeafNode {
+  kind: 'requirement';
+  /** The requirement thread. */
+  thread: Thread;
+}
+
+/**
+ * A requirement group in a requirement tree. The root is the entity's
+ * implicit all-of group (id null).
+ */
+export interface RequirementGroupNode {
+  kind: 'group';
+  /** Group ID, or null for the root. */
+  id: string | null;
+  /** How the group combines its children. */
+  operator: RequirementGroupOperator;
+  /** For AtLeast: how many children must be satisfied. */
+  minSatisfied?: number;
+  /** Requirements and nested groups, in the order they were first seen. */
+  children: RequirementTreeNode[];
+}
+
+/** A node of a requirement tree. */
+export type RequirementTreeNode = RequirementLeafNode | RequirementGroupNode;
+
+/**
+ * A group an entity's requirements can be placed in, for pickers.
+ */
+export interface RequirementGroupOption {
+  /** Group ID. */
+  id: string;
+  /** Chain of groups from the outermost to this one (stored on member threads). */
+  path: RequirementGroupRef[];
+  /** Display label, e.g. "Group 2: Any of › None of". */
+  label: string;
+}
+
+/**
+ * Builds the boolean expression formed by an entity's requirement threads.
+ * Threads without groups are children of the root (all-of). A group's
+ * operator and threshold are taken from the first member thread that names it.
+ *
+ * @param threads - Requires threads from one source entity.
+ * @returns The root group.
+ */
+export function buildRequirementTree(threads: Thread[]): RequirementGroupNode {
+  const root: RequirementGroupNode = {
+    kind: 'group',
+    id: null,
+    operator: RequirementGroupOperator.ALL_OF,
+    children: [],
+  };
+  const groupsById = new Map<string, RequirementGroupNode>();
+
+  for (const thread of threads) {
+    let parent = root;
+    for (const ref of thread.requirementGroups ?? []) {
+      let group = groupsById.get(ref.id);
+      if (!group) {
+        group = {
+          kind: 'group',
+          id: ref.id,
+          operator: ref.operator,
+          ...(ref.minSatisfied != null && { minSatisfied: ref.minSatisfied }),
+          children: [],
+        };
+        groupsById.set(ref.id, group);
+        parent.children.push(group);
+      }
+      parent = group;
+    }
+    parent.children.push({ kind: 'requirement', thread });
+  }
+  return root;
+}
+
+/**
+ * Lists the groups of a requirement tree, outermost first.
+ *
+ * @param root - Root of the tree (from buildRequirementTree).
+ * @returns One option per group.
+ */
+export function listRequirementGroups(
+  root: RequirementGroupNode
+): RequirementGroupOption[] {
+  const options: RequirementGroupOption[] = [];
+
+  /**
+   * Adds the groups below a group.
+   *
+   * @param group - Group whose children to visit.
+   * @param path - Chain of groups leading to group (empty for the root).
+   */
+  const visit = (group: RequirementGroupNode, path: RequirementGroupRef[]) => {
+    for (const child of group.children) {
+      if (child.kind !== 'group' || child.id === null) continue;
+      const childPath: RequirementGroupRef[] = [
+        ...path,
+        {
+          id: child.id,
+          operator: child.operator,
+          ...(child.minSatisfied != null && {
+            minSatisfied: child.minSatisfied,
+          }),
+        },
+      ];
+      options.push({
+        id: child.id,
+        path: childPath,
+        label: `Group ${options.length + 1}: ${childPath
+          .map((ref) => getRequirementGroupLabel(ref))
+          .join(' › ')}`,
+      });
+      visit(child, childPath);
+    }
+  };
+
+  visit(root, []);
+  return options;
+}
+
+/**
+ * Returns a thread's group chain with one group changed, or the thread itself
+ * when it is not in that group.
+ *
+ * @param thread - A requirement thread.
+ * @param groupId - Group to change.
+ * @param change - Returns the new chain from the chain and the group's index in it.
+ * @returns The updated thread, or null when unchanged.
+ */
+function withGroupChange(
+  thread: Thread,
+  groupId: string,
+  change: (
+    groups: RequirementGroupRef[],
+    index: number
+  ) => RequirementGroupRef[]
+): Thread | null {
+  const groups = thread.requirementGroups ?? [];
+  const index = groups.findIndex((ref) => ref.id === groupId);
+  if (index === -1) return null;
+  const next = change(groups, index);
+  const updated: Thread = { ...thread };
+  if (next.length > 0) {
+    updated.requirementGroups = next;
+  } else {
+    delete updated.requirementGroups;
+  }
+  return updated;
+}
+
+/**
+ * Applies a group change to every requirement of an entity in one transaction.
+ *
+ * @param gameId - The game ID.
+ * @param entityId - Typed ID of the entity whose requirements to change.
+ * @param groupId - Group to change.
+ * @param change - Returns the new chain from the chain and the group's index in it.
+ * @throws Error when the entity has no requirements in the group.
+ */
+async function updateRequirementGroup(
+  gameId: GameId,
+  entityId: string,
+  groupId: string,
+  change: (
+    groups: RequirementGroupRef[],
+    index: number
+  ) => RequirementGroupRef[]
+): Promise<void> {
+  await transactionRunner.run(async () => {
+    const threads = await threadRepository.getRequirementThreadsFromEntity(
+      gameId,
+      entityId
+    );
+    const updated = threads
+      .map((thread) => withGroupChange(thread, groupId, change))
+      .filter((thread): thread is Thread => thread !== null);
+    if (updated.length === 0) {
+      throw new Error('Requirement group not found.');
+    }
+    for (const thread of updated) {
+      await threadRepository.update(thread);
+    }
+  });
+}
+
+/**
+ * Changes how a requirement group combines its members.
+ *
+ * @param gameId - The game ID.
+ * @param entityId - Typed ID of the entity the group belongs to.
+ * @param groupId - The group ID.
+ * @param operator - New operator.
+ * @param minSatisfied - For AtLeast: how many members must be satisfied (default 1); ignored otherwise.
+ * @throws Error when the entity has no requirements in the group, or minSatisfied is below 1.
+ */
+export async function setRequirementGroupOperator(
+  gameId: GameId,
+  entityId: string,
+  groupId: string,
+  operator: RequirementGroupOperator,
+  minSatisfied?: number
+): Promise<void> {
+  const isThreshold = operator === RequirementGroupOperator.AT_LEAST;
+  if (isThreshold && minSatisfied != null && minSatisfied < 1) {
+    throw new Error('At least one requirement must be satisfied.');
+  }
+  const ref = (id: string): RequirementGroupRef => ({
+    id,
+    operator,
+    ...(isThreshold && { minSatisfied: minSatisfied ?? 1 }),
+  });
+  await updateRequirementGroup(gameId, entityId, groupId, (groups, index) =>
+    groups.map((group, i) => (i === index ? ref(group.id) : group))
+  );
+}
+
+/**
+ * Removes a requirement group; its members move to the enclosing group.
+ *
+ * @param gameId - The game ID.
+ * @param entityId - Typed ID of the entity the group belongs to.
+ * @param groupId - The group ID.
+ * @throws Error when the entity has no requirements in the group.
+ */
+export async function ungroupRequirementGroup(
+  gameId: GameId,
+  entityId: string,
+  groupId: string
+): Promise<void> {
+  await updateRequirementGroup(gameId, entityId, groupId, (groups, index) =>
+    groups.filter((_, i) => i !== index)
+  );
+}
@@ -0,0 +1,117 @@
+import type { SyncConflictWinner } from '../../types/SyncConflict';
+
+/** Path (relative to the base URL) that accepts sync requests. */
+export const SYNC_PATH = '/sync';
+
+/**
+ * A row's state on the sync server. Values are encoded with encodeRpcValue
+ * (map image blobs as base64).
+ */
+export interface SyncRowState {
+  /** Table of the row. */
+  table: string;
+
+  /** Primary key of the row. */
+  key: string;
+
+  /** Server revision of the row's latest change. */
+  revision: number;
+
+  /** True when the row has been deleted. */
+  deleted: boolean;
+
+  /** Time of the row's latest change (ISO 8601). */
+  modifiedAt: string;
+
+  /** Row values (empty when deleted). */
+  values: Record<string, unknown>;
+
+  /** Time each field last changed (ISO 8601), by field name. */
+  fieldModifiedAt: Record<string, string>;
+}
+
+/**
+ * A row changed on the client since its last push.
+ */
+export interface SyncPushChange {
+  /** Table of the row. */
+  table: string;
+
+  /** Primary key of the row. */
+  key: string;
+
+  /** Server revision the client last synced the row at; null if never synced. */
+  baseRevision: number | null;
+
+  /** True when the client deleted the row. */
+  deleted: boolean;
+
+  /** Time of the row's latest change on the client (ISO 8601). */
+  modifiedAt: string;
+
+  /** Current row values on the client, encoded (empty when deleted). */
+  values: Record<string, unknown>;
+
+  /** Time each field last changed on the client (ISO 8601), by field name. */
+  fieldModifiedAt: Record<string, string>;
+
+  /** Fields the client changed since baseRevision. */
+  changedFields: string[];
+}
+
+/**
+ * A collision the server resolved while merging a push, from the pushing
+ * client's point of view. Values are encoded.
+ */
+export interface SyncCollision {
+  /** Table of the row. */
+  table: string;
+
+  /** Primary key of the row. */
+  key: string;
+
+  /** Field that collided, or null when a deletion collided with an edit. */
+  field: string | null;
+
+  /** The client's value (row values for a row collision; undefined if deleted). */
+  localValue: unknown;
+
+  /** The server's value before the merge. */
+  remoteValue: unknown;
+
+  /** When the client made its change (ISO 8601). */
+  localModifiedAt: string;
+
+  /** When the server's change was made (ISO 8601). */
+  remoteModifiedAt: string;
+
+  /** Side whose value was kept (the later change; the server's on a tie). */
+  winner: SyncConflictWinner;
+}
+
+/**
+ * Body of a sync request: the client's pending changes and the server revision
+ * it has pulled up to.
+ */
+export interface SyncRequest {
+  /** Server revision the client has pulled up to (0 for everything). */
+  since: number;
+
+  /** Rows changed on the client since they were last pushed. */
+  changes: SyncPushChange[];
+}
+
+/**
+ * Body of the server's reply. `rows` holds every row changed after `since` (up
+ * to a page limit, in revision order) plus the merged state of each pushed row;
+ * when `hasMore` is set the client pulls again from `cursor`.
+ */
+export type SyncResponse =
+  | {
+      ok: true;
+      cursor: number;
+      hasMore: boolean;
+      rows: SyncRowState[];
+      collisions: SyncCollision[];
+    }
+  | { ok: false; error: string };
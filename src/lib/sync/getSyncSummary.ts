@@ -0,0 +1,35 @@
+import { db } from '../db';
+
+/**
+ * Sync status of the local database with one server.
+ */
+export interface SyncSummary {
+  /** Rows with local changes not yet pushed. */
+  pendingCount: number;
+
+  /** Conflicts awaiting review. */
+  conflictCount: number;
+
+  /** Completion time of the last successful sync (ISO 8601), or null if never synced. */
+  lastSyncedAt: string | null;
+}
+
+/**
+ * Returns how much is waiting to be synced with a server and when it last
+ * synced.
+ *
+ * @param serverUrl - Server base URL.
+ * @returns The summary.
+ */
+export async function getSyncSummary(serverUrl: string): Promise<SyncSummary> {
+  const [pendingCount, conflictCount, state] = await Promise.all([
+    db.syncJournal.where('pending').equals(1).count(),
+    db.syncConflicts.count(),
+    db.syncState.get(serverUrl),
+  ]);
+  return {
+    pendingCount,
+    conflictCount,
+    lastSyncedAt: state?.lastSyncedAt ?? null,
+  };
+}
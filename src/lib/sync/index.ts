@@ -0,0 +1,34 @@
+/**
+ * Offline-first sync: a per-row change journal kept by a Dexie middleware, and
+ * a sync engine that pushes and pulls changes against a sync server, which
+ * merges them with last-writer-wins per field and reports collisions.
+ */
+
+export type { SyncSummary } from './getSyncSummary';
+export { getSyncSummary } from './getSyncSummary';
+export {
+  dismissSyncConflict,
+  getSyncConflicts,
+  overrideSyncConflict,
+} from './syncConflicts';
+export {
+  SYNC_JOURNAL_TABLE,
+  SYNC_METADATA_TABLES,
+  createSyncJournalMiddleware,
+  isSyncedTable,
+} from './syncJournalMiddleware';
+export type {
+  SyncCollision,
+  SyncPushChange,
+  SyncRequest,
+  SyncResponse,
+  SyncRowState,
+} from './SyncMessage';
+export { SYNC_PATH } from './SyncMessage';
+export {
+  SYNC_CHANGE_DELAY_MS,
+  SYNC_INTERVAL_MS,
+  startSyncService,
+} from './syncService';
+export type { SyncResult } from './syncWithServer';
+export { SYNC_PUSH_BATCH_SIZE, syncWithServer } from './syncWithServer';
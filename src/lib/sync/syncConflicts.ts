@@ -0,0 +1,68 @@
+import { setCurrentTransactionOrigin } from '../changes';
+import { db } from '../db';
+import type { SyncConflict } from '../../types/SyncConflict';
+
+/**
+ * Returns the recorded sync conflicts, newest first.
+ *
+ * @returns Conflicts awaiting review.
+ */
+export async function getSyncConflicts(): Promise<SyncConflict[]> {
+  const conflicts = await db.syncConflicts.toArray();
+  return conflicts.sort((a, b) => b.detectedAt.localeCompare(a.detectedAt));
+}
+
+/**
+ * Accepts the automatic resolution of a conflict and removes its record.
+ *
+ * @param id - Conflict ID.
+ */
+export async function dismissSyncConflict(id: string): Promise<void> {
+  await db.transaction('rw', db.syncConflicts, async () => {
+    setCurrentTransactionOrigin('system');
+    await db.syncConflicts.delete(id);
+  });
+}
+
+/**
+ * Replaces the automatically kept value with the one that lost, as a local edit
+ * (synced on the next push, undoable), and removes the conflict record. For a
+ * row conflict the row is deleted or restored accordingly.
+ *
+ * @param id - Conflict ID.
+ * @throws Error when the conflict does not exist, or the row of a field conflict no longer exists.
+ */
+export async function overrideSyncConflict(id: string): Promise<void> {
+  await db.transaction('rw', db.tables, async () => {
+    const conflict = await db.syncConflicts.get(id);
+    if (!conflict) {
+      throw new Error('Conflict not found.');
+    }
+    const table = db.table(conflict.table);
+    const value =
+      conflict.winner === 'local' ? conflict.remoteValue : conflict.localValue;
+
+    if (conflict.field === null) {
+      if (value === undefined) {
+        await table.delete(conflict.key);
+      } else {
+        await table.put(value);
+      }
+    } else {
+      const row = (await table.get(conflict.key)) as
+        | Record<string, unknown>
+        | undefined;
+      if (!row) {
+        throw new Error('Row no longer exists.');
+      }
+      const updated = { ...row };
+      if (value === undefined) {
+        delete updated[conflict.field];
+      } else {
+        updated[conflict.field] = value;
+      }
+      await table.put(updated);
+    }
+    await db.syncConflicts.delete(id);
+  });
+}
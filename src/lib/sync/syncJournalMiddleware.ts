@@ -0,0 +1,298 @@
+/**
+ * Dexie middleware that keeps the sync change journal: once this device has
+ * synced with a server, every write to a synced table updates the row's
+ * journal entry in the same transaction (version, modification times per
+ * field, pending flag). Before that the first sync pushes every row anyway, so
+ * writes are not journaled and deletes only drop the rows' entries. It sits
+ * below Dexie's hooks middleware, so journal writes are not reported as row
+ * changes.
+ */
+
+import type {
+  DBCore,
+  DBCoreKeyRange,
+  DBCoreMutateRequest,
+  DBCoreMutateResponse,
+  DBCoreRangeType,
+  DBCoreTable,
+  DBCoreTransaction,
+  Middleware,
+} from 'dexie';
+import type { SyncJournalEntry } from '../../types/SyncJournalEntry';
+import { isSameValue } from '../../utils/isSameValue';
+
+/** Name of the journal table. */
+export const SYNC_JOURNAL_TABLE = 'syncJournal';
+
+/** Name of the per-server sync state table. */
+const SYNC_STATE_TABLE = 'syncState';
+
+/** Tables holding sync bookkeeping rather than app data; they are not synced. */
+export const SYNC_METADATA_TABLES: readonly string[] = [
+  SYNC_JOURNAL_TABLE,
+  'syncConflicts',
+  SYNC_STATE_TABLE,
+];
+
+/** Key range matching every key (Dexie's `DBCoreRangeType.Any`). */
+const ANY_KEY_RANGE: DBCoreKeyRange = {
+  type: 3 as DBCoreRangeType,
+  lower: -Infinity,
+  upper: [[]],
+};
+
+/**
+ * Returns whether a table holds app data (and is therefore journaled and synced).
+ *
+ * @param tableName - Table name.
+ * @returns True for app data tables.
+ */
+export function isSyncedTable(tableName: string): boolean {
+  return !SYNC_METADATA_TABLES.includes(tableName);
+}
+
+/**
+ * Builds the journal entry for a row after a write, or null when the write did
+ * not change the row.
+ *
+ * @param table - Table name.
+ * @param key - Row primary key.
+ * @param entry - Current journal entry, if any.
+ * @param before - Row before the write, if it existed.
+ * @param after - Row after the write, or undefined when deleted.
+ * @param now - Write time (ISO 8601).
+ * @returns The updated entry, or null.
+ */
+function buildJournalEntry(
+  table: string,
+  key: string,
+  entry: SyncJournalEntry | undefined,
+  before: Record<string, unknown> | undefined,
+  after: Record<string, unknown> | undefined,
+  now: string
+): SyncJournalEntry | null {
+  const fieldModifiedAt = { ...entry?.fieldModifiedAt };
+  const pendingFields = new Set(entry?.pendingFields);
+
+  if (after === undefined) {
+    if (before === undefined) return null;
+  } else {
+    const fields = new Set([
+      ...Object.keys(before ?? {}),
+      ...Object.keys(after),
+    ]);
+    let isChanged = before === undefined;
+    for (const field of fields) {
+      if (isSameValue(before?.[field], after[field])) continue;
+      fieldModifiedAt[field] = now;
+      pendingFields.add(field);
+      isChanged = true;
+    }
+    if (!isChanged) return null;
+  }
+
+  return {
+    table,
+    key,
+    version: (entry?.version ?? 0) + 1,
+    modifiedAt: now,
+    fieldModifiedAt,
+    deleted: after === undefined,
+    pending: 1,
+    pendingFields: [...pendingFields],
+    serverRevision: entry?.serverRevision ?? null,
+  };
+}
+
+/**
+ * Resolves the primary keys a mutation affects and continues with them.
+ *
+ * @param table - Table being written.
+ * @param req - The mutation.
+ * @param next - Continuation receiving the keys.
+ * @returns The continuation's result.
+ */
+function withAffectedKeys<T>(
+  table: DBCoreTable,
+  req: DBCoreMutateRequest,
+  next: (keys: unknown[]) => Promise<T>
+): Promise<T> {
+  switch (req.type) {
+    case 'add':
+    case 'put':
+      return next(
+        req.keys ??
+          req.values.map((value) => table.schema.primaryKey.extractKey!(value))
+      );
+    case 'delete':
+      return next(req.keys);
+    case 'deleteRange':
+      return table
+        .query({
+          trans: req.trans,
+          values: false,
+          query: { index: table.schema.primaryKey, range: req.range },
+        })
+        .then(({ result }) => next(result));
+  }
+}
+
+/**
+ * Returns whether this device has synced with a server, i.e. whether writes
+ * need journaling. Checked once per transaction.
+ *
+ * @param core - Core below this middleware (for the sync state table).
+ * @param trans - The transaction.
+ * @param checks - Results of earlier checks, by transaction.
+ * @returns True when a sync state row exists.
+ */
+function isJournaling(
+  core: DBCore,
+  trans: DBCoreTransaction,
+  checks: WeakMap<DBCoreTransaction, Promise<boolean>>
+): Promise<boolean> {
+  let check = checks.get(trans);
+  if (!check) {
+    const state = core.table(SYNC_STATE_TABLE);
+    check = state
+      .count({
+        trans,
+        query: { index: state.schema.primaryKey, range: ANY_KEY_RANGE },
+      })
+      .then((count) => count > 0);
+    checks.set(trans, check);
+  }
+  return check;
+}
+
+/**
+ * Runs a mutation on a synced table and journals the rows it changed, or,
+ * before the first sync, drops the journal entries of deleted rows.
+ * Promises are chained with `then` rather than awaited so Dexie's transaction
+ * context carries through to the lower middlewares.
+ *
+ * @param core - Core below this middleware (for the journal table).
+ * @param table - Synced table being written.
+ * @param req - The mutation.
+ * @param checks - Per-transaction results of isJournaling.
+ * @returns The mutation's response.
+ */
+function mutateAndJournal(
+  core: DBCore,
+  table: DBCoreTable,
+  req: DBCoreMutateRequest,
+  checks: WeakMap<DBCoreTransaction, Promise<boolean>>
+): Promise<DBCoreMutateResponse> {
+  // Upgrade transactions of older schema versions run before the journal exists.
+  const idbtrans = req.trans as unknown as IDBTransaction;
+  if (!idbtrans.objectStoreNames?.contains(SYNC_JOURNAL_TABLE)) {
+    return table.mutate(req);
+  }
+
+  const journal = core.table(SYNC_JOURNAL_TABLE);
+  return isJournaling(core, req.trans, checks).then((isOn) => {
+    if (isOn) return journalMutation(journal, table, req);
+    if (req.type === 'add' || req.type === 'put') return table.mutate(req);
+    return withAffectedKeys(table, req, (keys) =>
+      table.mutate(req).then((response) =>
+        journal
+          .mutate({
+            trans: req.trans,
+            type: 'delete',
+            keys: keys.map((key) => [table.name, String(key)]),
+          })
+          .then(() => response)
+      )
+    );
+  });
+}
+
+/**
+ * Runs a mutation on a synced table and journals the rows it changed.
+ *
+ * @param journal - The journal table.
+ * @param table - Synced table being written.
+ * @param req - The mutation.
+ * @returns The mutation's response.
+ */
+function journalMutation(
+  journal: DBCoreTable,
+  table: DBCoreTable,
+  req: DBCoreMutateRequest
+): Promise<DBCoreMutateResponse> {
+  return withAffectedKeys(table, req, (keys) => {
+    const journalKeys = keys.map((key) => [table.name, String(key)]);
+    return table.getMany({ trans: req.trans, keys }).then((before) =>
+      table.mutate(req).then((response) =>
+        journal
+          .getMany({ trans: req.trans, keys: journalKeys })
+          .then((entries) => {
+            const now = new Date().toISOString();
+            const updated: SyncJournalEntry[] = [];
+            keys.forEach((key, i) => {
+              if (response.failures[i]) return;
+              const after =
+                req.type === 'add' || req.type === 'put'
+                  ? (req.values[i] as Record<string, unknown>)
+                  : undefined;
+              const entry = buildJournalEntry(
+                table.name,
+                String(key),
+                entries[i] as SyncJournalEntry | undefined,
+                before[i] as Record<string, unknown> | undefined,
+                after,
+                now
+              );
+              if (entry) updated.push(entry);
+            });
+            if (updated.length === 0) return response;
+            return journal
+              .mutate({ trans: req.trans, type: 'put', values: updated })
+              .then(() => response);
+          })
+      )
+    );
+  });
+}
+
+/**
+ * Creates the journal middleware. Read-write transactions on synced tables
+ * also open the journal and sync state tables so entries commit together with
+ * the rows.
+ *
+ * @returns Middleware to register with `db.use`.
+ */
+export function createSyncJournalMiddleware(): Middleware<DBCore> {
+  return {
+    stack: 'dbcore',
+    name: 'SyncJournal',
+    // Between Dexie's virtual index (1) and hooks (2) middlewares.
+    level: 1.5,
+    create(down) {
+      const checks = new WeakMap<DBCoreTransaction, Promise<boolean>>();
+      return {
+        ...down,
+        transaction(stores, mode, options) {
+          const needsJournal =
+            mode === 'readwrite' && stores.some(isSyncedTable);
+          const added = [SYNC_JOURNAL_TABLE, SYNC_STATE_TABLE].filter(
+            (name) => !stores.includes(name)
+          );
+          return down.transaction(
+            needsJournal ? [...stores, ...added] : stores,
+            mode,
+            options
+          );
+        },
+        table(tableName) {
+          const table = down.table(tableName);
+          if (!isSyncedTable(tableName)) return table;
+          return {
+            ...table,
+            mutate: (req) => mutateAndJournal(down, table, req, checks),
+          };
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,59 @@
+import { subscribeToChanges } from '../changes';
+
+/** How often the sync service syncs while the app is open (1 minute). */
+export const SYNC_INTERVAL_MS = 60 * 1000;
+
+/** Delay after a local change before syncing it (5 seconds). */
+export const SYNC_CHANGE_DELAY_MS = 5 * 1000;
+
+/**
+ * Starts the background sync service: runs `sync` now, every intervalMs, when
+ * the browser comes back online, and shortly after changes made in this tab.
+ * Runs never overlap; `sync` reports its own errors.
+ *
+ * @param sync - Runs one sync.
+ * @param intervalMs - Sync interval; defaults to SYNC_INTERVAL_MS.
+ * @returns A function that stops the service.
+ */
+export function startSyncService(
+  sync: () => Promise<unknown>,
+  intervalMs: number = SYNC_INTERVAL_MS
+): () => void {
+  let isRunning = false;
+  let isStopped = false;
+  let changeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const run = async () => {
+    if (isRunning || isStopped) return;
+    isRunning = true;
+    try {
+      await sync();
+    } catch {
+      // Retry on the next trigger.
+    } finally {
+      isRunning = false;
+    }
+  };
+
+  // Rows received from the server and other tabs' changes need no push.
+  const unsubscribe = subscribeToChanges((changeSet) => {
+    if (changeSet.origin === 'sync' || changeSet.origin === 'remote') return;
+    if (changeTimer !== null) clearTimeout(changeTimer);
+    changeTimer = setTimeout(() => {
+      changeTimer = null;
+      void run();
+    }, SYNC_CHANGE_DELAY_MS);
+  });
+  const handleOnline = () => void run();
+  window.addEventListener('online', handleOnline);
+  const timer = setInterval(() => void run(), intervalMs);
+  void run();
+
+  return () => {
+    isStopped = true;
+    clearInterval(timer);
+    if (changeTimer !== null) clearTimeout(changeTimer);
+    window.removeEventListener('online', handleOnline);
+    unsubscribe();
+  };
+}
@@ -0,0 +1,300 @@
+import { setCurrentTransactionOrigin } from '../changes';
+import { db } from '../db';
+import { decodeRpcValue, encodeRpcValue } from '../remote';
+import type { SyncJournalEntry } from '../../types/SyncJournalEntry';
+import { generateId } from '../../utils/generateId';
+import {
+  SYNC_PATH,
+  type SyncCollision,
+  type SyncPushChange,
+  type SyncRequest,
+  type SyncResponse,
+  type SyncRowState,
+} from './SyncMessage';
+import { isSyncedTable } from './syncJournalMiddleware';
+
+/** Largest number of changed rows pushed in one request. */
+export const SYNC_PUSH_BATCH_SIZE = 200;
+
+/** Most request round trips one sync makes; the next sync continues. */
+const MAX_SYNC_ROUNDS = 20;
+
+/** Modification time assumed for fields changed before the journal existed. */
+const UNKNOWN_MODIFIED_AT = new Date(0).toISOString();
+
+/** Name of the Web Lock that keeps tabs from syncing at the same time. */
+const SYNC_LOCK_NAME = 'questloom-sync';
+
+/**
+ * Outcome of a sync with a server.
+ */
+export interface SyncResult {
+  /** Rows pushed to the server. */
+  pushedCount: number;
+
+  /** Rows received from the server. */
+  pulledCount: number;
+
+  /** Collisions recorded for review. */
+  conflictCount: number;
+}
+
+/**
+ * Marks every row as changed and never synced, so the first sync with a server
+ * pushes all local data, and records the server so later writes are journaled
+ * (see syncJournalMiddleware). Rows without a journal entry get entries whose
+ * fields are older than any journaled change.
+ *
+ * @param serverUrl - Server base URL.
+ */
+async function markAllRowsPending(serverUrl: string): Promise<void> {
+  await db.transaction('rw', db.tables, async () => {
+    setCurrentTransactionOrigin('sync');
+    await db.syncState.put({ serverUrl, cursor: 0, lastSyncedAt: null });
+    const entries = await db.syncJournal.toArray();
+    const entriesById = new Map(
+      entries.map((entry) => [JSON.stringify([entry.table, entry.key]), entry])
+    );
+    const updated: SyncJournalEntry[] = entries
+      .filter((entry) => entry.deleted)
+      .map((entry) => ({ ...entry, pending: 1, serverRevision: null }));
+    for (const table of db.tables) {
+      if (!isSyncedTable(table.name)) continue;
+      const rows = (await table.toArray()) as Record<string, unknown>[];
+      for (const row of rows) {
+        const key = String(row[table.schema.primKey.keyPath as string]);
+        const entry = entriesById.get(JSON.stringify([table.name, key]));
+        const fields = Object.keys(row);
+        updated.push({
+          table: table.name,
+          key,
+          version: entry?.version ?? 0,
+          modifiedAt: entry?.modifiedAt ?? UNKNOWN_MODIFIED_AT,
+          fieldModifiedAt: Object.fromEntries(
+            fields.map((field) => [
+              field,
+              entry?.fieldModifiedAt[field] ?? UNKNOWN_MODIFIED_AT,
+            ])
+          ),
+          deleted: false,
+          pending: 1,
+          pendingFields: fields,
+          serverRevision: null,
+        });
+      }
+    }
+    await db.syncJournal.bulkPut(updated);
+  });
+}
+
+/**
+ * Builds the push payload for pending journal entries.
+ *
+ * @param entries - Pending entries.
+ * @returns One change per entry.
+ */
+async function buildPushChanges(
+  entries: SyncJournalEntry[]
+): Promise<SyncPushChange[]> {
+  return Promise.all(
+    entries.map(async (entry) => {
+      const row = entry.deleted
+        ? undefined
+        : await db.table(entry.table).get(entry.key);
+      return {
+        table: entry.table,
+        key: entry.key,
+        baseRevision: entry.serverRevision,
+        deleted: row === undefined,
+        modifiedAt: entry.modifiedAt,
+        values: row
+          ? ((await encodeRpcValue(row)) as Record<string, unknown>)
+          : {},
+        fieldModifiedAt: entry.fieldModifiedAt,
+        changedFields: entry.pendingFields,
+      };
+    })
+  );
+}
+
+/**
+ * Posts a sync request.
+ *
+ * @param endpoint - Sync endpoint URL.
+ * @param request - Request body.
+ * @returns The successful response body.
+ * @throws Error when the server cannot be reached or reports an error.
+ */
+async function postSync(
+  endpoint: string,
+  request: SyncRequest
+): Promise<Extract<SyncResponse, { ok: true }>> {
+  let response: Response;
+  try {
+    response = await fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+    });
+  } catch {
+    throw new Error('Could not reach the sync server.');
+  }
+
+  let body: SyncResponse;
+  try {
+    body = (await response.json()) as SyncResponse;
+  } catch {
+    throw new Error(
+      `The sync server returned an invalid response (${response.status}).`
+    );
+  }
+  if (!body.ok) {
+    throw new Error(body.error);
+  }
+  return body;
+}
+
+/**
+ * Writes a server row into the local table and records it as synced.
+ *
+ * @param row - Row state from the server.
+ * @param entry - Local journal entry, if any.
+ */
+async function applyServerRow(
+  row: SyncRowState,
+  entry: SyncJournalEntry | undefined
+): Promise<void> {
+  const table = db.table(row.table);
+  if (row.deleted) {
+    await table.delete(row.key);
+    // Synced deletions need no tombstone.
+    await db.syncJournal.delete([row.table, row.key]);
+    return;
+  }
+  await table.put(decodeRpcValue(row.values));
+  await db.syncJournal.put({
+    table: row.table,
+    key: row.key,
+    version: (entry?.version ?? 0) + 1,
+    modifiedAt: row.modifiedAt,
+    fieldModifiedAt: row.fieldModifiedAt,
+    deleted: false,
+    pending: 0,
+    pendingFields: [],
+    serverRevision: row.revision,
+  });
+}
+
+/**
+ * Applies a sync response in one transaction: marks pushed entries as synced
+ * (unless they changed again meanwhile), writes server rows over rows without
+ * pending local changes, records collisions, and saves the cursor.
+ *
+ * @param serverUrl - Server base URL.
+ * @param pushed - Journal entries that were pushed, as read before the push.
+ * @param response - The server's response.
+ */
+async function applySyncResponse(
+  serverUrl: string,
+  pushed: SyncJournalEntry[],
+  response: Extract<SyncResponse, { ok: true }>
+): Promise<void> {
+  const knownTables = new Set(db.tables.map((table) => table.name));
+  await db.transaction('rw', db.tables, async () => {
+    setCurrentTransactionOrigin('sync');
+    for (const sent of pushed) {
+      const entry = await db.syncJournal.get([sent.table, sent.key]);
+      if (!entry || entry.version !== sent.version) continue;
+      if (entry.deleted) {
+        await db.syncJournal.delete([sent.table, sent.key]);
+      } else {
+        await db.syncJournal.put({ ...entry, pending: 0, pendingFields: [] });
+      }
+    }
+
+    for (const row of response.rows) {
+      if (!knownTables.has(row.table) || !isSyncedTable(row.table)) continue;
+      const entry = await db.syncJournal.get([row.table, row.key]);
+      // Rows changed again during the round trip are pushed (and merged) next.
+      if (entry?.pending === 1) continue;
+      await applyServerRow(row, entry);
+    }
+
+    const detectedAt = new Date().toISOString();
+    await db.syncConflicts.bulkAdd(
+      response.collisions.map((collision: SyncCollision) => ({
+        ...collision,
+        id: generateId(),
+        localValue: decodeRpcValue(collision.localValue),
+        remoteValue: decodeRpcValue(collision.remoteValue),
+        detectedAt,
+      }))
+    );
+    await db.syncState.put({
+      serverUrl,
+      cursor: response.cursor,
+      lastSyncedAt: detectedAt,
+    });
+  });
+}
+
+/**
+ * Runs work while holding the sync lock, when the browser supports Web Locks.
+ *
+ * @param work - Work to run.
+ * @returns The work's result.
+ */
+function withSyncLock<T>(work: () => Promise<T>): Promise<T> {
+  if (typeof navigator === 'undefined' || !navigator.locks) return work();
+  return navigator.locks.request(SYNC_LOCK_NAME, work);
+}
+
+/**
+ * Syncs the local database with a sync server: pushes journaled changes
+ * (batched), pulls rows changed on the server since the last sync, and stores
+ * the collisions the server resolved for review. The server merges with
+ * last-writer-wins per field. The first sync with a server pushes all data.
+ * Only one tab syncs at a time.
+ *
+ * @param serverUrl - Server base URL, e.g. `http://localhost:8787`.
+ * @returns Counts of pushed and pulled rows and recorded conflicts.
+ * @throws Error when the server cannot be reached or rejects a request.
+ */
+export function syncWithServer(serverUrl: string): Promise<SyncResult> {
+  const endpoint = `${serverUrl.replace(/\/+$/, '')}${SYNC_PATH}`;
+
+  return withSyncLock(async () => {
+    const state = await db.syncState.get(serverUrl);
+    if (!state) {
+      await markAllRowsPending(serverUrl);
+    }
+
+    const result: SyncResult = {
+      pushedCount: 0,
+      pulledCount: 0,
+      conflictCount: 0,
+    };
+    let cursor = state?.cursor ?? 0;
+    for (let round = 0; round < MAX_SYNC_ROUNDS; round++) {
+      const pending = await db.syncJournal
+        .where('pending')
+        .equals(1)
+        .limit(SYNC_PUSH_BATCH_SIZE)
+        .toArray();
+      const response = await postSync(endpoint, {
+        since: cursor,
+        changes: await buildPushChanges(pending),
+      });
+      await applySyncResponse(serverUrl, pending, response);
+
+      cursor = response.cursor;
+      result.pushedCount += pending.length;
+      result.pulledCount += response.rows.length;
+      result.conflictCount += response.collisions.length;
+
+      const remaining = await db.syncJournal.where('pending').equals(1).count();
+      if (!response.hasMore && remaining === 0) break;
+    }
+    return result;
+  });
+}
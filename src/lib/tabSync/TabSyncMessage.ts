@@ -0,0 +1,22 @@
+import type { ChangeSet } from '../changes';
+import type { GameId, PlaythroughId } from '../../types/ids';
+
+/**
+ * Current game and playthrough selection shared between tabs.
+ */
+export interface TabSelection {
+  /** Selected game ID, or null when none. */
+  gameId: GameId | null;
+
+  /** Selected playthrough ID, or null when none. */
+  playthroughId: PlaythroughId | null;
+}
+
+/**
+ * Message posted on the tab sync channel.
+ * - `changes`: a change set the sending tab committed to the shared database.
+ * - `selection`: the sending tab switched game or playthrough.
+ */
+export type TabSyncMessage =
+  | { type: 'changes'; senderId: string; changeSet: ChangeSet }
+  | { type: 'selection'; senderId: string; selection: TabSelection };
@@ -0,0 +1,8 @@
+/**
+ * Multi-tab sync: relays committed change sets and game/playthrough selection
+ * between open tabs over a BroadcastChannel.
+ */
+
+export type { TabSelection, TabSyncMessage } from './TabSyncMessage';
+export type { TabSync } from './tabSync';
+export { startTabSync, TAB_SYNC_CHANNEL_NAME } from './tabSync';
@@ -0,0 +1,86 @@
+import { generateId } from '../../utils/generateId';
+import { publishRemoteChangeSet, subscribeToChanges } from '../changes';
+import type { TabSelection, TabSyncMessage } from './TabSyncMessage';
+
+/** BroadcastChannel name shared by every QuestLoom tab of this origin. */
+export const TAB_SYNC_CHANNEL_NAME = 'questloom-tab-sync';
+
+/**
+ * Handle returned by startTabSync.
+ */
+export interface TabSync {
+  /** Tells other tabs that this tab switched game or playthrough. */
+  broadcastSelection: (selection: TabSelection) => void;
+
+  /** Closes the channel and stops relaying changes. */
+  stop: () => void;
+}
+
+/**
+ * Starts relaying this tab's committed change sets to other open tabs and
+ * republishing theirs locally (with the `remote` origin), so live views in
+ * every tab refresh after an edit. Change sets are relayed whatever their
+ * origin except those received from the channel, so with a remote data source
+ * (whose own calls publish `remote` change sets) other tabs refresh too.
+ * Selection changes are exchanged on the same channel. A no-op when
+ * BroadcastChannel is unavailable.
+ *
+ * @param onRemoteSelection - Called when another tab switches game or playthrough.
+ * @returns Handle to broadcast this tab's selection and to stop syncing.
+ */
+export function startTabSync(
+  onRemoteSelection: (selection: TabSelection) => void
+): TabSync {
+  if (typeof BroadcastChannel === 'undefined') {
+    return { broadcastSelection: () => {}, stop: () => {} };
+  }
+
+  const senderId = generateId();
+  const channel = new BroadcastChannel(TAB_SYNC_CHANNEL_NAME);
+  let isRepublishing = false;
+
+  /**
+   * Posts a message, ignoring failures (e.g. the channel closed mid-unload).
+   *
+   * @param message - Message to post.
+   */
+  const post = (message: TabSyncMessage) => {
+    try {
+      channel.postMessage(message);
+    } catch {
+      // Other tabs fall back to refreshing on their next own change.
+    }
+  };
+
+  channel.onmessage = (event: MessageEvent<TabSyncMessage>) => {
+    const message = event.data;
+    if (!message || message.senderId === senderId) return;
+    if (message.type === 'changes') {
+      // Listeners run synchronously, so the flag covers exactly this publish.
+      isRepublishing = true;
+      try {
+        publishRemoteChangeSet(message.changeSet);
+      } finally {
+        isRepublishing = false;
+      }
+    } else if (message.type === 'selection') {
+      onRemoteSelection(message.selection);
+    }
+  };
+
+  // Relay every change except those another tab just relayed to this one.
+  const unsubscribe = subscribeToChanges((changeSet) => {
+    if (!isRepublishing) {
+      post({ type: 'changes', senderId, changeSet });
+    }
+  });
+
+  return {
+    broadcastSelection: (selection) =>
+      post({ type: 'selection', senderId, selection }),
+    stop: () => {
+      unsubscribe();
+      channel.close();
+    },
+  };
+}
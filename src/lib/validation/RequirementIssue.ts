@@ -0,0 +1,32 @@
+/**
+ * Category of a problem in a game's requirement graph.
+ * - `selfReference`: a requirement or objective requirement whose target is its own source.
+ * - `cycle`: entities whose requirements and locations depend on each other in a loop that no alternative (another group member or another location) can break.
+ * - `alternativeCycle`: a loop that other members of its any-of or at-least groups, or other locations of its entities, can still break.
+ * - `targetWithoutStatus`: a requirement on a place, map, or thread, which have no playthrough status, so availability checks skip it; or on a path, whose status does not count, so the requirement is never met.
+ */
+export type RequirementIssueKind =
+  | 'selfReference'
+  | 'cycle'
+  | 'alternativeCycle'
+  | 'targetWithoutStatus';
+
+/**
+ * A single problem in a game's requirement graph. Issues are warnings: the
+ * game still works, but the entities involved may never become available.
+ *
+ * @property kind - Category of the problem
+ * @property entityIds - Typed IDs of the entities involved (for a cycle, in loop order)
+ * @property threadIds - IDs of the threads involved
+ * @property message - Human-readable description for display
+ */
+export interface RequirementIssue {
+  /** Category of the problem. */
+  kind: RequirementIssueKind;
+  /** Typed IDs of the entities involved (for a cycle, in loop order). */
+  entityIds: string[];
+  /** IDs of the threads involved. */
+  threadIds: string[];
+  /** Human-readable description for display. */
+  message: string;
+}
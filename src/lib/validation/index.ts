@@ -0,0 +1,14 @@
+/**
+ * Requirement graph validation: self-references, dependency loops, and
+ * requirements on entities without playthrough status.
+ */
+
+export type {
+  RequirementIssue,
+  RequirementIssueKind,
+} from './RequirementIssue';
+export {
+  checkRequirementDraft,
+  findRequirementIssues,
+  validateGameRequirements,
+} from './validateRequirementGraph';
@@ -0,0 +1,423 @@
+import { EntityType } from '../../types/EntityType';
+import type { GameId } from '../../types/ids';
+import { RequirementGroupOperator } from '../../types/RequirementGroupOperator';
+import type { Thread } from '../../types/Thread';
+import { ThreadSubtype } from '../../types/ThreadSubtype';
+import { ENTITY_TYPE_PLURAL_LABELS } from '../../utils/entityTypeLabels';
+import { getEntityDisplayName } from '../../utils/getEntityDisplayName';
+import { getEntityTypeFromId } from '../../utils/parseEntityId';
+import { getThreadSubtype } from '../../utils/threadSubtype';
+import { threadRepository } from '../repositories';
+import {
+  buildRequirementTree,
+  isThresholdSatisfied,
+  type RequirementGroupNode,
+  type RequirementTreeNode,
+} from '../requirements';
+import type { RequirementIssue } from './RequirementIssue';
+
+/** Entity types without playthrough status (requirements on them are ignored). */
+const TYPES_WITHOUT_STATUS = new Set<EntityType>([
+  EntityType.PLACE,
+  EntityType.MAP,
+  EntityType.THREAD,
+]);
+
+/**
+ * "From depends on to": from cannot become available before to.
+ */
+interface DependencyEdge {
+  from: string;
+  to: string;
+  threadId: string;
+  /** True for a location: one reachable location is enough. */
+  isLocation: boolean;
+}
+
+/**
+ * Returns whether a requirement or objective requirement can hold up its
+ * source through its target: the target has a playthrough status, and the
+ * requirement is not in a none-of group (which only needs its members to stay
+ * unmet). Requirements on paths are never met and are reported on their own.
+ *
+ * @param thread - Requirement or objective requirement thread.
+ * @returns True if the thread is a dependency.
+ */
+function isBlockingRequirement(thread: Thread): boolean {
+  const targetType = getEntityTypeFromId(thread.targetId);
+  if (
+    targetType === null ||
+    targetType === EntityType.PATH ||
+    TYPES_WITHOUT_STATUS.has(targetType)
+  ) {
+    return false;
+  }
+  return !(thread.requirementGroups ?? []).some(
+    (group) => group.operator === RequirementGroupOperator.NONE_OF
+  );
+}
+
+/**
+ * Returns the availability dependency edges of a game's threads: requirements
+ * (source depends on target) and locations (entity depends on its place).
+ * Requirements that cannot hold up their source (see isBlockingRequirement)
+ * are left out, and so are objective requirements, which gate completing an
+ * objective rather than the quest's availability.
+ *
+ * @param threads - Threads of the game.
+ * @returns The edges, without self-references.
+ */
+function getDependencyEdges(threads: Thread[]): DependencyEdge[] {
+  const edges: DependencyEdge[] = [];
+  for (const thread of threads) {
+    const subtype = getThreadSubtype(thread);
+    if (thread.sourceId === thread.targetId) continue;
+    if (subtype === ThreadSubtype.REQUIRES) {
+      if (!isBlockingRequirement(thread)) continue;
+      edges.push({
+        from: thread.sourceId,
+        to: thread.targetId,
+        threadId: thread.id,
+        isLocation: false,
+      });
+    } else if (subtype === ThreadSubtype.LOCATION) {
+      const sourceIsPlace =
+        getEntityTypeFromId(thread.sourceId) === EntityType.PLACE;
+      const targetIsPlace =
+        getEntityTypeFromId(thread.targetId) === EntityType.PLACE;
+      if (sourceIsPlace === targetIsPlace) continue;
+      edges.push({
+        from: sourceIsPlace ? thread.targetId : thread.sourceId,
+        to: sourceIsPlace ? thread.sourceId : thread.targetId,
+        threadId: thread.id,
+        isLocation: true,
+      });
+    }
+  }
+  return edges;
+}
+
+/**
+ * Returns whether a requirement tree can be satisfied when the blocked
+ * targets never are and every other target can be. Targets without status
+ * and none-of groups do not apply.
+ *
+ * @param node - Requirement or group.
+ * @param isBlocked - Whether a target can never be satisfied.
+ * @returns Whether the node can be satisfied, or null when it does not apply.
+ */
+function canBeSatisfied(
+  node: RequirementTreeNode,
+  isBlocked: (entityId: string) => boolean
+): boolean | null {
+  if (node.kind === 'requirement') {
+    return isBlockingRequirement(node.thread)
+      ? !isBlocked(node.thread.targetId)
+      : null;
+  }
+  if (node.operator === RequirementGroupOperator.NONE_OF) return null;
+  const results = node.children
+    .map((child) => canBeSatisfied(child, isBlocked))
+    .filter((result): result is boolean => result !== null);
+  if (results.length === 0) return null;
+  const metCount = results.filter(Boolean).length;
+  switch (node.operator) {
+    case RequirementGroupOperator.ANY_OF:
+      return metCount > 0;
+    case RequirementGroupOperator.AT_LEAST:
+      return isThresholdSatisfied(metCount, node.minSatisfied);
+    case RequirementGroupOperator.ALL_OF:
+    default:
+      return metCount === results.length;
+  }
+}
+
+/**
+ * Returns the entities of a loop that can never become available. Entities
+ * outside the loop are assumed reachable; entities in it are released one by
+ * one while their requirements (taking any-of and at-least groups into
+ * account) can be met and, if they have locations, one of them can be
+ * reached without the ones still held up.
+ *
+ * @param component - Entities that depend on each other.
+ * @param edges - Dependency edges.
+ * @param requirementTrees - Requirement trees by source entity.
+ * @returns The entities that stay held up; empty when every loop can be broken through alternatives.
+ */
+function findDeadlockedEntities(
+  component: Set<string>,
+  edges: DependencyEdge[],
+  requirementTrees: Map<string, RequirementGroupNode>
+): Set<string> {
+  const blocked = new Set(component);
+  const isBlocked = (id: string) => blocked.has(id);
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const id of blocked) {
+      const tree = requirementTrees.get(id);
+      const locationIds = edges
+        .filter((edge) => edge.from === id && edge.isLocation)
+        .map((edge) => edge.to);
+      const isHeldUp =
+        (locationIds.length > 0 && locationIds.every(isBlocked)) ||
+        (tree !== undefined && canBeSatisfied(tree, isBlocked) === false);
+      if (!isHeldUp) {
+        blocked.delete(id);
+        changed = true;
+      }
+    }
+  }
+  return blocked;
+}
+
+/**
+ * Finds the strongly connected components with more than one entity
+ * (Tarjan's algorithm): each is a set of entities that depend on each other.
+ *
+ * @param edges - Dependency edges.
+ * @returns The components.
+ */
+function findDependencyLoops(edges: DependencyEdge[]): Set<string>[] {
+  const outgoing = new Map<string, string[]>();
+  for (const edge of edges) {
+    outgoing.set(edge.from, [...(outgoing.get(edge.from) ?? []), edge.to]);
+  }
+
+  const indexById = new Map<string, number>();
+  const lowLinkById = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: Set<string>[] = [];
+  let nextIndex = 0;
+
+  /**
+   * Visits an entity and the entities it depends on.
+   *
+   * @param id - Entity to visit.
+   */
+  const visit = (id: string) => {
+    indexById.set(id, nextIndex);
+    lowLinkById.set(id, nextIndex);
+    nextIndex += 1;
+    stack.push(id);
+    onStack.add(id);
+    for (const next of outgoing.get(id) ?? []) {
+      if (!indexById.has(next)) {
+        visit(next);
+        lowLinkById.set(
+          id,
+          Math.min(lowLinkById.get(id)!, lowLinkById.get(next)!)
+        );
+      } else if (onStack.has(next)) {
+        lowLinkById.set(
+          id,
+          Math.min(lowLinkById.get(id)!, indexById.get(next)!)
+        );
+      }
+    }
+    if (lowLinkById.get(id) === indexById.get(id)) {
+      const component = new Set<string>();
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.add(member);
+      } while (member !== id);
+      if (component.size > 1) components.push(component);
+    }
+  };
+
+  for (const id of outgoing.keys()) {
+    if (!indexById.has(id)) visit(id);
+  }
+  return components;
+}
+
+/**
+ * Returns a shortest loop through the first entity of a component.
+ *
+ * @param component - Entities that depend on each other.
+ * @param edges - Dependency edges.
+ * @returns Entities in loop order (the first is not repeated at the end).
+ */
+function findLoopPath(
+  component: Set<string>,
+  edges: DependencyEdge[]
+): string[] {
+  const start = component.values().next().value as string;
+  const previous = new Map<string, string>();
+  const queue = [start];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const edge of edges) {
+      if (edge.from !== current || !component.has(edge.to)) continue;
+      if (edge.to === start) {
+        const path = [current];
+        while (path[0] !== start) path.unshift(previous.get(path[0])!);
+        return path;
+      }
+      if (!previous.has(edge.to)) {
+        previous.set(edge.to, current);
+        queue.push(edge.to);
+      }
+    }
+  }
+  return [...component];
+}
+
+/**
+ * Finds problems in a game's requirement graph: self-references, dependency
+ * loops across requirements and locations (loops that other group members or
+ * locations can break are reported separately), and requirements on entities
+ * without playthrough status.
+ *
+ * @param threads - Game-level threads of the game.
+ * @returns The issues found; empty when the graph is sound.
+ */
+export async function findRequirementIssues(
+  threads: Thread[]
+): Promise<RequirementIssue[]> {
+  const names = new Map<string, string>();
+  const nameOf = async (id: string) => {
+    if (!names.has(id)) names.set(id, await getEntityDisplayName(id));
+    return names.get(id)!;
+  };
+
+  const issues: RequirementIssue[] = [];
+  for (const thread of threads) {
+    const subtype = getThreadSubtype(thread);
+    const isObjective = subtype === ThreadSubtype.OBJECTIVE_REQUIRES;
+    if (subtype !== ThreadSubtype.REQUIRES && !isObjective) continue;
+
+    if (thread.sourceId === thread.targetId) {
+      const name = await nameOf(thread.sourceId);
+      issues.push({
+        kind: 'selfReference',
+        entityIds: [thread.sourceId],
+        threadIds: [thread.id],
+        message: isObjective
+          ? `An objective of ${name} requires ${name} itself.`
+          : `${name} requires itself.`,
+      });
+      continue;
+    }
+
+    const targetType = getEntityTypeFromId(thread.targetId);
+    if (targetType !== null && TYPES_WITHOUT_STATUS.has(targetType)) {
+      issues.push({
+        kind: 'targetWithoutStatus',
+        entityIds: [thread.sourceId, thread.targetId],
+        threadIds: [thread.id],
+        message: `${await nameOf(thread.sourceId)} requires ${await nameOf(thread.targetId)}, but ${ENTITY_TYPE_PLURAL_LABELS[targetType].toLowerCase()} have no status, so the requirement is ignored.`,
+      });
+    } else if (targetType === EntityType.PATH) {
+      issues.push({
+        kind: 'targetWithoutStatus',
+        entityIds: [thread.sourceId, thread.targetId],
+        threadIds: [thread.id],
+        message: `${await nameOf(thread.sourceId)} requires ${await nameOf(thread.targetId)}, but a path's status does not count for requirements, so the requirement can never be met.`,
+      });
+    }
+  }
+
+  const requirementTrees = new Map<string, RequirementGroupNode>();
+  const requirementsBySource = new Map<string, Thread[]>();
+  for (const thread of threads) {
+    if (getThreadSubtype(thread) !== ThreadSubtype.REQUIRES) continue;
+    requirementsBySource.set(thread.sourceId, [
+      ...(requirementsBySource.get(thread.sourceId) ?? []),
+      thread,
+    ]);
+  }
+  for (const [sourceId, requirements] of requirementsBySource) {
+    requirementTrees.set(sourceId, buildRequirementTree(requirements));
+  }
+
+  /**
+   * Names a loop of a component and collects its threads.
+   *
+   * @param component - Entities that depend on each other.
+   * @param loopEdges - Dependency edges to consider.
+   * @returns The loop in display form and the threads inside the component.
+   */
+  const describeLoop = async (
+    component: Set<string>,
+    loopEdges: DependencyEdge[]
+  ) => {
+    const loop = await Promise.all(
+      findLoopPath(component, loopEdges).map(nameOf)
+    );
+    return {
+      path: [...loop, loop[0]].join(' → '),
+      threadIds: loopEdges
+        .filter((e) => component.has(e.from) && component.has(e.to))
+        .map((e) => e.threadId),
+    };
+  };
+
+  const edges = getDependencyEdges(threads);
+  for (const component of findDependencyLoops(edges)) {
+    const deadlocked = findDeadlockedEntities(
+      component,
+      edges,
+      requirementTrees
+    );
+    if (deadlocked.size === 0) {
+      const { path, threadIds } = await describeLoop(component, edges);
+      issues.push({
+        kind: 'alternativeCycle',
+        entityIds: [...component],
+        threadIds,
+        message: `Circular dependency through alternatives: ${path}. Other requirements in those groups, or other locations, can still break the loop.`,
+      });
+      continue;
+    }
+    const deadlockedEdges = edges.filter(
+      (e) => deadlocked.has(e.from) && deadlocked.has(e.to)
+    );
+    for (const loop of findDependencyLoops(deadlockedEdges)) {
+      const { path, threadIds } = await describeLoop(loop, deadlockedEdges);
+      issues.push({
+        kind: 'cycle',
+        entityIds: [...loop],
+        threadIds,
+        message: `Circular dependency: ${path}. These may never become available.`,
+      });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Validates the requirement graph of a game (see findRequirementIssues).
+ *
+ * @param gameId - The game ID.
+ * @returns The issues found; empty when the graph is sound.
+ */
+export async function validateGameRequirements(
+  gameId: GameId
+): Promise<RequirementIssue[]> {
+  return findRequirementIssues(
+    await threadRepository.getByGameId(gameId, null)
+  );
+}
+
+/**
+ * Returns the problems an unsaved requirement would cause or be part of,
+ * as if it were saved (replacing the stored thread with the same ID).
+ *
+ * @param gameId - The game ID.
+ * @param draft - The requirement as it would be saved (any ID for a new one).
+ * @returns The issues involving the draft.
+ */
+export async function checkRequirementDraft(
+  gameId: GameId,
+  draft: Thread
+): Promise<RequirementIssue[]> {
+  const threads = (await threadRepository.getByGameId(gameId, null)).filter(
+    (t) => t.id !== draft.id
+  );
+  const issues = await findRequirementIssues([...threads, draft]);
+  return issues.filter((issue) => issue.threadIds.includes(draft.id));
+}
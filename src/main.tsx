@@ -2,6 +2,18 @@ import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import './index.css';
 import App from './App.tsx';
+import { configureDataSource } from './lib/configureDataSource';
+import { disableSelectionPersistence } from './stores/appStore';
+
+// `?demo` opens a throwaway in-memory session regardless of configuration.
+const isDemo = new URLSearchParams(window.location.search).has('demo');
+configureDataSource({
+  kind: isDemo ? 'memory' : import.meta.env.VITE_QUESTLOOM_DATA_SOURCE,
+  serverUrl: import.meta.env.VITE_QUESTLOOM_SERVER_URL,
+});
+if (isDemo) {
+  disableSelectionPersistence();
+}
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
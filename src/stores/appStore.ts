@@ -81,6 +81,9 @@ interface AppState {
   ) => void;
 }
 
+/** Whether selection changes are written to localStorage. */
+let isPersistenceEnabled = true;
+
 /**
  * Helper to set or remove an item in localStorage for the given key and value.
  *
@@ -88,7 +91,7 @@ interface AppState {
  * @param value - Value to store, or null to remove
  */
 function persistToLocalStorage(key: string, value: string | null): void {
-  if (typeof window === 'undefined') return;
+  if (typeof window === 'undefined' || !isPersistenceEnabled) return;
   if (value !== null) {
     localStorage.setItem(key, value);
   } else {
@@ -119,3 +122,12 @@ export const useAppStore = create<AppState>((set) => ({
     set({ currentGameId: gameId, currentPlaythroughId: playthroughId });
   },
 }));
+
+/**
+ * Stops persisting the selection and clears it, so a throwaway session (demo
+ * mode) neither starts on nor overwrites the saved game and playthrough.
+ */
+export function disableSelectionPersistence(): void {
+  isPersistenceEnabled = false;
+  useAppStore.setState({ currentGameId: null, currentPlaythroughId: null });
+}
@@ -0,0 +1,90 @@
+/**
+ * Encryption store: the encrypted games unlocked in this tab, so views update
+ * when a game is unlocked, locked, or its encryption is turned on or off. The
+ * keys themselves stay in lib/encryption.
+ */
+
+import { create } from 'zustand';
+import {
+  disableGameEncryption,
+  enableGameEncryption,
+  lockGame,
+  unlockGame,
+} from '../lib/encryption';
+import type { GameId } from '../types/ids';
+
+/**
+ * Internal state shape for the encryption store.
+ */
+interface EncryptionStoreState {
+  /** Encrypted games unlocked in this tab. */
+  unlockedGameIds: GameId[];
+
+  /**
+   * Unlocks an encrypted game for the session.
+   *
+   * @param gameId - The game ID.
+   * @param passphrase - The game's passphrase.
+   * @throws Error when the passphrase is wrong.
+   */
+  unlock: (gameId: GameId, passphrase: string) => Promise<void>;
+
+  /**
+   * Locks an encrypted game again.
+   *
+   * @param gameId - The game ID.
+   */
+  lock: (gameId: GameId) => void;
+
+  /**
+   * Turns on encryption for a game; it stays unlocked.
+   *
+   * @param gameId - The game ID.
+   * @param passphrase - New passphrase.
+   */
+  enable: (gameId: GameId, passphrase: string) => Promise<void>;
+
+  /**
+   * Turns off encryption for an unlocked game.
+   *
+   * @param gameId - The game ID.
+   */
+  disable: (gameId: GameId) => Promise<void>;
+}
+
+/**
+ * Encryption store hook.
+ */
+export const useEncryptionStore = create<EncryptionStoreState>((set) => {
+  const markUnlocked = (gameId: GameId, isUnlocked: boolean) =>
+    set((state) => ({
+      unlockedGameIds: [
+        ...state.unlockedGameIds.filter((id) => id !== gameId),
+        ...(isUnlocked ? [gameId] : []),
+      ],
+    }));
+
+  return {
+    unlockedGameIds: [],
+
+    unlock: async (gameId, passphrase) => {
+      await unlockGame(gameId, passphrase);
+      markUnlocked(gameId, true);
+    },
+
+    lock: (gameId) => {
+      lockGame(gameId);
+      markUnlocked(gameId, false);
+    },
+
+    enable: async (gameId, passphrase) => {
+      await enableGameEncryption(gameId, passphrase);
+      markUnlocked(gameId, true);
+    },
+
+    disable: async (gameId) => {
+      await disableGameEncryption(gameId);
+      markUnlocked(gameId, false);
+    },
+  };
+});
@@ -0,0 +1,162 @@
+/**
+ * History store: app-wide undo/redo stacks of committed repository changes.
+ * Each entry is one change set (one transaction), so cascading operations
+ * undo and redo as a single step. Entries whose rows were since changed from
+ * elsewhere (another tab, sync, a restore) are dropped, since replaying them
+ * would overwrite those changes.
+ */
+
+import { create } from 'zustand';
+import type { ChangeRecord, ChangeSet } from '../lib/changes';
+import { applyChangeSet } from '../lib/history';
+
+/** Maximum number of undo steps kept. Oldest steps are dropped first. */
+export const MAX_HISTORY_STEPS = 100;
+
+/**
+ * Returns an identifier for a changed row, unique across tables.
+ *
+ * @param change - Row change.
+ * @returns Table and key as one string.
+ */
+function getRowId(change: ChangeRecord): string {
+  return JSON.stringify([change.table, change.key]);
+}
+
+/**
+ * Returns the message shown when an undo or redo fails.
+ *
+ * @param direction - The step that failed.
+ * @param err - The error.
+ * @returns The message.
+ */
+function getApplyErrorMessage(
+  direction: 'undo' | 'redo',
+  err: unknown
+): string {
+  const reason = err instanceof Error ? err.message : 'Unknown error.';
+  return `Could not ${direction}: ${reason}`;
+}
+
+/**
+ * Internal state shape for the history store.
+ */
+interface HistoryState {
+  /** Change sets that can be undone, oldest first. */
+  past: ChangeSet[];
+
+  /** Change sets that can be redone, most recently undone last. */
+  future: ChangeSet[];
+
+  /** True while an undo or redo is being written. */
+  isApplying: boolean;
+
+  /** Error message of the latest undo or redo, or null when it succeeded. */
+  lastError: string | null;
+
+  /**
+   * Records a new user change set. Clears the redo stack.
+   *
+   * @param changeSet - Committed change set to record.
+   */
+  record: (changeSet: ChangeSet) => void;
+
+  /**
+   * Drops the undo and redo steps that touched a row changed by a change set
+   * from elsewhere (another tab, sync, maintenance).
+   *
+   * @param changeSet - Committed non-local change set.
+   */
+  invalidate: (changeSet: ChangeSet) => void;
+
+  /**
+   * Reverts the most recent change set, if any. Errors are kept in lastError.
+   *
+   * @returns A promise that resolves when the undo is written or has failed.
+   */
+  undo: () => Promise<void>;
+
+  /**
+   * Reapplies the most recently undone change set, if any. Errors are kept in
+   * lastError.
+   *
+   * @returns A promise that resolves when the redo is written or has failed.
+   */
+  redo: () => Promise<void>;
+
+  /**
+   * Drops all undo and redo steps (e.g. after purging the database).
+   */
+  clear: () => void;
+}
+
+/**
+ * Zustand store for undo/redo history.
+ * Fed by useHistoryRecording; driven by the undo/redo toolbar and shortcuts.
+ */
+export const useHistoryStore = create<HistoryState>((set, get) => ({
+  past: [],
+  future: [],
+  isApplying: false,
+  lastError: null,
+
+  record: (changeSet) => {
+    set((state) => ({
+      past: [...state.past, changeSet].slice(-MAX_HISTORY_STEPS),
+      future: [],
+    }));
+  },
+
+  invalidate: (changeSet) => {
+    const changedRows = new Set(changeSet.changes.map(getRowId));
+    const isUntouched = (entry: ChangeSet) =>
+      !entry.changes.some((change) => changedRows.has(getRowId(change)));
+    set((state) => ({
+      past: state.past.filter(isUntouched),
+      future: state.future.filter(isUntouched),
+    }));
+  },
+
+  undo: async () => {
+    const { past, isApplying } = get();
+    const changeSet = past[past.length - 1];
+    if (!changeSet || isApplying) return;
+    set({ isApplying: true });
+    try {
+      await applyChangeSet(changeSet, 'undo');
+      // Filtered rather than sliced: invalidate may have run meanwhile.
+      set((state) => ({
+        past: state.past.filter((entry) => entry !== changeSet),
+        future: [...state.future, changeSet],
+        lastError: null,
+      }));
+    } catch (err) {
+      set({ lastError: getApplyErrorMessage('undo', err) });
+    } finally {
+      set({ isApplying: false });
+    }
+  },
+
+  redo: async () => {
+    const { future, isApplying } = get();
+    const changeSet = future[future.length - 1];
+    if (!changeSet || isApplying) return;
+    set({ isApplying: true });
+    try {
+      await applyChangeSet(changeSet, 'redo');
+      set((state) => ({
+        past: [...state.past, changeSet],
+        future: state.future.filter((entry) => entry !== changeSet),
+        lastError: null,
+      }));
+    } catch (err) {
+      set({ lastError: getApplyErrorMessage('redo', err) });
+    } finally {
+      set({ isApplying: false });
+    }
+  },
+
+  clear: () => {
+    set({ past: [], future: [], lastError: null });
+  },
+}));
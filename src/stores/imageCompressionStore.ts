@@ -0,0 +1,66 @@
+/**
+ * Image compression store: the compression options applied to uploaded map
+ * images and used as defaults by the bulk re-compress tool. Persisted in
+ * localStorage so the choice survives reloads.
+ */
+
+import { create } from 'zustand';
+import {
+  DEFAULT_IMAGE_COMPRESSION_OPTIONS,
+  type ImageCompressionOptions,
+} from '../lib/images';
+
+/** Storage key for the persisted compression options. */
+export const STORAGE_KEY_IMAGE_COMPRESSION = 'questloom-image-compression';
+
+/**
+ * Reads the stored options, falling back to the defaults for missing or
+ * invalid values.
+ *
+ * @returns Compression options.
+ */
+function getStoredOptions(): ImageCompressionOptions {
+  if (typeof window === 'undefined') return DEFAULT_IMAGE_COMPRESSION_OPTIONS;
+  try {
+    const stored = JSON.parse(
+      localStorage.getItem(STORAGE_KEY_IMAGE_COMPRESSION) ?? 'null'
+    ) as Partial<ImageCompressionOptions> | null;
+    return { ...DEFAULT_IMAGE_COMPRESSION_OPTIONS, ...stored };
+  } catch {
+    return DEFAULT_IMAGE_COMPRESSION_OPTIONS;
+  }
+}
+
+/**
+ * Internal state shape for the image compression store.
+ */
+interface ImageCompressionState {
+  /** Current compression options. */
+  options: ImageCompressionOptions;
+
+  /**
+   * Updates some options and persists the result.
+   *
+   * @param changes - Options to change.
+   */
+  setOptions: (changes: Partial<ImageCompressionOptions>) => void;
+}
+
+/**
+ * Image compression store hook.
+ */
+export const useImageCompressionStore = create<ImageCompressionState>(
+  (set, get) => ({
+    options: getStoredOptions(),
+    setOptions: (changes) => {
+      const options = { ...get().options, ...changes };
+      if (typeof window !== 'undefined') {
+        localStorage.setItem(
+          STORAGE_KEY_IMAGE_COMPRESSION,
+          JSON.stringify(options)
+        );
+      }
+      set({ options });
+    },
+  })
+);
@@ -0,0 +1,106 @@
+/**
+ * Sync store: the sync server settings (persisted in localStorage) and the
+ * status of the latest sync run in this tab.
+ */
+
+import { create } from 'zustand';
+import { syncWithServer, type SyncResult } from '../lib/sync';
+
+/** Storage key for the persisted sync settings. */
+export const STORAGE_KEY_SYNC = 'questloom-sync';
+
+/**
+ * Persisted sync settings.
+ */
+interface SyncSettings {
+  /** Sync server base URL; empty when sync is off. */
+  serverUrl: string;
+
+  /** Whether the app syncs automatically in the background. */
+  isAutoSyncEnabled: boolean;
+}
+
+/** Settings used when nothing is stored. */
+const DEFAULT_SYNC_SETTINGS: SyncSettings = {
+  serverUrl: '',
+  isAutoSyncEnabled: true,
+};
+
+/**
+ * Reads the stored settings, falling back to the defaults for missing or
+ * invalid values.
+ *
+ * @returns Sync settings.
+ */
+function getStoredSettings(): SyncSettings {
+  if (typeof window === 'undefined') return DEFAULT_SYNC_SETTINGS;
+  try {
+    const stored = JSON.parse(
+      localStorage.getItem(STORAGE_KEY_SYNC) ?? 'null'
+    ) as Partial<SyncSettings> | null;
+    return { ...DEFAULT_SYNC_SETTINGS, ...stored };
+  } catch {
+    return DEFAULT_SYNC_SETTINGS;
+  }
+}
+
+/**
+ * Internal state shape for the sync store.
+ */
+interface SyncStoreState extends SyncSettings {
+  /** True while a sync is running in this tab. */
+  isSyncing: boolean;
+
+  /** Error message of the latest sync, or null when it succeeded. */
+  lastError: string | null;
+
+  /** Result of the latest successful sync in this tab, or null. */
+  lastResult: SyncResult | null;
+
+  /**
+   * Updates some settings and persists the result.
+   *
+   * @param changes - Settings to change.
+   */
+  setSettings: (changes: Partial<SyncSettings>) => void;
+
+  /**
+   * Syncs with the configured server now (no-op without a server or while a
+   * sync is running). Errors are kept in lastError.
+   */
+  syncNow: () => Promise<void>;
+}
+
+/**
+ * Sync store hook.
+ */
+export const useSyncStore = create<SyncStoreState>((set, get) => ({
+  ...getStoredSettings(),
+  isSyncing: false,
+  lastError: null,
+  lastResult: null,
+  setSettings: (changes) => {
+    const { serverUrl, isAutoSyncEnabled } = { ...get(), ...changes };
+    const settings: SyncSettings = {
+      serverUrl: serverUrl.trim(),
+      isAutoSyncEnabled,
+    };
+    if (typeof window !== 'undefined') {
+      localStorage.setItem(STORAGE_KEY_SYNC, JSON.stringify(settings));
+    }
+    set(settings);
+  },
+  syncNow: async () => {
+    const { serverUrl, isSyncing } = get();
+    if (!serverUrl || isSyncing) return;
+    set({ isSyncing: true });
+    try {
+      const lastResult = await syncWithServer(serverUrl);
+      set({ lastResult, lastError: null });
+    } catch (err) {
+      set({ lastError: err instanceof Error ? err.message : 'Sync failed.' });
+    } finally {
+      set({ isSyncing: false });
+    }
+  },
+}));
@@ -0,0 +1,19 @@
+/**
+ * Kind of event recorded in a playthrough's activity log.
+ */
+export enum ActivityKind {
+  /** A quest, insight, item, person, or path status changed. */
+  STATUS_CHANGE = 0,
+
+  /** A quest objective was marked complete or incomplete. */
+  OBJECTIVE_CHANGE = 1,
+
+  /** The playthrough's current position changed. */
+  POSITION_CHANGE = 2,
+
+  /** A person, place, or map was marked discovered or undiscovered. */
+  DISCOVERY_CHANGE = 3,
+
+  /** A playthrough-scoped thread was created. */
+  THREAD_CREATED = 4,
+}
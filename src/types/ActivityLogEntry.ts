@@ -0,0 +1,45 @@
+import type { ActivityKind } from './ActivityKind';
+import type { EntityType } from './EntityType';
+import type { PlaythroughId } from './ids';
+
+/**
+ * A value before or after a logged change: a status enum value, an objective
+ * completion flag, a discovery flag, a place ID, or null when there was none.
+ */
+export type ActivityValue = number | boolean | string | null;
+
+/**
+ * One timestamped event in a playthrough's activity log (playthrough-scoped).
+ * Records how the run unfolded; progress tables only hold the current state.
+ */
+export interface ActivityLogEntry {
+  /** Unique identifier. */
+  id: string;
+
+  /** ID of the playthrough this event belongs to. */
+  playthroughId: PlaythroughId;
+
+  /** Kind of event. */
+  kind: ActivityKind;
+
+  /** Type of the entity the event concerns, or null when none. */
+  entityType: EntityType | null;
+
+  /**
+   * Typed ID of the entity the event concerns (for position changes, the new
+   * place; for thread creation, the thread), or null when none.
+   */
+  entityId: string | null;
+
+  /** For OBJECTIVE_CHANGE: 0-based index of the objective. */
+  objectiveIndex?: number;
+
+  /** Value before the change. */
+  previousValue: ActivityValue;
+
+  /** Value after the change. */
+  newValue: ActivityValue;
+
+  /** When the event happened (ISO 8601). */
+  timestamp: string;
+}
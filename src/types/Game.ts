@@ -1,3 +1,4 @@
+import type { GameEncryption } from './GameEncryption';
 import type { GameId } from './ids';
 
 /**
@@ -8,6 +9,7 @@ import type { GameId } from './ids';
  * @property name - Game/session name
  * @property createdAt - Creation timestamp (ISO 8601)
  * @property updatedAt - Last update timestamp (ISO 8601)
+ * @property encryption - Passphrase encryption settings, when notes are encrypted
  */
 export interface Game {
   /** Unique identifier. */
@@ -18,4 +20,6 @@ export interface Game {
   createdAt: string;
   /** Last update timestamp (ISO 8601). */
   updatedAt: string;
+  /** Passphrase encryption settings, when notes are encrypted. */
+  encryption?: GameEncryption;
 }
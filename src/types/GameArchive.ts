@@ -0,0 +1,101 @@
+import type { MapId } from './ids';
+import type { Game } from './Game';
+import type { Quest } from './Quest';
+import type { Insight } from './Insight';
+import type { Item } from './Item';
+import type { Person } from './Person';
+import type { Place } from './Place';
+import type { Path } from './Path';
+import type { Map } from './Map';
+import type { MapMarker } from './MapMarker';
+import type { Thread } from './Thread';
+
+/**
+ * Format marker stored in every game archive; used to reject unrelated JSON files.
+ */
+export const GAME_ARCHIVE_FORMAT = 'questloom-game';
+
+/**
+ * Current game archive schema version. Bump when the archive shape changes
+ * incompatibly and teach the importer to read older versions.
+ */
+export const GAME_ARCHIVE_VERSION = 1;
+
+/**
+ * File extension used when downloading a game archive.
+ */
+export const GAME_ARCHIVE_FILE_EXTENSION = '.questloom';
+
+/**
+ * Uploaded map image carried inside a game archive.
+ * The binary is stored as base64 so the archive stays plain JSON.
+ *
+ * @property id - Blob ID (referenced by Map.imageBlobId)
+ * @property mapId - Map the image belongs to
+ * @property mimeType - MIME type of the original blob (e.g. image/png)
+ * @property data - Base64-encoded image bytes
+ * @property createdAt - Creation timestamp (ISO 8601)
+ */
+export interface GameArchiveImage {
+  /** Blob ID (referenced by Map.imageBlobId). */
+  id: string;
+  /** Map the image belongs to. */
+  mapId: MapId;
+  /** MIME type of the original blob (e.g. image/png). */
+  mimeType: string;
+  /** Base64-encoded image bytes. */
+  data: string;
+  /** Creation timestamp (ISO 8601). */
+  createdAt: string;
+}
+
+/**
+ * Portable, versioned snapshot of a game and all of its game-scoped data.
+ * Contains intrinsic data only: game-level threads and shared map markers are
+ * included; playthroughs, progress, and playthrough-scoped rows are not.
+ *
+ * @property format - Always GAME_ARCHIVE_FORMAT
+ * @property version - Archive schema version (GAME_ARCHIVE_VERSION at export time)
+ * @property exportedAt - Export timestamp (ISO 8601)
+ * @property game - The exported game row
+ * @property quests - Quests of the game
+ * @property insights - Insights of the game
+ * @property items - Items of the game
+ * @property persons - People of the game
+ * @property places - Places of the game
+ * @property paths - Paths of the game
+ * @property maps - Maps of the game
+ * @property threads - Game-level threads (no playthroughId)
+ * @property mapMarkers - Game-level map markers (no playthroughId)
+ * @property mapImages - Uploaded map images referenced by maps
+ */
+export interface GameArchive {
+  /** Always GAME_ARCHIVE_FORMAT. */
+  format: typeof GAME_ARCHIVE_FORMAT;
+  /** Archive schema version (GAME_ARCHIVE_VERSION at export time). */
+  version: number;
+  /** Export timestamp (ISO 8601). */
+  exportedAt: string;
+  /** The exported game row. */
+  game: Game;
+  /** Quests of the game. */
+  quests: Quest[];
+  /** Insights of the game. */
+  insights: Insight[];
+  /** Items of the game. */
+  items: Item[];
+  /** People of the game. */
+  persons: Person[];
+  /** Places of the game. */
+  places: Place[];
+  /** Paths of the game. */
+  paths: Path[];
+  /** Maps of the game. */
+  maps: Map[];
+  /** Game-level threads (no playthroughId). */
+  threads: Thread[];
+  /** Game-level map markers (no playthroughId). */
+  mapMarkers: MapMarker[];
+  /** Uploaded map images referenced by maps. */
+  mapImages: GameArchiveImage[];
+}
@@ -0,0 +1,14 @@
+/**
+ * Passphrase encryption settings of a game. The passphrase itself is never
+ * stored; its key is derived from it with these parameters when unlocking.
+ */
+export interface GameEncryption {
+  /** Random PBKDF2 salt (base64). */
+  salt: string;
+
+  /** PBKDF2 iteration count. */
+  iterations: number;
+
+  /** A known text encrypted with the key, used to check a passphrase. */
+  check: string;
+}
@@ -33,6 +33,15 @@ export enum MainViewType {
 
   /** Threads view */
   THREADS = 9,
+
+  /** Activity log view */
+  ACTIVITY = 10,
+
+  /** Playthrough comparison view */
+  COMPARE = 11,
+
+  /** Requirement validation report */
+  VALIDATION = 12,
 }
 
 /**
@@ -49,6 +58,9 @@ export const MAIN_VIEW_TYPE_LABELS: Record<MainViewType, string> = {
   [MainViewType.PEOPLE]: 'People',
   [MainViewType.INSIGHTS]: 'Insights',
   [MainViewType.THREADS]: 'Threads',
+  [MainViewType.ACTIVITY]: 'Activity',
+  [MainViewType.COMPARE]: 'Compare',
+  [MainViewType.VALIDATION]: 'Validation',
 };
 
 /**
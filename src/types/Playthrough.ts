@@ -20,6 +20,12 @@ export interface Playthrough {
    */
   currentPositionPlaceId: PlaceId | null;
 
+  /**
+   * ID of the playthrough this one was forked from, when it was created by
+   * forking. May point at a playthrough that has since been deleted.
+   */
+  parentPlaythroughId?: PlaythroughId | null;
+
   /** Creation timestamp (ISO 8601). */
   createdAt: string;
 
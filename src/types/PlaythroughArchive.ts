@@ -0,0 +1,40 @@
+import type { PlaythroughSnapshot } from './PlaythroughSnapshot';
+
+/**
+ * Format marker stored in every playthrough archive; used to reject unrelated files.
+ */
+export const PLAYTHROUGH_ARCHIVE_FORMAT = 'questloom-playthrough';
+
+/**
+ * Current playthrough archive schema version.
+ */
+export const PLAYTHROUGH_ARCHIVE_VERSION = 1;
+
+/**
+ * File extension used when downloading a playthrough archive.
+ */
+export const PLAYTHROUGH_ARCHIVE_FILE_EXTENSION = '.questloom-playthrough';
+
+/**
+ * Portable, versioned export of one playthrough's progress.
+ * Holds only playthrough-scoped data; it is imported onto a copy of the same
+ * game and matched to its entities by ID.
+ *
+ * @property format - Always PLAYTHROUGH_ARCHIVE_FORMAT
+ * @property version - Archive schema version (PLAYTHROUGH_ARCHIVE_VERSION at export time)
+ * @property exportedAt - Export timestamp (ISO 8601)
+ * @property encryptionSalt - Encryption salt of the source game, or null when its notes are not encrypted; absent in older archives
+ */
+export interface PlaythroughArchive extends PlaythroughSnapshot {
+  /** Always PLAYTHROUGH_ARCHIVE_FORMAT. */
+  format: typeof PLAYTHROUGH_ARCHIVE_FORMAT;
+  /** Archive schema version (PLAYTHROUGH_ARCHIVE_VERSION at export time). */
+  version: number;
+  /** Export timestamp (ISO 8601). */
+  exportedAt: string;
+  /**
+   * Encryption salt of the source game, or null when its notes are not
+   * encrypted; absent in older archives.
+   */
+  encryptionSalt?: string | null;
+}
@@ -0,0 +1,24 @@
+import type { PlaythroughId } from './ids';
+import type { PlaythroughSnapshot } from './PlaythroughSnapshot';
+
+/**
+ * Named save slot of a playthrough (playthrough-scoped).
+ * Holds a full snapshot of the playthrough's data at the time it was saved,
+ * so the playthrough can later be restored to that point.
+ */
+export interface PlaythroughCheckpoint {
+  /** Unique identifier. */
+  id: string;
+
+  /** ID of the playthrough this checkpoint was saved from. */
+  playthroughId: PlaythroughId;
+
+  /** User-facing checkpoint name. */
+  name: string;
+
+  /** Playthrough data captured when the checkpoint was saved. */
+  snapshot: PlaythroughSnapshot;
+
+  /** Creation timestamp (ISO 8601). */
+  createdAt: string;
+}
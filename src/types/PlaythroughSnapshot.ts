@@ -0,0 +1,44 @@
+import type { EntityDiscovery } from './EntityDiscovery';
+import type { InsightProgress } from './InsightProgress';
+import type { ItemState } from './ItemState';
+import type { MapMarker } from './MapMarker';
+import type { PathProgress } from './PathProgress';
+import type { PersonProgress } from './PersonProgress';
+import type { Playthrough } from './Playthrough';
+import type { QuestProgress } from './QuestProgress';
+import type { Thread } from './Thread';
+
+/**
+ * All playthrough-scoped data of one playthrough at a point in time.
+ * References game entities by ID; contains no game (intrinsic) data.
+ *
+ * @property playthrough - The playthrough row (name, current position)
+ * @property questProgress - Quest progress rows
+ * @property insightProgress - Insight progress rows
+ * @property itemState - Item state rows
+ * @property personProgress - Person progress rows
+ * @property pathProgress - Path progress rows
+ * @property entityDiscovery - Discovery rows for people, places, and maps
+ * @property threads - Playthrough-scoped threads
+ * @property mapMarkers - Playthrough-scoped map markers
+ */
+export interface PlaythroughSnapshot {
+  /** The playthrough row (name, current position). */
+  playthrough: Playthrough;
+  /** Quest progress rows. */
+  questProgress: QuestProgress[];
+  /** Insight progress rows. */
+  insightProgress: InsightProgress[];
+  /** Item state rows. */
+  itemState: ItemState[];
+  /** Person progress rows. */
+  personProgress: PersonProgress[];
+  /** Path progress rows. */
+  pathProgress: PathProgress[];
+  /** Discovery rows for people, places, and maps. */
+  entityDiscovery: EntityDiscovery[];
+  /** Playthrough-scoped threads. */
+  threads: Thread[];
+  /** Playthrough-scoped map markers. */
+  mapMarkers: MapMarker[];
+}
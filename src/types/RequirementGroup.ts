@@ -0,0 +1,21 @@
+import type { RequirementGroupOperator } from './RequirementGroupOperator';
+
+/**
+ * Reference to a requirement group, stored on each requirement thread in the
+ * group. A group exists while at least one requirement belongs to it; nested
+ * groups are expressed by the chain of references on a thread.
+ *
+ * @property id - Group identifier, unique among the source entity's groups
+ * @property operator - How the group combines its members
+ * @property minSatisfied - For AtLeast: how many members must be satisfied (default 1)
+ */
+export interface RequirementGroupRef {
+  /** Group identifier, unique among the source entity's groups. */
+  id: string;
+
+  /** How the group combines its members. */
+  operator: RequirementGroupOperator;
+
+  /** For AtLeast: how many members must be satisfied (default 1). */
+  minSatisfied?: number;
+}
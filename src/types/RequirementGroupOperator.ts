@@ -0,0 +1,17 @@
+/**
+ * Numeric enum for how a requirement group combines its members.
+ * An entity's requirements not in any group form an implicit ALL_OF group.
+ */
+export enum RequirementGroupOperator {
+  /** Satisfied when every member is satisfied. */
+  ALL_OF = 0,
+
+  /** Satisfied when at least one member is satisfied. */
+  ANY_OF = 1,
+
+  /** Satisfied when no member is satisfied. */
+  NONE_OF = 2,
+
+  /** Satisfied when at least minSatisfied members are satisfied ("N of M"). */
+  AT_LEAST = 3,
+}
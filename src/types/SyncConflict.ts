@@ -0,0 +1,46 @@
+/**
+ * Which side's value was kept when a sync collision was resolved automatically:
+ * `local` (this device) or `remote` (the server).
+ */
+export type SyncConflictWinner = 'local' | 'remote';
+
+/**
+ * A collision found during sync: the same field (or the same row, when one side
+ * deleted it) was changed both here and on the server since the last sync.
+ * The later change was kept automatically; the record lets the user review it
+ * and switch to the other value.
+ */
+export interface SyncConflict {
+  /** Unique identifier. */
+  id: string;
+
+  /** Table of the affected row. */
+  table: string;
+
+  /** Primary key of the affected row. */
+  key: string;
+
+  /** Field that collided, or null when a deletion collided with an edit. */
+  field: string | null;
+
+  /**
+   * This device's value. For a row collision: the row's values when this
+   * device edited it, or undefined when this device deleted it.
+   */
+  localValue: unknown;
+
+  /** The server's value (for a row collision, as for localValue). */
+  remoteValue: unknown;
+
+  /** When this device made its change (ISO 8601). */
+  localModifiedAt: string;
+
+  /** When the server's change was made (ISO 8601). */
+  remoteModifiedAt: string;
+
+  /** Side whose value was kept. */
+  winner: SyncConflictWinner;
+
+  /** When the collision was detected (ISO 8601). */
+  detectedAt: string;
+}
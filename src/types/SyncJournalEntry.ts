@@ -0,0 +1,33 @@
+/**
+ * Change journal entry for one row of a synced table. Kept up to date on every
+ * local write, so the sync engine knows which rows and fields changed since
+ * they were last pushed, and when.
+ */
+export interface SyncJournalEntry {
+  /** Table the row belongs to. */
+  table: string;
+
+  /** Primary key of the row. */
+  key: string;
+
+  /** Local change counter for the row; incremented on every write. */
+  version: number;
+
+  /** Time of the row's latest change (ISO 8601). */
+  modifiedAt: string;
+
+  /** Time each field last changed (ISO 8601), by field name. */
+  fieldModifiedAt: Record<string, string>;
+
+  /** True when the row has been deleted (a tombstone until pushed). */
+  deleted: boolean;
+
+  /** 1 while the row has local changes that have not been pushed, else 0 (indexable). */
+  pending: 0 | 1;
+
+  /** Fields changed locally since the last push. */
+  pendingFields: string[];
+
+  /** Server revision of the row when it was last synced; null if never synced. */
+  serverRevision: number | null;
+}
@@ -0,0 +1,13 @@
+/**
+ * Sync progress with one server: how far this device has pulled its changes.
+ */
+export interface SyncState {
+  /** Server base URL (primary key). */
+  serverUrl: string;
+
+  /** Server revision pulled up to; changes after it are pulled next. */
+  cursor: number;
+
+  /** Completion time of the last successful sync (ISO 8601), or null before the first one completes. */
+  lastSyncedAt: string | null;
+}
@@ -1,4 +1,5 @@
 import type { GameId, PlaythroughId, ThreadId } from './ids';
+import type { RequirementGroupRef } from './RequirementGroup';
 import type { ThreadSubtype } from './ThreadSubtype';
 
 /**
@@ -18,6 +19,7 @@ import type { ThreadSubtype } from './ThreadSubtype';
  * @property createdAt - Creation timestamp (ISO 8601)
  * @property requirementAllowedStatuses - For Requires and ObjectiveRequires: allowed status enum values for target. If absent, default for target type is used.
  * @property objectiveIndex - For ObjectiveRequires: 0-based index of the quest objective this dependency belongs to.
+ * @property requirementGroups - For Requires: groups containing this requirement, outermost first. If absent or empty, the requirement is in the entity's top-level all-of group.
  */
 export interface Thread {
   /** Unique identifier. */
@@ -54,4 +56,10 @@ export interface Thread {
    * For ObjectiveRequires: 0-based index of the quest objective (of the source quest) this dependency belongs to.
    */
   objectiveIndex?: number;
+
+  /**
+   * For Requires: groups containing this requirement, outermost first. If absent or empty,
+   * the requirement is in the entity's top-level all-of group.
+   */
+  requirementGroups?: RequirementGroupRef[];
 }
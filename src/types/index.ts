@@ -11,9 +11,11 @@ export * from './PersonStatus';
 export * from './EntityType';
 export * from './MainViewType';
 export * from './ThreadSubtype';
+export * from './RequirementGroupOperator';
 export * from './DiscoveryEntityType';
 export type { QuestObjective } from './QuestObjective';
 export type { Game } from './Game';
+export type { GameEncryption } from './GameEncryption';
 export type { Playthrough } from './Playthrough';
 export type { Quest } from './Quest';
 export type { Insight } from './Insight';
@@ -26,8 +28,18 @@ export * from './PathStatus';
 export type { Map } from './Map';
 export type { MapMarker } from './MapMarker';
 export type { Thread } from './Thread';
+export type { RequirementGroupRef } from './RequirementGroup';
 export type { QuestProgress } from './QuestProgress';
 export type { InsightProgress } from './InsightProgress';
 export type { ItemState } from './ItemState';
 export type { PersonProgress } from './PersonProgress';
 export type { EntityDiscovery } from './EntityDiscovery';
+export * from './GameArchive';
+export type { PlaythroughSnapshot } from './PlaythroughSnapshot';
+export * from './PlaythroughArchive';
+export * from './ActivityKind';
+export type { ActivityLogEntry, ActivityValue } from './ActivityLogEntry';
+export type { PlaythroughCheckpoint } from './PlaythroughCheckpoint';
+export type { SyncJournalEntry } from './SyncJournalEntry';
+export type { SyncConflict, SyncConflictWinner } from './SyncConflict';
+export type { SyncState } from './SyncState';
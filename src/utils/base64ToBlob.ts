@@ -0,0 +1,17 @@
+/**
+ * Decodes a base64 string (no data-URL prefix) into a Blob.
+ * Inverse of blobToBase64.
+ *
+ * @param data - Base64-encoded bytes.
+ * @param mimeType - MIME type for the resulting blob (e.g. image/png).
+ * @returns A Blob containing the decoded bytes.
+ * @throws Error when data is not valid base64.
+ */
+export function base64ToBlob(data: string, mimeType: string): Blob {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i += 1) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+}
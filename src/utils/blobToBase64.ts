@@ -0,0 +1,17 @@
+/**
+ * Encodes a Blob's bytes as a base64 string (no data-URL prefix).
+ * Used to embed binary data such as uploaded map images in JSON archives.
+ *
+ * @param blob - The blob to encode.
+ * @returns Base64 representation of the blob's bytes.
+ */
+export async function blobToBase64(blob: Blob): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  // Encode in chunks so large images do not overflow the argument limit of fromCharCode.
+  const chunkSize = 0x8000;
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
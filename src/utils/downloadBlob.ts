@@ -0,0 +1,17 @@
+/**
+ * Triggers a browser download for a blob with the given file name.
+ * Creates a temporary object URL and revokes it after the click.
+ *
+ * @param blob - The content to download.
+ * @param fileName - Suggested file name for the download.
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = fileName;
+  document.body.appendChild(anchor);
+  anchor.click();
+  anchor.remove();
+  URL.revokeObjectURL(url);
+}
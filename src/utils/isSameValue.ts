@@ -0,0 +1,41 @@
+/**
+ * Compares two stored values structurally: primitives by value, arrays and
+ * plain objects field by field. Other objects (e.g. Blobs) are equal only when
+ * they are the same instance.
+ *
+ * @param a - First value.
+ * @param b - Second value.
+ * @returns True when the values are equal.
+ */
+export function isSameValue(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (
+    typeof a !== 'object' ||
+    typeof b !== 'object' ||
+    a === null ||
+    b === null
+  ) {
+    return false;
+  }
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) &&
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((item, i) => isSameValue(item, b[i]))
+    );
+  }
+  if (
+    Object.getPrototypeOf(a) !== Object.prototype ||
+    Object.getPrototypeOf(b) !== Object.prototype
+  ) {
+    return false;
+  }
+  const recordA = a as Record<string, unknown>;
+  const recordB = b as Record<string, unknown>;
+  const keys = new Set([...Object.keys(recordA), ...Object.keys(recordB)]);
+  for (const key of keys) {
+    if (!isSameValue(recordA[key], recordB[key])) return false;
+  }
+  return true;
+}
@@ -0,0 +1,29 @@
+import type { RequirementGroupRef } from '../types/RequirementGroup';
+import { RequirementGroupOperator } from '../types/RequirementGroupOperator';
+
+/** Display label for each requirement group operator. */
+export const REQUIREMENT_GROUP_OPERATOR_LABELS: Record<
+  RequirementGroupOperator,
+  string
+> = {
+  [RequirementGroupOperator.ALL_OF]: 'All of',
+  [RequirementGroupOperator.ANY_OF]: 'Any of',
+  [RequirementGroupOperator.NONE_OF]: 'None of',
+  [RequirementGroupOperator.AT_LEAST]: 'At least N of',
+};
+
+/**
+ * Returns the display label of a requirement group, with the threshold filled
+ * in for at-least groups (e.g. "At least 3 of").
+ *
+ * @param group - The group's operator and threshold.
+ * @returns The label.
+ */
+export function getRequirementGroupLabel(
+  group: Pick<RequirementGroupRef, 'operator' | 'minSatisfied'>
+): string {
+  if (group.operator === RequirementGroupOperator.AT_LEAST) {
+    return `At least ${group.minSatisfied ?? 1} of`;
+  }
+  return REQUIREMENT_GROUP_OPERATOR_LABELS[group.operator];
+}
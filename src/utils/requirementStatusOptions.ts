@@ -1,6 +1,7 @@
 import { EntityType } from '../types/EntityType';
 import { InsightStatus } from '../types/InsightStatus';
 import { ItemStatus } from '../types/ItemStatus';
+import { PathStatus } from '../types/PathStatus';
 import { PersonStatus } from '../types/PersonStatus';
 import { QuestStatus } from '../types/QuestStatus';
 
@@ -41,3 +42,28 @@ export const STATUS_OPTIONS: Record<EntityType, Record<number, string>> = {
   [EntityType.THREAD]: {},
   [EntityType.PATH]: {},
 };
+
+/**
+ * Path status labels. Kept apart from STATUS_OPTIONS because paths are not
+ * requirement targets.
+ */
+export const PATH_STATUS_LABELS: Record<number, string> = {
+  [PathStatus.RESTRICTED]: 'Restricted',
+  [PathStatus.OPENED]: 'Opened',
+  [PathStatus.BLOCKED]: 'Blocked',
+};
+
+/**
+ * Returns the display label of a progress status value for an entity type.
+ *
+ * @param entityType - Entity type the status belongs to.
+ * @param status - Status value.
+ * @returns The label, or the raw value when the type has no label for it.
+ */
+export function getStatusLabel(entityType: EntityType, status: number): string {
+  const labels =
+    entityType === EntityType.PATH
+      ? PATH_STATUS_LABELS
+      : STATUS_OPTIONS[entityType];
+  return labels[status] ?? String(status);
+}
@@ -1 +1,12 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Data source: `local` (IndexedDB, default), `remote`, or `memory` (nothing saved). */
+  readonly VITE_QUESTLOOM_DATA_SOURCE?: string;
+  /** Base URL of a QuestLoom server; when set, data is stored there instead of IndexedDB. */
+  readonly VITE_QUESTLOOM_SERVER_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
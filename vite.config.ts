@@ -9,4 +9,9 @@ export default defineConfig({
       '@': path.resolve(__dirname, './src'),
     },
   },
+  // The reference server's in-memory IndexedDB is a dev dependency; bundle it
+  // into the server build, with Dexie so it is installed before Dexie loads.
+  ssr: {
+    noExternal: ['fake-indexeddb', 'dexie'],
+  },
 })